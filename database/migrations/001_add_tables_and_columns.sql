@@ -0,0 +1,239 @@
+-- MOOCChain API 数据库迁移 001
+-- 新增会话、签名、观看会话、课程章节、前置条件、选课、批量颁发证书等表，以及现有表新增的字段和索引
+-- 适用于 MySQL 8.0，在现有库上按顺序执行一次
+--
+-- 注意：添加唯一索引前需确认现有数据没有重复，否则 ALTER 会失败：
+--   SELECT transactionHash, COUNT(*) FROM tokenTransaction WHERE transactionHash IS NOT NULL GROUP BY transactionHash HAVING COUNT(*) > 1;
+
+-- ---------------------------------------------------------------------------
+-- 现有表新增字段
+-- ---------------------------------------------------------------------------
+
+-- 用户：账号状态和 token 版本（角色/密码/状态变更时递增，旧 access token 立即失效）
+ALTER TABLE user
+  ADD COLUMN status TINYINT NOT NULL DEFAULT 0 COMMENT '账号状态（0:正常，1:禁用）',
+  ADD COLUMN tokenVersion INT NOT NULL DEFAULT 0 COMMENT 'token 版本';
+
+-- 课程：容量和选课时间
+ALTER TABLE course
+  ADD COLUMN capacity INT NULL DEFAULT NULL COMMENT '课程容量（null 表示不限）',
+  ADD COLUMN enrollmentStartTime DATETIME NULL DEFAULT NULL COMMENT '选课开始时间',
+  ADD COLUMN enrollmentEndTime DATETIME NULL DEFAULT NULL COMMENT '选课截止时间';
+
+-- 资源：NFT 元数据、音视频时长、章节和排序
+ALTER TABLE resource
+  ADD COLUMN metadataIpfsHash VARCHAR(128) NULL DEFAULT NULL COMMENT 'NFT 元数据 JSON 的 IPFS 哈希',
+  ADD COLUMN duration INT NULL DEFAULT NULL COMMENT '音视频时长（秒）',
+  ADD COLUMN chapterId INT NULL DEFAULT NULL COMMENT '所属章节ID（未分章节为 null）',
+  ADD COLUMN sortOrder INT NOT NULL DEFAULT 0 COMMENT '章节内排序',
+  ADD INDEX idx_resource_chapter (chapterId);
+
+-- 学习记录：已观看区间、续播位置和异常标记
+ALTER TABLE learningRecord
+  ADD COLUMN watchedSegments JSON NULL DEFAULT NULL COMMENT '已观看区间（合并后的覆盖图）',
+  ADD COLUMN lastPosition DECIMAL(10, 3) NULL DEFAULT NULL COMMENT '最近一次上报的播放位置（秒）',
+  ADD COLUMN flagStatus TINYINT NOT NULL DEFAULT 0 COMMENT '异常标记状态（0:正常，1:待教师审核，2:审核通过，3:审核确认作弊）',
+  ADD COLUMN flagReason VARCHAR(255) NULL DEFAULT NULL COMMENT '最近一次异常原因',
+  ADD COLUMN flaggedAt DATETIME NULL DEFAULT NULL COMMENT '最近一次标记时间',
+  ADD COLUMN flagReviewedBy INT NULL DEFAULT NULL COMMENT '审核教师用户ID',
+  ADD COLUMN flagReviewedAt DATETIME NULL DEFAULT NULL COMMENT '审核时间',
+  ADD COLUMN flagReviewNote VARCHAR(500) NULL DEFAULT NULL COMMENT '审核备注',
+  ADD INDEX idx_learning_record_flag (flagStatus);
+
+-- 代币交易：mint 流水线状态；已有记录均为已确认（status=2）
+ALTER TABLE tokenTransaction
+  ADD COLUMN status TINYINT NOT NULL DEFAULT 2 COMMENT '交易状态（0:待提交，1:已提交，2:已确认，3:失败）',
+  ADD COLUMN walletAddress VARCHAR(42) NULL DEFAULT NULL COMMENT '奖励接收地址 / 消费付款地址',
+  ADD COLUMN txNonce BIGINT NULL DEFAULT NULL COMMENT 'mint 交易 nonce',
+  ADD COLUMN rawTransaction TEXT NULL DEFAULT NULL COMMENT '已签名的 mint 交易',
+  ADD COLUMN previousHashes TEXT NULL DEFAULT NULL COMMENT '被替换的历史交易哈希（逗号分隔）',
+  ADD COLUMN attemptCount INT NOT NULL DEFAULT 0 COMMENT '提交/替换次数',
+  ADD COLUMN errorMessage VARCHAR(500) NULL DEFAULT NULL COMMENT '最近一次错误信息',
+  ADD COLUMN submittedAt DATETIME NULL DEFAULT NULL COMMENT '最近一次提交时间',
+  ADD COLUMN confirmedAt DATETIME NULL DEFAULT NULL COMMENT '确认时间',
+  ADD COLUMN updatedAt DATETIME NULL DEFAULT NULL COMMENT '更新时间',
+  -- 同一笔链上交易只能记录一次（postTokenTransaction 将冲突映射为重复记录）
+  ADD UNIQUE INDEX uk_token_transaction_hash (transactionHash),
+  ADD INDEX idx_token_transaction_claim (userId, transactionType, rewardType, relatedId),
+  ADD INDEX idx_token_transaction_status (transactionType, status);
+
+UPDATE tokenTransaction SET updatedAt = createdAt, confirmedAt = createdAt WHERE updatedAt IS NULL;
+
+-- 证书：PDF、验证码、托管铸造、撤销和补发
+ALTER TABLE certificate
+  ADD COLUMN pdfIpfsHash VARCHAR(128) NULL DEFAULT NULL COMMENT '证书 PDF 的 IPFS 哈希',
+  ADD COLUMN metadataIpfsHash VARCHAR(128) NULL DEFAULT NULL COMMENT '证书 NFT 元数据 JSON 的 IPFS 哈希',
+  ADD COLUMN verificationCode VARCHAR(32) NULL DEFAULT NULL COMMENT '证书验证码',
+  ADD COLUMN nftMintStatus TINYINT NULL DEFAULT NULL COMMENT '托管铸造状态（null:未托管铸造，0:待提交，1:已提交，2:已确认，3:失败）',
+  ADD COLUMN nftMintWalletAddress VARCHAR(42) NULL DEFAULT NULL COMMENT '托管铸造的接收钱包地址',
+  ADD COLUMN nftMintTransactionHash VARCHAR(66) NULL DEFAULT NULL COMMENT '托管铸造当前交易哈希',
+  ADD COLUMN nftMintTxNonce BIGINT NULL DEFAULT NULL COMMENT '托管铸造交易 nonce',
+  ADD COLUMN nftMintRawTransaction TEXT NULL DEFAULT NULL COMMENT '托管铸造已签名交易',
+  ADD COLUMN nftMintAttempts INT NOT NULL DEFAULT 0 COMMENT '托管铸造提交次数',
+  ADD COLUMN nftMintError VARCHAR(500) NULL DEFAULT NULL COMMENT '托管铸造最近一次错误信息',
+  ADD COLUMN nftMintSubmittedAt DATETIME NULL DEFAULT NULL COMMENT '托管铸造最近一次提交时间',
+  ADD COLUMN isRevoked TINYINT NOT NULL DEFAULT 0 COMMENT '是否已撤销（0:有效，1:已撤销）',
+  ADD COLUMN revokedReason VARCHAR(500) NULL DEFAULT NULL COMMENT '撤销原因',
+  ADD COLUMN revokedBy INT NULL DEFAULT NULL COMMENT '撤销人用户ID',
+  ADD COLUMN revokedAt DATETIME NULL DEFAULT NULL COMMENT '撤销时间',
+  ADD COLUMN revokeTransactionHash VARCHAR(66) NULL DEFAULT NULL COMMENT '撤销时销毁 NFT 的交易哈希',
+  ADD COLUMN nftBurnPending TINYINT NOT NULL DEFAULT 0 COMMENT '撤销时托管铸造已提交未确认，待确认后销毁 NFT（0:否，1:是）',
+  ADD COLUMN predecessorCertificateId INT NULL DEFAULT NULL COMMENT '被补发替代的原证书ID',
+  ADD UNIQUE INDEX uk_certificate_verification_code (verificationCode),
+  -- 同一原证书只能补发一次（postCertificate 将冲突映射为已补发）
+  ADD UNIQUE INDEX uk_certificate_predecessor (predecessorCertificateId),
+  ADD INDEX idx_certificate_student_course (studentId, courseId),
+  ADD INDEX idx_certificate_nft_mint_status (nftMintStatus),
+  ADD INDEX idx_certificate_nft_burn_pending (nftBurnPending);
+
+-- ---------------------------------------------------------------------------
+-- 新增表
+-- ---------------------------------------------------------------------------
+
+-- 用户登录会话（refresh token 家族）
+CREATE TABLE IF NOT EXISTS userSession (
+  sessionId INT NOT NULL AUTO_INCREMENT COMMENT '会话ID',
+  userId INT NOT NULL COMMENT '用户ID',
+  username VARCHAR(64) NULL DEFAULT NULL COMMENT '用户名',
+  familyId VARCHAR(64) NOT NULL COMMENT 'token 家族ID',
+  tokenHash CHAR(64) NOT NULL COMMENT '当前 refresh token 的 SHA-256 哈希',
+  userAgent VARCHAR(500) NULL DEFAULT NULL COMMENT '登录设备 User-Agent',
+  ipAddress VARCHAR(64) NULL DEFAULT NULL COMMENT '登录/最近使用 IP',
+  expiresAt DATETIME NOT NULL COMMENT '过期时间',
+  lastUsedAt DATETIME NOT NULL COMMENT '最近使用时间',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  PRIMARY KEY (sessionId),
+  UNIQUE INDEX uk_user_session_family (familyId),
+  INDEX idx_user_session_token (tokenHash),
+  INDEX idx_user_session_user (userId, expiresAt),
+  INDEX idx_user_session_expires (expiresAt)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='用户登录会话';
+
+-- 安全事件（refresh token 重放等）
+CREATE TABLE IF NOT EXISTS securityEvent (
+  eventId INT NOT NULL AUTO_INCREMENT COMMENT '事件ID',
+  userId INT NOT NULL COMMENT '用户ID',
+  eventType VARCHAR(64) NOT NULL COMMENT '事件类型',
+  familyId VARCHAR(64) NULL DEFAULT NULL COMMENT '关联的 token 家族ID',
+  userAgent VARCHAR(500) NULL DEFAULT NULL COMMENT '触发事件请求的 User-Agent',
+  ipAddress VARCHAR(64) NULL DEFAULT NULL COMMENT '触发事件请求的 IP',
+  detail VARCHAR(1000) NULL DEFAULT NULL COMMENT '事件详情',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  PRIMARY KEY (eventId),
+  INDEX idx_security_event_user (userId, createdAt),
+  INDEX idx_security_event_type (eventType, createdAt)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='安全事件';
+
+-- SIWE 登录/绑定/解绑 nonce（EIP-4361，一次性使用）
+CREATE TABLE IF NOT EXISTS siweNonce (
+  nonce VARCHAR(64) NOT NULL COMMENT 'nonce',
+  purpose VARCHAR(16) NOT NULL COMMENT '用途（login/bind/unbind）',
+  walletAddress VARCHAR(42) NOT NULL COMMENT 'EIP-55 校验和地址',
+  chainId INT NOT NULL COMMENT '链ID',
+  userId INT NULL DEFAULT NULL COMMENT 'bind/unbind 时发起请求的用户ID',
+  message TEXT NOT NULL COMMENT '服务端生成的待签名消息',
+  expiresAtMs BIGINT NOT NULL COMMENT '过期时间（毫秒时间戳）',
+  PRIMARY KEY (nonce),
+  INDEX idx_siwe_nonce_expires (expiresAtMs)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='SIWE nonce';
+
+-- 领取奖励的 EIP-712 签名挑战（每个用户/钱包/资源/奖励类型一条）
+CREATE TABLE IF NOT EXISTS claimRewardSign (
+  signKey VARCHAR(128) NOT NULL COMMENT 'userId:walletAddress:resourceId:rewardType',
+  userId INT NOT NULL COMMENT '用户ID',
+  walletAddress VARCHAR(42) NOT NULL COMMENT '钱包地址',
+  resourceId INT NOT NULL COMMENT '资源ID',
+  rewardType TINYINT NOT NULL COMMENT '奖励类型（0:学习完成，1:上传资源）',
+  chainId INT NOT NULL COMMENT '链ID',
+  amount VARCHAR(78) NOT NULL COMMENT '奖励数量（uint256 字符串）',
+  nonce VARCHAR(78) NOT NULL COMMENT 'nonce（uint256 字符串）',
+  deadline BIGINT NOT NULL COMMENT '截止时间（unix 秒）',
+  createdAtMs BIGINT NOT NULL COMMENT '创建时间（毫秒时间戳）',
+  PRIMARY KEY (signKey),
+  INDEX idx_claim_reward_sign_deadline (deadline)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='领取奖励签名挑战';
+
+-- 音视频观看会话
+CREATE TABLE IF NOT EXISTS watchSession (
+  sessionId INT NOT NULL AUTO_INCREMENT COMMENT '会话ID',
+  studentId INT NOT NULL COMMENT '学生用户ID',
+  resourceId INT NOT NULL COMMENT '资源ID',
+  status TINYINT NOT NULL DEFAULT 0 COMMENT '会话状态（0:进行中，1:已结束，2:已超时）',
+  heartbeatCount INT NOT NULL DEFAULT 0 COMMENT '已接受的心跳次数',
+  reportedTime INT NOT NULL DEFAULT 0 COMMENT '已计入的学习时长（秒）',
+  violationCount INT NOT NULL DEFAULT 0 COMMENT '被拒绝的异常心跳次数',
+  lastViolation VARCHAR(64) NULL DEFAULT NULL COMMENT '最近一次异常原因',
+  lastHeartbeatAt DATETIME(3) NOT NULL COMMENT '最近一次心跳时间',
+  startedAt DATETIME NOT NULL COMMENT '会话开始时间',
+  endedAt DATETIME NULL DEFAULT NULL COMMENT '会话结束时间',
+  ipAddress VARCHAR(64) NULL DEFAULT NULL COMMENT '客户端 IP',
+  userAgent VARCHAR(500) NULL DEFAULT NULL COMMENT '客户端 User-Agent',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  updatedAt DATETIME NOT NULL COMMENT '更新时间',
+  PRIMARY KEY (sessionId),
+  INDEX idx_watch_session_active (studentId, status, lastHeartbeatAt),
+  INDEX idx_watch_session_resource (resourceId)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='观看会话';
+
+-- 课程章节
+CREATE TABLE IF NOT EXISTS courseChapter (
+  chapterId INT NOT NULL AUTO_INCREMENT COMMENT '章节ID',
+  courseId INT NOT NULL COMMENT '课程ID',
+  title VARCHAR(255) NOT NULL COMMENT '章节标题',
+  description TEXT NULL DEFAULT NULL COMMENT '章节描述',
+  sortOrder INT NOT NULL DEFAULT 0 COMMENT '排序（升序）',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  updatedAt DATETIME NOT NULL COMMENT '更新时间',
+  PRIMARY KEY (chapterId),
+  INDEX idx_course_chapter_course (courseId, sortOrder)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='课程章节';
+
+-- 资源前置条件（学习 resourceId 前需先完成 requiredResourceId）
+CREATE TABLE IF NOT EXISTS resourcePrerequisite (
+  prerequisiteId INT NOT NULL AUTO_INCREMENT COMMENT '前置条件ID',
+  resourceId INT NOT NULL COMMENT '资源ID',
+  requiredResourceId INT NOT NULL COMMENT '需先完成的资源ID',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  PRIMARY KEY (prerequisiteId),
+  UNIQUE INDEX uk_resource_prerequisite (resourceId, requiredResourceId),
+  INDEX idx_resource_prerequisite_required (requiredResourceId)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='资源前置条件';
+
+-- 选课记录（学生与课程一对一，退课后重新选课复用同一条记录）
+CREATE TABLE IF NOT EXISTS courseEnrollment (
+  enrollmentId INT NOT NULL AUTO_INCREMENT COMMENT '选课记录ID',
+  courseId INT NOT NULL COMMENT '课程ID',
+  studentId INT NOT NULL COMMENT '学生用户ID',
+  status TINYINT NOT NULL DEFAULT 1 COMMENT '选课状态（1:已选课，2:已退课）',
+  enrolledAt DATETIME NOT NULL COMMENT '最近一次选课时间',
+  droppedAt DATETIME NULL DEFAULT NULL COMMENT '最近一次退课时间',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  updatedAt DATETIME NOT NULL COMMENT '更新时间',
+  PRIMARY KEY (enrollmentId),
+  -- 同一学生同一课程只有一条选课记录（postCourseEnrollment 将冲突映射为已选课）
+  UNIQUE INDEX uk_course_enrollment (courseId, studentId),
+  INDEX idx_course_enrollment_student (studentId, status),
+  INDEX idx_course_enrollment_course_status (courseId, status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='选课记录';
+
+-- 批量颁发证书任务
+CREATE TABLE IF NOT EXISTS certificateBatchJob (
+  jobId INT NOT NULL AUTO_INCREMENT COMMENT '任务ID',
+  courseId INT NOT NULL COMMENT '课程ID',
+  createdBy INT NOT NULL COMMENT '创建任务的用户ID',
+  status TINYINT NOT NULL DEFAULT 0 COMMENT '任务状态（0:排队中，1:执行中，2:已完成，3:失败）',
+  totalStudents INT NOT NULL DEFAULT 0 COMMENT '待处理学生总数',
+  processedCount INT NOT NULL DEFAULT 0 COMMENT '已处理学生数',
+  issuedCount INT NOT NULL DEFAULT 0 COMMENT '已颁发数',
+  skippedCount INT NOT NULL DEFAULT 0 COMMENT '已跳过数',
+  failedCount INT NOT NULL DEFAULT 0 COMMENT '失败数',
+  results JSON NOT NULL COMMENT '各学生处理结果',
+  errorMessage VARCHAR(500) NULL DEFAULT NULL COMMENT '任务失败原因',
+  startedAt DATETIME NULL DEFAULT NULL COMMENT '开始执行时间',
+  finishedAt DATETIME NULL DEFAULT NULL COMMENT '完成时间',
+  createdAt DATETIME NOT NULL COMMENT '创建时间',
+  updatedAt DATETIME(3) NOT NULL COMMENT '更新时间',
+  PRIMARY KEY (jobId),
+  INDEX idx_certificate_batch_job_course (courseId, status),
+  INDEX idx_certificate_batch_job_status (status, updatedAt)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='批量颁发证书任务';
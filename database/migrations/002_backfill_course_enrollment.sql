@@ -0,0 +1,17 @@
+-- MOOCChain API 数据库迁移 002
+-- 为已有学习记录的学生补建选课记录（选课功能上线前开始学习的学生，否则会被判定为未选课）
+-- 选课时间取该学生在课程下最早的学习记录时间；课程教师不补建；已有选课记录的不重复插入
+-- 需在 001 之后执行，可重复执行
+
+INSERT INTO courseEnrollment (courseId, studentId, status, enrolledAt, droppedAt, createdAt, updatedAt)
+SELECT r.courseId, lr.studentId, 1, MIN(lr.createdAt), NULL, NOW(), NOW()
+FROM learningRecord lr
+JOIN resource r ON lr.resourceId = r.resourceId
+JOIN course c ON r.courseId = c.courseId
+WHERE r.courseId IS NOT NULL
+  AND lr.studentId <> c.teacherId
+  AND NOT (lr.studentId <=> r.ownerId)
+  AND NOT EXISTS (
+    SELECT 1 FROM courseEnrollment ce WHERE ce.courseId = r.courseId AND ce.studentId = lr.studentId
+  )
+GROUP BY r.courseId, lr.studentId;
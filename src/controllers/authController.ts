@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
-import { refreshAccessToken, deleteRefreshToken } from '../services/authService';
+import { refreshAccessToken, deleteRefreshToken, getSessionListService, revokeSessionService, revokeAllSessionsService, forceLogoutUserService } from '../services/authService';
 import { getUser } from '../models/userModel';
 import { UserInfo } from '../types/userType';
+import { UserSessionInfo } from '../types/userSessionType';
 import { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
 import { AuthRequest } from '../middlewares/authMiddleware';
@@ -23,7 +24,17 @@ export async function refreshTokenController(req: Request, res: Response) {
     return res.status(400).json(response);
   }
 
-  const result = refreshAccessToken(refreshToken);
+  let result;
+  try {
+    result = await refreshAccessToken(refreshToken, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+  } catch (error) {
+    console.error('Refresh token controller error:', error);
+    const response: ResponseType<never> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to refresh token',
+    };
+    return res.status(500).json(response);
+  }
 
   if (!result) {
     const response: ResponseType<never> = {
@@ -63,7 +74,11 @@ export async function logoutController(req: Request, res: Response) {
 
   // 如果存在 refreshToken，从后端存储中删除
   if (refreshToken) {
-    deleteRefreshToken(refreshToken);
+    try {
+      await deleteRefreshToken(refreshToken);
+    } catch (error) {
+      console.error('Logout controller error:', error);
+    }
   }
 
   // 清除 HttpOnly Cookie
@@ -119,3 +134,101 @@ export async function getCurrentUserController(req: AuthRequest, res: Response)
   };
   return res.status(200).json(response);
 }
+
+/**
+ * 获取当前用户的登录会话列表
+ * 返回各设备的 User-Agent、IP 和最近使用时间，并标记当前会话
+ */
+export async function getSessionListController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+
+  let data;
+  try {
+    data = await getSessionListService(userId, req.cookies?.refresh_token);
+  } catch (error) {
+    console.error('Get session list controller error:', error);
+    const response: ResponseType<UserSessionInfo[]> = { code: StatusCode.INTERNAL_SERVER_ERROR, message: 'Failed to get session list' };
+    return res.status(500).json(response);
+  }
+
+  const response: ResponseType<UserSessionInfo[]> = { code: StatusCode.SUCCESS, message: 'Get session list successfully', data };
+  return res.status(200).json(response);
+}
+
+/**
+ * 撤销当前用户的某个登录会话
+ * 被撤销的会话无法再刷新 Token
+ */
+export async function revokeSessionController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const sessionId = parseInt(req.params.sessionId);
+
+  if (!sessionId || isNaN(sessionId) || sessionId <= 0) {
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: 'Invalid sessionId' };
+    return res.status(400).json(response);
+  }
+
+  try {
+    await revokeSessionService(userId, sessionId);
+  } catch (error) {
+    console.error('Revoke session controller error:', error);
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: error instanceof Error ? error.message : 'Failed to revoke session' };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<never> = { code: StatusCode.SUCCESS, message: 'Session revoked successfully' };
+  return res.status(200).json(response);
+}
+
+/**
+ * 撤销当前用户的全部登录会话（退出所有设备）
+ * 同时清除当前请求的 refreshToken Cookie
+ */
+export async function revokeAllSessionsController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+
+  let count;
+  try {
+    count = await revokeAllSessionsService(userId);
+  } catch (error) {
+    console.error('Revoke all sessions controller error:', error);
+    const response: ResponseType<{ count: number }> = { code: StatusCode.INTERNAL_SERVER_ERROR, message: 'Failed to revoke sessions' };
+    return res.status(500).json(response);
+  }
+
+  const isDevelopment = process.env.NODE_ENV === 'development';
+  res.clearCookie('refresh_token', {
+    httpOnly: true,
+    secure: !isDevelopment, // 开发环境允许 HTTP，生产环境仅 HTTPS
+    sameSite: 'strict',
+    path: '/',
+  });
+
+  const response: ResponseType<{ count: number }> = { code: StatusCode.SUCCESS, message: 'All sessions revoked successfully', data: { count } };
+  return res.status(200).json(response);
+}
+
+/**
+ * 管理员强制下线用户
+ * 撤销该用户的全部登录会话
+ */
+export async function forceLogoutUserController(req: AuthRequest, res: Response) {
+  const userId = parseInt(req.params.userId);
+
+  if (!userId || isNaN(userId) || userId <= 0) {
+    const response: ResponseType<{ count: number }> = { code: StatusCode.BAD_REQUEST, message: 'Invalid userId' };
+    return res.status(400).json(response);
+  }
+
+  let count;
+  try {
+    count = await forceLogoutUserService(userId);
+  } catch (error) {
+    console.error('Force logout user controller error:', error);
+    const response: ResponseType<{ count: number }> = { code: StatusCode.BAD_REQUEST, message: error instanceof Error ? error.message : 'Failed to force logout user' };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<{ count: number }> = { code: StatusCode.SUCCESS, message: 'User logged out successfully', data: { count } };
+  return res.status(200).json(response);
+}
@@ -0,0 +1,132 @@
+import { Response } from 'express';
+import {
+  createCertificateBatchJobService,
+  getCertificateBatchJobService,
+  getCertificateBatchJobListService,
+} from '../services/certificateBatchJobService';
+import { CertificateBatchJobInfo } from '../types/certificateBatchJobType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 创建批量颁发证书任务
+ * 为课程所有满足领取条件的学生颁发证书，任务在后台执行，通过任务ID查询进度和结果
+ */
+export async function createCertificateBatchJobController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const { courseId } = req.body as { courseId?: number };
+
+  const courseIdNum = Number(courseId);
+  if (!courseId || !Number.isInteger(courseIdNum) || courseIdNum <= 0) {
+    const response: ResponseType<CertificateBatchJobInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createCertificateBatchJobService(userId, role, courseIdNum);
+  } catch (error) {
+    console.error('Create certificate batch job controller error:', error);
+    const response: ResponseType<CertificateBatchJobInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to create certificate batch job',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CertificateBatchJobInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Certificate batch job created successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 查询批量颁发证书任务
+ * 返回任务状态、进度（已处理/总数）和各学生的颁发、跳过、失败结果
+ */
+export async function getCertificateBatchJobController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const jobId = parseInt(req.params.jobId);
+
+  if (!jobId || isNaN(jobId) || jobId <= 0) {
+    const response: ResponseType<CertificateBatchJobInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid jobId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getCertificateBatchJobService(userId, role, jobId);
+  } catch (error) {
+    console.error('Get certificate batch job controller error:', error);
+    const response: ResponseType<CertificateBatchJobInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get certificate batch job',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (!data) {
+    const response: ResponseType<CertificateBatchJobInfo> = {
+      code: StatusCode.NOT_FOUND,
+      message: 'Certificate batch job not found',
+    };
+    return res.status(404).json(response);
+  }
+
+  const response: ResponseType<CertificateBatchJobInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'OK',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 查询课程的批量颁发证书任务列表
+ * 按创建时间倒序分页返回
+ */
+export async function getCertificateBatchJobListController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const courseId = parseInt(req.query.courseId as string);
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.pageSize as string) || 10;
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<{ records: CertificateBatchJobInfo[]; total: number }> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getCertificateBatchJobListService(userId, role, courseId, page, pageSize);
+  } catch (error) {
+    console.error('Get certificate batch job list controller error:', error);
+    const response: ResponseType<{ records: CertificateBatchJobInfo[]; total: number }> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get certificate batch job list',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<{ records: CertificateBatchJobInfo[]; total: number }> = {
+    code: StatusCode.SUCCESS,
+    message: 'OK',
+    data,
+  };
+  return res.status(200).json(response);
+}
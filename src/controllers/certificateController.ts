@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
-import { createCertificateService, getCertificateListService, getCertificateService, updateCertificateNftService } from '../services/certificateService';
-import { CertificateInfo, CertificateInfoQueryParams } from '../types/certificateType';
+import { pipeline } from 'stream/promises';
+import { createCertificateService, getCertificateListService, getCertificateService, updateCertificateNftService, verifyCertificateService, getCertificateFileService, revokeCertificateService, reissueCertificateService, CertificateFileAccessError } from '../services/certificateService';
+import { CertificateIneligibleError, getCertificateEligibilityService } from '../services/certificateEligibilityService';
+import { CertificateInfo, CertificateInfoQueryParams, CertificateVerificationInfo } from '../types/certificateType';
+import { CertificateEligibilityInfo } from '../types/certificateEligibilityType';
 import { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
 import { AuthRequest } from '../middlewares/authMiddleware';
@@ -9,6 +12,7 @@ import { ROLE_TEACHER, ROLE_STUDENT } from '../middlewares/roleMiddleware';
 /**
  * 创建证书（学生领取证书）
  * 学生申请并生成课程证书
+ * 不满足课程完成度或学习时长要求时返回 403，data 为课程完成情况
  */
 export async function createCertificateController(req: AuthRequest, res: Response) {
   const studentId = req.user!.userId;
@@ -37,6 +41,14 @@ export async function createCertificateController(req: AuthRequest, res: Respons
     data = await createCertificateService(studentId, courseId);
   } catch (error) {
     console.error('Create certificate controller error:', error);
+    if (error instanceof CertificateIneligibleError) {
+      const response: ResponseType<CertificateEligibilityInfo> = {
+        code: StatusCode.FORBIDDEN,
+        message: error.message,
+        data: error.eligibility,
+      };
+      return res.status(403).json(response);
+    }
     const response: ResponseType<CertificateInfo> = {
       code: StatusCode.BAD_REQUEST,
       message: error instanceof Error ? error.message : 'Failed to create certificate',
@@ -52,6 +64,42 @@ export async function createCertificateController(req: AuthRequest, res: Respons
   return res.status(200).json(response);
 }
 
+/**
+ * 查询证书领取资格
+ * 返回课程完成度、总学习时长与证书配置要求的对比，以及各已发布资源的学习情况
+ */
+export async function getCertificateEligibilityController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const courseId = parseInt(req.params.courseId);
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<CertificateEligibilityInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getCertificateEligibilityService(userId, courseId);
+  } catch (error) {
+    console.error('Get certificate eligibility controller error:', error);
+    const response: ResponseType<CertificateEligibilityInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get certificate eligibility',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CertificateEligibilityInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'OK',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
 /**
  * 获取证书列表
  * 支持按学生ID、教师ID、课程ID筛选和分页
@@ -60,7 +108,7 @@ export async function createCertificateController(req: AuthRequest, res: Respons
  * - 教师：使用当前登录用户的 userId 作为 studentId（查询自己领取的证书，因为证书表中的 studentId 字段存储的是领取证书的用户ID）
  */
 export async function getCertificateListController(req: AuthRequest, res: Response) {
-  const { studentId, teacherId, courseId, teacherName, startDate, endDate } = req.query;
+  const { studentId, teacherId, courseId, teacherName, isRevoked, startDate, endDate } = req.query;
   const page = parseInt(req.query.page as string) || 1;
   const pageSize = parseInt(req.query.pageSize as string) || 10;
   const userRole = req.user!.role;
@@ -96,6 +144,10 @@ export async function getCertificateListController(req: AuthRequest, res: Respon
     params.teacherName = teacherName as string;
   }
 
+  if (isRevoked === '0' || isRevoked === '1') {
+    params.isRevoked = Number(isRevoked);
+  }
+
   if (startDate) {
     params.startDate = startDate as string;
   }
@@ -162,7 +214,7 @@ export async function getCertificateController(req: AuthRequest, res: Response)
 
 /**
  * 更新证书的链上信息（NFT TokenId 和交易哈希）
- * 证书所属学生或教师可以更新
+ * 证书所属学生或教师可以更新，服务端从链上校验铸造交易后写入
  */
 export async function updateCertificateNftController(req: AuthRequest, res: Response) {
   const studentId = req.user!.userId;
@@ -178,18 +230,30 @@ export async function updateCertificateNftController(req: AuthRequest, res: Resp
     return res.status(400).json(response);
   }
 
-  // 至少需要一个字段
-  if (certificateNftId === undefined && transactionHash === undefined) {
+  // 验证 certificateNftId（十进制 TokenId）
+  if (certificateNftId === undefined || certificateNftId === null || !/^\d+$/.test(String(certificateNftId).trim())) {
     const response: ResponseType<CertificateInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'certificateNftId or transactionHash is required',
+      message: 'Invalid certificateNftId',
+    };
+    return res.status(400).json(response);
+  }
+
+  // 验证 transactionHash
+  if (!transactionHash || typeof transactionHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(transactionHash.trim())) {
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid transactionHash',
     };
     return res.status(400).json(response);
   }
 
   let data;
   try {
-    data = await updateCertificateNftService(studentId, certificateId, { certificateNftId, transactionHash });
+    data = await updateCertificateNftService(studentId, certificateId, {
+      certificateNftId: String(certificateNftId).trim(),
+      transactionHash: transactionHash.trim(),
+    });
   } catch (error) {
     console.error('Update certificate nft controller error:', error);
     const response: ResponseType<CertificateInfo> = {
@@ -205,4 +269,212 @@ export async function updateCertificateNftController(req: AuthRequest, res: Resp
     data: data,
   };
   return res.status(200).json(response);
-}
\ No newline at end of file
+}
+
+/**
+ * 公开验证证书
+ * 无需登录，通过证书ID（certificateId）或验证码（code）查询证书真伪
+ * 返回学生姓名、课程、教师、颁发日期、IPFS 哈希、NFT TokenId 和交易哈希
+ */
+export async function verifyCertificateController(req: Request, res: Response) {
+  const { certificateId, code } = req.query;
+
+  let certificateIdNum: number | undefined;
+  if (certificateId !== undefined) {
+    certificateIdNum = parseInt(certificateId as string);
+    if (isNaN(certificateIdNum) || certificateIdNum <= 0) {
+      const response: ResponseType<CertificateVerificationInfo> = {
+        code: StatusCode.BAD_REQUEST,
+        message: 'Invalid certificateId',
+      };
+      return res.status(400).json(response);
+    }
+  }
+
+  const verificationCode = typeof code === 'string' ? code.trim().toUpperCase() : undefined;
+  if (!certificateIdNum && !verificationCode) {
+    const response: ResponseType<CertificateVerificationInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'certificateId or code is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await verifyCertificateService({ certificateId: certificateIdNum, verificationCode });
+  } catch (error) {
+    console.error('Verify certificate controller error:', error);
+    const response: ResponseType<CertificateVerificationInfo> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to verify certificate',
+    };
+    return res.status(500).json(response);
+  }
+
+  if (!data) {
+    const response: ResponseType<CertificateVerificationInfo> = {
+      code: StatusCode.NOT_FOUND,
+      message: 'Certificate not found',
+    };
+    return res.status(404).json(response);
+  }
+
+  const response: ResponseType<CertificateVerificationInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Certificate verified successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 下载证书文件
+ * 证书所属用户和管理员可下载，format 为 png（默认）或 pdf；证书不存在返回 404，无权下载返回 403
+ */
+export async function downloadCertificateController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const certificateId = parseInt(req.params.certificateId as string);
+  const format = (req.query.format as string | undefined) || 'png';
+
+  if (!certificateId || isNaN(certificateId) || certificateId <= 0) {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid certificateId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (format !== 'png' && format !== 'pdf') {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'format must be png or pdf',
+    };
+    return res.status(400).json(response);
+  }
+
+  let file;
+  try {
+    file = await getCertificateFileService(userId, role, certificateId, format);
+  } catch (error) {
+    console.error('Download certificate controller error:', error);
+    if (error instanceof CertificateFileAccessError) {
+      const status = error.reason === 'not_found' ? StatusCode.NOT_FOUND : StatusCode.FORBIDDEN;
+      const response: ResponseType<never> = {
+        code: status,
+        message: error.message,
+      };
+      return res.status(status).json(response);
+    }
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to download certificate',
+    };
+    return res.status(400).json(response);
+  }
+
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  if (file.contentLength !== null) {
+    res.setHeader('Content-Length', file.contentLength);
+  }
+  res.status(200).type(file.contentType);
+  // 响应头已发送，传输中出错只能中断连接
+  try {
+    await pipeline(file.stream, res);
+  } catch (error) {
+    console.error('Stream certificate file error:', error);
+  }
+}
+
+/**
+ * 撤销证书
+ * 管理员和证书所属课程的教师可撤销，必须填写撤销原因；burnNft 为 true 时同时销毁已绑定的 NFT
+ */
+export async function revokeCertificateController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const certificateId = parseInt(req.params.certificateId);
+  const { reason, burnNft } = req.body as { reason?: string; burnNft?: boolean };
+
+  if (!certificateId || isNaN(certificateId) || certificateId <= 0) {
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid certificateId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (!reason || typeof reason !== 'string' || reason.trim() === '') {
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'reason is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await revokeCertificateService(userId, role, certificateId, { reason: reason.trim(), burnNft: burnNft === true });
+  } catch (error) {
+    console.error('Revoke certificate controller error:', error);
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to revoke certificate',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CertificateInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Certificate revoked successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 补发证书
+ * 管理员和证书所属课程的教师可补发，重新生成的证书关联原证书，原证书自动撤销
+ */
+export async function reissueCertificateController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const certificateId = parseInt(req.params.certificateId);
+  const { reason } = req.body as { reason?: string };
+
+  if (!certificateId || isNaN(certificateId) || certificateId <= 0) {
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid certificateId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (!reason || typeof reason !== 'string' || reason.trim() === '') {
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'reason is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await reissueCertificateService(userId, role, certificateId, { reason: reason.trim() });
+  } catch (error) {
+    console.error('Reissue certificate controller error:', error);
+    const response: ResponseType<CertificateInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to reissue certificate',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CertificateInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Certificate reissued successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
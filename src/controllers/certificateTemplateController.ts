@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { createCertificateTemplateService, updateCertificateTemplateService, getCertificateTemplateListService, getCertificateTemplateService } from '../services/certificateTemplateService';
+import { createCertificateTemplateService, updateCertificateTemplateService, getCertificateTemplateListService, getCertificateTemplateService, previewCertificateTemplateService } from '../services/certificateTemplateService';
 import { CertificateTemplateInfo, CertificateTemplateInfoQueryParams } from '../types/certificateTemplateType';
 import { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
@@ -186,3 +186,80 @@ export async function getCertificateTemplateController(req: AuthRequest, res: Re
   };
   return res.status(200).json(response);
 }
+
+/**
+ * 预览证书模板
+ * 管理员/教师使用示例学生和课程数据渲染证书，直接返回 PNG 图片（不上传 IPFS、不写数据库）
+ * 请求参数：templateContent 或 templateId，可选 courseId / overrideFields 合并教师覆盖字段，
+ * 可选 thumbnailWidth 返回缩略图
+ */
+export async function previewCertificateTemplateController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const { templateContent, templateId, courseId, overrideFields, thumbnailWidth } = req.body as {
+    templateContent?: unknown; templateId?: number; courseId?: number; overrideFields?: unknown; thumbnailWidth?: number;
+  };
+
+  if (templateContent === undefined && templateId === undefined) {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'templateContent or templateId is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (templateId !== undefined && (!Number.isInteger(templateId) || templateId <= 0)) {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid templateId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (courseId !== undefined && (!Number.isInteger(courseId) || courseId <= 0)) {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (overrideFields !== undefined && (!overrideFields || typeof overrideFields !== 'object' || Array.isArray(overrideFields))) {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'overrideFields must be an object',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (thumbnailWidth !== undefined && (!Number.isInteger(thumbnailWidth) || thumbnailWidth <= 0)) {
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'thumbnailWidth must be a positive integer',
+    };
+    return res.status(400).json(response);
+  }
+
+  let image;
+  try {
+    image = await previewCertificateTemplateService(userId, role, {
+      templateContent: templateContent === undefined || typeof templateContent === 'string'
+        ? templateContent
+        : JSON.stringify(templateContent),
+      templateId,
+      courseId,
+      overrideFields: overrideFields as Record<string, unknown> | undefined,
+      thumbnailWidth,
+    });
+  } catch (error) {
+    console.error('Preview certificate template controller error:', error);
+    const response: ResponseType<never> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to preview certificate template',
+    };
+    return res.status(400).json(response);
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).type('image/png').send(image);
+}
@@ -0,0 +1,161 @@
+import { Response } from 'express';
+import { createClaimRewardSignService, claimRewardService } from '../services/claimRewardService';
+import { RewardIneligibleError } from '../services/rewardEligibilityService';
+import { ClaimRewardTypedData } from '../types/eip712SignType';
+import { RewardEligibilityDenial } from '../types/rewardEligibilityType';
+import { TokenTransactionInfo } from '../types/tokenTransactionType';
+import type { UserInfo } from '../types/userType';
+import type { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 获取领取奖励的 EIP-712 sign（给前端弹 MetaMask 签名用）
+ * 适用于所有已注册的奖励类型，通过 rewardType 区分
+ */
+export async function claimRewardSignController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const { resourceId, rewardType, walletAddress, chainId } = req.body as { resourceId?: number; rewardType?: number; walletAddress?: string; chainId?: number };
+
+  if (!resourceId || typeof resourceId !== 'number' || resourceId <= 0) {
+    const response: ResponseType<ClaimRewardTypedData> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+  if (!walletAddress || typeof walletAddress !== 'string' || walletAddress.trim() === '') {
+    const response: ResponseType<ClaimRewardTypedData> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid walletAddress',
+    };
+    return res.status(400).json(response);
+  }
+
+  const rewardTypeNum = Number(rewardType);
+  if (rewardType === undefined || !Number.isInteger(rewardTypeNum) || rewardTypeNum < 0) {
+    const response: ResponseType<ClaimRewardTypedData> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid rewardType',
+    };
+    return res.status(400).json(response);
+  }
+
+  const chainIdNum = chainId !== undefined ? Number(chainId) : NaN;
+  if (isNaN(chainIdNum) || chainIdNum <= 0) {
+    const response: ResponseType<ClaimRewardTypedData> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid chainId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createClaimRewardSignService(userId, role, {
+      rewardType: rewardTypeNum,
+      resourceId,
+      walletAddress: walletAddress.trim(),
+      chainId: chainIdNum,
+    });
+  } catch (error) {
+    console.error('Claim reward sign controller error:', error);
+    if (error instanceof RewardIneligibleError) {
+      const response: ResponseType<RewardEligibilityDenial> = {
+        code: StatusCode.FORBIDDEN,
+        message: error.message,
+        data: error.denial,
+      };
+      return res.status(403).json(response);
+    }
+    const response: ResponseType<ClaimRewardTypedData> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to issue claim sign',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<ClaimRewardTypedData> = {
+    code: StatusCode.SUCCESS,
+    message: 'OK',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 领取奖励
+ * 校验 EIP-712 签名后发放代币奖励，适用于所有已注册的奖励类型
+ * 不满足领取条件时返回 403，data.reason 为机器可读的拒绝原因
+ */
+export async function claimRewardController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const { resourceId, rewardType, walletAddress, signature } = req.body as { resourceId?: number; rewardType?: number; walletAddress?: string; signature?: string };
+
+  if (!resourceId || typeof resourceId !== 'number' || resourceId <= 0) {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+  if (!walletAddress || typeof walletAddress !== 'string' || walletAddress.trim() === '') {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid walletAddress',
+    };
+    return res.status(400).json(response);
+  }
+
+  const rewardTypeNum = Number(rewardType);
+  if (rewardType === undefined || !Number.isInteger(rewardTypeNum) || rewardTypeNum < 0) {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid rewardType',
+    };
+    return res.status(400).json(response);
+  }
+
+  // EIP-712：要求前端提供签名（弹 MetaMask）
+  if (!signature || typeof signature !== 'string' || signature.trim() === '') {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'signature is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await claimRewardService(userId, role, {
+      rewardType: rewardTypeNum,
+      resourceId,
+      walletAddress: walletAddress.trim(),
+      signature: signature.trim(),
+    });
+  } catch (error) {
+    console.error('Claim reward controller error:', error);
+    if (error instanceof RewardIneligibleError) {
+      const response: ResponseType<RewardEligibilityDenial> = {
+        code: StatusCode.FORBIDDEN,
+        message: error.message,
+        data: error.denial,
+      };
+      return res.status(403).json(response);
+    }
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to claim reward',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<{ transaction: TokenTransactionInfo; user: UserInfo | null }> = {
+    code: StatusCode.SUCCESS,
+    message: 'Reward claimed successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
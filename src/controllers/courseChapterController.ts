@@ -0,0 +1,365 @@
+import { Response } from 'express';
+import {
+  createCourseChapterService,
+  updateCourseChapterService,
+  deleteCourseChapterService,
+  getCourseChapterListService,
+  arrangeResourceService,
+  getCourseOutlineService,
+} from '../services/courseChapterService';
+import { setResourcePrerequisitesService, getResourcePrerequisiteListService } from '../services/resourcePrerequisiteService';
+import { CourseChapterInfo, CourseOutlineInfo, ResourcePrerequisiteInfo } from '../types/courseChapterType';
+import { ResourceInfo } from '../types/resourceType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 创建课程章节
+ * 课程教师在课程下创建章节
+ */
+export async function createCourseChapterController(req: AuthRequest, res: Response) {
+  const teacherId = req.user!.userId;
+  const { courseId, title, description, sortOrder } = req.body as Partial<CourseChapterInfo>;
+
+  if (!courseId || typeof courseId !== 'number' || courseId <= 0) {
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (!title || typeof title !== 'string' || !title.trim()) {
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'title is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid sortOrder. Must be an integer',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createCourseChapterService(teacherId, { courseId, title: title.trim(), description, sortOrder });
+  } catch (error) {
+    console.error('Create course chapter controller error:', error);
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to create course chapter',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CourseChapterInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Course chapter created successfully',
+    data,
+  };
+  return res.status(201).json(response);
+}
+
+/**
+ * 更新课程章节
+ * 可更新标题、描述和排序
+ */
+export async function updateCourseChapterController(req: AuthRequest, res: Response) {
+  const teacherId = req.user!.userId;
+  const chapterId = parseInt(req.params.chapterId);
+  const { title, description, sortOrder } = req.body as Partial<CourseChapterInfo>;
+
+  if (!chapterId || isNaN(chapterId) || chapterId <= 0) {
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid chapterId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid title',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid sortOrder. Must be an integer',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await updateCourseChapterService(teacherId, chapterId, { title: title?.trim(), description, sortOrder });
+  } catch (error) {
+    console.error('Update course chapter controller error:', error);
+    const response: ResponseType<CourseChapterInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to update course chapter',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CourseChapterInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Course chapter updated successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 删除课程章节
+ * 章节下的资源移出章节，不会被删除
+ */
+export async function deleteCourseChapterController(req: AuthRequest, res: Response) {
+  const teacherId = req.user!.userId;
+  const chapterId = parseInt(req.params.chapterId);
+
+  if (!chapterId || isNaN(chapterId) || chapterId <= 0) {
+    const response: ResponseType<null> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid chapterId',
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    await deleteCourseChapterService(teacherId, chapterId);
+  } catch (error) {
+    console.error('Delete course chapter controller error:', error);
+    const response: ResponseType<null> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to delete course chapter',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<null> = {
+    code: StatusCode.SUCCESS,
+    message: 'Course chapter deleted successfully',
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取课程章节列表
+ * 按排序返回课程的全部章节
+ */
+export async function getCourseChapterListController(req: AuthRequest, res: Response) {
+  const courseId = parseInt(req.query.courseId as string);
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<CourseChapterInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getCourseChapterListService(courseId);
+  } catch (error) {
+    console.error('Get course chapter list controller error:', error);
+    const response: ResponseType<CourseChapterInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get course chapter list',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CourseChapterInfo[]> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get course chapter list successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 调整资源在课程大纲中的位置
+ * chapterId 为 null 时移出章节，sortOrder 为章节内排序
+ */
+export async function arrangeResourceController(req: AuthRequest, res: Response) {
+  const teacherId = req.user!.userId;
+  const resourceId = parseInt(req.params.resourceId);
+  const { chapterId, sortOrder } = req.body as { chapterId?: number | null; sortOrder?: number };
+
+  if (!resourceId || isNaN(resourceId) || resourceId <= 0) {
+    const response: ResponseType<ResourceInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (chapterId === undefined && sortOrder === undefined) {
+    const response: ResponseType<ResourceInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'chapterId or sortOrder is required',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (chapterId !== undefined && chapterId !== null && (!Number.isInteger(chapterId) || chapterId <= 0)) {
+    const response: ResponseType<ResourceInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid chapterId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    const response: ResponseType<ResourceInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid sortOrder. Must be an integer',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await arrangeResourceService(teacherId, resourceId, { chapterId, sortOrder });
+  } catch (error) {
+    console.error('Arrange resource controller error:', error);
+    const response: ResponseType<ResourceInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to arrange resource',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<ResourceInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Resource arranged successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 设置资源前置条件
+ * requiredResourceIds 为需先完成的资源ID列表（同一课程），空列表表示取消前置条件
+ */
+export async function setResourcePrerequisitesController(req: AuthRequest, res: Response) {
+  const teacherId = req.user!.userId;
+  const resourceId = parseInt(req.params.resourceId);
+  const { requiredResourceIds } = req.body as { requiredResourceIds?: number[] };
+
+  if (!resourceId || isNaN(resourceId) || resourceId <= 0) {
+    const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+
+  if (!Array.isArray(requiredResourceIds) || !requiredResourceIds.every(id => Number.isInteger(id) && id > 0)) {
+    const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'requiredResourceIds must be an array of resource IDs',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await setResourcePrerequisitesService(teacherId, resourceId, requiredResourceIds);
+  } catch (error) {
+    console.error('Set resource prerequisites controller error:', error);
+    const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to set resource prerequisites',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+    code: StatusCode.SUCCESS,
+    message: 'Resource prerequisites updated successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取资源前置条件列表
+ */
+export async function getResourcePrerequisiteListController(req: AuthRequest, res: Response) {
+  const resourceId = parseInt(req.params.resourceId);
+
+  if (!resourceId || isNaN(resourceId) || resourceId <= 0) {
+    const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getResourcePrerequisiteListService(resourceId);
+  } catch (error) {
+    console.error('Get resource prerequisite list controller error:', error);
+    const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get resource prerequisites',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<ResourcePrerequisiteInfo[]> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get resource prerequisites successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取课程大纲
+ * 返回章节树以及当前用户各资源的锁定和完成状态
+ */
+export async function getCourseOutlineController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const courseId = parseInt(req.params.courseId);
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<CourseOutlineInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getCourseOutlineService(userId, courseId);
+  } catch (error) {
+    console.error('Get course outline controller error:', error);
+    const response: ResponseType<CourseOutlineInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get course outline',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CourseOutlineInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get course outline successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
@@ -5,6 +5,38 @@ import { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
 import { AuthRequest } from '../middlewares/authMiddleware';
 
+/**
+ * 解析选课设置（表单提交时字段均为字符串）
+ * capacity、enrollmentStartTime、enrollmentEndTime 传空字符串或 null 表示不限制
+ * @returns 参数错误信息，合法时返回 null
+ */
+function parseEnrollmentParams(params: Partial<CourseInfo>): string | null {
+  const rawCapacity = params.capacity as unknown;
+  if (rawCapacity !== undefined) {
+    if (rawCapacity === null || rawCapacity === '' || rawCapacity === 'null') {
+      params.capacity = null;
+    } else {
+      const capacity = Number(rawCapacity);
+      if (!Number.isInteger(capacity) || capacity <= 0) {
+        return 'Invalid capacity. Must be a positive integer';
+      }
+      params.capacity = capacity;
+    }
+  }
+
+  for (const field of ['enrollmentStartTime', 'enrollmentEndTime'] as const) {
+    const rawTime = params[field] as unknown;
+    if (rawTime === undefined) continue;
+    if (rawTime === null || rawTime === '' || rawTime === 'null') {
+      params[field] = null;
+    } else if (isNaN(new Date(rawTime as string).getTime())) {
+      return `Invalid ${field} format`;
+    }
+  }
+
+  return null;
+}
+
 /**
  * 创建课程
  * 教师创建新课程
@@ -63,6 +95,16 @@ export async function createCourseController(req: AuthRequest, res: Response) {
     return res.status(400).json(response);
   }
 
+  // 验证选课设置（容量、选课时间）
+  const enrollmentError = parseEnrollmentParams(params);
+  if (enrollmentError) {
+    const response: ResponseType<CourseInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: enrollmentError,
+    };
+    return res.status(400).json(response);
+  }
+
   let data;
   try {
     data = await createCourseService(teacherId, params);
@@ -129,6 +171,16 @@ export async function updateCourseController(req: AuthRequest, res: Response) {
     }
   }
 
+  // 验证选课设置（容量、选课时间）
+  const enrollmentError = parseEnrollmentParams(params);
+  if (enrollmentError) {
+    const response: ResponseType<CourseInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: enrollmentError,
+    };
+    return res.status(400).json(response);
+  }
+
   let data;
   try {
     data = await updateCourseService(teacherId, courseId, params);
@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import {
+  enrollCourseService,
+  unenrollCourseService,
+  getCourseRosterService,
+  getMyCourseListService,
+} from '../services/courseEnrollmentService';
+import { CourseEnrollmentInfo, CourseEnrollmentInfoQueryParams } from '../types/courseEnrollmentType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 选课
+ * 学生选修已发布的课程，需在选课时间内且课程未满
+ */
+export async function enrollCourseController(req: AuthRequest, res: Response) {
+  const studentId = req.user!.userId;
+  const courseId = parseInt(req.params.courseId);
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<CourseEnrollmentInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await enrollCourseService(studentId, courseId);
+  } catch (error) {
+    console.error('Enroll course controller error:', error);
+    const response: ResponseType<CourseEnrollmentInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to enroll in course',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CourseEnrollmentInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Enrolled in course successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 退课
+ * 学生退出已选的课程，学习记录保留
+ */
+export async function unenrollCourseController(req: AuthRequest, res: Response) {
+  const studentId = req.user!.userId;
+  const courseId = parseInt(req.params.courseId);
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<CourseEnrollmentInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await unenrollCourseService(studentId, courseId);
+  } catch (error) {
+    console.error('Unenroll course controller error:', error);
+    const response: ResponseType<CourseEnrollmentInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to unenroll from course',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<CourseEnrollmentInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Unenrolled from course successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取课程选课名单
+ * 教师查看自己课程的选课学生，管理员可查看任意课程；默认只返回已选课的学生
+ */
+export async function getCourseRosterController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const courseId = parseInt(req.params.courseId);
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.pageSize as string) || 10;
+  const { status, studentName } = req.query;
+
+  if (!courseId || isNaN(courseId) || courseId <= 0) {
+    const response: ResponseType<{ records: CourseEnrollmentInfo[]; total: number }> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid courseId',
+    };
+    return res.status(400).json(response);
+  }
+
+  const params: CourseEnrollmentInfoQueryParams = {};
+  if (status !== undefined) {
+    const statusNum = parseInt(status as string);
+    if (!isNaN(statusNum)) {
+      params.status = statusNum;
+    }
+  }
+  if (studentName) {
+    params.studentName = studentName as string;
+  }
+
+  let data;
+  try {
+    data = await getCourseRosterService(userId, role, courseId, params, page, pageSize);
+  } catch (error) {
+    console.error('Get course roster controller error:', error);
+    const response: ResponseType<{ records: CourseEnrollmentInfo[]; total: number }> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get course roster',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<{ records: CourseEnrollmentInfo[]; total: number }> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get course roster successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取我的课程列表
+ * 返回当前学生已选的课程；传 status=2 查看已退课的课程
+ */
+export async function getMyCourseListController(req: AuthRequest, res: Response) {
+  const studentId = req.user!.userId;
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.pageSize as string) || 10;
+  const { status } = req.query;
+
+  const params: CourseEnrollmentInfoQueryParams = {};
+  if (status !== undefined) {
+    const statusNum = parseInt(status as string);
+    if (!isNaN(statusNum)) {
+      params.status = statusNum;
+    }
+  }
+
+  let data;
+  try {
+    data = await getMyCourseListService(studentId, params, page, pageSize);
+  } catch (error) {
+    console.error('Get my course list controller error:', error);
+    const response: ResponseType<{ records: CourseEnrollmentInfo[]; total: number }> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to get my course list',
+    };
+    return res.status(500).json(response);
+  }
+
+  const response: ResponseType<{ records: CourseEnrollmentInfo[]; total: number }> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get my course list successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
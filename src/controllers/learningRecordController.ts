@@ -1,18 +1,18 @@
 import { Response } from 'express';
-import { ethers } from 'ethers';
-import { completeLearningRecordService, reportLearningTimeService, updateLearningProgressService, submitReviewService, getLearningRecordListService, getLearningRecordService, getLearningHistoryListService, } from '../services/learningRecordService';
-import { createTokenRewardTransactionService } from '../services/tokenTransactionService';
-import { LearningRecordInfo, LearningRecordInfoQueryParams } from '../types/learningRecordType';
+import { completeLearningRecordService, reportLearningTimeService, updateLearningProgressService, submitReviewService, getLearningRecordListService, getLearningRecordService, getLearningHistoryListService, getFlaggedLearningRecordListService, reviewLearningRecordFlagService, getLearningCoverageService, getResourceCoverageStatsService, } from '../services/learningRecordService';
+import { ResourceAccessError } from '../services/resourceAccessService';
+import { ResourceLockedError } from '../services/resourcePrerequisiteService';
+import { CourseEnrollmentError } from '../services/courseEnrollmentService';
+import { claimRewardController, claimRewardSignController } from './claimRewardController';
+import { ResourceAccessDenial } from '../types/resourceAccessType';
+import { ResourceLockDenial } from '../types/courseChapterType';
+import { CourseEnrollmentDenial } from '../types/courseEnrollmentType';
+import { LearningRecordInfo, LearningRecordInfoQueryParams, WatchedSegment } from '../types/learningRecordType';
+import { LearningCoverageInfo, ResourceCoverageStatsInfo } from '../types/learningCoverageType';
 import { ResourceInfo } from '../types/resourceType';
-import { TokenTransactionInfo } from '../types/tokenTransactionType';
-import type { UserInfo } from '../types/userType';
 import type { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
 import { AuthRequest } from '../middlewares/authMiddleware';
-import { getUser } from '../models/userModel';
-import { getTokenRule } from '../models/tokenRuleModel';
-import { MOOC_TOKEN_ADDRESS } from '../contracts/contractAddresses';
-import { issueClaimRewardSign, getClaimRewardSign, consumeClaimRewardSign } from '../utils/eip712SignStore';
 
 /**
  * 完成学习记录（文档/图片类型）
@@ -46,6 +46,30 @@ export async function completeLearningRecordController(req: AuthRequest, res: Re
         data = await completeLearningRecordService(studentId, resourceId);
     } catch (error) {
         console.error('Complete learning record controller error:', error);
+        if (error instanceof ResourceAccessError) {
+            const response: ResponseType<ResourceAccessDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
+        if (error instanceof ResourceLockedError) {
+            const response: ResponseType<ResourceLockDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
+        if (error instanceof CourseEnrollmentError) {
+            const response: ResponseType<CourseEnrollmentDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
         const response: ResponseType<LearningRecordInfo> = {
             code: StatusCode.BAD_REQUEST,
             message: error instanceof Error ? error.message : 'Failed to complete learning record',
@@ -64,12 +88,13 @@ export async function completeLearningRecordController(req: AuthRequest, res: Re
 /**
  * 上报学习时间增量（视频/音频类型）
  * 适用于：resourceType = 2(音频) 或 3(视频) 的资源
- * 前端以10-15秒为周期上报学习时间增量，服务端累计学习时长
- * 注意：此接口只累计时长，不更新进度。进度需要前端计算后调用 updateLearningProgress 更新
+ * 前端调用 startWatchSession 开始观看会话后，以10-15秒为周期通过该会话上报学习时间增量，服务端累计学习时长
+ * 可选携带本周期的播放位置区间 segments，服务端合并为已观看区间并按覆盖时长计算进度
+ * 资源时长已知时服务端同时更新进度；异常心跳会被拒绝并标记学习记录待教师审核
  */
 export async function reportLearningTimeController(req: AuthRequest, res: Response) {
     const studentId = req.user!.userId;
-    const { resourceId, timeIncrement } = req.body as { resourceId?: number; timeIncrement?: number };
+    const { resourceId, sessionId, timeIncrement, segments } = req.body as { resourceId?: number; sessionId?: number; timeIncrement?: number; segments?: unknown };
 
     // 验证必需字段
     if (!resourceId) {
@@ -80,6 +105,14 @@ export async function reportLearningTimeController(req: AuthRequest, res: Respon
         return res.status(400).json(response);
     }
 
+    if (!sessionId) {
+        const response: ResponseType<LearningRecordInfo> = {
+            code: StatusCode.BAD_REQUEST,
+            message: 'sessionId is required',
+        };
+        return res.status(400).json(response);
+    }
+
     if (timeIncrement === undefined) {
         const response: ResponseType<LearningRecordInfo> = {
             code: StatusCode.BAD_REQUEST,
@@ -97,6 +130,15 @@ export async function reportLearningTimeController(req: AuthRequest, res: Respon
         return res.status(400).json(response);
     }
 
+    // 验证 sessionId
+    if (typeof sessionId !== 'number' || !Number.isInteger(sessionId) || sessionId <= 0) {
+        const response: ResponseType<LearningRecordInfo> = {
+            code: StatusCode.BAD_REQUEST,
+            message: 'Invalid sessionId',
+        };
+        return res.status(400).json(response);
+    }
+
     // 验证 timeIncrement
     if (typeof timeIncrement !== 'number' || timeIncrement <= 0) {
         const response: ResponseType<LearningRecordInfo> = {
@@ -106,11 +148,53 @@ export async function reportLearningTimeController(req: AuthRequest, res: Respon
         return res.status(400).json(response);
     }
 
+    // 验证 segments（可选，本周期的播放位置区间）
+    if (segments !== undefined && (
+        !Array.isArray(segments) ||
+        !segments.every(item => item && typeof item.start === 'number' && typeof item.end === 'number' && Number.isFinite(item.start) && Number.isFinite(item.end))
+    )) {
+        const response: ResponseType<LearningRecordInfo> = {
+            code: StatusCode.BAD_REQUEST,
+            message: 'Invalid segments. Expected an array of { start, end } in seconds',
+        };
+        return res.status(400).json(response);
+    }
+
     let data;
     try {
-        data = await reportLearningTimeService(studentId, resourceId, timeIncrement);
+        data = await reportLearningTimeService(
+            studentId,
+            resourceId,
+            sessionId,
+            timeIncrement,
+            (segments as WatchedSegment[] | undefined)?.map(item => ({ start: item.start, end: item.end }))
+        );
     } catch (error) {
         console.error('Report learning time controller error:', error);
+        if (error instanceof ResourceAccessError) {
+            const response: ResponseType<ResourceAccessDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
+        if (error instanceof ResourceLockedError) {
+            const response: ResponseType<ResourceLockDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
+        if (error instanceof CourseEnrollmentError) {
+            const response: ResponseType<CourseEnrollmentDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
         const response: ResponseType<LearningRecordInfo> = {
             code: StatusCode.BAD_REQUEST,
             message: error instanceof Error ? error.message : 'Failed to report learning time',
@@ -130,7 +214,7 @@ export async function reportLearningTimeController(req: AuthRequest, res: Respon
  * 更新学习进度（视频/音频类型）
  * 适用于：resourceType = 2(音频) 或 3(视频) 的资源
  * 前端根据实际资源时长计算进度后，调用此接口更新进度
- * 注意：后端无法获取资源时长，需要前端通过视频/音频元素的duration属性获取总时长后计算进度
+ * 注意：资源时长已知时，进度不能超过按累计学习时长计算的进度（允许少量容差）
  */
 export async function updateLearningProgressController(req: AuthRequest, res: Response) {
   const studentId = req.user!.userId;
@@ -169,6 +253,30 @@ export async function updateLearningProgressController(req: AuthRequest, res: Re
         data = await updateLearningProgressService(studentId, resourceId, progress);
     } catch (error) {
         console.error('Update learning progress controller error:', error);
+        if (error instanceof ResourceAccessError) {
+            const response: ResponseType<ResourceAccessDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
+        if (error instanceof ResourceLockedError) {
+            const response: ResponseType<ResourceLockDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
+        if (error instanceof CourseEnrollmentError) {
+            const response: ResponseType<CourseEnrollmentDenial> = {
+                code: StatusCode.FORBIDDEN,
+                message: error.message,
+                data: error.denial,
+            };
+            return res.status(403).json(response);
+        }
         const response: ResponseType<LearningRecordInfo> = {
             code: StatusCode.BAD_REQUEST,
             message: error instanceof Error ? error.message : 'Failed to update learning progress',
@@ -337,333 +445,248 @@ export async function getLearningRecordController(req: AuthRequest, res: Respons
 }
 
 /**
- * 获取学习历史课程列表
- * 返回当前登录用户已经学习过的课程（根据学习记录去重）
+ * 获取观看覆盖情况（视频/音频类型）
+ * 返回当前学生的已观看区间和最近播放位置，供播放器续播和标记已看部分
  */
-export async function getLearningHistoryListController(req: AuthRequest, res: Response) {
+export async function getLearningCoverageController(req: AuthRequest, res: Response) {
   const studentId = req.user!.userId;
-  const page = parseInt(req.query.page as string) || 1;
-  const pageSize = parseInt(req.query.pageSize as string) || 10;
-  const teacherName = req.query.teacherName as string | undefined;
-  const resourceType = req.query.resourceType !== undefined ? parseInt(req.query.resourceType as string) : undefined;
-  const isCompleted = req.query.isCompleted !== undefined ? parseInt(req.query.isCompleted as string) : undefined;
+  const resourceId = parseInt(req.params.resourceId);
 
-  const params: LearningRecordInfoQueryParams = {};
-  if (teacherName) {
-    params.teacherName = teacherName;
-  }
-  if (resourceType !== undefined && !isNaN(resourceType)) {
-    params.resourceType = resourceType;
-  }
-  if (isCompleted !== undefined && !isNaN(isCompleted)) {
-    params.isCompleted = isCompleted;
+  if (!resourceId || isNaN(resourceId) || resourceId <= 0) {
+    const response: ResponseType<LearningCoverageInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
   }
 
   let data;
   try {
-    data = await getLearningHistoryListService(studentId, page, pageSize, params);
+    data = await getLearningCoverageService(studentId, resourceId);
   } catch (error) {
-    console.error('Get learning history list controller error:', error);
-    const response: ResponseType<{ records: ResourceInfo[]; total: number }> = {
-      code: StatusCode.INTERNAL_SERVER_ERROR,
-      message: 'Failed to get learning history list',
+    console.error('Get learning coverage controller error:', error);
+    const response: ResponseType<LearningCoverageInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to get learning coverage',
     };
-    return res.status(500).json(response);
+    return res.status(400).json(response);
   }
 
-  const response: ResponseType<{ records: ResourceInfo[]; total: number }> = {
+  const response: ResponseType<LearningCoverageInfo> = {
     code: StatusCode.SUCCESS,
-    message: 'Get learning history list successfully',
+    message: 'Get learning coverage successfully',
     data,
   };
   return res.status(200).json(response);
 }
 
 /**
- * 领取学习完成奖励
- * 学生完成资源学习后，可以领取代币奖励
+ * 获取资源观看分布统计
+ * 教师查看各时间段的观看人数和比例，定位学生流失的位置（bucketCount 为时间段数，默认 20，最多 100）
  */
-export async function claimLearningRewardController(req: AuthRequest, res: Response) {
+export async function getResourceCoverageStatsController(req: AuthRequest, res: Response) {
   const userId = req.user!.userId;
-  const { resourceId, rewardType, walletAddress, signature } = req.body as { resourceId?: number; rewardType?: number; walletAddress?: string; signature?: string };
-
-  // 验证必需字段
-  if (!resourceId) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'resourceId is required',
-    };
-    return res.status(400).json(response);
-  }
-
-  if (!walletAddress) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'walletAddress is required',
-    };
-    return res.status(400).json(response);
-  }
+  const role = req.user!.role;
+  const resourceId = parseInt(req.params.resourceId);
+  const bucketCount = req.query.bucketCount !== undefined ? parseInt(req.query.bucketCount as string) : undefined;
 
-  // 验证 resourceId
-  if (typeof resourceId !== 'number' || resourceId <= 0) {
-    const response: ResponseType<TokenTransactionInfo> = {
+  if (!resourceId || isNaN(resourceId) || resourceId <= 0) {
+    const response: ResponseType<ResourceCoverageStatsInfo> = {
       code: StatusCode.BAD_REQUEST,
       message: 'Invalid resourceId',
     };
     return res.status(400).json(response);
   }
 
-  // 验证 walletAddress
-  if (typeof walletAddress !== 'string' || walletAddress.trim() === '') {
-    const response: ResponseType<TokenTransactionInfo> = {
+  if (bucketCount !== undefined && (isNaN(bucketCount) || bucketCount < 1 || bucketCount > 100)) {
+    const response: ResponseType<ResourceCoverageStatsInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'Invalid walletAddress',
+      message: 'Invalid bucketCount. Must be between 1 and 100',
     };
     return res.status(400).json(response);
   }
 
-  // 验证 rewardType（如果未提供，默认为 0：学习完成）
-  const rewardTypeNum = rewardType !== undefined ? Number(rewardType) : 0;
-  if (isNaN(rewardTypeNum) || rewardTypeNum < 0) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Invalid rewardType',
-    };
-    return res.status(400).json(response);
-  }
-
-  // EIP-712：要求前端提供签名（弹 MetaMask）
-  if (!signature || typeof signature !== 'string' || signature.trim() === '') {
-    const response: ResponseType<TokenTransactionInfo> = {
+  let data;
+  try {
+    data = await getResourceCoverageStatsService(userId, role, resourceId, bucketCount);
+  } catch (error) {
+    console.error('Get resource coverage stats controller error:', error);
+    const response: ResponseType<ResourceCoverageStatsInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'signature is required',
+      message: error instanceof Error ? error.message : 'Failed to get resource coverage stats',
     };
     return res.status(400).json(response);
   }
 
-  // 获取并校验 sign（nonce/amount/deadline/chainId）
-  const sign = getClaimRewardSign(userId, walletAddress.trim(), resourceId, rewardTypeNum);
-  if (!sign) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'claim sign not found, please re-initiate claim',
-    };
-    return res.status(400).json(response);
-  }
+  const response: ResponseType<ResourceCoverageStatsInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get resource coverage stats successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
 
-  const nowSec = Math.floor(Date.now() / 1000);
-  if (sign.deadline <= nowSec) {
-    consumeClaimRewardSign(userId, walletAddress.trim(), resourceId, rewardTypeNum);
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'claim sign expired, please re-initiate claim',
-    };
-    return res.status(400).json(response);
-  }
+/**
+ * 获取异常学习记录列表
+ * 教师查看自己资源下被标记异常的学习记录（默认待审核），管理员可查看全部
+ */
+export async function getFlaggedLearningRecordListController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.pageSize as string) || 10;
+  const courseId = req.query.courseId !== undefined ? parseInt(req.query.courseId as string) : undefined;
+  const resourceId = req.query.resourceId !== undefined ? parseInt(req.query.resourceId as string) : undefined;
+  const flagStatus = req.query.flagStatus !== undefined ? parseInt(req.query.flagStatus as string) : undefined;
 
-  // 规则可能变更：这里做一次对齐校验（保证签名里展示的 amount 与当前规则一致）
-  const rule = await getTokenRule({ rewardType: rewardTypeNum, isEnabled: 1 });
-  if (!rule) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Token rule not found or disabled',
-    };
-    return res.status(400).json(response);
-  }
-  const currentAmount = String(rule.rewardAmount || 0);
-  if (currentAmount !== sign.amount) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Reward amount changed, please re-initiate claim',
-    };
-    return res.status(400).json(response);
+  const params: LearningRecordInfoQueryParams = {};
+  if (courseId !== undefined && !isNaN(courseId)) {
+    params.courseId = courseId;
   }
-
-  // 验签：必须是 walletAddress 本人签的
-  const domain = {
-    name: 'MOOCChain',
-    version: '1',
-    chainId: sign.chainId,
-    verifyingContract: MOOC_TOKEN_ADDRESS,
-  };
-  const types = {
-    ClaimLearningReward: [
-      { name: 'userId', type: 'uint256' },
-      { name: 'walletAddress', type: 'address' },
-      { name: 'resourceId', type: 'uint256' },
-      { name: 'rewardType', type: 'uint256' },
-      { name: 'amount', type: 'string' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'deadline', type: 'uint256' },
-    ],
-  } as const;
-  const messageToVerify = {
-    userId,
-    walletAddress: walletAddress.trim(),
-    resourceId,
-    rewardType: rewardTypeNum,
-    amount: sign.amount,
-    nonce: sign.nonce,
-    deadline: sign.deadline,
-  };
-
-  let recovered: string;
-  try {
-    recovered = ethers.verifyTypedData(domain as any, types as any, messageToVerify as any, signature.trim());
-  } catch (error) {
-    console.error('Verify typed data error:', error);
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Invalid signature',
-    };
-    return res.status(400).json(response);
+  if (resourceId !== undefined && !isNaN(resourceId)) {
+    params.resourceId = resourceId;
   }
-  if (recovered.toLowerCase() !== walletAddress.trim().toLowerCase()) {
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Signature does not match walletAddress',
-    };
-    return res.status(400).json(response);
+  if (flagStatus !== undefined) {
+    if (isNaN(flagStatus) || flagStatus < 0 || flagStatus > 3) {
+      const response: ResponseType<{ records: LearningRecordInfo[]; total: number }> = {
+        code: StatusCode.BAD_REQUEST,
+        message: 'Invalid flagStatus',
+      };
+      return res.status(400).json(response);
+    }
+    params.flagStatus = flagStatus;
   }
 
-  let transaction;
+  let data;
   try {
-    transaction = await createTokenRewardTransactionService(userId, rewardTypeNum, resourceId, walletAddress.trim());
+    data = await getFlaggedLearningRecordListService(userId, role, params, page, pageSize);
   } catch (error) {
-    console.error('Claim learning reward controller error:', error);
-    const response: ResponseType<TokenTransactionInfo> = {
-      code: StatusCode.BAD_REQUEST,
-      message: error instanceof Error ? error.message : 'Failed to claim learning reward',
+    console.error('Get flagged learning record list controller error:', error);
+    const response: ResponseType<{ records: LearningRecordInfo[]; total: number }> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to get flagged learning record list',
     };
-    return res.status(400).json(response);
-  }
-
-  // 成功后消费 sign，防止重复使用
-  consumeClaimRewardSign(userId, walletAddress.trim(), resourceId, rewardTypeNum);
-
-  // 奖励发放成功后，查询最新的用户信息（包含最新钱包地址与代币余额）
-  let user: UserInfo | null = null;
-  try {
-    user = await getUser({ userId });
-  } catch (error) {
-    console.error('Get user after claiming learning reward error:', error);
-    // 如果这里失败，不影响奖励发放结果，只是不返回最新用户信息
+    return res.status(500).json(response);
   }
 
-  const response: ResponseType<{ transaction: TokenTransactionInfo; user: UserInfo | null }> = {
+  const response: ResponseType<{ records: LearningRecordInfo[]; total: number }> = {
     code: StatusCode.SUCCESS,
-    message: 'Learning reward claimed successfully',
-    data: {
-      transaction,
-      user,
-    },
+    message: 'Get flagged learning record list successfully',
+    data,
   };
   return res.status(200).json(response);
 }
 
 /**
- * 获取领取学习奖励的 EIP-712 sign（给前端弹 MetaMask 签名用）
+ * 审核异常学习记录
+ * approved 为 true 时解除阻止（可领取奖励和证书），否则确认作弊并保持阻止
  */
-export async function claimLearningRewardSignController(req: AuthRequest, res: Response) {
+export async function reviewLearningRecordFlagController(req: AuthRequest, res: Response) {
   const userId = req.user!.userId;
-  const { resourceId, rewardType, walletAddress, chainId } = req.body as { resourceId?: number; rewardType?: number; walletAddress?: string; chainId?: number };
+  const role = req.user!.role;
+  const recordId = parseInt(req.params.recordId);
+  const { approved, note } = req.body as { approved?: boolean; note?: string };
 
-  if (!resourceId || typeof resourceId !== 'number' || resourceId <= 0) {
-    const response: ResponseType<unknown> = {
+  if (!recordId || isNaN(recordId) || recordId <= 0) {
+    const response: ResponseType<LearningRecordInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'Invalid resourceId',
+      message: 'Invalid recordId',
     };
     return res.status(400).json(response);
   }
-  if (!walletAddress || typeof walletAddress !== 'string' || walletAddress.trim() === '') {
-    const response: ResponseType<unknown> = {
+
+  if (typeof approved !== 'boolean') {
+    const response: ResponseType<LearningRecordInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'Invalid walletAddress',
+      message: 'approved is required and must be a boolean',
     };
     return res.status(400).json(response);
   }
 
-  const rewardTypeNum = rewardType !== undefined ? Number(rewardType) : 0;
-  if (isNaN(rewardTypeNum) || rewardTypeNum < 0) {
-    const response: ResponseType<unknown> = {
+  if (note !== undefined && (typeof note !== 'string' || note.length > 500)) {
+    const response: ResponseType<LearningRecordInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'Invalid rewardType',
+      message: 'Invalid note. Must be a string of at most 500 characters',
     };
     return res.status(400).json(response);
   }
 
-  const chainIdNum = chainId !== undefined ? Number(chainId) : NaN;
-  if (isNaN(chainIdNum) || chainIdNum <= 0) {
-    const response: ResponseType<unknown> = {
+  let data;
+  try {
+    data = await reviewLearningRecordFlagService(userId, role, recordId, { approved, note });
+  } catch (error) {
+    console.error('Review learning record flag controller error:', error);
+    const response: ResponseType<LearningRecordInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'Invalid chainId',
+      message: error instanceof Error ? error.message : 'Failed to review learning record',
     };
     return res.status(400).json(response);
   }
 
-  // 可选：如果你希望只允许固定链，可通过环境变量约束
-  const expectedChainId = process.env.BLOCKCHAIN_CHAIN_ID ? Number(process.env.BLOCKCHAIN_CHAIN_ID) : undefined;
-  if (expectedChainId !== undefined && !isNaN(expectedChainId) && expectedChainId > 0 && expectedChainId !== chainIdNum) {
-    const response: ResponseType<unknown> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Unsupported chainId',
-    };
-    return res.status(400).json(response);
+  const response: ResponseType<LearningRecordInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Learning record reviewed successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取学习历史课程列表
+ * 返回当前登录用户已经学习过的课程（根据学习记录去重）
+ */
+export async function getLearningHistoryListController(req: AuthRequest, res: Response) {
+  const studentId = req.user!.userId;
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.pageSize as string) || 10;
+  const teacherName = req.query.teacherName as string | undefined;
+  const resourceType = req.query.resourceType !== undefined ? parseInt(req.query.resourceType as string) : undefined;
+  const isCompleted = req.query.isCompleted !== undefined ? parseInt(req.query.isCompleted as string) : undefined;
+
+  const params: LearningRecordInfoQueryParams = {};
+  if (teacherName) {
+    params.teacherName = teacherName;
+  }
+  if (resourceType !== undefined && !isNaN(resourceType)) {
+    params.resourceType = resourceType;
+  }
+  if (isCompleted !== undefined && !isNaN(isCompleted)) {
+    params.isCompleted = isCompleted;
   }
 
-  // 获取规则金额，让用户在 MetaMask 里看到“将领取多少”
-  const rule = await getTokenRule({ rewardType: rewardTypeNum, isEnabled: 1 });
-  if (!rule) {
-    const response: ResponseType<unknown> = {
-      code: StatusCode.BAD_REQUEST,
-      message: 'Token rule not found or disabled',
+  let data;
+  try {
+    data = await getLearningHistoryListService(studentId, page, pageSize, params);
+  } catch (error) {
+    console.error('Get learning history list controller error:', error);
+    const response: ResponseType<{ records: ResourceInfo[]; total: number }> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to get learning history list',
     };
-    return res.status(400).json(response);
+    return res.status(500).json(response);
   }
 
-  const amount = String(rule.rewardAmount || 0);
-  const deadline = Math.floor(Date.now() / 1000) + 5 * 60; // 5 分钟有效
-  const sign = issueClaimRewardSign({
-    userId,
-    walletAddress: walletAddress.trim(),
-    resourceId,
-    rewardType: rewardTypeNum,
-    chainId: chainIdNum,
-    amount,
-    deadline,
-  });
-
-  const domain = {
-    name: 'MOOCChain',
-    version: '1',
-    chainId: sign.chainId,
-    verifyingContract: MOOC_TOKEN_ADDRESS,
-  };
-  const types = {
-    ClaimLearningReward: [
-      { name: 'userId', type: 'uint256' },
-      { name: 'walletAddress', type: 'address' },
-      { name: 'resourceId', type: 'uint256' },
-      { name: 'rewardType', type: 'uint256' },
-      { name: 'amount', type: 'string' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'deadline', type: 'uint256' },
-    ],
-  };
-  const message = {
-    userId,
-    walletAddress: walletAddress.trim(),
-    resourceId,
-    rewardType: rewardTypeNum,
-    amount,
-    nonce: sign.nonce,
-    deadline: sign.deadline,
-  };
-
-  const response: ResponseType<{ domain: any; types: any; message: any }> = {
+  const response: ResponseType<{ records: ResourceInfo[]; total: number }> = {
     code: StatusCode.SUCCESS,
-    message: 'OK',
-    data: { domain, types, message },
+    message: 'Get learning history list successfully',
+    data,
   };
   return res.status(200).json(response);
 }
+
+/**
+ * 领取学习完成奖励
+ * 学生完成资源学习后，可以领取代币奖励
+ */
+export async function claimLearningRewardController(req: AuthRequest, res: Response) {
+  req.body = { ...req.body, rewardType: 0 }; // 学习完成奖励
+  return claimRewardController(req, res);
+}
+
+/**
+ * 获取领取学习奖励的 EIP-712 sign（给前端弹 MetaMask 签名用）
+ */
+export async function claimLearningRewardSignController(req: AuthRequest, res: Response) {
+  req.body = { ...req.body, rewardType: 0 }; // 学习完成奖励
+  return claimRewardSignController(req, res);
+}
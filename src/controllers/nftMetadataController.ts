@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { createCertificateNftMetadataService, createResourceNftMetadataService } from '../services/nftMetadataService';
+import { NftMetadataResult } from '../types/nftMetadataType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 生成证书 NFT 元数据
+ * 返回前端铸造证书 NFT 时使用的 tokenURI
+ */
+export async function createCertificateNftMetadataController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const certificateId = parseInt(req.params.certificateId as string);
+
+  if (!certificateId || isNaN(certificateId) || certificateId <= 0) {
+    const response: ResponseType<NftMetadataResult> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid certificateId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createCertificateNftMetadataService(userId, role, certificateId);
+  } catch (error) {
+    console.error('Create certificate nft metadata controller error:', error);
+    const response: ResponseType<NftMetadataResult> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to create certificate nft metadata',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<NftMetadataResult> = {
+    code: StatusCode.SUCCESS,
+    message: 'Create certificate nft metadata successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 生成资源 NFT 元数据
+ * 返回前端铸造资源 NFT 时使用的 tokenURI
+ */
+export async function createResourceNftMetadataController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const resourceId = parseInt(req.params.resourceId as string);
+
+  if (!resourceId || isNaN(resourceId) || resourceId <= 0) {
+    const response: ResponseType<NftMetadataResult> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createResourceNftMetadataService(userId, role, resourceId);
+  } catch (error) {
+    console.error('Create resource nft metadata controller error:', error);
+    const response: ResponseType<NftMetadataResult> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to create resource nft metadata',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<NftMetadataResult> = {
+    code: StatusCode.SUCCESS,
+    message: 'Create resource nft metadata successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
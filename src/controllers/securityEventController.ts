@@ -0,0 +1,68 @@
+import { Response } from 'express';
+import { getSecurityEventListService } from '../services/securityEventService';
+import { SecurityEventInfo, SecurityEventInfoQueryParams } from '../types/securityEventType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+
+/**
+ * 获取安全事件列表
+ * 支持按条件筛选和分页
+ *
+ * 规则：
+ * - 非管理员：只能查询自己的事件（忽略 query.userId）
+ * - 管理员：传 query.userId 查询指定用户，不传则查询全部用户
+ */
+export async function getSecurityEventListController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const userRole = req.user!.role;
+  const { userId: queryUserId, eventType, startDate, endDate, page, pageSize } = req.query;
+
+  const params: SecurityEventInfoQueryParams = {};
+
+  // 非管理员：强制只查自己
+  if (userRole !== ROLE_ADMIN) {
+    params.userId = userId;
+  }
+
+  // 管理员：允许指定 userId，不指定则查全部
+  if (userRole === ROLE_ADMIN && queryUserId !== undefined) {
+    const uid = parseInt(queryUserId as string);
+    if (!isNaN(uid)) params.userId = uid;
+  }
+
+  if (eventType) {
+    params.eventType = eventType as string;
+  }
+
+  if (startDate) {
+    params.startDate = startDate as string;
+  }
+
+  if (endDate) {
+    params.endDate = endDate as string;
+  }
+
+  const pageNum = parseInt(page as string) || 1;
+  const pageSizeNum = parseInt(pageSize as string) || 10;
+
+  let data;
+  try {
+    data = await getSecurityEventListService(params, pageNum, pageSizeNum);
+  } catch (error) {
+    console.error('Get security event list controller error:', error);
+    const response: ResponseType<{ records: SecurityEventInfo[]; total: number }> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to get security event list',
+    };
+    return res.status(500).json(response);
+  }
+
+  const response: ResponseType<{ records: SecurityEventInfo[]; total: number }> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get security event list successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { createSiweMessageService, siweLoginService, bindWalletService, unbindWalletService } from '../services/siweService';
+import { SiwePurpose } from '../types/siweType';
+import { UserInfo } from '../types/userType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 校验获取 SIWE 消息的请求参数
+ * @returns 错误信息，参数合法返回 null
+ */
+function validateSiweMessageParams(walletAddress: unknown, chainId: unknown): string | null {
+  if (!walletAddress || typeof walletAddress !== 'string' || walletAddress.trim() === '') {
+    return 'Invalid walletAddress';
+  }
+  const chainIdNum = chainId !== undefined ? Number(chainId) : NaN;
+  if (!Number.isInteger(chainIdNum) || chainIdNum <= 0) {
+    return 'Invalid chainId';
+  }
+  return null;
+}
+
+/**
+ * 获取钱包登录 SIWE 消息
+ * 无需登录，返回 EIP-4361 消息，前端使用钱包签名后调用 siweLogin
+ */
+export async function siweNonceController(req: Request, res: Response) {
+  const { walletAddress, chainId } = req.body as { walletAddress?: string; chainId?: number };
+
+  const invalidMessage = validateSiweMessageParams(walletAddress, chainId);
+  if (invalidMessage) {
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: invalidMessage };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createSiweMessageService({ walletAddress: walletAddress!.trim(), chainId: Number(chainId), purpose: 'login' });
+  } catch (error) {
+    console.error('SIWE nonce controller error:', error);
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: error instanceof Error ? error.message : 'Failed to create SIWE message' };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<typeof data> = { code: StatusCode.SUCCESS, message: 'SIWE message created', data };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取绑定/解绑钱包 SIWE 消息
+ * 需要登录，purpose 为 bind 或 unbind
+ */
+export async function walletNonceController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const { walletAddress, chainId, purpose } = req.body as { walletAddress?: string; chainId?: number; purpose?: SiwePurpose };
+
+  if (purpose !== 'bind' && purpose !== 'unbind') {
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: 'purpose must be bind or unbind' };
+    return res.status(400).json(response);
+  }
+
+  const invalidMessage = validateSiweMessageParams(walletAddress, chainId);
+  if (invalidMessage) {
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: invalidMessage };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await createSiweMessageService({ walletAddress: walletAddress!.trim(), chainId: Number(chainId), purpose, userId });
+  } catch (error) {
+    console.error('Wallet nonce controller error:', error);
+    const response: ResponseType<never> = { code: StatusCode.BAD_REQUEST, message: error instanceof Error ? error.message : 'Failed to create SIWE message' };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<typeof data> = { code: StatusCode.SUCCESS, message: 'SIWE message created', data };
+  return res.status(200).json(response);
+}
+
+/**
+ * 钱包登录（Sign-In with Ethereum）
+ * 验证签名后生成双 Token，refreshToken 存储在 HttpOnly Cookie 中，accessToken 返回给前端
+ */
+export async function siweLoginController(req: Request, res: Response) {
+  const { message, signature } = req.body as { message?: string; signature?: string };
+
+  if (!message || typeof message !== 'string' || !signature || typeof signature !== 'string') {
+    const response: ResponseType<UserInfo> = { code: StatusCode.BAD_REQUEST, message: 'message and signature are required' };
+    return res.status(400).json(response);
+  }
+
+  let result;
+  try {
+    result = await siweLoginService(message, signature, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+  } catch (error) {
+    console.error('SIWE login controller error:', error);
+    const response: ResponseType<UserInfo> = { code: StatusCode.UNAUTHORIZED, message: error instanceof Error ? error.message : 'Login failed' };
+    return res.status(401).json(response);
+  }
+
+  // 设置 HttpOnly Cookie（包含 refreshToken）
+  const isDevelopment = process.env.NODE_ENV === 'development';
+  res.cookie('refresh_token', result.refreshToken, {
+    httpOnly: true, // JavaScript 无法读取
+    secure: !isDevelopment, // 开发环境允许 HTTP，生产环境仅 HTTPS
+    sameSite: 'strict', // 防止 CSRF
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7天
+    path: '/', // Cookie 路径
+  });
+
+  const response: ResponseType<UserInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Login successful',
+    data: result.user,
+    accessToken: result.accessToken,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 绑定钱包
+ * 验证 SIWE 签名后绑定到当前账号
+ */
+export async function bindWalletController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const { message, signature } = req.body as { message?: string; signature?: string };
+
+  if (!message || typeof message !== 'string' || !signature || typeof signature !== 'string') {
+    const response: ResponseType<UserInfo> = { code: StatusCode.BAD_REQUEST, message: 'message and signature are required' };
+    return res.status(400).json(response);
+  }
+
+  let result;
+  try {
+    result = await bindWalletService(userId, message, signature);
+  } catch (error) {
+    console.error('Bind wallet controller error:', error);
+    const response: ResponseType<UserInfo> = { code: StatusCode.BAD_REQUEST, message: error instanceof Error ? error.message : 'Failed to bind wallet' };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<UserInfo> = { code: StatusCode.SUCCESS, message: 'Wallet bound successfully', data: result };
+  return res.status(200).json(response);
+}
+
+/**
+ * 解绑钱包
+ * 需要当前绑定钱包的 SIWE 签名确认
+ */
+export async function unbindWalletController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const { message, signature } = req.body as { message?: string; signature?: string };
+
+  if (!message || typeof message !== 'string' || !signature || typeof signature !== 'string') {
+    const response: ResponseType<UserInfo> = { code: StatusCode.BAD_REQUEST, message: 'message and signature are required' };
+    return res.status(400).json(response);
+  }
+
+  let result;
+  try {
+    result = await unbindWalletService(userId, message, signature);
+  } catch (error) {
+    console.error('Unbind wallet controller error:', error);
+    const response: ResponseType<UserInfo> = { code: StatusCode.BAD_REQUEST, message: error instanceof Error ? error.message : 'Failed to unbind wallet' };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<UserInfo> = { code: StatusCode.SUCCESS, message: 'Wallet unbound successfully', data: result };
+  return res.status(200).json(response);
+}
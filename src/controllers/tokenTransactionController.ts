@@ -1,5 +1,5 @@
 import { Response } from 'express';
-import { getTokenTransactionListService } from '../services/tokenTransactionService';
+import { getTokenTransactionListService, getTokenTransactionService } from '../services/tokenTransactionService';
 import { TokenTransactionInfo, TokenTransactionInfoQueryParams } from '../types/tokenTransactionType';
 import { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
@@ -19,7 +19,7 @@ import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
 export async function getTokenTransactionListController(req: AuthRequest, res: Response) {
   const userId = req.user!.userId;
   const userRole = req.user!.role;
-  const { userId: queryUserId, transactionType, rewardType, consumeType, relatedId, startDate, endDate, page, pageSize } = req.query;
+  const { userId: queryUserId, transactionType, rewardType, consumeType, relatedId, status, startDate, endDate, page, pageSize } = req.query;
 
   const params: TokenTransactionInfoQueryParams = {};
 
@@ -62,6 +62,13 @@ export async function getTokenTransactionListController(req: AuthRequest, res: R
     }
   }
 
+  if (status !== undefined) {
+    const statusNum = parseInt(status as string);
+    if (!isNaN(statusNum)) {
+      params.status = statusNum;
+    }
+  }
+
   if (startDate) {
     params.startDate = startDate as string;
   }
@@ -92,3 +99,57 @@ export async function getTokenTransactionListController(req: AuthRequest, res: R
   };
   return res.status(200).json(response);
 }
+
+/**
+ * 获取代币交易状态
+ * 用于前端领取奖励后轮询 mint 交易状态（0:待提交，1:已提交，2:已确认，3:失败）
+ * 只能查询自己的交易，管理员可查询全部
+ */
+export async function getTokenTransactionStatusController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const userRole = req.user!.role;
+  const transactionId = parseInt(req.params.transactionId as string);
+
+  if (isNaN(transactionId) || transactionId <= 0) {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid transactionId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await getTokenTransactionService(transactionId);
+  } catch (error) {
+    console.error('Get token transaction status controller error:', error);
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to get token transaction status',
+    };
+    return res.status(500).json(response);
+  }
+
+  if (!data) {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.NOT_FOUND,
+      message: 'Token transaction not found',
+    };
+    return res.status(404).json(response);
+  }
+
+  if (userRole !== ROLE_ADMIN && data.userId !== userId) {
+    const response: ResponseType<TokenTransactionInfo> = {
+      code: StatusCode.FORBIDDEN,
+      message: 'No permission to view this transaction',
+    };
+    return res.status(403).json(response);
+  }
+
+  const response: ResponseType<TokenTransactionInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get token transaction status successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
@@ -26,7 +26,7 @@ export async function loginController(req: Request, res: Response) {
   
   let result;
   try {
-    result = await loginService(data);
+    result = await loginService(data, { userAgent: req.get('user-agent'), ipAddress: req.ip });
   } catch (error) {
     console.error('Login controller error:', error);
     const response: ResponseType<UserInfo> = {
@@ -104,7 +104,7 @@ export async function updateUserController(req: AuthRequest, res: Response) {
   const data = req.body as Partial<UserInfo>;
 
   // 检查是否至少有一个可更新的字段
-  const updatableFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'schoolName', 'certificateFile', 'walletAddress', 'tokenBalance'];
+  const updatableFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'schoolName', 'certificateFile', 'tokenBalance'];
   const hasValidField = updatableFields.some(field => data[field as keyof UserInfo] !== undefined);
 
   if (!hasValidField) {
@@ -176,7 +176,7 @@ export async function updateUserController(req: AuthRequest, res: Response) {
  */
 export async function getUserListController(req: AuthRequest, res: Response) {
   const adminId = req.user!.userId;
-  const { userId, username, email, realName, role, walletBound, schoolName } = req.query;
+  const { userId, username, email, realName, role, walletBound, schoolName, status } = req.query;
   const page = parseInt(req.query.page as string) || 1;
   const pageSize = parseInt(req.query.pageSize as string) || 10;
 
@@ -198,6 +198,10 @@ export async function getUserListController(req: AuthRequest, res: Response) {
     const walletBoundNum = parseInt(walletBound as string);
     if (!isNaN(walletBoundNum)) params.walletBound = walletBoundNum;
   }
+  if (status !== undefined) {
+    const statusNum = parseInt(status as string);
+    if (!isNaN(statusNum)) params.status = statusNum;
+  }
 
   let data;
   try {
@@ -225,7 +229,16 @@ export async function adminUpdateUserController(req: AuthRequest, res: Response)
     return res.status(400).json(response);
   }
 
-  const updatableFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'role', 'walletBound', 'tokenBalance', 'schoolName', 'certificateFile', 'walletAddress', 'password'];
+  // 钱包只能由用户本人通过签名验证绑定/解绑，管理员不能直接修改
+  if (data.walletAddress !== undefined || data.walletBound !== undefined) {
+    const response: ResponseType<UserInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Wallet can only be changed through bindWallet/unbindWallet',
+    };
+    return res.status(400).json(response);
+  }
+
+  const updatableFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'role', 'tokenBalance', 'schoolName', 'certificateFile', 'password', 'status'];
   const hasValidField = updatableFields.some(field => data[field as keyof UserInfo] !== undefined);
   if (!hasValidField) {
     const response: ResponseType<UserInfo> = { code: StatusCode.BAD_REQUEST, message: 'At least one field to update is required' };
@@ -274,10 +287,10 @@ export async function adminUpdateUserController(req: AuthRequest, res: Response)
     };
     return res.status(400).json(response);
   }
-  if (data.walletBound !== undefined && ![0, 1].includes(data.walletBound)) {
+  if (data.status !== undefined && ![0, 1].includes(data.status)) {
     const response: ResponseType<UserInfo> = {
       code: StatusCode.BAD_REQUEST,
-      message: 'walletBound must be 0 or 1',
+      message: 'status must be 0 (active) or 1 (disabled)',
     };
     return res.status(400).json(response);
   }
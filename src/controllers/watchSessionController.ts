@@ -0,0 +1,168 @@
+import { Response } from 'express';
+import { startWatchSessionService, endWatchSessionService, getWatchSessionListService } from '../services/watchSessionService';
+import { ResourceAccessError } from '../services/resourceAccessService';
+import { ResourceLockedError } from '../services/resourcePrerequisiteService';
+import { CourseEnrollmentError } from '../services/courseEnrollmentService';
+import { ResourceAccessDenial } from '../types/resourceAccessType';
+import { ResourceLockDenial } from '../types/courseChapterType';
+import { CourseEnrollmentDenial } from '../types/courseEnrollmentType';
+import { WatchSessionInfo, WatchSessionInfoQueryParams } from '../types/watchSessionType';
+import { ResponseType } from '../types/responseType';
+import { StatusCode } from '../constants/statusCode';
+import { AuthRequest } from '../middlewares/authMiddleware';
+
+/**
+ * 开始观看会话（视频/音频类型）
+ * 返回会话ID，之后通过 reportLearningTime 携带该会话ID上报学习时间
+ */
+export async function startWatchSessionController(req: AuthRequest, res: Response) {
+  const studentId = req.user!.userId;
+  const { resourceId } = req.body as { resourceId?: number };
+
+  if (!resourceId || typeof resourceId !== 'number' || resourceId <= 0) {
+    const response: ResponseType<WatchSessionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid resourceId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await startWatchSessionService(studentId, resourceId, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+  } catch (error) {
+    console.error('Start watch session controller error:', error);
+    if (error instanceof ResourceAccessError) {
+      const response: ResponseType<ResourceAccessDenial> = {
+        code: StatusCode.FORBIDDEN,
+        message: error.message,
+        data: error.denial,
+      };
+      return res.status(403).json(response);
+    }
+    if (error instanceof ResourceLockedError) {
+      const response: ResponseType<ResourceLockDenial> = {
+        code: StatusCode.FORBIDDEN,
+        message: error.message,
+        data: error.denial,
+      };
+      return res.status(403).json(response);
+    }
+    if (error instanceof CourseEnrollmentError) {
+      const response: ResponseType<CourseEnrollmentDenial> = {
+        code: StatusCode.FORBIDDEN,
+        message: error.message,
+        data: error.denial,
+      };
+      return res.status(403).json(response);
+    }
+    const response: ResponseType<WatchSessionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to start watch session',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<WatchSessionInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Watch session started successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 结束观看会话
+ * 停止播放或离开页面时调用，结束后才能开始新的会话（未结束的会话超时后自动结束）
+ */
+export async function endWatchSessionController(req: AuthRequest, res: Response) {
+  const studentId = req.user!.userId;
+  const sessionId = parseInt(req.params.sessionId);
+
+  if (!sessionId || isNaN(sessionId) || sessionId <= 0) {
+    const response: ResponseType<WatchSessionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: 'Invalid sessionId',
+    };
+    return res.status(400).json(response);
+  }
+
+  let data;
+  try {
+    data = await endWatchSessionService(studentId, sessionId);
+  } catch (error) {
+    console.error('End watch session controller error:', error);
+    const response: ResponseType<WatchSessionInfo> = {
+      code: StatusCode.BAD_REQUEST,
+      message: error instanceof Error ? error.message : 'Failed to end watch session',
+    };
+    return res.status(400).json(response);
+  }
+
+  const response: ResponseType<WatchSessionInfo> = {
+    code: StatusCode.SUCCESS,
+    message: 'Watch session ended successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
+
+/**
+ * 获取观看会话列表
+ * 教师查看自己资源下学生的观看会话（含异常心跳次数），管理员可查看全部
+ */
+export async function getWatchSessionListController(req: AuthRequest, res: Response) {
+  const userId = req.user!.userId;
+  const role = req.user!.role;
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.pageSize as string) || 10;
+  const { studentId, resourceId, courseId, status, hasViolation } = req.query;
+
+  const params: WatchSessionInfoQueryParams = {};
+  if (studentId) {
+    const studentIdNum = parseInt(studentId as string);
+    if (!isNaN(studentIdNum)) {
+      params.studentId = studentIdNum;
+    }
+  }
+  if (resourceId) {
+    const resourceIdNum = parseInt(resourceId as string);
+    if (!isNaN(resourceIdNum)) {
+      params.resourceId = resourceIdNum;
+    }
+  }
+  if (courseId) {
+    const courseIdNum = parseInt(courseId as string);
+    if (!isNaN(courseIdNum)) {
+      params.courseId = courseIdNum;
+    }
+  }
+  if (status !== undefined) {
+    const statusNum = parseInt(status as string);
+    if (!isNaN(statusNum)) {
+      params.status = statusNum;
+    }
+  }
+  if (hasViolation === 'true' || hasViolation === '1') {
+    params.hasViolation = true;
+  }
+
+  let data;
+  try {
+    data = await getWatchSessionListService(userId, role, params, page, pageSize);
+  } catch (error) {
+    console.error('Get watch session list controller error:', error);
+    const response: ResponseType<{ records: WatchSessionInfo[]; total: number }> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to get watch session list',
+    };
+    return res.status(500).json(response);
+  }
+
+  const response: ResponseType<{ records: WatchSessionInfo[]; total: number }> = {
+    code: StatusCode.SUCCESS,
+    message: 'Get watch session list successfully',
+    data,
+  };
+  return res.status(200).json(response);
+}
@@ -5,6 +5,9 @@ import path from 'path';
 import './config/env';
 import { testDatabaseConnection } from './config/database';
 import userRoutes from './routes';
+import { startMintWorker } from './services/mintPipelineService';
+import { startCertificateNftMintWorker } from './services/certificateNftMintService';
+import { startCertificateBatchWorker } from './services/certificateBatchJobService';
 
 const app = express();
 const PORT = process.env.PORT || 6700;
@@ -26,6 +29,13 @@ async function bootstrap() {
     process.exit(1);
   }
 
+  // 启动奖励 mint 后台任务（跟踪回执、重试和替换卡住的交易）
+  startMintWorker();
+  // 启动证书 NFT 托管铸造后台任务
+  startCertificateNftMintWorker();
+  // 启动批量颁发证书后台任务
+  startCertificateBatchWorker();
+
   try {
 app.listen(PORT, () => {
   console.log(`🚀 服务器运行在 http://localhost:${PORT}`);
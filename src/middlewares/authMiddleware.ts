@@ -3,9 +3,14 @@ import jwt from 'jsonwebtoken';
 import { UserInfo } from '../types/userType';
 import { ResponseType } from '../types/responseType';
 import { StatusCode } from '../constants/statusCode';
+import { getUser } from '../models/userModel';
 
 const JWT_ACCESS_SECRET = (process.env.JWT_ACCESS_SECRET) as string;
 
+// 账号状态常量
+export const USER_STATUS_ACTIVE = 0;
+export const USER_STATUS_DISABLED = 1;
+
 /**
  * 扩展 Request 接口，添加 user 属性
  * 用于在认证中间件中附加用户信息
@@ -17,9 +22,10 @@ export interface AuthRequest extends Request {
 /**
  * JWT 认证中间件
  * 从请求头中提取 Access Token，验证后附加用户信息到 req.user
+ * 同时校验 token 版本和账号状态，角色/密码变更或账号禁用后旧 token 立即失效
  * 验证失败则返回 401 未授权错误
  */
-export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
 
@@ -32,9 +38,9 @@ export function authMiddleware(req: AuthRequest, res: Response, next: NextFuncti
   }
 
   // 验证 access token，decoded 是解码后的数据
-  let decoded: { userId: number; username: string; role?: number };
+  let decoded: { userId: number; username: string; role?: number; tv?: number };
   try {
-    decoded = jwt.verify(token, JWT_ACCESS_SECRET as string) as { userId: number; username: string; role?: number };
+    decoded = jwt.verify(token, JWT_ACCESS_SECRET as string) as { userId: number; username: string; role?: number; tv?: number };
   } catch (error) {
     console.error('JWT verify failed:', error);
     const response: ResponseType<UserInfo> = {
@@ -53,7 +59,28 @@ export function authMiddleware(req: AuthRequest, res: Response, next: NextFuncti
     return res.status(401).json(response);
   }
 
-  req.user = decoded;
+  // 校验 token 版本和账号状态
+  let user;
+  try {
+    user = await getUser({ userId: decoded.userId });
+  } catch (error) {
+    console.error('Auth middleware get user failed:', error);
+    const response: ResponseType<UserInfo> = {
+      code: StatusCode.INTERNAL_SERVER_ERROR,
+      message: 'Failed to verify token',
+    };
+    return res.status(500).json(response);
+  }
+
+  if (!user || user.status === USER_STATUS_DISABLED || (decoded.tv ?? 0) !== (user.tokenVersion ?? 0)) {
+    const response: ResponseType<UserInfo> = {
+      code: StatusCode.UNAUTHORIZED,
+      message: 'Token has been revoked',
+    };
+    return res.status(401).json(response);
+  }
+
+  req.user = { userId: decoded.userId, username: decoded.username, role: user.role };
   return next();
 }
 
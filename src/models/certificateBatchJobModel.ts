@@ -0,0 +1,284 @@
+import { dbPool } from '../config/database';
+import { CertificateBatchJobInfo } from '../types/certificateBatchJobType';
+
+const CERTIFICATE_BATCH_JOB_COLUMNS = 'jobId, courseId, createdBy, status, totalStudents, processedCount, issuedCount, skippedCount, failedCount, results, errorMessage, startedAt, finishedAt, createdAt, updatedAt';
+
+/**
+ * 将查询结果行转换为批量颁发证书任务（results 为 JSON 字符串）
+ */
+function mapCertificateBatchJobRow(row: any): CertificateBatchJobInfo {
+  let results = [];
+  if (row.results) {
+    try {
+      results = typeof row.results === 'string' ? JSON.parse(row.results) : row.results;
+    } catch {
+      results = [];
+    }
+  }
+
+  return {
+    jobId: row.jobId,
+    courseId: row.courseId,
+    createdBy: row.createdBy,
+    status: row.status,
+    totalStudents: row.totalStudents,
+    processedCount: row.processedCount,
+    issuedCount: row.issuedCount,
+    skippedCount: row.skippedCount,
+    failedCount: row.failedCount,
+    results,
+    errorMessage: row.errorMessage,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * 创建批量颁发证书任务
+ * 以排队状态（status=0）写入，由后台任务执行
+ * 仅在课程没有排队中或执行中（status=0/1）的任务时插入（同一条语句内判断，防止并发创建重复任务）
+ * @returns 创建后的任务，课程已有进行中的任务时返回 null
+ */
+export async function postCertificateBatchJob(
+  data: Partial<CertificateBatchJobInfo>
+): Promise<CertificateBatchJobInfo | null> {
+  const { courseId, createdBy } = data;
+
+  if (!courseId || !createdBy) {
+    throw new Error('courseId and createdBy are required');
+  }
+
+  const now = new Date();
+
+  const sql = `INSERT INTO certificateBatchJob (courseId, createdBy, status, totalStudents, processedCount, issuedCount, skippedCount, failedCount, results, createdAt, updatedAt)
+     SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+     FROM DUAL
+     WHERE NOT EXISTS (SELECT 1 FROM certificateBatchJob WHERE courseId = ? AND status IN (0, 1))`;
+  const values = [courseId, createdBy, 0, 0, 0, 0, 0, 0, '[]', now, now, courseId];
+
+  // 并发插入时其中一个语句可能因锁冲突被回滚，重试一次即可看到另一条已提交的任务
+  let result;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      [result] = await dbPool.query(sql, values);
+      break;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ER_LOCK_DEADLOCK' && attempt < 2) {
+        continue;
+      }
+      console.error('Create certificate batch job failed:', error);
+      throw error;
+    }
+  }
+
+  const insertResult = result as { insertId: number; affectedRows: number };
+  if (insertResult.affectedRows === 0) {
+    return null;
+  }
+
+  const job = await getCertificateBatchJob({ jobId: insertResult.insertId });
+  if (!job) {
+    throw new Error('Certificate batch job not found after creation');
+  }
+  return job;
+}
+
+/**
+ * 查询批量颁发证书任务
+ * 根据条件动态构建查询语句，支持按 jobId、courseId、status 查询（返回最新的一条）
+ */
+export async function getCertificateBatchJob(
+  conditions: Partial<CertificateBatchJobInfo> & { statuses?: number[] }
+): Promise<CertificateBatchJobInfo | null> {
+  const { jobId, courseId, status, statuses } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (jobId) {
+    whereConditions.push('jobId = ?');
+    values.push(jobId);
+  }
+  if (courseId) {
+    whereConditions.push('courseId = ?');
+    values.push(courseId);
+  }
+  if (status !== undefined) {
+    whereConditions.push('status = ?');
+    values.push(status);
+  }
+  if (statuses && statuses.length > 0) {
+    whereConditions.push('status IN (?)');
+    values.push(statuses);
+  }
+
+  if (whereConditions.length === 0) {
+    throw new Error('At least one condition is required');
+  }
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${CERTIFICATE_BATCH_JOB_COLUMNS} FROM certificateBatchJob WHERE ${whereConditions.join(' AND ')} ORDER BY jobId DESC LIMIT 1`,
+      values
+    );
+  } catch (error) {
+    console.error('Get certificate batch job failed:', error);
+    throw error;
+  }
+
+  const jobs = (rows as any[]).map(mapCertificateBatchJobRow);
+  return jobs[0] || null;
+}
+
+/**
+ * 查询批量颁发证书任务列表
+ * 支持按 courseId、createdBy 查询和分页
+ */
+export async function getCertificateBatchJobList(
+  conditions: Partial<CertificateBatchJobInfo>,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: CertificateBatchJobInfo[]; total: number }> {
+  const { courseId, createdBy } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (courseId) {
+    whereConditions.push('courseId = ?');
+    values.push(courseId);
+  }
+  if (createdBy) {
+    whereConditions.push('createdBy = ?');
+    values.push(createdBy);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  const offset = (page - 1) * pageSize;
+
+  let countRows;
+  try {
+    [countRows] = await dbPool.query(
+      `SELECT COUNT(*) as total FROM certificateBatchJob ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Get certificate batch job count failed:', error);
+    throw error;
+  }
+
+  const total = (countRows as { total: number }[])[0]?.total || 0;
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${CERTIFICATE_BATCH_JOB_COLUMNS} FROM certificateBatchJob ${whereClause} ORDER BY jobId DESC LIMIT ? OFFSET ?`,
+      [...values, pageSize, offset]
+    );
+  } catch (error) {
+    console.error('Get certificate batch job list failed:', error);
+    throw error;
+  }
+
+  const records = (rows as any[]).map(mapCertificateBatchJobRow);
+
+  return { records, total };
+}
+
+/**
+ * 更新批量颁发证书任务
+ * 仅允许更新执行进度相关字段（results 序列化为 JSON 字符串）
+ * 传入 expectedStatus 时仅在当前状态匹配时更新
+ * @returns 更新的行数
+ */
+export async function putCertificateBatchJob(
+  jobId: number,
+  data: Partial<CertificateBatchJobInfo>,
+  expectedStatus?: number
+): Promise<number> {
+  const allowedFields = ['status', 'totalStudents', 'processedCount', 'issuedCount', 'skippedCount', 'failedCount', 'results', 'errorMessage', 'startedAt', 'finishedAt'];
+
+  const updateFields: string[] = [];
+  const values: any[] = [];
+
+  allowedFields.forEach(field => {
+    const value = data[field as keyof CertificateBatchJobInfo];
+    if (value !== undefined) {
+      updateFields.push(`${field} = ?`);
+      values.push(field === 'results' ? JSON.stringify(value) : value);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    throw new Error('No valid fields to update');
+  }
+
+  updateFields.push('updatedAt = ?');
+  values.push(new Date());
+
+  values.push(jobId);
+  let whereClause = 'WHERE jobId = ?';
+  if (expectedStatus !== undefined) {
+    whereClause += ' AND status = ?';
+    values.push(expectedStatus);
+  }
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      `UPDATE certificateBatchJob SET ${updateFields.join(', ')} ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Update certificate batch job failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 领取下一个待执行的批量颁发证书任务（后台任务内部使用）
+ * 排队中的任务，或执行中但长时间未更新进度的任务（进程中断后恢复执行）
+ * 通过条件更新原子领取，多个实例只有一个能领取成功
+ */
+export async function claimCertificateBatchJob(staleBefore: Date): Promise<CertificateBatchJobInfo | null> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT jobId, status, updatedAt FROM certificateBatchJob
+       WHERE status = 0 OR (status = 1 AND updatedAt < ?)
+       ORDER BY jobId ASC
+       LIMIT 1`,
+      [staleBefore]
+    );
+  } catch (error) {
+    console.error('Get next certificate batch job failed:', error);
+    throw error;
+  }
+
+  const candidate = (rows as any[])[0];
+  if (!candidate) return null;
+
+  const now = new Date();
+  let result;
+  try {
+    [result] = await dbPool.query(
+      'UPDATE certificateBatchJob SET status = 1, startedAt = COALESCE(startedAt, ?), updatedAt = ? WHERE jobId = ? AND status = ? AND updatedAt = ?',
+      [now, now, candidate.jobId, candidate.status, candidate.updatedAt]
+    );
+  } catch (error) {
+    console.error('Claim certificate batch job failed:', error);
+    throw error;
+  }
+
+  if ((result as { affectedRows: number }).affectedRows === 0) {
+    return null;
+  }
+
+  return await getCertificateBatchJob({ jobId: candidate.jobId });
+}
@@ -6,11 +6,15 @@ import { CertificateInfo, CertificateInfoQueryParams } from '../types/certificat
 /**
  * 创建证书
  * 插入新证书到数据库，创建后返回完整证书信息
+ * 在同一条语句内判断唯一性，防止并发领取或补发重复颁发：
+ * - 普通领取：同一学生同一课程只能有一张证书（包括已撤销的证书）
+ * - 补发：同一原证书只能有一张补发证书
+ * @returns 创建后的证书，已存在证书时返回 null
  */
 export async function postCertificate(
     data: Partial<CertificateInfo>
-): Promise<CertificateInfo> {
-    const { certificateNftId, studentId, teacherId, courseId, learningRecordId, ipfsHash, transactionHash } = data;
+): Promise<CertificateInfo | null> {
+    const { certificateNftId, studentId, teacherId, courseId, learningRecordId, ipfsHash, pdfIpfsHash, transactionHash, verificationCode, predecessorCertificateId } = data;
 
     if (!studentId || !teacherId || !courseId || !learningRecordId) {
         throw new Error('studentId, teacherId, courseId and learningRecordId are required');
@@ -18,24 +22,51 @@ export async function postCertificate(
 
     const now = new Date();
 
+    const guardCondition = predecessorCertificateId
+        ? 'predecessorCertificateId = ?'
+        : 'studentId = ? AND courseId = ?';
+    const guardValues = predecessorCertificateId ? [predecessorCertificateId] : [studentId, courseId];
+
+    const sql = `INSERT INTO certificate (certificateNftId, studentId, teacherId, courseId, learningRecordId, ipfsHash, pdfIpfsHash, transactionHash, verificationCode, isRevoked, predecessorCertificateId, createdAt)
+         SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+         FROM DUAL
+         WHERE NOT EXISTS (SELECT 1 FROM certificate WHERE ${guardCondition})`;
+    const values = [
+        certificateNftId || null, studentId, teacherId, courseId, learningRecordId, ipfsHash || null, pdfIpfsHash || null, transactionHash || null, verificationCode || null, 0, predecessorCertificateId || null, now,
+        ...guardValues,
+    ];
+
+    // 并发插入时其中一个语句可能因锁冲突被回滚，重试一次即可看到另一条已提交的证书
     let result;
-    try {
-        [result] = await dbPool.query(
-            'INSERT INTO certificate (certificateNftId, studentId, teacherId, courseId, learningRecordId, ipfsHash, transactionHash, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-            [certificateNftId || null, studentId, teacherId, courseId, learningRecordId, ipfsHash || null, transactionHash || null, now]
-        );
-    } catch (error) {
-        console.error('Create certificate failed:', error);
-        throw error;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            [result] = await dbPool.query(sql, values);
+            break;
+        } catch (error) {
+            const code = (error as { code?: string }).code;
+            if (code === 'ER_DUP_ENTRY') {
+                // predecessorCertificateId 唯一索引冲突：该证书已被补发
+                return null;
+            }
+            if (code === 'ER_LOCK_DEADLOCK' && attempt < 2) {
+                continue;
+            }
+            console.error('Create certificate failed:', error);
+            throw error;
+        }
     }
 
-    const insertResult = result as { insertId: number };
+    const insertResult = result as { insertId: number; affectedRows: number };
+    if (insertResult.affectedRows === 0) {
+        return null;
+    }
 
     let rows;
     try {
         [rows] = await dbPool.query(
             `SELECT 
-              c.certificateId, c.certificateNftId, c.studentId, c.teacherId, c.courseId, c.learningRecordId, c.ipfsHash, c.transactionHash, c.createdAt,
+              c.certificateId, c.certificateNftId, c.studentId, c.teacherId, c.courseId, c.learningRecordId, c.ipfsHash, c.pdfIpfsHash, c.metadataIpfsHash, c.transactionHash, c.verificationCode, c.nftMintStatus, c.nftMintTransactionHash, c.nftMintError,
+              c.isRevoked, c.revokedReason, c.revokedBy, c.revokedAt, c.revokeTransactionHash, c.predecessorCertificateId, c.createdAt,
               s.userId AS studentUserId, s.username AS studentUsername, s.realName AS studentRealName, s.email AS studentEmail, s.avatar AS studentAvatar,
               t.userId AS teacherUserId, t.username AS teacherUsername, t.realName AS teacherRealName, t.email AS teacherEmail, t.avatar AS teacherAvatar, t.schoolName AS teacherSchoolName,
               co.courseId AS courseCourseId, co.courseName, co.description AS courseDescription, co.teacherId AS courseTeacherId
@@ -65,7 +96,19 @@ export async function postCertificate(
         courseId: row.courseId,
         learningRecordId: row.learningRecordId,
         ipfsHash: row.ipfsHash,
+        pdfIpfsHash: row.pdfIpfsHash,
+        metadataIpfsHash: row.metadataIpfsHash,
         transactionHash: row.transactionHash,
+        verificationCode: row.verificationCode,
+        nftMintStatus: row.nftMintStatus,
+        nftMintTransactionHash: row.nftMintTransactionHash,
+        nftMintError: row.nftMintError,
+        isRevoked: row.isRevoked,
+        revokedReason: row.revokedReason,
+        revokedBy: row.revokedBy,
+        revokedAt: row.revokedAt,
+        revokeTransactionHash: row.revokeTransactionHash,
+        predecessorCertificateId: row.predecessorCertificateId,
         createdAt: row.createdAt,
         // 返回学生信息
         student: row.studentUserId ? {
@@ -103,7 +146,7 @@ export async function getCertificateList(
     page: number = 1,
     pageSize: number = 10
 ): Promise<{ records: CertificateInfo[]; total: number }> {
-    const { studentId, teacherId, courseId, teacherName, startDate, endDate } = params;
+    const { studentId, teacherId, courseId, teacherName, isRevoked, startDate, endDate } = params;
 
     const whereConditions: string[] = [];
     const values: any[] = [];
@@ -120,6 +163,10 @@ export async function getCertificateList(
         whereConditions.push('c.courseId = ?');
         values.push(courseId);
     }
+    if (isRevoked !== undefined) {
+        whereConditions.push('c.isRevoked = ?');
+        values.push(isRevoked);
+    }
     if (teacherName) {
         whereConditions.push('(t.realName LIKE ? OR t.username LIKE ?)');
         const teacherNamePattern = `%${teacherName}%`;
@@ -161,7 +208,8 @@ export async function getCertificateList(
     try {
         [rows] = await dbPool.query(
             `SELECT 
-              c.certificateId, c.certificateNftId, c.studentId, c.teacherId, c.courseId, c.learningRecordId, c.ipfsHash, c.transactionHash, c.createdAt,
+              c.certificateId, c.certificateNftId, c.studentId, c.teacherId, c.courseId, c.learningRecordId, c.ipfsHash, c.pdfIpfsHash, c.metadataIpfsHash, c.transactionHash, c.verificationCode, c.nftMintStatus, c.nftMintTransactionHash, c.nftMintError,
+              c.isRevoked, c.revokedReason, c.revokedBy, c.revokedAt, c.revokeTransactionHash, c.predecessorCertificateId, c.createdAt,
               s.userId AS studentUserId, s.username AS studentUsername, s.realName AS studentRealName, s.email AS studentEmail, s.avatar AS studentAvatar,
               t.userId AS teacherUserId, t.username AS teacherUsername, t.realName AS teacherRealName, t.email AS teacherEmail, t.avatar AS teacherAvatar, t.schoolName AS teacherSchoolName,
               co.courseId AS courseCourseId, co.courseName, co.description AS courseDescription, co.teacherId AS courseTeacherId
@@ -187,7 +235,19 @@ export async function getCertificateList(
         courseId: row.courseId,
         learningRecordId: row.learningRecordId,
         ipfsHash: row.ipfsHash,
+        pdfIpfsHash: row.pdfIpfsHash,
+        metadataIpfsHash: row.metadataIpfsHash,
         transactionHash: row.transactionHash,
+        verificationCode: row.verificationCode,
+        nftMintStatus: row.nftMintStatus,
+        nftMintTransactionHash: row.nftMintTransactionHash,
+        nftMintError: row.nftMintError,
+        isRevoked: row.isRevoked,
+        revokedReason: row.revokedReason,
+        revokedBy: row.revokedBy,
+        revokedAt: row.revokedAt,
+        revokeTransactionHash: row.revokeTransactionHash,
+        predecessorCertificateId: row.predecessorCertificateId,
         createdAt: row.createdAt,
         // 返回学生信息
         student: row.studentUserId ? {
@@ -220,13 +280,13 @@ export async function getCertificateList(
 
 /**
 * 查询证书
-* 根据条件动态构建查询语句，支持按 certificateId、studentId、courseId 查询
+* 根据条件动态构建查询语句，支持按 certificateId、studentId、courseId、verificationCode、certificateNftId、predecessorCertificateId 查询
 */
 
 export async function getCertificate(
     conditions: Partial<CertificateInfo>
 ): Promise<CertificateInfo | null> {
-    const { certificateId, studentId, courseId, learningRecordId } = conditions;
+    const { certificateId, studentId, courseId, learningRecordId, verificationCode, certificateNftId, predecessorCertificateId } = conditions;
 
     const whereConditions: string[] = [];
     const values: any[] = [];
@@ -247,6 +307,18 @@ export async function getCertificate(
         whereConditions.push('c.learningRecordId = ?');
         values.push(learningRecordId);
     }
+    if (verificationCode) {
+        whereConditions.push('c.verificationCode = ?');
+        values.push(verificationCode);
+    }
+    if (certificateNftId) {
+        whereConditions.push('c.certificateNftId = ?');
+        values.push(certificateNftId);
+    }
+    if (predecessorCertificateId) {
+        whereConditions.push('c.predecessorCertificateId = ?');
+        values.push(predecessorCertificateId);
+    }
 
     const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
@@ -254,7 +326,8 @@ export async function getCertificate(
     try {
         [rows] = await dbPool.query(
             `SELECT 
-              c.certificateId, c.certificateNftId, c.studentId, c.teacherId, c.courseId, c.learningRecordId, c.ipfsHash, c.transactionHash, c.createdAt,
+              c.certificateId, c.certificateNftId, c.studentId, c.teacherId, c.courseId, c.learningRecordId, c.ipfsHash, c.pdfIpfsHash, c.metadataIpfsHash, c.transactionHash, c.verificationCode, c.nftMintStatus, c.nftMintTransactionHash, c.nftMintError,
+              c.isRevoked, c.revokedReason, c.revokedBy, c.revokedAt, c.revokeTransactionHash, c.predecessorCertificateId, c.createdAt,
               s.userId AS studentUserId, s.username AS studentUsername, s.realName AS studentRealName, s.email AS studentEmail, s.avatar AS studentAvatar,
               t.userId AS teacherUserId, t.username AS teacherUsername, t.realName AS teacherRealName, t.email AS teacherEmail, t.avatar AS teacherAvatar, t.schoolName AS teacherSchoolName,
               co.courseId AS courseCourseId, co.courseName, co.description AS courseDescription, co.teacherId AS courseTeacherId
@@ -278,7 +351,19 @@ export async function getCertificate(
         courseId: row.courseId,
         learningRecordId: row.learningRecordId,
         ipfsHash: row.ipfsHash,
+        pdfIpfsHash: row.pdfIpfsHash,
+        metadataIpfsHash: row.metadataIpfsHash,
         transactionHash: row.transactionHash,
+        verificationCode: row.verificationCode,
+        nftMintStatus: row.nftMintStatus,
+        nftMintTransactionHash: row.nftMintTransactionHash,
+        nftMintError: row.nftMintError,
+        isRevoked: row.isRevoked,
+        revokedReason: row.revokedReason,
+        revokedBy: row.revokedBy,
+        revokedAt: row.revokedAt,
+        revokeTransactionHash: row.revokeTransactionHash,
+        predecessorCertificateId: row.predecessorCertificateId,
         createdAt: row.createdAt,
         // 返回学生信息
         student: row.studentUserId ? {
@@ -312,53 +397,62 @@ export async function getCertificate(
 /**
  * 更新证书的链上信息
  * 仅更新 certificateNftId 和 transactionHash 字段
+ * 仅在证书未撤销、尚未绑定 NFT 且没有进行中的托管铸造时更新（原子绑定，并发请求只有一个能成功）
+ * @returns 更新后的证书信息，不满足条件时返回 null
  */
 export async function updateCertificateNft(
     certificateId: number,
-    data: { certificateNftId?: string; transactionHash?: string }
+    data: { certificateNftId: string; transactionHash: string }
 ): Promise<CertificateInfo | null> {
-    const updateFields: string[] = [];
-    const values: any[] = [];
-
-    if (data.certificateNftId !== undefined) {
-        updateFields.push('certificateNftId = ?');
-        values.push(data.certificateNftId);
-    }
-
-    if (data.transactionHash !== undefined) {
-        updateFields.push('transactionHash = ?');
-        values.push(data.transactionHash);
+    let result;
+    try {
+        [result] = await dbPool.query(
+            'UPDATE certificate SET certificateNftId = ?, transactionHash = ? WHERE certificateId = ? AND certificateNftId IS NULL AND isRevoked = 0 AND (nftMintStatus IS NULL OR nftMintStatus = 3)',
+            [data.certificateNftId, data.transactionHash, certificateId]
+        );
+    } catch (error) {
+        console.error('Update certificate nft info failed:', error);
+        throw error;
     }
 
-    if (updateFields.length === 0) {
-        throw new Error('No nft fields to update');
+    if ((result as { affectedRows: number }).affectedRows === 0) {
+        return null;
     }
 
-    values.push(certificateId);
+    // 返回更新后的证书信息
+    return await getCertificate({ certificateId });
+}
 
+/**
+ * 更新证书的NFT元数据哈希
+ * 仅更新 metadataIpfsHash 字段
+ */
+export async function updateCertificateMetadata(
+    certificateId: number,
+    metadataIpfsHash: string
+): Promise<CertificateInfo | null> {
     try {
         await dbPool.query(
-            `UPDATE certificate SET ${updateFields.join(', ')} WHERE certificateId = ?`,
-            values
+            'UPDATE certificate SET metadataIpfsHash = ? WHERE certificateId = ?',
+            [metadataIpfsHash, certificateId]
         );
     } catch (error) {
-        console.error('Update certificate nft info failed:', error);
+        console.error('Update certificate metadata failed:', error);
         throw error;
     }
 
-    // 返回更新后的证书信息
     return await getCertificate({ certificateId });
 }
 
 /**
  * 检查证书是否已存在
- * 根据学习记录ID检查是否已领取过证书
+ * 根据学生ID和课程ID检查是否已领取过证书（包括已撤销的证书，撤销后只能由教师或管理员补发）
  */
-export async function checkCertificateExists(learningRecordId: number): Promise<boolean> {
+export async function checkCertificateExists(studentId: number, courseId: number): Promise<boolean> {
     try {
         const [rows] = await dbPool.query(
-            'SELECT COUNT(*) as count FROM certificate WHERE learningRecordId = ?',
-            [learningRecordId]
+            'SELECT COUNT(*) as count FROM certificate WHERE studentId = ? AND courseId = ?',
+            [studentId, courseId]
         );
 
         const count = (rows as { count: number }[])[0]?.count || 0;
@@ -367,4 +461,202 @@ export async function checkCertificateExists(learningRecordId: number): Promise<
         console.error('Check certificate exists failed:', error);
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * 撤销证书
+ * 记录撤销原因、撤销人和撤销时间，仅在证书尚未撤销时更新（并发撤销只有一个能成功）
+ * @returns 更新的行数
+ */
+export async function revokeCertificate(
+    certificateId: number,
+    data: { revokedReason: string; revokedBy: number }
+): Promise<number> {
+    let result;
+    try {
+        [result] = await dbPool.query(
+            'UPDATE certificate SET isRevoked = 1, revokedReason = ?, revokedBy = ?, revokedAt = ? WHERE certificateId = ? AND isRevoked = 0',
+            [data.revokedReason, data.revokedBy, new Date(), certificateId]
+        );
+    } catch (error) {
+        console.error('Revoke certificate failed:', error);
+        throw error;
+    }
+
+    return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 更新证书撤销时销毁 NFT 的交易哈希
+ */
+export async function updateCertificateRevokeTransaction(
+    certificateId: number,
+    revokeTransactionHash: string
+): Promise<void> {
+    try {
+        await dbPool.query(
+            'UPDATE certificate SET revokeTransactionHash = ? WHERE certificateId = ?',
+            [revokeTransactionHash, certificateId]
+        );
+    } catch (error) {
+        console.error('Update certificate revoke transaction failed:', error);
+        throw error;
+    }
+}
+
+/**
+ * 更新证书待销毁 NFT 标记
+ * 传入 expected 时仅在当前标记匹配时更新（用于后台任务认领销毁）
+ * @returns 更新的行数
+ */
+export async function updateCertificateNftBurnPending(
+    certificateId: number,
+    nftBurnPending: number,
+    expected?: number
+): Promise<number> {
+    let sql = 'UPDATE certificate SET nftBurnPending = ? WHERE certificateId = ?';
+    const values: any[] = [nftBurnPending, certificateId];
+    if (expected !== undefined) {
+        sql += ' AND nftBurnPending = ?';
+        values.push(expected);
+    }
+
+    let result;
+    try {
+        [result] = await dbPool.query(sql, values);
+    } catch (error) {
+        console.error('Update certificate nft burn pending failed:', error);
+        throw error;
+    }
+
+    return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 查询待销毁 NFT 的已撤销证书列表（托管铸造后台任务内部使用）
+ * 只返回已绑定 NFT 且尚未记录销毁交易的证书
+ */
+export async function getCertificateNftBurnQueue(limit: number): Promise<CertificateInfo[]> {
+    let rows;
+    try {
+        [rows] = await dbPool.query(
+            `SELECT certificateId, certificateNftId
+             FROM certificate
+             WHERE nftBurnPending = 1 AND isRevoked = 1 AND certificateNftId IS NOT NULL AND revokeTransactionHash IS NULL
+             ORDER BY certificateId ASC
+             LIMIT ?`,
+            [limit]
+        );
+    } catch (error) {
+        console.error('Get certificate nft burn queue failed:', error);
+        throw error;
+    }
+
+    return (rows as any[]).map((row: any): CertificateInfo => ({
+        certificateId: row.certificateId,
+        certificateNftId: row.certificateNftId,
+    }));
+}
+
+/**
+ * 更新证书托管铸造信息
+ * 仅允许更新托管铸造相关字段，确认时同时写入 certificateNftId 和 transactionHash
+ * 传入 expected 时仅在当前 nftMintStatus / nftMintTransactionHash 匹配时更新（原子状态迁移）
+ * 写入 certificateNftId 时要求证书尚未绑定 NFT
+ * @returns 更新的行数
+ */
+export async function putCertificateNftMint(
+    certificateId: number,
+    data: Partial<CertificateInfo>,
+    expected?: { nftMintStatus?: number | null; nftMintTransactionHash?: string | null }
+): Promise<number> {
+    const allowedFields = ['nftMintStatus', 'nftMintWalletAddress', 'nftMintTransactionHash', 'nftMintTxNonce', 'nftMintRawTransaction', 'nftMintAttempts', 'nftMintError', 'nftMintSubmittedAt', 'certificateNftId', 'transactionHash'];
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+
+    allowedFields.forEach(field => {
+        if (data[field as keyof CertificateInfo] !== undefined) {
+            updateFields.push(`${field} = ?`);
+            values.push(data[field as keyof CertificateInfo]);
+        }
+    });
+
+    if (updateFields.length === 0) {
+        throw new Error('No nft mint fields to update');
+    }
+
+    values.push(certificateId);
+    let whereClause = 'WHERE certificateId = ?';
+    if (expected?.nftMintStatus === null) {
+        whereClause += ' AND nftMintStatus IS NULL';
+    } else if (expected?.nftMintStatus !== undefined) {
+        whereClause += ' AND nftMintStatus = ?';
+        values.push(expected.nftMintStatus);
+    }
+    if (expected?.nftMintTransactionHash === null) {
+        whereClause += ' AND nftMintTransactionHash IS NULL';
+    } else if (expected?.nftMintTransactionHash !== undefined) {
+        whereClause += ' AND nftMintTransactionHash = ?';
+        values.push(expected.nftMintTransactionHash);
+    }
+    if (data.certificateNftId !== undefined) {
+        whereClause += ' AND certificateNftId IS NULL';
+    }
+
+    let result;
+    try {
+        [result] = await dbPool.query(
+            `UPDATE certificate SET ${updateFields.join(', ')} ${whereClause}`,
+            values
+        );
+    } catch (error) {
+        console.error('Update certificate nft mint failed:', error);
+        throw error;
+    }
+
+    return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 查询待处理的托管铸造证书列表（托管铸造后台任务内部使用）
+ * 返回待提交和已提交的证书，包含接收地址、已签名交易和 nonce
+ */
+export async function getCertificateNftMintQueue(
+    statuses: number[],
+    limit: number
+): Promise<CertificateInfo[]> {
+    let rows;
+    try {
+        [rows] = await dbPool.query(
+            `SELECT certificateId, certificateNftId, studentId, metadataIpfsHash, transactionHash, nftMintStatus, nftMintWalletAddress, nftMintTransactionHash,
+              nftMintTxNonce, nftMintRawTransaction, nftMintAttempts, nftMintError, nftMintSubmittedAt, isRevoked, createdAt
+             FROM certificate
+             WHERE nftMintStatus IN (?)
+             ORDER BY certificateId ASC
+             LIMIT ?`,
+            [statuses, limit]
+        );
+    } catch (error) {
+        console.error('Get certificate nft mint queue failed:', error);
+        throw error;
+    }
+
+    return (rows as any[]).map((row: any): CertificateInfo => ({
+        certificateId: row.certificateId,
+        certificateNftId: row.certificateNftId,
+        studentId: row.studentId,
+        metadataIpfsHash: row.metadataIpfsHash,
+        transactionHash: row.transactionHash,
+        nftMintStatus: row.nftMintStatus,
+        nftMintWalletAddress: row.nftMintWalletAddress,
+        nftMintTransactionHash: row.nftMintTransactionHash,
+        nftMintTxNonce: row.nftMintTxNonce,
+        nftMintRawTransaction: row.nftMintRawTransaction,
+        nftMintAttempts: row.nftMintAttempts,
+        nftMintError: row.nftMintError,
+        nftMintSubmittedAt: row.nftMintSubmittedAt,
+        isRevoked: row.isRevoked,
+        createdAt: row.createdAt,
+    }));
+}
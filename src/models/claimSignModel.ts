@@ -0,0 +1,92 @@
+import { dbPool } from '../config/database';
+import type { ClaimRewardSign } from '../types/eip712SignType';
+
+/**
+ * 保存领取奖励签名挑战
+ * 同一 signKey 只保留最新一次签发的挑战（重复签发会覆盖）
+ */
+export async function postClaimSign(signKey: string, data: ClaimRewardSign): Promise<void> {
+  const { userId, walletAddress, resourceId, rewardType, chainId, amount, nonce, deadline, createdAtMs } = data;
+
+  try {
+    await dbPool.query(
+      `INSERT INTO claimRewardSign (signKey, userId, walletAddress, resourceId, rewardType, chainId, amount, nonce, deadline, createdAtMs)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE chainId = VALUES(chainId), amount = VALUES(amount), nonce = VALUES(nonce), deadline = VALUES(deadline), createdAtMs = VALUES(createdAtMs)`,
+      [signKey, userId, walletAddress, resourceId, rewardType, chainId, amount, nonce, deadline, createdAtMs]
+    );
+  } catch (error) {
+    console.error('Create claim sign failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * 查询领取奖励签名挑战
+ */
+export async function getClaimSign(signKey: string): Promise<ClaimRewardSign | null> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      'SELECT userId, walletAddress, resourceId, rewardType, chainId, amount, nonce, deadline, createdAtMs FROM claimRewardSign WHERE signKey = ? LIMIT 1',
+      [signKey]
+    );
+  } catch (error) {
+    console.error('Get claim sign failed:', error);
+    throw error;
+  }
+
+  const records = rows as any[];
+  if (records.length === 0) return null;
+
+  const row = records[0];
+  return {
+    userId: Number(row.userId),
+    walletAddress: row.walletAddress,
+    resourceId: Number(row.resourceId),
+    rewardType: Number(row.rewardType),
+    chainId: Number(row.chainId),
+    amount: String(row.amount),
+    nonce: String(row.nonce),
+    deadline: Number(row.deadline),
+    createdAtMs: Number(row.createdAtMs),
+  };
+}
+
+/**
+ * 删除领取奖励签名挑战
+ * 传入 nonce 时仅删除 nonce 匹配的挑战
+ * @returns 删除的行数（用于判断是否消费成功）
+ */
+export async function deleteClaimSign(signKey: string, nonce?: string): Promise<number> {
+  let result;
+  try {
+    if (nonce) {
+      [result] = await dbPool.query('DELETE FROM claimRewardSign WHERE signKey = ? AND nonce = ?', [signKey, nonce]);
+    } else {
+      [result] = await dbPool.query('DELETE FROM claimRewardSign WHERE signKey = ?', [signKey]);
+    }
+  } catch (error) {
+    console.error('Delete claim sign failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 清理已过期的领取奖励签名挑战
+ * @param nowSec 当前时间（unix 秒）
+ * @returns 删除的行数
+ */
+export async function deleteExpiredClaimSigns(nowSec: number): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query('DELETE FROM claimRewardSign WHERE deadline <= ?', [nowSec]);
+  } catch (error) {
+    console.error('Delete expired claim signs failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
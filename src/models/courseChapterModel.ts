@@ -0,0 +1,162 @@
+import { dbPool } from '../config/database';
+import { CourseChapterInfo } from '../types/courseChapterType';
+
+/**
+ * 创建课程章节
+ * 插入新章节到数据库，创建后返回完整章节信息
+ */
+export async function postCourseChapter(
+  data: Partial<CourseChapterInfo>
+): Promise<CourseChapterInfo> {
+  const { courseId, title, description, sortOrder } = data;
+
+  if (!courseId || !title) {
+    throw new Error('courseId and title are required');
+  }
+
+  const now = new Date();
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      'INSERT INTO courseChapter (courseId, title, description, sortOrder, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
+      [courseId, title, description || null, sortOrder || 0, now, now]
+    );
+  } catch (error) {
+    console.error('Create course chapter failed:', error);
+    throw error;
+  }
+
+  const insertResult = result as { insertId: number };
+
+  const chapter = await getCourseChapter({ chapterId: insertResult.insertId });
+  if (!chapter) {
+    throw new Error('Course chapter not found after creation');
+  }
+  return chapter;
+}
+
+/**
+ * 查询课程章节
+ * 根据条件动态构建查询语句，支持按 chapterId、courseId 查询
+ */
+export async function getCourseChapter(
+  conditions: Partial<CourseChapterInfo>
+): Promise<CourseChapterInfo | null> {
+  const { chapterId, courseId } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (chapterId) {
+    whereConditions.push('chapterId = ?');
+    values.push(chapterId);
+  }
+  if (courseId) {
+    whereConditions.push('courseId = ?');
+    values.push(courseId);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT chapterId, courseId, title, description, sortOrder, createdAt, updatedAt
+       FROM courseChapter
+       ${whereClause}
+       LIMIT 1`,
+      values
+    );
+  } catch (error) {
+    console.error('Get course chapter failed:', error);
+    throw error;
+  }
+
+  const chapters = rows as CourseChapterInfo[];
+  return chapters.length > 0 ? chapters[0] : null;
+}
+
+/**
+ * 获取课程的章节列表
+ * 按排序升序返回课程的全部章节
+ */
+export async function getCourseChapterList(courseId: number): Promise<CourseChapterInfo[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT chapterId, courseId, title, description, sortOrder, createdAt, updatedAt
+       FROM courseChapter
+       WHERE courseId = ?
+       ORDER BY sortOrder ASC, chapterId ASC`,
+      [courseId]
+    );
+  } catch (error) {
+    console.error('Get course chapter list failed:', error);
+    throw error;
+  }
+
+  return rows as CourseChapterInfo[];
+}
+
+/**
+ * 更新课程章节
+ * 根据 chapterId 更新章节信息，只允许更新特定字段
+ */
+export async function putCourseChapter(
+  chapterId: number,
+  data: Partial<CourseChapterInfo>
+): Promise<CourseChapterInfo> {
+  const allowedFields = ['title', 'description', 'sortOrder'];
+
+  const updateFields: string[] = [];
+  const values: any[] = [];
+
+  allowedFields.forEach(field => {
+    if (data[field as keyof CourseChapterInfo] !== undefined) {
+      updateFields.push(`${field} = ?`);
+      values.push(data[field as keyof CourseChapterInfo]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    throw new Error('No valid fields to update');
+  }
+
+  updateFields.push('updatedAt = ?');
+  values.push(new Date());
+
+  values.push(chapterId);
+
+  try {
+    await dbPool.query(
+      `UPDATE courseChapter SET ${updateFields.join(', ')} WHERE chapterId = ?`,
+      values
+    );
+  } catch (error) {
+    console.error('Update course chapter failed:', error);
+    throw error;
+  }
+
+  const chapter = await getCourseChapter({ chapterId });
+  if (!chapter) {
+    throw new Error('Course chapter not found after update');
+  }
+  return chapter;
+}
+
+/**
+ * 删除课程章节
+ * @returns 删除的行数
+ */
+export async function deleteCourseChapter(chapterId: number): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query('DELETE FROM courseChapter WHERE chapterId = ?', [chapterId]);
+  } catch (error) {
+    console.error('Delete course chapter failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
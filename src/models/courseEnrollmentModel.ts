@@ -0,0 +1,275 @@
+import { dbPool } from '../config/database';
+import { CourseEnrollmentInfo, CourseEnrollmentInfoQueryParams } from '../types/courseEnrollmentType';
+
+const COURSE_ENROLLMENT_COLUMNS = `ce.enrollmentId, ce.courseId, ce.studentId, ce.status, ce.enrolledAt, ce.droppedAt, ce.createdAt, ce.updatedAt`;
+
+/**
+ * 将查询结果行转换为选课记录信息
+ */
+function mapCourseEnrollmentRow(row: any): CourseEnrollmentInfo {
+  return {
+    enrollmentId: row.enrollmentId,
+    courseId: row.courseId,
+    studentId: row.studentId,
+    status: row.status,
+    enrolledAt: row.enrolledAt,
+    droppedAt: row.droppedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    student: row.studentUserId ? {
+      userId: row.studentUserId,
+      username: row.studentUsername,
+      realName: row.studentRealName,
+      email: row.studentEmail,
+      avatar: row.studentAvatar,
+      schoolName: row.studentSchoolName,
+    } : null,
+    course: row.courseCourseId ? {
+      courseId: row.courseCourseId,
+      courseName: row.courseCourseName,
+      teacherId: row.courseTeacherId,
+      coverImage: row.courseCoverImage,
+      courseStartTime: row.courseCourseStartTime,
+      courseEndTime: row.courseCourseEndTime,
+      status: row.courseStatus,
+    } : null,
+  };
+}
+
+/**
+ * 查询选课记录
+ * 根据条件动态构建查询语句，支持按 enrollmentId、courseId、studentId、status 查询
+ */
+export async function getCourseEnrollment(
+  conditions: Partial<CourseEnrollmentInfo>
+): Promise<CourseEnrollmentInfo | null> {
+  const { enrollmentId, courseId, studentId, status } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (enrollmentId) {
+    whereConditions.push('ce.enrollmentId = ?');
+    values.push(enrollmentId);
+  }
+  if (courseId) {
+    whereConditions.push('ce.courseId = ?');
+    values.push(courseId);
+  }
+  if (studentId) {
+    whereConditions.push('ce.studentId = ?');
+    values.push(studentId);
+  }
+  if (status !== undefined) {
+    whereConditions.push('ce.status = ?');
+    values.push(status);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${COURSE_ENROLLMENT_COLUMNS}
+       FROM courseEnrollment ce
+       ${whereClause}
+       LIMIT 1`,
+      values
+    );
+  } catch (error) {
+    console.error('Get course enrollment failed:', error);
+    throw error;
+  }
+
+  const enrollments = (rows as any[]).map(mapCourseEnrollmentRow);
+  return enrollments.length > 0 ? enrollments[0] : null;
+}
+
+/**
+ * 创建选课记录
+ * 仅在学生没有该课程的选课记录时插入；传入 capacity 时还需课程已选课人数小于容量（同一条语句内判断，防止重复提交和并发选课超出容量）
+ * @returns 创建后的选课记录，课程已满或已有选课记录时返回 null
+ */
+export async function postCourseEnrollment(
+  data: Partial<CourseEnrollmentInfo>,
+  capacity?: number | null
+): Promise<CourseEnrollmentInfo | null> {
+  const { courseId, studentId } = data;
+
+  if (!courseId || !studentId) {
+    throw new Error('courseId and studentId are required');
+  }
+
+  const now = new Date();
+
+  const hasCapacity = capacity !== undefined && capacity !== null;
+  const sql = `INSERT INTO courseEnrollment (courseId, studentId, status, enrolledAt, droppedAt, createdAt, updatedAt)
+     SELECT ?, ?, 1, ?, NULL, ?, ?
+     FROM ${hasCapacity ? '(SELECT COUNT(*) AS total FROM courseEnrollment WHERE courseId = ? AND status = 1) enrolled' : 'DUAL'}
+     WHERE NOT EXISTS (SELECT 1 FROM courseEnrollment WHERE courseId = ? AND studentId = ?)${hasCapacity ? ' AND enrolled.total < ?' : ''}`;
+  const values = hasCapacity
+    ? [courseId, studentId, now, now, now, courseId, courseId, studentId, capacity]
+    : [courseId, studentId, now, now, now, courseId, studentId];
+
+  // 并发选课时其中一个语句可能因锁冲突被回滚，重试一次即可看到另一条已提交的选课记录
+  let result;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      [result] = await dbPool.query(sql, values);
+      break;
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ER_DUP_ENTRY') {
+        // (courseId, studentId) 唯一索引冲突：已有选课记录
+        return null;
+      }
+      if (code === 'ER_LOCK_DEADLOCK' && attempt < 2) {
+        continue;
+      }
+      console.error('Create course enrollment failed:', error);
+      throw error;
+    }
+  }
+
+  const insertResult = result as { insertId: number; affectedRows: number };
+  if (insertResult.affectedRows === 0) {
+    return null;
+  }
+
+  return await getCourseEnrollment({ enrollmentId: insertResult.insertId });
+}
+
+/**
+ * 重新选课
+ * 将已退课的记录恢复为已选课；传入 capacity 时仅在课程已选课人数小于容量时更新
+ * @returns 更新的行数（0 表示课程已满或记录不是已退课状态）
+ */
+export async function reenrollCourseEnrollment(
+  enrollmentId: number,
+  courseId: number,
+  capacity?: number | null
+): Promise<number> {
+  const now = new Date();
+
+  const hasCapacity = capacity !== undefined && capacity !== null;
+  const sql = hasCapacity
+    ? `UPDATE courseEnrollment ce
+       JOIN (SELECT COUNT(*) AS total FROM courseEnrollment WHERE courseId = ? AND status = 1) enrolled
+       SET ce.status = 1, ce.enrolledAt = ?, ce.droppedAt = NULL, ce.updatedAt = ?
+       WHERE ce.enrollmentId = ? AND ce.status = 2 AND enrolled.total < ?`
+    : 'UPDATE courseEnrollment SET status = 1, enrolledAt = ?, droppedAt = NULL, updatedAt = ? WHERE enrollmentId = ? AND status = 2';
+  const values = hasCapacity
+    ? [courseId, now, now, enrollmentId, capacity]
+    : [now, now, enrollmentId];
+
+  // 并发选课时其中一个语句可能因锁冲突被回滚，重试一次
+  let result;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      [result] = await dbPool.query(sql, values);
+      break;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ER_LOCK_DEADLOCK' && attempt < 2) {
+        continue;
+      }
+      console.error('Reenroll course enrollment failed:', error);
+      throw error;
+    }
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 退课
+ * 仅在记录为已选课状态时更新（防止重复退课）
+ * @returns 更新的行数
+ */
+export async function dropCourseEnrollment(enrollmentId: number): Promise<number> {
+  const now = new Date();
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      'UPDATE courseEnrollment SET status = 2, droppedAt = ?, updatedAt = ? WHERE enrollmentId = ? AND status = 1',
+      [now, now, enrollmentId]
+    );
+  } catch (error) {
+    console.error('Drop course enrollment failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 获取选课记录列表
+ * 支持分页和条件筛选，返回学生和课程信息，按选课时间倒序
+ */
+export async function getCourseEnrollmentList(
+  params: CourseEnrollmentInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: CourseEnrollmentInfo[]; total: number }> {
+  const { courseId, studentId, status, studentName } = params;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (courseId) {
+    whereConditions.push('ce.courseId = ?');
+    values.push(courseId);
+  }
+  if (studentId) {
+    whereConditions.push('ce.studentId = ?');
+    values.push(studentId);
+  }
+  if (status !== undefined) {
+    whereConditions.push('ce.status = ?');
+    values.push(status);
+  }
+  if (studentName) {
+    whereConditions.push('(u.realName LIKE ? OR u.username LIKE ?)');
+    const studentNamePattern = `%${studentName}%`;
+    values.push(studentNamePattern, studentNamePattern);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  const offset = (page - 1) * pageSize;
+
+  let countRows;
+  try {
+    [countRows] = await dbPool.query(
+      `SELECT COUNT(*) as total FROM courseEnrollment ce LEFT JOIN user u ON ce.studentId = u.userId ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Get course enrollment count failed:', error);
+    throw error;
+  }
+
+  const total = (countRows as { total: number }[])[0]?.total || 0;
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${COURSE_ENROLLMENT_COLUMNS},
+         u.userId AS studentUserId, u.username AS studentUsername, u.realName AS studentRealName, u.email AS studentEmail, u.avatar AS studentAvatar, u.schoolName AS studentSchoolName,
+         c.courseId AS courseCourseId, c.courseName AS courseCourseName, c.teacherId AS courseTeacherId, c.coverImage AS courseCoverImage,
+         c.courseStartTime AS courseCourseStartTime, c.courseEndTime AS courseCourseEndTime, c.status AS courseStatus
+       FROM courseEnrollment ce
+       LEFT JOIN user u ON ce.studentId = u.userId
+       LEFT JOIN course c ON ce.courseId = c.courseId
+       ${whereClause}
+       ORDER BY ce.enrolledAt DESC
+       LIMIT ? OFFSET ?`,
+      [...values, pageSize, offset]
+    );
+  } catch (error) {
+    console.error('Get course enrollment list failed:', error);
+    throw error;
+  }
+
+  return { records: (rows as any[]).map(mapCourseEnrollmentRow), total };
+}
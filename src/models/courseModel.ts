@@ -29,7 +29,8 @@ export async function getCourse(
   try {
     [rows] = await dbPool.query(
       `SELECT 
-         c.courseId, c.courseName, c.teacherId, c.description, c.coverImage, c.courseStartTime, c.courseEndTime, c.status, c.createdAt, c.updatedAt,
+         c.courseId, c.courseName, c.teacherId, c.description, c.coverImage, c.courseStartTime, c.courseEndTime, c.capacity, c.enrollmentStartTime, c.enrollmentEndTime, c.status, c.createdAt, c.updatedAt,
+         (SELECT COUNT(*) FROM courseEnrollment ce WHERE ce.courseId = c.courseId AND ce.status = 1) AS enrolledCount,
          u.userId AS teacherUserId, u.username AS teacherUsername, u.realName AS teacherRealName, u.email AS teacherEmail, u.schoolName AS teacherSchoolName, u.avatar AS teacherAvatar
        FROM course c 
        LEFT JOIN user u ON c.teacherId = u.userId
@@ -49,6 +50,10 @@ export async function getCourse(
     coverImage: row.coverImage,
     courseStartTime: row.courseStartTime,
     courseEndTime: row.courseEndTime,
+    capacity: row.capacity,
+    enrollmentStartTime: row.enrollmentStartTime,
+    enrollmentEndTime: row.enrollmentEndTime,
+    enrolledCount: Number(row.enrolledCount || 0),
     status: row.status,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
@@ -138,7 +143,8 @@ export async function getCourseList(
   try {
     [rows] = await dbPool.query(
       `SELECT 
-         c.courseId, c.courseName, c.teacherId, c.description, c.coverImage, c.courseStartTime, c.courseEndTime, c.status, c.createdAt, c.updatedAt,
+         c.courseId, c.courseName, c.teacherId, c.description, c.coverImage, c.courseStartTime, c.courseEndTime, c.capacity, c.enrollmentStartTime, c.enrollmentEndTime, c.status, c.createdAt, c.updatedAt,
+         (SELECT COUNT(*) FROM courseEnrollment ce WHERE ce.courseId = c.courseId AND ce.status = 1) AS enrolledCount,
          u.userId AS teacherUserId, u.username AS teacherUsername, u.realName AS teacherRealName, u.email AS teacherEmail, u.schoolName AS teacherSchoolName, u.avatar AS teacherAvatar
        FROM course c
        LEFT JOIN user u ON c.teacherId = u.userId
@@ -160,6 +166,10 @@ export async function getCourseList(
     coverImage: row.coverImage,
     courseStartTime: row.courseStartTime,
     courseEndTime: row.courseEndTime,
+    capacity: row.capacity,
+    enrollmentStartTime: row.enrollmentStartTime,
+    enrollmentEndTime: row.enrollmentEndTime,
+    enrolledCount: Number(row.enrolledCount || 0),
     status: row.status,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
@@ -184,7 +194,7 @@ export async function getCourseList(
 export async function postCourse(
   data: Partial<CourseInfo>
 ): Promise<CourseInfo> {
-  const { courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, status } = data;
+  const { courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, capacity, enrollmentStartTime, enrollmentEndTime, status } = data;
 
   if (!courseName || !teacherId || !courseStartTime || !courseEndTime) {
     throw new Error('courseName, teacherId, courseStartTime and courseEndTime are required');
@@ -198,8 +208,14 @@ export async function postCourse(
   let result;
   try {
     [result] = await dbPool.query(
-      'INSERT INTO course (courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [courseName, teacherId, description || null, coverImage || null, formattedStartTime, formattedEndTime, status !== undefined ? status : 0, now, now]
+      'INSERT INTO course (courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, capacity, enrollmentStartTime, enrollmentEndTime, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        courseName, teacherId, description || null, coverImage || null, formattedStartTime, formattedEndTime,
+        capacity ?? null,
+        enrollmentStartTime ? formatDateTimeForMySQL(enrollmentStartTime) : null,
+        enrollmentEndTime ? formatDateTimeForMySQL(enrollmentEndTime) : null,
+        status !== undefined ? status : 0, now, now,
+      ]
     );
   } catch (error) {
     console.error('Create course failed:', error);
@@ -211,7 +227,7 @@ export async function postCourse(
   let rows;
   try {
     [rows] = await dbPool.query(
-      `SELECT courseId, courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, status, createdAt, updatedAt
+      `SELECT courseId, courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, capacity, enrollmentStartTime, enrollmentEndTime, status, createdAt, updatedAt
        FROM course
        WHERE courseId = ?`,
       [insertResult.insertId]
@@ -234,7 +250,7 @@ export async function putCourse(
   data: Partial<CourseInfo>
 ): Promise<CourseInfo> {
   // 允许更新的字段
-  const allowedFields = ['courseName', 'description', 'coverImage', 'courseStartTime', 'courseEndTime', 'status'];
+  const allowedFields = ['courseName', 'description', 'coverImage', 'courseStartTime', 'courseEndTime', 'capacity', 'enrollmentStartTime', 'enrollmentEndTime', 'status'];
 
   const updateFields: string[] = [];
   const values: any[] = [];
@@ -243,8 +259,10 @@ export async function putCourse(
   allowedFields.forEach(field => {
     if (data[field as keyof CourseInfo] !== undefined) {
       updateFields.push(`${field} = ?`);
-      // 如果是日期时间字段，转换为 MySQL 格式
-      if (field === 'courseStartTime' || field === 'courseEndTime') {
+      // 如果是日期时间字段，转换为 MySQL 格式（选课时间传 null 表示不限制）
+      if (data[field as keyof CourseInfo] === null) {
+        values.push(null);
+      } else if (field === 'courseStartTime' || field === 'courseEndTime' || field === 'enrollmentStartTime' || field === 'enrollmentEndTime') {
         values.push(formatDateTimeForMySQL(data[field as keyof CourseInfo] as Date | string));
       } else {
         values.push(data[field as keyof CourseInfo]);
@@ -279,7 +297,7 @@ export async function putCourse(
   let rows;
   try {
     [rows] = await dbPool.query(
-      `SELECT courseId, courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, status, createdAt, updatedAt
+      `SELECT courseId, courseName, teacherId, description, coverImage, courseStartTime, courseEndTime, capacity, enrollmentStartTime, enrollmentEndTime, status, createdAt, updatedAt
        FROM course
        WHERE courseId = ?`,
       [courseId]
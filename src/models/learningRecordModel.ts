@@ -1,7 +1,60 @@
 import { dbPool } from '../config/database';
-import { LearningRecordInfo, LearningRecordInfoQueryParams } from '../types/learningRecordType';
+import { LearningRecordInfo, LearningRecordInfoQueryParams, WatchedSegment } from '../types/learningRecordType';
 import { ResourceInfo } from '../types/resourceType';
 
+/**
+ * 解析已观看区间（watchedSegments 为 JSON 字符串）
+ */
+function parseWatchedSegments(value: any): WatchedSegment[] | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 将查询结果行转换为学习记录信息
+ */
+function mapLearningRecordRow(row: any): LearningRecordInfo {
+  return {
+    recordId: row.recordId,
+    studentId: row.studentId,
+    resourceId: row.resourceId,
+    progress: row.progress,
+    learningTime: row.learningTime,
+    watchedSegments: parseWatchedSegments(row.watchedSegments),
+    lastPosition: row.lastPosition,
+    review: row.review,
+    rating: row.rating,
+    isCompleted: row.isCompleted,
+    isVisible: row.isVisible,
+    completedAt: row.completedAt,
+    flagStatus: row.flagStatus,
+    flagReason: row.flagReason,
+    flaggedAt: row.flaggedAt,
+    flagReviewedBy: row.flagReviewedBy,
+    flagReviewedAt: row.flagReviewedAt,
+    flagReviewNote: row.flagReviewNote,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    student: row.studentUserId ? {
+      userId: row.studentUserId,
+      username: row.studentUsername,
+      realName: row.studentRealName,
+      avatar: row.studentAvatar,
+    } : null,
+    resource: row.resourceResourceId ? {
+      resourceId: row.resourceResourceId,
+      title: row.resourceTitle,
+      resourceType: row.resourceResourceType,
+    } : null,
+  };
+}
+
 /**
  * 查询学习记录
  * 根据条件动态构建查询语句，支持按 recordId、studentId、resourceId 查询
@@ -33,7 +86,7 @@ export async function getLearningRecord(
   try {
     [rows] = await dbPool.query(
       `SELECT 
-         lr.recordId, lr.studentId, lr.resourceId, lr.progress, lr.learningTime, lr.review, lr.rating, lr.isCompleted, lr.isVisible, lr.completedAt, lr.createdAt, lr.updatedAt,
+         lr.recordId, lr.studentId, lr.resourceId, lr.progress, lr.learningTime, lr.watchedSegments, lr.lastPosition, lr.review, lr.rating, lr.isCompleted, lr.isVisible, lr.completedAt, lr.flagStatus, lr.flagReason, lr.flaggedAt, lr.flagReviewedBy, lr.flagReviewedAt, lr.flagReviewNote, lr.createdAt, lr.updatedAt,
          u.userId AS studentUserId, u.username AS studentUsername, u.realName AS studentRealName, u.avatar AS studentAvatar,
          r.resourceId AS resourceResourceId, r.title AS resourceTitle, r.resourceType AS resourceResourceType
        FROM learningRecord lr
@@ -48,45 +101,21 @@ export async function getLearningRecord(
     throw error;
   }
 
-  const records = (rows as any[]).map((row: any): LearningRecordInfo => ({
-    recordId: row.recordId,
-    studentId: row.studentId,
-    resourceId: row.resourceId,
-    progress: row.progress,
-    learningTime: row.learningTime,
-    review: row.review,
-    rating: row.rating,
-    isCompleted: row.isCompleted,
-    isVisible: row.isVisible,
-    completedAt: row.completedAt,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-    student: row.studentUserId ? {
-      userId: row.studentUserId,
-      username: row.studentUsername,
-      realName: row.studentRealName,
-      avatar: row.studentAvatar,
-    } : null,
-    resource: row.resourceResourceId ? {
-      resourceId: row.resourceResourceId,
-      title: row.resourceTitle,
-      resourceType: row.resourceResourceType,
-    } : null,
-  }));
+  const records = (rows as any[]).map(mapLearningRecordRow);
 
   return records.length > 0 ? records[0] : null;
 }
 
 /**
  * 获取学习记录列表
- * 支持分页和条件筛选
+ * 支持分页和条件筛选（课程、教师按资源关联筛选）
  */
 export async function getLearningRecordList(
-  params: Partial<LearningRecordInfo>,
+  params: LearningRecordInfoQueryParams,
   page: number = 1,
   pageSize: number = 10
 ): Promise<{ records: LearningRecordInfo[]; total: number }> {
-  const { studentId, resourceId } = params;
+  const { studentId, resourceId, courseId, teacherId, flagStatus } = params;
 
   const whereConditions: string[] = [];
   const values: any[] = [];
@@ -99,6 +128,18 @@ export async function getLearningRecordList(
     whereConditions.push('lr.resourceId = ?');
     values.push(resourceId);
   }
+  if (courseId) {
+    whereConditions.push('r.courseId = ?');
+    values.push(courseId);
+  }
+  if (teacherId) {
+    whereConditions.push('r.ownerId = ?');
+    values.push(teacherId);
+  }
+  if (flagStatus !== undefined) {
+    whereConditions.push('lr.flagStatus = ?');
+    values.push(flagStatus);
+  }
 
   const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
@@ -108,7 +149,7 @@ export async function getLearningRecordList(
   let countRows;
   try {
     [countRows] = await dbPool.query(
-      `SELECT COUNT(*) as total FROM learningRecord lr ${whereClause}`,
+      `SELECT COUNT(*) as total FROM learningRecord lr LEFT JOIN resource r ON lr.resourceId = r.resourceId ${whereClause}`,
       values
     );
   } catch (error) {
@@ -123,7 +164,7 @@ export async function getLearningRecordList(
   try {
     [rows] = await dbPool.query(
       `SELECT 
-         lr.recordId, lr.studentId, lr.resourceId, lr.progress, lr.learningTime, lr.review, lr.rating, lr.isCompleted, lr.isVisible, lr.completedAt, lr.createdAt, lr.updatedAt,
+         lr.recordId, lr.studentId, lr.resourceId, lr.progress, lr.learningTime, lr.review, lr.rating, lr.isCompleted, lr.isVisible, lr.completedAt, lr.flagStatus, lr.flagReason, lr.flaggedAt, lr.flagReviewedBy, lr.flagReviewedAt, lr.flagReviewNote, lr.createdAt, lr.updatedAt,
          u.userId AS studentUserId, u.username AS studentUsername, u.realName AS studentRealName, u.avatar AS studentAvatar,
          r.resourceId AS resourceResourceId, r.title AS resourceTitle, r.resourceType AS resourceResourceType
        FROM learningRecord lr
@@ -150,6 +191,12 @@ export async function getLearningRecordList(
     isCompleted: row.isCompleted,
     isVisible: row.isVisible,
     completedAt: row.completedAt,
+    flagStatus: row.flagStatus,
+    flagReason: row.flagReason,
+    flaggedAt: row.flaggedAt,
+    flagReviewedBy: row.flagReviewedBy,
+    flagReviewedAt: row.flagReviewedAt,
+    flagReviewNote: row.flagReviewNote,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     student: row.studentUserId ? {
@@ -186,7 +233,7 @@ export async function postLearningRecord(
   let result;
   try {
     [result] = await dbPool.query(
-      'INSERT INTO learningRecord (studentId, resourceId, progress, learningTime, review, rating, isCompleted, isVisible, completedAt, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO learningRecord (studentId, resourceId, progress, learningTime, review, rating, isCompleted, isVisible, completedAt, flagStatus, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)',
       [
         studentId,
         resourceId,
@@ -211,7 +258,7 @@ export async function postLearningRecord(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT recordId, studentId, resourceId, progress, learningTime, review, rating, isCompleted, isVisible, completedAt, createdAt, updatedAt FROM learningRecord WHERE recordId = ?',
+      'SELECT recordId, studentId, resourceId, progress, learningTime, watchedSegments, lastPosition, review, rating, isCompleted, isVisible, completedAt, flagStatus, flagReason, flaggedAt, flagReviewedBy, flagReviewedAt, flagReviewNote, createdAt, updatedAt FROM learningRecord WHERE recordId = ?',
       [insertResult.insertId]
     );
   } catch (error) {
@@ -219,7 +266,10 @@ export async function postLearningRecord(
     throw error;
   }
 
-  const records = rows as LearningRecordInfo[];
+  const records = (rows as any[]).map((row: any): LearningRecordInfo => ({
+    ...row,
+    watchedSegments: parseWatchedSegments(row.watchedSegments),
+  }));
   return records[0];
 }
 
@@ -232,16 +282,20 @@ export async function putLearningRecord(
   data: Partial<LearningRecordInfo>
 ): Promise<LearningRecordInfo> {
   // 允许更新的字段
-  const allowedFields = ['progress', 'learningTime', 'review', 'rating', 'isCompleted', 'isVisible', 'completedAt'];
+  const allowedFields = [
+    'progress', 'learningTime', 'watchedSegments', 'lastPosition', 'review', 'rating', 'isCompleted', 'isVisible', 'completedAt',
+    'flagStatus', 'flagReason', 'flaggedAt', 'flagReviewedBy', 'flagReviewedAt', 'flagReviewNote',
+  ];
 
   const updateFields: string[] = [];
   const values: any[] = [];
 
-  // 动态构建 UPDATE 语句
+  // 动态构建 UPDATE 语句（watchedSegments 序列化为 JSON 字符串）
   allowedFields.forEach(field => {
-    if (data[field as keyof LearningRecordInfo] !== undefined) {
+    const value = data[field as keyof LearningRecordInfo];
+    if (value !== undefined) {
       updateFields.push(`${field} = ?`);
-      values.push(data[field as keyof LearningRecordInfo]);
+      values.push(field === 'watchedSegments' && value !== null ? JSON.stringify(value) : value);
     }
   });
 
@@ -272,7 +326,7 @@ export async function putLearningRecord(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT recordId, studentId, resourceId, progress, learningTime, review, rating, isCompleted, isVisible, completedAt, createdAt, updatedAt FROM learningRecord WHERE recordId = ?',
+      'SELECT recordId, studentId, resourceId, progress, learningTime, watchedSegments, lastPosition, review, rating, isCompleted, isVisible, completedAt, flagStatus, flagReason, flaggedAt, flagReviewedBy, flagReviewedAt, flagReviewNote, createdAt, updatedAt FROM learningRecord WHERE recordId = ?',
       [recordId]
     );
   } catch (error) {
@@ -280,7 +334,10 @@ export async function putLearningRecord(
     throw error;
   }
 
-  const records = rows as LearningRecordInfo[];
+  const records = (rows as any[]).map((row: any): LearningRecordInfo => ({
+    ...row,
+    watchedSegments: parseWatchedSegments(row.watchedSegments),
+  }));
   if (records.length === 0) {
     throw new Error('Learning record not found after update');
   }
@@ -412,3 +469,107 @@ export async function getLearningHistoryList(
 
   return { records, total };
 }
+
+/**
+ * 查询课程的学习者ID列表
+ * 返回在课程任一资源下有学习记录的用户ID（去重）
+ */
+export async function getCourseLearnerIdList(courseId: number): Promise<number[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT DISTINCT lr.studentId
+       FROM learningRecord lr
+       JOIN resource r ON lr.resourceId = r.resourceId
+       WHERE r.courseId = ?
+       ORDER BY lr.studentId ASC`,
+      [courseId]
+    );
+  } catch (error) {
+    console.error('Get course learner list failed:', error);
+    throw error;
+  }
+
+  return (rows as { studentId: number }[]).map(row => row.studentId);
+}
+
+/**
+ * 查询学生在课程下的全部学习记录
+ * 一次查询课程所有资源（不限资源状态）的学习记录，由调用方按 resourceId 对应
+ */
+export async function getCourseLearningRecordList(
+  studentId: number,
+  courseId: number
+): Promise<LearningRecordInfo[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT 
+         lr.recordId, lr.studentId, lr.resourceId, lr.progress, lr.learningTime, lr.watchedSegments, lr.lastPosition, lr.review, lr.rating, lr.isCompleted, lr.isVisible, lr.completedAt, lr.flagStatus, lr.flagReason, lr.flaggedAt, lr.flagReviewedBy, lr.flagReviewedAt, lr.flagReviewNote, lr.createdAt, lr.updatedAt,
+         r.resourceId AS resourceResourceId, r.title AS resourceTitle, r.resourceType AS resourceResourceType
+       FROM learningRecord lr
+       JOIN resource r ON lr.resourceId = r.resourceId
+       WHERE lr.studentId = ? AND r.courseId = ?`,
+      [studentId, courseId]
+    );
+  } catch (error) {
+    console.error('Get course learning record list failed:', error);
+    throw error;
+  }
+
+  return (rows as any[]).map(mapLearningRecordRow);
+}
+
+/**
+ * 查询学生已完成的资源ID列表
+ * 一次查询多个资源（如前置资源）的完成情况
+ */
+export async function getCompletedResourceIdList(
+  studentId: number,
+  resourceIds: number[]
+): Promise<number[]> {
+  if (resourceIds.length === 0) {
+    return [];
+  }
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT resourceId
+       FROM learningRecord
+       WHERE studentId = ? AND resourceId IN (?) AND isCompleted = 1`,
+      [studentId, resourceIds]
+    );
+  } catch (error) {
+    console.error('Get completed resource id list failed:', error);
+    throw error;
+  }
+
+  return (rows as any[]).map(row => row.resourceId);
+}
+
+/**
+ * 查询资源下所有学习记录的已观看区间
+ * 只返回记录过播放位置的学习记录（用于统计观看流失点）
+ */
+export async function getResourceWatchedSegmentList(
+  resourceId: number
+): Promise<{ studentId: number; watchedSegments: WatchedSegment[] }[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT studentId, watchedSegments
+       FROM learningRecord
+       WHERE resourceId = ? AND watchedSegments IS NOT NULL`,
+      [resourceId]
+    );
+  } catch (error) {
+    console.error('Get resource watched segment list failed:', error);
+    throw error;
+  }
+
+  return (rows as any[]).map(row => ({
+    studentId: row.studentId,
+    watchedSegments: parseWatchedSegments(row.watchedSegments) || [],
+  }));
+}
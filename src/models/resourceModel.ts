@@ -32,7 +32,7 @@ export async function getResource(
   try {
     [rows] = await dbPool.query(
       `SELECT 
-         r.resourceId, r.resourceNftId, r.ownerId, r.courseId, r.title, r.description, r.ipfsHash, r.resourceType, r.price, r.accessScope, r.status, r.createdAt, r.updatedAt,
+         r.resourceId, r.resourceNftId, r.ownerId, r.courseId, r.title, r.description, r.ipfsHash, r.metadataIpfsHash, r.resourceType, r.duration, r.chapterId, r.sortOrder, r.price, r.accessScope, r.status, r.createdAt, r.updatedAt,
          u.userId AS ownerUserId, u.username AS ownerUsername, u.realName AS ownerRealName, u.schoolName AS ownerSchoolName
        FROM resource r 
        LEFT JOIN user u ON r.ownerId = u.userId
@@ -52,7 +52,11 @@ export async function getResource(
     title: row.title,
     description: row.description,
     ipfsHash: row.ipfsHash,
+    metadataIpfsHash: row.metadataIpfsHash,
     resourceType: row.resourceType,
+    duration: row.duration,
+    chapterId: row.chapterId,
+    sortOrder: row.sortOrder,
     price: row.price,
     accessScope: row.accessScope,
     status: row.status,
@@ -78,37 +82,46 @@ export async function getResourceList(
   page: number = 1,
   pageSize: number = 10
 ): Promise<{ records: ResourceInfo[]; total: number }> {
-  const { courseId, ownerId, resourceType, status } = params;
+  const { courseId, chapterId, ownerId, resourceType, status } = params;
 
   const whereConditions: string[] = [];
   const values: any[] = [];
 
   if (courseId) {
-    whereConditions.push('courseId = ?');
+    whereConditions.push('r.courseId = ?');
     values.push(courseId);
   }
+  if (chapterId) {
+    whereConditions.push('r.chapterId = ?');
+    values.push(chapterId);
+  }
   if (ownerId) {
-    whereConditions.push('ownerId = ?');
+    whereConditions.push('r.ownerId = ?');
     values.push(ownerId);
   }
   if (resourceType !== undefined) {
-    whereConditions.push('resourceType = ?');
+    whereConditions.push('r.resourceType = ?');
     values.push(resourceType);
   }
   if (status !== undefined) {
-    whereConditions.push('status = ?');
+    whereConditions.push('r.status = ?');
     values.push(status);
   }
 
   const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
+  // 按课程查询时按大纲顺序（章节顺序、章节内顺序，未分章节的资源排在最后），否则按创建时间倒序
+  const orderClause = courseId
+    ? 'ORDER BY (ch.chapterId IS NULL) ASC, ch.sortOrder ASC, ch.chapterId ASC, r.sortOrder ASC, r.resourceId ASC'
+    : 'ORDER BY r.createdAt DESC';
+
   const offset = (page - 1) * pageSize;
 
   // 查询总数
   let countRows;
   try {
     [countRows] = await dbPool.query(
-      `SELECT COUNT(*) as total FROM resource ${whereClause}`,
+      `SELECT COUNT(*) as total FROM resource r ${whereClause}`,
       values
     );
   } catch (error) {
@@ -122,10 +135,11 @@ export async function getResourceList(
   let rows;
   try {
     [rows] = await dbPool.query(
-      `SELECT resourceId, resourceNftId, ownerId, courseId, title, description, ipfsHash, resourceType, price, accessScope, status, createdAt, updatedAt 
-       FROM resource 
+      `SELECT r.resourceId, r.resourceNftId, r.ownerId, r.courseId, r.title, r.description, r.ipfsHash, r.metadataIpfsHash, r.resourceType, r.duration, r.chapterId, r.sortOrder, r.price, r.accessScope, r.status, r.createdAt, r.updatedAt 
+       FROM resource r 
+       LEFT JOIN courseChapter ch ON r.chapterId = ch.chapterId 
        ${whereClause} 
-       ORDER BY createdAt DESC 
+       ${orderClause} 
        LIMIT ? OFFSET ?`,
       [...values, pageSize, offset]
     );
@@ -139,6 +153,40 @@ export async function getResourceList(
   return { records, total };
 }
 
+/**
+ * 获取课程的全部资源（不分页）
+ * 按大纲顺序（章节顺序、章节内顺序，未分章节的资源排在最后）返回，用于计算课程完成度和课程大纲
+ */
+export async function getCourseResourceList(
+  courseId: number,
+  status?: number
+): Promise<ResourceInfo[]> {
+  const whereConditions: string[] = ['r.courseId = ?'];
+  const values: any[] = [courseId];
+
+  if (status !== undefined) {
+    whereConditions.push('r.status = ?');
+    values.push(status);
+  }
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT r.resourceId, r.resourceNftId, r.ownerId, r.courseId, r.title, r.description, r.ipfsHash, r.metadataIpfsHash, r.resourceType, r.duration, r.chapterId, r.sortOrder, r.price, r.accessScope, r.status, r.createdAt, r.updatedAt 
+       FROM resource r 
+       LEFT JOIN courseChapter ch ON r.chapterId = ch.chapterId 
+       WHERE ${whereConditions.join(' AND ')} 
+       ORDER BY (ch.chapterId IS NULL) ASC, ch.sortOrder ASC, ch.chapterId ASC, r.sortOrder ASC, r.resourceId ASC`,
+      values
+    );
+  } catch (error) {
+    console.error('Get course resource list failed:', error);
+    throw error;
+  }
+
+  return rows as ResourceInfo[];
+}
+
 /**
  * 创建资源
  * 插入新资源到数据库，创建后返回完整资源信息
@@ -147,7 +195,7 @@ export async function getResourceList(
 export async function postResource(
   data: Partial<ResourceInfo>
 ): Promise<ResourceInfo> {
-  const { ownerId, courseId, title, description, ipfsHash, resourceType, price, accessScope, status } = data;
+  const { ownerId, courseId, title, description, ipfsHash, resourceType, duration, chapterId, sortOrder, price, accessScope, status } = data;
 
   if (!ownerId || !courseId || !title) {
     throw new Error('ownerId, courseId and title are required');
@@ -162,8 +210,8 @@ export async function postResource(
   let result;
   try {
     [result] = await dbPool.query(
-      'INSERT INTO resource (resourceNftId, ownerId, courseId, title, description, ipfsHash, resourceType, price, accessScope, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [null, ownerId, courseId, title, description || null, filePath, resourceType || 0, price || 0.00, accessScope || 0, status || 0, now, now]
+      'INSERT INTO resource (resourceNftId, ownerId, courseId, title, description, ipfsHash, resourceType, duration, chapterId, sortOrder, price, accessScope, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [null, ownerId, courseId, title, description || null, filePath, resourceType || 0, duration ?? null, chapterId ?? null, sortOrder || 0, price || 0.00, accessScope || 0, status || 0, now, now]
     );
   } catch (error) {
     console.error('Create resource failed:', error);
@@ -175,7 +223,7 @@ export async function postResource(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT resourceId, resourceNftId, ownerId, courseId, title, description, ipfsHash, resourceType, price, accessScope, status, createdAt, updatedAt FROM resource WHERE resourceId = ?',
+      'SELECT resourceId, resourceNftId, ownerId, courseId, title, description, ipfsHash, metadataIpfsHash, resourceType, duration, chapterId, sortOrder, price, accessScope, status, createdAt, updatedAt FROM resource WHERE resourceId = ?',
       [insertResult.insertId]
     );
   } catch (error) {
@@ -196,7 +244,7 @@ export async function putResource(
   data: Partial<ResourceInfo>
 ): Promise<ResourceInfo> {
   // 允许更新的字段
-  const allowedFields = ['resourceNftId', 'title', 'description', 'resourceType', 'price', 'accessScope', 'status'];
+  const allowedFields = ['resourceNftId', 'metadataIpfsHash', 'title', 'description', 'resourceType', 'chapterId', 'sortOrder', 'price', 'accessScope', 'status'];
 
   const updateFields: string[] = [];
   const values: any[] = [];
@@ -236,7 +284,7 @@ export async function putResource(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT resourceId, resourceNftId, ownerId, courseId, title, description, ipfsHash, resourceType, price, accessScope, status, createdAt, updatedAt FROM resource WHERE resourceId = ?',
+      'SELECT resourceId, resourceNftId, ownerId, courseId, title, description, ipfsHash, metadataIpfsHash, resourceType, duration, chapterId, sortOrder, price, accessScope, status, createdAt, updatedAt FROM resource WHERE resourceId = ?',
       [resourceId]
     );
   } catch (error) {
@@ -251,3 +299,22 @@ export async function putResource(
 
   return resources[0];
 }
+
+/**
+ * 将章节下的资源移出章节（删除章节时使用）
+ * @returns 更新的行数
+ */
+export async function clearResourceChapter(chapterId: number): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query(
+      'UPDATE resource SET chapterId = NULL, updatedAt = ? WHERE chapterId = ?',
+      [new Date(), chapterId]
+    );
+  } catch (error) {
+    console.error('Clear resource chapter failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
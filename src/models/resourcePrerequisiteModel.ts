@@ -0,0 +1,88 @@
+import { dbPool } from '../config/database';
+import { ResourcePrerequisiteInfo } from '../types/courseChapterType';
+
+/**
+ * 获取资源前置条件列表
+ * 支持按 resourceId（单个资源的前置条件）或 courseId（课程内全部前置条件）查询，附带前置资源基本信息
+ */
+export async function getResourcePrerequisiteList(
+  conditions: { resourceId?: number; courseId?: number }
+): Promise<ResourcePrerequisiteInfo[]> {
+  const { resourceId, courseId } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (resourceId) {
+    whereConditions.push('rp.resourceId = ?');
+    values.push(resourceId);
+  }
+  if (courseId) {
+    whereConditions.push('r.courseId = ?');
+    values.push(courseId);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT
+         rp.prerequisiteId, rp.resourceId, rp.requiredResourceId, rp.createdAt,
+         req.resourceId AS requiredResourceResourceId, req.title AS requiredResourceTitle, req.resourceType AS requiredResourceType, req.status AS requiredResourceStatus
+       FROM resourcePrerequisite rp
+       JOIN resource r ON rp.resourceId = r.resourceId
+       LEFT JOIN resource req ON rp.requiredResourceId = req.resourceId
+       ${whereClause}
+       ORDER BY rp.resourceId ASC, rp.prerequisiteId ASC`,
+      values
+    );
+  } catch (error) {
+    console.error('Get resource prerequisite list failed:', error);
+    throw error;
+  }
+
+  return (rows as any[]).map((row: any): ResourcePrerequisiteInfo => ({
+    prerequisiteId: row.prerequisiteId,
+    resourceId: row.resourceId,
+    requiredResourceId: row.requiredResourceId,
+    createdAt: row.createdAt,
+    requiredResource: row.requiredResourceResourceId ? {
+      resourceId: row.requiredResourceResourceId,
+      title: row.requiredResourceTitle,
+      resourceType: row.requiredResourceType,
+      status: row.requiredResourceStatus,
+    } : null,
+  }));
+}
+
+/**
+ * 替换资源的前置条件
+ * 删除资源原有的前置条件后插入新的前置条件列表
+ */
+export async function replaceResourcePrerequisites(
+  resourceId: number,
+  requiredResourceIds: number[]
+): Promise<void> {
+  try {
+    await dbPool.query('DELETE FROM resourcePrerequisite WHERE resourceId = ?', [resourceId]);
+  } catch (error) {
+    console.error('Delete resource prerequisites failed:', error);
+    throw error;
+  }
+
+  if (requiredResourceIds.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  try {
+    await dbPool.query(
+      'INSERT INTO resourcePrerequisite (resourceId, requiredResourceId, createdAt) VALUES ?',
+      [requiredResourceIds.map(requiredResourceId => [resourceId, requiredResourceId, now])]
+    );
+  } catch (error) {
+    console.error('Create resource prerequisites failed:', error);
+    throw error;
+  }
+}
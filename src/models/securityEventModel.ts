@@ -0,0 +1,115 @@
+import { dbPool } from '../config/database';
+import { SecurityEventInfo, SecurityEventInfoQueryParams } from '../types/securityEventType';
+
+/**
+ * 创建安全事件记录
+ */
+export async function postSecurityEvent(
+  data: Partial<SecurityEventInfo>
+): Promise<void> {
+  const { userId, eventType, familyId, userAgent, ipAddress, detail } = data;
+
+  if (!userId || !eventType) {
+    throw new Error('userId and eventType are required');
+  }
+
+  try {
+    await dbPool.query(
+      'INSERT INTO securityEvent (userId, eventType, familyId, userAgent, ipAddress, detail, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [userId, eventType, familyId || null, userAgent || null, ipAddress || null, detail || null, new Date()]
+    );
+  } catch (error) {
+    console.error('Create security event failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * 获取安全事件列表
+ * 支持按条件筛选和分页，关联查询用户信息
+ */
+export async function getSecurityEventList(
+  conditions: SecurityEventInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: SecurityEventInfo[]; total: number }> {
+  const { userId, eventType, startDate, endDate } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (userId) {
+    whereConditions.push('se.userId = ?');
+    values.push(userId);
+  }
+  if (eventType) {
+    whereConditions.push('se.eventType = ?');
+    values.push(eventType);
+  }
+  if (startDate) {
+    whereConditions.push('se.createdAt >= ?');
+    values.push(startDate);
+  }
+  if (endDate) {
+    whereConditions.push('se.createdAt <= ?');
+    values.push(endDate);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  // 计算分页
+  const offset = (page - 1) * pageSize;
+
+  // 查询总数
+  let totalRows;
+  try {
+    [totalRows] = await dbPool.query(
+      `SELECT COUNT(*) as total FROM securityEvent se ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Get security event total failed:', error);
+    throw error;
+  }
+
+  const total = (totalRows as any[])[0]?.total || 0;
+
+  // 查询列表
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT 
+        se.eventId, se.userId, se.eventType, se.familyId, se.userAgent, se.ipAddress, se.detail, se.createdAt,
+        u.userId AS userUserId, u.username AS userUsername, u.realName AS userRealName, u.email AS userEmail, u.avatar AS userAvatar
+      FROM securityEvent se
+      LEFT JOIN user u ON se.userId = u.userId
+      ${whereClause}
+      ORDER BY se.createdAt DESC
+      LIMIT ? OFFSET ?`,
+      [...values, pageSize, offset]
+    );
+  } catch (error) {
+    console.error('Get security event list failed:', error);
+    throw error;
+  }
+
+  const records = (rows as any[]).map((row: any): SecurityEventInfo => ({
+    eventId: row.eventId,
+    userId: row.userId,
+    eventType: row.eventType,
+    familyId: row.familyId,
+    userAgent: row.userAgent,
+    ipAddress: row.ipAddress,
+    detail: row.detail,
+    createdAt: row.createdAt,
+    user: row.userUserId ? {
+      userId: row.userUserId,
+      username: row.userUsername,
+      realName: row.userRealName,
+      email: row.userEmail,
+      avatar: row.userAvatar,
+    } : null,
+  }));
+
+  return { records, total };
+}
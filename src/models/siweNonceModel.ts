@@ -0,0 +1,83 @@
+import { dbPool } from '../config/database';
+import type { SiweNonce } from '../types/siweType';
+
+/**
+ * 保存 SIWE nonce
+ */
+export async function postSiweNonce(data: SiweNonce): Promise<void> {
+  const { nonce, purpose, walletAddress, chainId, userId, message, expiresAtMs } = data;
+
+  try {
+    await dbPool.query(
+      `INSERT INTO siweNonce (nonce, purpose, walletAddress, chainId, userId, message, expiresAtMs)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [nonce, purpose, walletAddress, chainId, userId ?? null, message, expiresAtMs]
+    );
+  } catch (error) {
+    console.error('Create siwe nonce failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * 查询 SIWE nonce
+ */
+export async function getSiweNonce(nonce: string): Promise<SiweNonce | null> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      'SELECT nonce, purpose, walletAddress, chainId, userId, message, expiresAtMs FROM siweNonce WHERE nonce = ? LIMIT 1',
+      [nonce]
+    );
+  } catch (error) {
+    console.error('Get siwe nonce failed:', error);
+    throw error;
+  }
+
+  const records = rows as any[];
+  if (records.length === 0) return null;
+
+  const row = records[0];
+  return {
+    nonce: row.nonce,
+    purpose: row.purpose,
+    walletAddress: row.walletAddress,
+    chainId: Number(row.chainId),
+    userId: row.userId !== null ? Number(row.userId) : undefined,
+    message: row.message,
+    expiresAtMs: Number(row.expiresAtMs),
+  };
+}
+
+/**
+ * 删除 SIWE nonce
+ * @returns 删除的行数（用于判断是否消费成功）
+ */
+export async function deleteSiweNonce(nonce: string): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query('DELETE FROM siweNonce WHERE nonce = ?', [nonce]);
+  } catch (error) {
+    console.error('Delete siwe nonce failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 清理已过期的 SIWE nonce
+ * @param nowMs 当前时间（毫秒）
+ * @returns 删除的行数
+ */
+export async function deleteExpiredSiweNonces(nowMs: number): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query('DELETE FROM siweNonce WHERE expiresAtMs <= ?', [nowMs]);
+  } catch (error) {
+    console.error('Delete expired siwe nonces failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
@@ -1,14 +1,58 @@
 import { dbPool } from '../config/database';
 import { TokenTransactionInfo, TokenTransactionInfoQueryParams } from '../types/tokenTransactionType';
 
+// 对外查询的交易字段（不包含已签名交易和历史哈希等内部字段）
+const TOKEN_TRANSACTION_COLUMNS = `tt.transactionId, tt.userId, tt.transactionType, tt.rewardType, tt.consumeType, tt.amount, tt.balanceBefore, tt.balanceAfter, tt.relatedId, tt.transactionHash,
+        tt.status, tt.walletAddress, tt.attemptCount, tt.errorMessage, tt.submittedAt, tt.confirmedAt, tt.createdAt, tt.updatedAt,
+        u.userId AS userUserId, u.username AS userUsername, u.realName AS userRealName, u.email AS userEmail, u.avatar AS userAvatar`;
+
+/**
+ * 将查询结果行转换为代币交易记录
+ */
+function mapTokenTransactionRow(row: any): TokenTransactionInfo {
+  return {
+    transactionId: row.transactionId,
+    userId: row.userId,
+    transactionType: row.transactionType,
+    rewardType: row.rewardType,
+    consumeType: row.consumeType,
+    amount: row.amount,
+    balanceBefore: row.balanceBefore,
+    balanceAfter: row.balanceAfter,
+    relatedId: row.relatedId,
+    transactionHash: row.transactionHash,
+    status: row.status,
+    walletAddress: row.walletAddress,
+    attemptCount: row.attemptCount,
+    errorMessage: row.errorMessage,
+    submittedAt: row.submittedAt,
+    confirmedAt: row.confirmedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    user: row.userUserId ? {
+      userId: row.userUserId,
+      username: row.userUsername,
+      realName: row.userRealName,
+      email: row.userEmail,
+      avatar: row.userAvatar,
+    } : null,
+  };
+}
+
 /**
  * 创建代币交易记录
  * 插入新代币交易记录到数据库，创建后返回完整交易信息
+ * 奖励交易以待提交状态（status=0）写入，由 mint 流水线提交上链
+ * 唯一性在插入语句内判断（防止并发请求先查后写导致重复记录）：
+ * - 奖励交易：同一用户、奖励类型、关联ID 只能有一条未失败的记录
+ * - 消费交易：同一用户、消费类型、关联ID 只能记录一次
+ * - 交易哈希：同一笔链上交易只能记录一次（transactionHash 唯一索引兜底）
+ * @returns 创建后的交易信息，已存在冲突记录时返回 null
  */
 export async function postTokenTransaction(
   data: Partial<TokenTransactionInfo>
-): Promise<TokenTransactionInfo> {
-  const { userId, transactionType, rewardType, consumeType, amount, balanceBefore, balanceAfter, relatedId, transactionHash } = data;
+): Promise<TokenTransactionInfo | null> {
+  const { userId, transactionType, rewardType, consumeType, amount, balanceBefore, balanceAfter, relatedId, transactionHash, status, walletAddress } = data;
 
   if (userId === undefined) {
     throw new Error('userId is required');
@@ -25,72 +69,129 @@ export async function postTokenTransaction(
   if (balanceAfter === undefined) {
     throw new Error('balanceAfter is required');
   }
+  if (status === undefined) {
+    throw new Error('status is required');
+  }
 
   const now = new Date();
 
+  const rewardTypeValue = rewardType !== undefined ? rewardType : null;
+  const consumeTypeValue = consumeType !== undefined ? consumeType : null;
+  const relatedIdValue = relatedId !== undefined ? relatedId : null;
+  const transactionHashValue = transactionHash !== undefined ? transactionHash : null;
+
+  const guardConditions: string[] = [];
+  const guardValues: any[] = [];
+  if (transactionType === 0) {
+    // 失败（status=3）的奖励记录不占用名额，可以重新领取
+    guardConditions.push('(userId = ? AND transactionType = 0 AND rewardType <=> ? AND relatedId <=> ? AND status <> 3)');
+    guardValues.push(userId, rewardTypeValue, relatedIdValue);
+  } else {
+    guardConditions.push('(userId = ? AND transactionType = ? AND consumeType <=> ? AND relatedId <=> ?)');
+    guardValues.push(userId, transactionType, consumeTypeValue, relatedIdValue);
+  }
+  if (transactionHashValue) {
+    guardConditions.push('transactionHash = ?');
+    guardValues.push(transactionHashValue);
+  }
+
+  const sql = `INSERT INTO tokenTransaction (userId, transactionType, rewardType, consumeType, amount, balanceBefore, balanceAfter, relatedId, transactionHash, status, walletAddress, attemptCount, confirmedAt, createdAt, updatedAt)
+     SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+     FROM DUAL
+     WHERE NOT EXISTS (SELECT 1 FROM tokenTransaction WHERE ${guardConditions.join(' OR ')})`;
+  const values = [
+    userId, transactionType, rewardTypeValue, consumeTypeValue, amount, balanceBefore, balanceAfter, relatedIdValue, transactionHashValue,
+    status, walletAddress || null, 0, status === 2 ? now : null, now, now,
+    ...guardValues,
+  ];
+
+  // 并发插入同一条记录时，其中一个语句可能因锁冲突被回滚，重试一次即可看到另一条已提交的记录
   let result;
-  try {
-    [result] = await dbPool.query(
-      'INSERT INTO tokenTransaction (userId, transactionType, rewardType, consumeType, amount, balanceBefore, balanceAfter, relatedId, transactionHash, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [userId, transactionType, rewardType !== undefined ? rewardType : null, consumeType !== undefined ? consumeType : null, amount, balanceBefore, balanceAfter, relatedId !== undefined ? relatedId : null, transactionHash !== undefined ? transactionHash : null, now]
-    );
-  } catch (error) {
-    console.error('Create token transaction failed:', error);
-    throw error;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      [result] = await dbPool.query(sql, values);
+      break;
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ER_DUP_ENTRY') {
+        // transactionHash 唯一索引冲突：该链上交易已被记录
+        return null;
+      }
+      if (code === 'ER_LOCK_DEADLOCK' && attempt < 2) {
+        continue;
+      }
+      console.error('Create token transaction failed:', error);
+      throw error;
+    }
   }
 
-  const insertResult = result as { insertId: number };
+  const insertResult = result as { insertId: number; affectedRows: number };
+  if (insertResult.affectedRows === 0) {
+    return null;
+  }
+
+  const transaction = await getTokenTransaction({ transactionId: insertResult.insertId });
+  if (!transaction) {
+    throw new Error('Token transaction not found after creation');
+  }
+  return transaction;
+}
+
+/**
+ * 查询代币交易记录
+ * 根据条件动态构建查询语句，支持按 transactionId、transactionHash 查询
+ */
+export async function getTokenTransaction(
+  conditions: Partial<TokenTransactionInfo>
+): Promise<TokenTransactionInfo | null> {
+  const { transactionId, transactionHash } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (transactionId) {
+    whereConditions.push('tt.transactionId = ?');
+    values.push(transactionId);
+  }
+  if (transactionHash) {
+    whereConditions.push('tt.transactionHash = ?');
+    values.push(transactionHash);
+  }
+
+  if (whereConditions.length === 0) {
+    throw new Error('At least one condition is required');
+  }
 
   let rows;
   try {
     [rows] = await dbPool.query(
-      `SELECT 
-        tt.transactionId, tt.userId, tt.transactionType, tt.rewardType, tt.consumeType, tt.amount, tt.balanceBefore, tt.balanceAfter, tt.relatedId, tt.transactionHash, tt.createdAt,
-        u.userId AS userUserId, u.username AS userUsername, u.realName AS userRealName, u.email AS userEmail, u.avatar AS userAvatar
+      `SELECT
+        ${TOKEN_TRANSACTION_COLUMNS}
       FROM tokenTransaction tt
       LEFT JOIN user u ON tt.userId = u.userId
-      WHERE tt.transactionId = ?`,
-      [insertResult.insertId]
+      WHERE ${whereConditions.join(' AND ')}
+      LIMIT 1`,
+      values
     );
   } catch (error) {
     console.error('Get token transaction failed:', error);
     throw error;
   }
 
-  const transactions = (rows as any[]).map((row: any): TokenTransactionInfo => ({
-    transactionId: row.transactionId,
-    userId: row.userId,
-    transactionType: row.transactionType,
-    rewardType: row.rewardType,
-    consumeType: row.consumeType,
-    amount: row.amount,
-    balanceBefore: row.balanceBefore,
-    balanceAfter: row.balanceAfter,
-    relatedId: row.relatedId,
-    transactionHash: row.transactionHash,
-    createdAt: row.createdAt,
-    user: row.userUserId ? {
-      userId: row.userUserId,
-      username: row.userUsername,
-      realName: row.userRealName,
-      email: row.userEmail,
-      avatar: row.userAvatar,
-    } : null,
-  }));
-
-  return transactions[0];
+  const transactions = (rows as any[]).map(mapTokenTransactionRow);
+  return transactions[0] || null;
 }
 
 /**
  * 查询代币交易记录列表
- * 根据条件动态构建查询语句，支持按 userId、transactionType、rewardType、consumeType 查询和分页
+ * 根据条件动态构建查询语句，支持按 userId、transactionType、rewardType、consumeType、transactionHash、status 查询和分页
  */
 export async function getTokenTransactionList(
   conditions: TokenTransactionInfoQueryParams,
   page: number = 1,
   pageSize: number = 10
 ): Promise<{ records: TokenTransactionInfo[]; total: number }> {
-  const { userId, transactionType, rewardType, consumeType, relatedId, startDate, endDate } = conditions;
+  const { userId, transactionType, rewardType, consumeType, relatedId, transactionHash, status, statuses, startDate, endDate } = conditions;
 
   const whereConditions: string[] = [];
   const values: any[] = [];
@@ -120,6 +221,18 @@ export async function getTokenTransactionList(
     whereConditions.push('tt.relatedId = ?');
     values.push(relatedId);
   }
+  if (transactionHash) {
+    whereConditions.push('tt.transactionHash = ?');
+    values.push(transactionHash);
+  }
+  if (status !== undefined) {
+    whereConditions.push('tt.status = ?');
+    values.push(status);
+  }
+  if (statuses && statuses.length > 0) {
+    whereConditions.push('tt.status IN (?)');
+    values.push(statuses);
+  }
   if (startDate) {
     whereConditions.push('tt.createdAt >= ?');
     values.push(startDate);
@@ -152,9 +265,8 @@ export async function getTokenTransactionList(
   let rows;
   try {
     [rows] = await dbPool.query(
-      `SELECT 
-        tt.transactionId, tt.userId, tt.transactionType, tt.rewardType, tt.consumeType, tt.amount, tt.balanceBefore, tt.balanceAfter, tt.relatedId, tt.transactionHash, tt.createdAt,
-        u.userId AS userUserId, u.username AS userUsername, u.realName AS userRealName, u.email AS userEmail, u.avatar AS userAvatar
+      `SELECT
+        ${TOKEN_TRANSACTION_COLUMNS}
       FROM tokenTransaction tt
       LEFT JOIN user u ON tt.userId = u.userId
       ${whereClause}
@@ -167,26 +279,131 @@ export async function getTokenTransactionList(
     throw error;
   }
 
-  const records = (rows as any[]).map((row: any): TokenTransactionInfo => ({
+  const records = (rows as any[]).map(mapTokenTransactionRow);
+
+  return { records, total };
+}
+
+/**
+ * 更新代币交易记录
+ * 仅允许更新 mint 流水线相关字段
+ * 传入 expected 时仅在当前 status / transactionHash 匹配时更新（原子状态迁移）
+ * @returns 更新的行数
+ */
+export async function putTokenTransaction(
+  transactionId: number,
+  data: Partial<TokenTransactionInfo>,
+  expected?: { status?: number; transactionHash?: string | null }
+): Promise<number> {
+  const allowedFields = ['status', 'transactionHash', 'txNonce', 'rawTransaction', 'previousHashes', 'attemptCount', 'errorMessage', 'submittedAt', 'confirmedAt', 'balanceBefore', 'balanceAfter'];
+
+  const updateFields: string[] = [];
+  const values: any[] = [];
+
+  allowedFields.forEach(field => {
+    if (data[field as keyof TokenTransactionInfo] !== undefined) {
+      updateFields.push(`${field} = ?`);
+      values.push(data[field as keyof TokenTransactionInfo]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    throw new Error('No valid fields to update');
+  }
+
+  updateFields.push('updatedAt = ?');
+  values.push(new Date());
+
+  values.push(transactionId);
+  let whereClause = 'WHERE transactionId = ?';
+  if (expected?.status !== undefined) {
+    whereClause += ' AND status = ?';
+    values.push(expected.status);
+  }
+  if (expected?.transactionHash === null) {
+    whereClause += ' AND transactionHash IS NULL';
+  } else if (expected?.transactionHash !== undefined) {
+    whereClause += ' AND transactionHash = ?';
+    values.push(expected.transactionHash);
+  }
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      `UPDATE tokenTransaction SET ${updateFields.join(', ')} ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Update token transaction failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 查询用户已购买的资源ID
+ * 在给定资源中筛选用户有购买记录（消费类型 0）的资源，用于批量校验付费资源的访问权限
+ */
+export async function getPurchasedResourceIdList(
+  userId: number,
+  resourceIds: number[]
+): Promise<number[]> {
+  if (resourceIds.length === 0) {
+    return [];
+  }
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT DISTINCT relatedId
+       FROM tokenTransaction
+       WHERE userId = ? AND transactionType = 1 AND consumeType = 0 AND relatedId IN (?)`,
+      [userId, resourceIds]
+    );
+  } catch (error) {
+    console.error('Get purchased resource list failed:', error);
+    throw error;
+  }
+
+  return (rows as { relatedId: number }[]).map(row => row.relatedId);
+}
+
+/**
+ * 查询待处理的 mint 交易列表（mint 流水线内部使用）
+ * 返回待提交和已提交的奖励交易，包含已签名交易、nonce 和历史哈希
+ */
+export async function getMintTransactionQueue(
+  statuses: number[],
+  limit: number
+): Promise<TokenTransactionInfo[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT transactionId, userId, amount, transactionHash, status, walletAddress, txNonce, rawTransaction, previousHashes, attemptCount, submittedAt, createdAt
+       FROM tokenTransaction
+       WHERE transactionType = 0 AND status IN (?)
+       ORDER BY transactionId ASC
+       LIMIT ?`,
+      [statuses, limit]
+    );
+  } catch (error) {
+    console.error('Get mint transaction queue failed:', error);
+    throw error;
+  }
+
+  return (rows as any[]).map((row: any): TokenTransactionInfo => ({
     transactionId: row.transactionId,
     userId: row.userId,
-    transactionType: row.transactionType,
-    rewardType: row.rewardType,
-    consumeType: row.consumeType,
     amount: row.amount,
-    balanceBefore: row.balanceBefore,
-    balanceAfter: row.balanceAfter,
-    relatedId: row.relatedId,
     transactionHash: row.transactionHash,
+    status: row.status,
+    walletAddress: row.walletAddress,
+    txNonce: row.txNonce,
+    rawTransaction: row.rawTransaction,
+    previousHashes: row.previousHashes,
+    attemptCount: row.attemptCount,
+    submittedAt: row.submittedAt,
     createdAt: row.createdAt,
-    user: row.userUserId ? {
-      userId: row.userUserId,
-      username: row.userUsername,
-      realName: row.userRealName,
-      email: row.userEmail,
-      avatar: row.userAvatar,
-    } : null,
   }));
-
-  return { records, total };
 }
@@ -3,14 +3,14 @@ import { UserInfo } from '../types/userType';
 
 /**
  * 查询用户
- * 根据条件动态构建查询语句，支持按 userId、username、password、email 查询
+ * 根据条件动态构建查询语句，支持按 userId、username、password、email、walletAddress 查询
  * 默认不返回密码字段，如果需要密码用于登录校验，可通过 options.includePassword 显式开启
  */
 export async function getUser(
   conditions: Partial<UserInfo>,
   options?: { includePassword?: boolean }
 ): Promise<UserInfo | null> {
-  const { userId, username, password, email } = conditions;
+  const { userId, username, password, email, walletAddress } = conditions;
 
   const whereConditions: string[] = [];
   const values: any[] = [];
@@ -31,6 +31,10 @@ export async function getUser(
     whereConditions.push('email = ?');
     values.push(email);
   }
+  if (walletAddress) {
+    whereConditions.push('walletAddress = ?');
+    values.push(walletAddress);
+  }
 
   const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
@@ -38,12 +42,12 @@ export async function getUser(
   try {
     if (options?.includePassword) {
       [rows] = await dbPool.query(
-        'SELECT userId, username, password, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt FROM user ' + whereClause,
+        'SELECT userId, username, password, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user ' + whereClause,
         values
       );
     } else {
       [rows] = await dbPool.query(
-        'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt FROM user ' + whereClause,
+        'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user ' + whereClause,
         values
       );
     }
@@ -56,6 +60,29 @@ export async function getUser(
   return users.length > 0 ? users[0] : null;
 }
 
+/**
+ * 按用户ID批量查询用户
+ * 不返回密码字段，用于列表中批量加载关联用户（避免逐条查询）
+ */
+export async function getUserListByIds(userIds: number[]): Promise<UserInfo[]> {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user WHERE userId IN (?)',
+      [userIds]
+    );
+  } catch (error) {
+    console.error('Get user list by ids failed:', error);
+    throw error;
+  }
+
+  return rows as UserInfo[];
+}
+
 /**
  * 创建用户
  * 插入新用户到数据库，默认角色为学生(5)，创建后返回完整用户信息
@@ -74,7 +101,7 @@ export async function postUser(
   let result;
   try {
     [result] = await dbPool.query(
-      'INSERT INTO user (username, password, email, role, walletBound, tokenBalance, createdAt, updatedAt) VALUES (?, ?, ?, 5, 0, 0.00, ?, ?)',
+      'INSERT INTO user (username, password, email, role, walletBound, tokenBalance, status, tokenVersion, createdAt, updatedAt) VALUES (?, ?, ?, 5, 0, 0.00, 0, 0, ?, ?)',
       [username, password, email, now, now]
     );
   } catch (error) {
@@ -87,7 +114,7 @@ export async function postUser(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt FROM user WHERE userId = ?',
+      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user WHERE userId = ?',
       [insertResult.insertId]
     );
   } catch (error) {
@@ -107,8 +134,8 @@ export async function putUser(
   userId: number,
   data: Partial<UserInfo>
 ): Promise<UserInfo> {
-  // 允许更新的字段
-  const allowedFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'schoolName', 'certificateFile', 'tokenBalance', 'walletAddress'];
+  // 允许更新的字段（钱包地址只能通过 SIWE 签名验证后绑定，见 updateUserWallet）
+  const allowedFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'schoolName', 'certificateFile', 'tokenBalance'];
 
   const updateFields: string[] = [];
   const values: any[] = [];
@@ -148,7 +175,7 @@ export async function putUser(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt FROM user WHERE userId = ?',
+      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user WHERE userId = ?',
       [userId]
     );
   } catch (error) {
@@ -189,7 +216,7 @@ export async function updateUserRole(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt FROM user WHERE userId = ?',
+      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user WHERE userId = ?',
       [userId]
     );
   } catch (error) {
@@ -205,6 +232,63 @@ export async function updateUserRole(
   return users[0];
 }
 
+/**
+ * 更新用户钱包绑定
+ * 绑定时写入钱包地址并设置 walletBound=1，解绑时清空钱包地址并设置 walletBound=0
+ */
+export async function updateUserWallet(
+  userId: number,
+  walletAddress: string | null
+): Promise<UserInfo> {
+  const now = new Date();
+
+  // 执行更新
+  try {
+    await dbPool.query(
+      'UPDATE user SET walletAddress = ?, walletBound = ?, updatedAt = ? WHERE userId = ?',
+      [walletAddress, walletAddress ? 1 : 0, now, userId]
+    );
+  } catch (error) {
+    console.error('Update user wallet failed:', error);
+    throw error;
+  }
+
+  // 查询并返回更新后的用户信息
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user WHERE userId = ?',
+      [userId]
+    );
+  } catch (error) {
+    console.error('Get user failed:', error);
+    throw error;
+  }
+
+  const users = rows as UserInfo[];
+  if (users.length === 0) {
+    throw new Error('User not found after update');
+  }
+
+  return users[0];
+}
+
+/**
+ * 递增用户 token 版本
+ * 使该用户已签发的 access token 全部失效
+ */
+export async function incrementUserTokenVersion(userId: number): Promise<void> {
+  try {
+    await dbPool.query(
+      'UPDATE user SET tokenVersion = tokenVersion + 1, updatedAt = ? WHERE userId = ?',
+      [new Date(), userId]
+    );
+  } catch (error) {
+    console.error('Increment user token version failed:', error);
+    throw error;
+  }
+}
+
 /**
  * 获取用户列表
  * 支持分页和条件筛选（管理员用）
@@ -214,7 +298,7 @@ export async function getUserList(
   page: number = 1,
   pageSize: number = 10
 ): Promise<{ records: UserInfo[]; total: number }> {
-  const { userId, username, email, realName, role, walletBound, schoolName } = params;
+  const { userId, username, email, realName, role, walletBound, schoolName, status } = params;
 
   const whereConditions: string[] = [];
   const values: any[] = [];
@@ -247,6 +331,10 @@ export async function getUserList(
     whereConditions.push('schoolName LIKE ?');
     values.push(`%${schoolName}%`);
   }
+  if (status !== undefined) {
+    whereConditions.push('status = ?');
+    values.push(status);
+  }
 
   const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
   const offset = (page - 1) * pageSize;
@@ -264,7 +352,7 @@ export async function getUserList(
   let rows;
   try {
     [rows] = await dbPool.query(
-      `SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt
+      `SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt
        FROM user
        ${whereClause}
        ORDER BY createdAt DESC
@@ -281,13 +369,14 @@ export async function getUserList(
 
 /**
  * 管理员更新用户信息
- * 允许更新更多字段（包含 role / walletBound / password 等）
+ * 允许更新更多字段（包含 role / password / status 等）
  */
 export async function putUserByAdmin(
   userId: number,
   data: Partial<UserInfo>
 ): Promise<UserInfo> {
-  const allowedFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'role', 'walletBound', 'tokenBalance', 'schoolName', 'certificateFile', 'walletAddress', 'password'];
+  // 钱包地址和绑定状态只能通过 SIWE 绑定/解绑修改
+  const allowedFields = ['email', 'realName', 'phone', 'idCard', 'avatar', 'gender', 'role', 'tokenBalance', 'schoolName', 'certificateFile', 'password', 'status'];
 
   const updateFields: string[] = [];
   const values: any[] = [];
@@ -318,7 +407,7 @@ export async function putUserByAdmin(
   let rows;
   try {
     [rows] = await dbPool.query(
-      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, createdAt, updatedAt FROM user WHERE userId = ?',
+      'SELECT userId, username, email, walletAddress, certificateFile, realName, phone, idCard, avatar, gender, role, walletBound, tokenBalance, schoolName, status, tokenVersion, createdAt, updatedAt FROM user WHERE userId = ?',
       [userId]
     );
   } catch (error) {
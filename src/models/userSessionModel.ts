@@ -0,0 +1,209 @@
+import { dbPool } from '../config/database';
+import { UserSessionInfo } from '../types/userSessionType';
+
+/**
+ * 创建会话
+ * 插入新会话到数据库，创建后返回完整会话信息
+ */
+export async function postUserSession(
+  data: Partial<UserSessionInfo>
+): Promise<UserSessionInfo> {
+  const { userId, username, familyId, tokenHash, userAgent, ipAddress, expiresAt } = data;
+
+  if (!userId || !familyId || !tokenHash || !expiresAt) {
+    throw new Error('userId, familyId, tokenHash and expiresAt are required');
+  }
+
+  const now = new Date();
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      'INSERT INTO userSession (userId, username, familyId, tokenHash, userAgent, ipAddress, expiresAt, lastUsedAt, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [userId, username || null, familyId, tokenHash, userAgent || null, ipAddress || null, expiresAt, now, now]
+    );
+  } catch (error) {
+    console.error('Create user session failed:', error);
+    throw error;
+  }
+
+  const insertResult = result as { insertId: number };
+
+  const session = await getUserSession({ sessionId: insertResult.insertId });
+  if (!session) {
+    throw new Error('User session not found after creation');
+  }
+  return session;
+}
+
+/**
+ * 查询会话
+ * 根据条件动态构建查询语句，支持按 sessionId、familyId、tokenHash、userId 查询
+ */
+export async function getUserSession(
+  conditions: Partial<UserSessionInfo>
+): Promise<UserSessionInfo | null> {
+  const { sessionId, familyId, tokenHash, userId } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (sessionId) {
+    whereConditions.push('sessionId = ?');
+    values.push(sessionId);
+  }
+  if (familyId) {
+    whereConditions.push('familyId = ?');
+    values.push(familyId);
+  }
+  if (tokenHash) {
+    whereConditions.push('tokenHash = ?');
+    values.push(tokenHash);
+  }
+  if (userId) {
+    whereConditions.push('userId = ?');
+    values.push(userId);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT sessionId, userId, username, familyId, tokenHash, userAgent, ipAddress, expiresAt, lastUsedAt, createdAt
+       FROM userSession
+       ${whereClause}
+       LIMIT 1`,
+      values
+    );
+  } catch (error) {
+    console.error('Get user session failed:', error);
+    throw error;
+  }
+
+  const sessions = rows as UserSessionInfo[];
+  return sessions.length > 0 ? sessions[0] : null;
+}
+
+/**
+ * 获取用户的有效会话列表
+ * 只返回未过期的会话，按最近使用时间倒序
+ */
+export async function getUserSessionList(userId: number): Promise<UserSessionInfo[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT sessionId, userId, username, familyId, tokenHash, userAgent, ipAddress, expiresAt, lastUsedAt, createdAt
+       FROM userSession
+       WHERE userId = ? AND expiresAt > ?
+       ORDER BY lastUsedAt DESC`,
+      [userId, new Date()]
+    );
+  } catch (error) {
+    console.error('Get user session list failed:', error);
+    throw error;
+  }
+
+  return rows as UserSessionInfo[];
+}
+
+/**
+ * 更新会话信息
+ * 根据 sessionId 更新会话信息，只允许更新特定字段（用于 refresh token 轮换）
+ * 传入 expectedTokenHash 时仅在当前 tokenHash 匹配时更新（原子轮换）
+ * @returns 更新的行数
+ */
+export async function putUserSession(
+  sessionId: number,
+  data: Partial<UserSessionInfo>,
+  expectedTokenHash?: string
+): Promise<number> {
+  const allowedFields = ['tokenHash', 'userAgent', 'ipAddress', 'expiresAt', 'lastUsedAt'];
+
+  const updateFields: string[] = [];
+  const values: any[] = [];
+
+  allowedFields.forEach(field => {
+    if (data[field as keyof UserSessionInfo] !== undefined) {
+      updateFields.push(`${field} = ?`);
+      values.push(data[field as keyof UserSessionInfo]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    throw new Error('No valid fields to update');
+  }
+
+  values.push(sessionId);
+  let whereClause = 'WHERE sessionId = ?';
+  if (expectedTokenHash) {
+    whereClause += ' AND tokenHash = ?';
+    values.push(expectedTokenHash);
+  }
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      `UPDATE userSession SET ${updateFields.join(', ')} ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Update user session failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 删除会话
+ * 按 sessionId 删除；传入 userId 时仅删除该用户的会话
+ * @returns 删除的行数
+ */
+export async function deleteUserSession(sessionId: number, userId?: number): Promise<number> {
+  let result;
+  try {
+    if (userId) {
+      [result] = await dbPool.query('DELETE FROM userSession WHERE sessionId = ? AND userId = ?', [sessionId, userId]);
+    } else {
+      [result] = await dbPool.query('DELETE FROM userSession WHERE sessionId = ?', [sessionId]);
+    }
+  } catch (error) {
+    console.error('Delete user session failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 删除用户的全部会话（强制下线）
+ * @returns 删除的行数
+ */
+export async function deleteUserSessionsByUser(userId: number): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query('DELETE FROM userSession WHERE userId = ?', [userId]);
+  } catch (error) {
+    console.error('Delete user sessions failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 清理已过期的会话
+ * @returns 删除的行数
+ */
+export async function deleteExpiredUserSessions(): Promise<number> {
+  let result;
+  try {
+    [result] = await dbPool.query('DELETE FROM userSession WHERE expiresAt <= ?', [new Date()]);
+  } catch (error) {
+    console.error('Delete expired user sessions failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
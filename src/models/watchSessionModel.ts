@@ -0,0 +1,315 @@
+import { dbPool } from '../config/database';
+import { WatchSessionInfo, WatchSessionInfoQueryParams } from '../types/watchSessionType';
+
+const WATCH_SESSION_COLUMNS = `ws.sessionId, ws.studentId, ws.resourceId, ws.status, ws.heartbeatCount, ws.reportedTime, ws.violationCount, ws.lastViolation,
+         ws.lastHeartbeatAt, ws.startedAt, ws.endedAt, ws.ipAddress, ws.userAgent, ws.createdAt, ws.updatedAt`;
+
+/**
+ * 将查询结果行转换为观看会话信息
+ */
+function mapWatchSessionRow(row: any): WatchSessionInfo {
+  return {
+    sessionId: row.sessionId,
+    studentId: row.studentId,
+    resourceId: row.resourceId,
+    status: row.status,
+    heartbeatCount: row.heartbeatCount,
+    reportedTime: row.reportedTime,
+    violationCount: row.violationCount,
+    lastViolation: row.lastViolation,
+    lastHeartbeatAt: row.lastHeartbeatAt,
+    startedAt: row.startedAt,
+    endedAt: row.endedAt,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    student: row.studentUserId ? {
+      userId: row.studentUserId,
+      username: row.studentUsername,
+      realName: row.studentRealName,
+    } : null,
+    resource: row.resourceResourceId ? {
+      resourceId: row.resourceResourceId,
+      title: row.resourceTitle,
+      resourceType: row.resourceResourceType,
+      courseId: row.resourceCourseId,
+    } : null,
+  };
+}
+
+/**
+ * 创建观看会话
+ * 仅在学生没有进行中且未超时的会话时插入（同一条语句内判断，防止并发开始多个会话），创建后返回完整会话信息
+ * @param activeAfter 最近心跳时间晚于该时间的进行中会话视为未超时
+ * @returns 创建后的会话，已有进行中的会话时返回 null
+ */
+export async function postWatchSession(
+  data: Partial<WatchSessionInfo>,
+  activeAfter: Date
+): Promise<WatchSessionInfo | null> {
+  const { studentId, resourceId, ipAddress, userAgent } = data;
+
+  if (!studentId || !resourceId) {
+    throw new Error('studentId and resourceId are required');
+  }
+
+  const now = new Date();
+
+  const sql = `INSERT INTO watchSession (studentId, resourceId, status, heartbeatCount, reportedTime, violationCount, lastViolation, lastHeartbeatAt, startedAt, endedAt, ipAddress, userAgent, createdAt, updatedAt)
+     SELECT ?, ?, 0, 0, 0, 0, NULL, ?, ?, NULL, ?, ?, ?, ?
+     FROM DUAL
+     WHERE NOT EXISTS (SELECT 1 FROM watchSession WHERE studentId = ? AND status = 0 AND lastHeartbeatAt >= ?)`;
+  const values = [studentId, resourceId, now, now, ipAddress || null, userAgent || null, now, now, studentId, activeAfter];
+
+  // 并发插入时其中一个语句可能因锁冲突被回滚，重试一次即可看到另一条已提交的会话
+  let result;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      [result] = await dbPool.query(sql, values);
+      break;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ER_LOCK_DEADLOCK' && attempt < 2) {
+        continue;
+      }
+      console.error('Create watch session failed:', error);
+      throw error;
+    }
+  }
+
+  const insertResult = result as { insertId: number; affectedRows: number };
+  if (insertResult.affectedRows === 0) {
+    return null;
+  }
+
+  const session = await getWatchSession({ sessionId: insertResult.insertId });
+  if (!session) {
+    throw new Error('Watch session not found after creation');
+  }
+  return session;
+}
+
+/**
+ * 查询观看会话
+ * 根据条件动态构建查询语句，支持按 sessionId、studentId、resourceId、status 查询
+ */
+export async function getWatchSession(
+  conditions: Partial<WatchSessionInfo>
+): Promise<WatchSessionInfo | null> {
+  const { sessionId, studentId, resourceId, status } = conditions;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (sessionId) {
+    whereConditions.push('ws.sessionId = ?');
+    values.push(sessionId);
+  }
+  if (studentId) {
+    whereConditions.push('ws.studentId = ?');
+    values.push(studentId);
+  }
+  if (resourceId) {
+    whereConditions.push('ws.resourceId = ?');
+    values.push(resourceId);
+  }
+  if (status !== undefined) {
+    whereConditions.push('ws.status = ?');
+    values.push(status);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${WATCH_SESSION_COLUMNS}
+       FROM watchSession ws
+       ${whereClause}
+       ORDER BY ws.sessionId DESC
+       LIMIT 1`,
+      values
+    );
+  } catch (error) {
+    console.error('Get watch session failed:', error);
+    throw error;
+  }
+
+  const sessions = (rows as any[]).map(mapWatchSessionRow);
+  return sessions.length > 0 ? sessions[0] : null;
+}
+
+/**
+ * 获取学生进行中且未超时的观看会话
+ * @param activeAfter 最近心跳时间晚于该时间的会话视为未超时
+ */
+export async function getActiveWatchSessionList(
+  studentId: number,
+  activeAfter: Date
+): Promise<WatchSessionInfo[]> {
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${WATCH_SESSION_COLUMNS}
+       FROM watchSession ws
+       WHERE ws.studentId = ? AND ws.status = 0 AND ws.lastHeartbeatAt >= ?
+       ORDER BY ws.lastHeartbeatAt DESC`,
+      [studentId, activeAfter]
+    );
+  } catch (error) {
+    console.error('Get active watch session list failed:', error);
+    throw error;
+  }
+
+  return (rows as any[]).map(mapWatchSessionRow);
+}
+
+/**
+ * 将学生已超时的进行中会话标记为超时
+ * @param staleBefore 最近心跳时间早于该时间的会话视为超时
+ * @returns 更新的行数
+ */
+export async function expireWatchSessions(studentId: number, staleBefore: Date): Promise<number> {
+  const now = new Date();
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      'UPDATE watchSession SET status = 2, endedAt = ?, updatedAt = ? WHERE studentId = ? AND status = 0 AND lastHeartbeatAt < ?',
+      [now, now, studentId, staleBefore]
+    );
+  } catch (error) {
+    console.error('Expire watch sessions failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 更新观看会话
+ * 根据 sessionId 更新会话信息，只允许更新特定字段
+ * 传入 expected 时仅在会话状态和最近心跳时间匹配时更新（防止并发心跳重复计时）
+ * @returns 更新的行数
+ */
+export async function putWatchSession(
+  sessionId: number,
+  data: Partial<WatchSessionInfo>,
+  expected?: { status: number; lastHeartbeatAt: Date }
+): Promise<number> {
+  const allowedFields = ['status', 'heartbeatCount', 'reportedTime', 'violationCount', 'lastViolation', 'lastHeartbeatAt', 'endedAt'];
+
+  const updateFields: string[] = [];
+  const values: any[] = [];
+
+  allowedFields.forEach(field => {
+    if (data[field as keyof WatchSessionInfo] !== undefined) {
+      updateFields.push(`${field} = ?`);
+      values.push(data[field as keyof WatchSessionInfo]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    throw new Error('No valid fields to update');
+  }
+
+  updateFields.push('updatedAt = ?');
+  values.push(new Date());
+
+  values.push(sessionId);
+  let whereClause = 'WHERE sessionId = ?';
+  if (expected) {
+    whereClause += ' AND status = ? AND lastHeartbeatAt = ?';
+    values.push(expected.status, expected.lastHeartbeatAt);
+  }
+
+  let result;
+  try {
+    [result] = await dbPool.query(
+      `UPDATE watchSession SET ${updateFields.join(', ')} ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Update watch session failed:', error);
+    throw error;
+  }
+
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+/**
+ * 获取观看会话列表
+ * 支持分页和条件筛选（课程、教师按资源关联筛选），按开始时间倒序
+ */
+export async function getWatchSessionList(
+  params: WatchSessionInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: WatchSessionInfo[]; total: number }> {
+  const { studentId, resourceId, status, courseId, teacherId, hasViolation } = params;
+
+  const whereConditions: string[] = [];
+  const values: any[] = [];
+
+  if (studentId) {
+    whereConditions.push('ws.studentId = ?');
+    values.push(studentId);
+  }
+  if (resourceId) {
+    whereConditions.push('ws.resourceId = ?');
+    values.push(resourceId);
+  }
+  if (status !== undefined) {
+    whereConditions.push('ws.status = ?');
+    values.push(status);
+  }
+  if (courseId) {
+    whereConditions.push('r.courseId = ?');
+    values.push(courseId);
+  }
+  if (teacherId) {
+    whereConditions.push('r.ownerId = ?');
+    values.push(teacherId);
+  }
+  if (hasViolation) {
+    whereConditions.push('ws.violationCount > 0');
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  const offset = (page - 1) * pageSize;
+
+  let countRows;
+  try {
+    [countRows] = await dbPool.query(
+      `SELECT COUNT(*) as total FROM watchSession ws LEFT JOIN resource r ON ws.resourceId = r.resourceId ${whereClause}`,
+      values
+    );
+  } catch (error) {
+    console.error('Get watch session count failed:', error);
+    throw error;
+  }
+
+  const total = (countRows as { total: number }[])[0]?.total || 0;
+
+  let rows;
+  try {
+    [rows] = await dbPool.query(
+      `SELECT ${WATCH_SESSION_COLUMNS},
+         u.userId AS studentUserId, u.username AS studentUsername, u.realName AS studentRealName,
+         r.resourceId AS resourceResourceId, r.title AS resourceTitle, r.resourceType AS resourceResourceType, r.courseId AS resourceCourseId
+       FROM watchSession ws
+       LEFT JOIN user u ON ws.studentId = u.userId
+       LEFT JOIN resource r ON ws.resourceId = r.resourceId
+       ${whereClause}
+       ORDER BY ws.startedAt DESC
+       LIMIT ? OFFSET ?`,
+      [...values, pageSize, offset]
+    );
+  } catch (error) {
+    console.error('Get watch session list failed:', error);
+    throw error;
+  }
+
+  return { records: (rows as any[]).map(mapWatchSessionRow), total };
+}
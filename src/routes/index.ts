@@ -1,16 +1,24 @@
 import { Router } from 'express';
 import { registerController, loginController, updateUserController, getUserListController, adminUpdateUserController } from '../controllers/userController';
-import { refreshTokenController, logoutController, getCurrentUserController } from '../controllers/authController';
+import { refreshTokenController, logoutController, getCurrentUserController, getSessionListController, revokeSessionController, revokeAllSessionsController, forceLogoutUserController } from '../controllers/authController';
 import { uploadAvatarController, uploadCertificateController } from '../controllers/uploadController';
 import { createTeacherApplicationController, approveTeacherApplicationController, approveResourceApplicationController, approveCourseApplicationController, getAuditRecordListController, reapplyCourseAuditController, reapplyResourceAuditController } from '../controllers/auditRecordController';
 import { createCourseController, updateCourseController, getCourseListController, getCourseController } from '../controllers/courseController';
 import { createResourceController, updateResourceController, getResourceListController, getResourceController, claimResourceUploadRewardController, claimResourceUploadRewardSignController, buyResourceController } from '../controllers/resourceController';
-import { completeLearningRecordController, reportLearningTimeController, updateLearningProgressController, submitReviewController, getLearningRecordListController, getLearningRecordController, getLearningHistoryListController, claimLearningRewardController, claimLearningRewardSignController } from '../controllers/learningRecordController';
-import { createCertificateTemplateController, updateCertificateTemplateController, getCertificateTemplateListController, getCertificateTemplateController } from '../controllers/certificateTemplateController';
+import { completeLearningRecordController, reportLearningTimeController, updateLearningProgressController, submitReviewController, getLearningRecordListController, getLearningRecordController, getLearningHistoryListController, claimLearningRewardController, claimLearningRewardSignController, getFlaggedLearningRecordListController, reviewLearningRecordFlagController, getLearningCoverageController, getResourceCoverageStatsController } from '../controllers/learningRecordController';
+import { enrollCourseController, unenrollCourseController, getCourseRosterController, getMyCourseListController } from '../controllers/courseEnrollmentController';
+import { createCourseChapterController, updateCourseChapterController, deleteCourseChapterController, getCourseChapterListController, arrangeResourceController, setResourcePrerequisitesController, getResourcePrerequisiteListController, getCourseOutlineController } from '../controllers/courseChapterController';
+import { startWatchSessionController, endWatchSessionController, getWatchSessionListController } from '../controllers/watchSessionController';
+import { createCertificateTemplateController, updateCertificateTemplateController, getCertificateTemplateListController, getCertificateTemplateController, previewCertificateTemplateController } from '../controllers/certificateTemplateController';
 import { createResourceCertificateConfigController, updateResourceCertificateConfigController, getResourceCertificateConfigListController, getResourceCertificateConfigController } from '../controllers/resourceCertificateConfigController';
-import { createCertificateController, getCertificateListController, getCertificateController, updateCertificateNftController } from '../controllers/certificateController';
+import { createCertificateController, getCertificateEligibilityController, getCertificateListController, getCertificateController, updateCertificateNftController, verifyCertificateController, downloadCertificateController, revokeCertificateController, reissueCertificateController } from '../controllers/certificateController';
 import { createTokenRuleController, updateTokenRuleController, getTokenRuleListController, getTokenRuleController } from '../controllers/tokenRuleController';
-import { getTokenTransactionListController } from '../controllers/tokenTransactionController';
+import { getTokenTransactionListController, getTokenTransactionStatusController } from '../controllers/tokenTransactionController';
+import { getSecurityEventListController } from '../controllers/securityEventController';
+import { claimRewardSignController, claimRewardController } from '../controllers/claimRewardController';
+import { siweNonceController, walletNonceController, siweLoginController, bindWalletController, unbindWalletController } from '../controllers/siweController';
+import { createCertificateNftMetadataController, createResourceNftMetadataController } from '../controllers/nftMetadataController';
+import { createCertificateBatchJobController, getCertificateBatchJobController, getCertificateBatchJobListController } from '../controllers/certificateBatchJobController';
 import { authMiddleware } from '../middlewares/authMiddleware';
 import { uploadAvatar, uploadCertificate, uploadResource, uploadCourseCover } from '../middlewares/uploadMiddleware';
 import { checkRole } from '../middlewares/roleMiddleware';
@@ -22,10 +30,20 @@ const router = Router();
 router.post('/logout', logoutController);
 router.post('/refreshToken', refreshTokenController);
 router.get('/getCurrentUser', authMiddleware, getCurrentUserController);
+router.get('/getSessionList', authMiddleware, getSessionListController);
+router.post('/revokeSession/:sessionId', authMiddleware, revokeSessionController);
+router.post('/revokeAllSessions', authMiddleware, revokeAllSessionsController);
+router.post('/forceLogoutUser/:userId', authMiddleware, checkRole(0), forceLogoutUserController);
+router.get('/getSecurityEventList', authMiddleware, getSecurityEventListController);
 
 // User
 router.post('/login', loginController);
 router.post('/register', registerController);
+router.post('/siweNonce', siweNonceController);
+router.post('/siweLogin', siweLoginController);
+router.post('/walletNonce', authMiddleware, walletNonceController);
+router.post('/bindWallet', authMiddleware, bindWalletController);
+router.post('/unbindWallet', authMiddleware, unbindWalletController);
 router.put('/updateUser', authMiddleware, updateUserController);
 router.get('/getUserList', authMiddleware, checkRole(0), getUserListController);
 router.put('/adminUpdateUser/:userId', authMiddleware, checkRole(0), adminUpdateUserController);
@@ -47,6 +65,22 @@ router.put('/updateCourse/:courseId', authMiddleware, checkRole(0, 4), uploadCou
 router.get('/getCourseList', authMiddleware, getCourseListController);
 router.get('/getCourse/:courseId', authMiddleware, getCourseController);
 
+// CourseEnrollment（选课：容量限制、选课时间，学习课程资源前需先选课）
+router.post('/enrollCourse/:courseId', authMiddleware, checkRole(5), enrollCourseController);
+router.post('/unenrollCourse/:courseId', authMiddleware, checkRole(5), unenrollCourseController);
+router.get('/getCourseRoster/:courseId', authMiddleware, checkRole(0, 4), getCourseRosterController);
+router.get('/getMyCourseList', authMiddleware, checkRole(5), getMyCourseListController);
+
+// CourseChapter（课程大纲：章节、资源排序与前置条件）
+router.post('/createCourseChapter', authMiddleware, checkRole(4), createCourseChapterController);
+router.put('/updateCourseChapter/:chapterId', authMiddleware, checkRole(4), updateCourseChapterController);
+router.delete('/deleteCourseChapter/:chapterId', authMiddleware, checkRole(4), deleteCourseChapterController);
+router.get('/getCourseChapterList', authMiddleware, getCourseChapterListController);
+router.put('/arrangeResource/:resourceId', authMiddleware, checkRole(4), arrangeResourceController);
+router.put('/setResourcePrerequisites/:resourceId', authMiddleware, checkRole(4), setResourcePrerequisitesController);
+router.get('/getResourcePrerequisiteList/:resourceId', authMiddleware, getResourcePrerequisiteListController);
+router.get('/getCourseOutline/:courseId', authMiddleware, getCourseOutlineController);
+
 // Resource
 router.post('/createResource', authMiddleware, checkRole(0, 4), uploadResource.single('file'), createResourceController);
 router.put('/updateResource/:resourceId', authMiddleware, checkRole(0, 4), updateResourceController);
@@ -66,12 +100,22 @@ router.get('/getLearningRecord/:recordId', authMiddleware, getLearningRecordCont
 router.get('/getLearningHistoryList', authMiddleware, getLearningHistoryListController);
 router.post('/claimLearningRewardSign', authMiddleware, claimLearningRewardSignController);
 router.post('/claimLearningReward', authMiddleware, claimLearningRewardController);
+router.get('/getLearningCoverage/:resourceId', authMiddleware, getLearningCoverageController);
+router.get('/getResourceCoverageStats/:resourceId', authMiddleware, checkRole(0, 4), getResourceCoverageStatsController);
+router.get('/getFlaggedLearningRecordList', authMiddleware, checkRole(0, 4), getFlaggedLearningRecordListController);
+router.put('/reviewLearningRecordFlag/:recordId', authMiddleware, checkRole(0, 4), reviewLearningRecordFlagController);
+
+// WatchSession（音视频观看会话，心跳上报学习时间）
+router.post('/startWatchSession', authMiddleware, startWatchSessionController);
+router.put('/endWatchSession/:sessionId', authMiddleware, endWatchSessionController);
+router.get('/getWatchSessionList', authMiddleware, checkRole(0, 4), getWatchSessionListController);
 
 // CertificateTemplate
 router.post('/createCertificateTemplate', authMiddleware, checkRole(0), validateCertificateTemplateMiddleware, createCertificateTemplateController);
 router.put('/updateCertificateTemplate/:templateId', authMiddleware, checkRole(0), validateCertificateTemplateMiddleware, updateCertificateTemplateController);
 router.get('/getCertificateTemplateList', authMiddleware, getCertificateTemplateListController);
 router.get('/getCertificateTemplate/:templateId', authMiddleware, getCertificateTemplateController);
+router.post('/previewCertificateTemplate', authMiddleware, checkRole(0, 4), previewCertificateTemplateController);
 
 // ResourceCertificateConfig
 router.post('/createResourceCertificateConfig', authMiddleware, checkRole(4), createResourceCertificateConfigController);
@@ -81,9 +125,19 @@ router.get('/getResourceCertificateConfig/:configId', authMiddleware, checkRole(
 
 // Certificate
 router.post('/createCertificate', authMiddleware, checkRole(4,5), createCertificateController);
+router.get('/getCertificateEligibility/:courseId', authMiddleware, checkRole(4, 5), getCertificateEligibilityController);
 router.get('/getCertificateList', authMiddleware, getCertificateListController);
 router.get('/getCertificate/:certificateId', authMiddleware, getCertificateController);
+router.get('/downloadCertificate/:certificateId', authMiddleware, downloadCertificateController);
 router.put('/updateCertificateNft/:certificateId', authMiddleware, checkRole(4, 5), updateCertificateNftController);
+router.get('/verifyCertificate', verifyCertificateController);
+router.put('/revokeCertificate/:certificateId', authMiddleware, checkRole(0, 4), revokeCertificateController);
+router.post('/reissueCertificate/:certificateId', authMiddleware, checkRole(0, 4), reissueCertificateController);
+
+// CertificateBatchJob（批量颁发证书，后台执行）
+router.post('/createCertificateBatchJob', authMiddleware, checkRole(0, 4), createCertificateBatchJobController);
+router.get('/getCertificateBatchJob/:jobId', authMiddleware, checkRole(0, 4), getCertificateBatchJobController);
+router.get('/getCertificateBatchJobList', authMiddleware, checkRole(0, 4), getCertificateBatchJobListController);
 
 // TokenRule
 router.post('/createTokenRule', authMiddleware, checkRole(0), createTokenRuleController);
@@ -93,6 +147,15 @@ router.get('/getTokenRule/:ruleId', authMiddleware, getTokenRuleController);
 
 // TokenTransaction
 router.get('/getTokenTransactionList', authMiddleware, getTokenTransactionListController);
+router.get('/getTokenTransactionStatus/:transactionId', authMiddleware, getTokenTransactionStatusController);
+
+// ClaimReward（通用领取奖励，按 rewardType 区分）
+router.post('/claimReward/sign', authMiddleware, claimRewardSignController);
+router.post('/claimReward', authMiddleware, claimRewardController);
+
+// NftMetadata（生成 ERC-721 元数据并返回 tokenURI）
+router.post('/createCertificateNftMetadata/:certificateId', authMiddleware, checkRole(0, 4, 5), createCertificateNftMetadataController);
+router.post('/createResourceNftMetadata/:resourceId', authMiddleware, checkRole(0, 4), createResourceNftMetadataController);
 
 export default router;
 
@@ -1,6 +1,7 @@
 import { AuditRecordInfo } from '../types/auditRecordType';
 import { createTeacherApplication, approveTeacherApplication, approveResourceApplication, approveCourseApplication, getAuditRecordList, createCourseAudit, createResourceAudit } from '../models/auditRecordModel';
 import { getUser, updateUserRole } from '../models/userModel';
+import { revokeUserAccessTokensService } from './authService';
 import { putResource, getResource } from '../models/resourceModel';
 import { putCourse, getCourse } from '../models/courseModel';
 import { ROLE_STUDENT, ROLE_TEACHER, ROLE_ADMIN } from '../middlewares/roleMiddleware';
@@ -64,8 +65,9 @@ export async function approveTeacherApplicationService(
       throw new Error('Target user not found');
     }
 
-    // 更新用户角色为教师
+    // 更新用户角色为教师，并使旧角色的 access token 失效
     updatedUser = await updateUserRole(targetUserId, ROLE_TEACHER);
+    await revokeUserAccessTokensService(targetUserId);
   }
 
   return {
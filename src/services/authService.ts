@@ -1,6 +1,12 @@
 import type { StringValue } from 'ms';
 import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
 import { parseExpiresIn } from '../utils/formatTime';
+import { sessionStore } from '../utils/sessionStore';
+import { UserSessionInfo, SessionClientMeta } from '../types/userSessionType';
+import { getUser, incrementUserTokenVersion } from '../models/userModel';
+import { USER_STATUS_DISABLED } from '../middlewares/authMiddleware';
+import { recordSecurityEventService, SECURITY_EVENT_REFRESH_TOKEN_REUSE } from './securityEventService';
 
 // JWT 配置
 const JWT_ACCESS_SECRET = (process.env.JWT_ACCESS_SECRET || 'dev-secret') as string;
@@ -9,12 +15,36 @@ const JWT_REFRESH_SECRET = (process.env.JWT_REFRESH_SECRET || 'dev-refresh-secre
 const JWT_REFRESH_EXPIRES_IN = (process.env.JWT_REFRESH_EXPIRES_IN || '7d') as StringValue;
 
 interface RefreshTokenData {
+    sessionId: number;
+    familyId: string;
     userId: number;
     username: string;
     expiresAt: number;
 }
 
-const refreshTokenStore = new Map<string, RefreshTokenData>();
+// 定期清理过期会话（毫秒）
+const SESSION_CLEANUP_INTERVAL_MS = Number(process.env.SESSION_CLEANUP_INTERVAL_MS || 60 * 60 * 1000);
+
+const sessionCleanupTimer = setInterval(() => {
+    sessionStore.removeExpired().catch(error => console.error('Session cleanup failed:', error));
+}, SESSION_CLEANUP_INTERVAL_MS);
+sessionCleanupTimer.unref();
+
+/**
+ * 计算 refresh token 哈希
+ * 存储中只保存哈希，避免泄露后可直接使用
+ */
+function hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 计算 refresh token 过期时间
+ */
+function getRefreshTokenExpiresAt(): Date {
+    const refreshExpiresIn = parseExpiresIn(JWT_REFRESH_EXPIRES_IN as string);
+    return new Date(Date.now() + refreshExpiresIn * 1000); // refreshExpiresIn 是秒数
+}
 
 /**
  * 生成 Access Token
@@ -24,72 +54,144 @@ export function signAccessToken(payload: object): string {
     return jwt.sign(payload, JWT_ACCESS_SECRET, options);
 }
 
+/**
+ * 生成 token 家族ID
+ * 每次登录生成一个家族，轮换出的 refresh token 在 payload.fid 中携带同一家族ID
+ */
+export function createTokenFamilyId(): string {
+    return crypto.randomUUID();
+}
+
 /**
  * 生成 Refresh Token
+ * 每个 token 带随机 jti，保证同一秒内签发的 token 也互不相同
  */
 export function signRefreshToken(payload: object): string {
-    const options: SignOptions = { expiresIn: JWT_REFRESH_EXPIRES_IN };
+    const options: SignOptions = { expiresIn: JWT_REFRESH_EXPIRES_IN, jwtid: crypto.randomUUID() };
     return jwt.sign(payload, JWT_REFRESH_SECRET, options);
 }
 
 /**
  * 存储 refresh token
+ * 为本次登录创建新会话，记录设备和 IP
  */
-export function storeRefreshTokenForUser(token: string, userId: number, username: string): void {
-    const refreshExpiresIn = parseExpiresIn(JWT_REFRESH_EXPIRES_IN as string);
-    const expiresAt = Date.now() + refreshExpiresIn * 1000; // refreshExpiresIn 是秒数
-    refreshTokenStore.set(token, { userId, username, expiresAt });
+export async function storeRefreshTokenForUser(
+    token: string,
+    userId: number,
+    username: string,
+    familyId: string,
+    meta: SessionClientMeta = {}
+): Promise<UserSessionInfo> {
+    return sessionStore.create({
+        userId,
+        username,
+        familyId,
+        tokenHash: hashRefreshToken(token),
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+        expiresAt: getRefreshTokenExpiresAt(),
+    });
 }
 
 /**
  * 获取 refresh token 数据
  */
-export function getRefreshTokenData(token: string): RefreshTokenData | null {
-    const data = refreshTokenStore.get(token);
-    if (!data) {
+export async function getRefreshTokenData(token: string): Promise<RefreshTokenData | null> {
+    const session = await sessionStore.findByTokenHash(hashRefreshToken(token));
+    if (!session) {
         return null;
     }
 
-    // 检查是否过期
-    if (Date.now() > data.expiresAt) {
-        refreshTokenStore.delete(token);
-        return null;
-    }
-
-    return data;
+    return {
+        sessionId: session.sessionId!,
+        familyId: session.familyId!,
+        userId: session.userId!,
+        username: session.username!,
+        expiresAt: new Date(session.expiresAt!).getTime(),
+    };
 }
 
 /**
  * 删除 refresh token
  */
-export function deleteRefreshToken(token: string): void {
-    refreshTokenStore.delete(token);
+export async function deleteRefreshToken(token: string): Promise<void> {
+    const tokenData = await getRefreshTokenData(token);
+    if (tokenData) {
+        await sessionStore.remove(tokenData.sessionId);
+    }
+}
+
+/**
+ * 处理 refresh token 重放
+ * 已轮换的 token 再次出现说明 token 可能被盗用，撤销整个家族并记录安全事件
+ */
+async function revokeTokenFamilyOnReuse(familyId: string, meta: SessionClientMeta): Promise<void> {
+    const family = await sessionStore.findByFamilyId(familyId);
+    if (!family) {
+        return; // 家族已撤销或已过期
+    }
+
+    await sessionStore.remove(family.sessionId!);
+    console.warn(`Refresh token reuse detected, token family ${familyId} of user ${family.userId} revoked`);
+
+    await recordSecurityEventService({
+        userId: family.userId,
+        eventType: SECURITY_EVENT_REFRESH_TOKEN_REUSE,
+        familyId,
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+        detail: 'A rotated refresh token was presented again; all sessions of this token family were revoked',
+    });
 }
 
 /**
  * 刷新 Access Token
+ * 在同一会话上轮换 refresh token，并更新最近使用时间和 IP
+ * 签名有效但已被轮换的 token 视为重放，撤销其所在家族
  */
-export function refreshAccessToken(refreshToken: string): { accessToken: string; refreshToken: string } | null {
-    let decoded: { userId: number; username: string; role?: number };
+export async function refreshAccessToken(
+    refreshToken: string,
+    meta: SessionClientMeta = {}
+): Promise<{ accessToken: string; refreshToken: string } | null> {
+    let decoded: { userId: number; username: string; role?: number; fid?: string };
     try {
         // 验证 refresh token
-        decoded = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as { userId: number; username: string; role?: number };
+        decoded = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as { userId: number; username: string; role?: number; fid?: string };
     } catch (error) {
         console.error('Refresh token error:', error);
         return null;
     }
 
-    // 检查 refresh token 是否在存储中
-    const tokenData = getRefreshTokenData(refreshToken);
+    // 检查 refresh token 是否为家族当前有效的 token
+    const tokenData = await getRefreshTokenData(refreshToken);
     if (!tokenData) {
-        return null; // Refresh token 已过期或不存在
+        if (decoded.fid) {
+            await revokeTokenFamilyOnReuse(decoded.fid, meta);
+        }
+        return null; // Refresh token 已轮换、已过期、已撤销或不存在
+    }
+
+    // 以数据库中的最新角色和 token 版本签发，账号禁用则不再刷新
+    const user = await getUser({ userId: tokenData.userId });
+    if (!user || user.status === USER_STATUS_DISABLED) {
+        await sessionStore.remove(tokenData.sessionId);
+        return null;
     }
 
     // 刷新双 Token
-    const newAccessToken = signAccessToken({ userId: decoded.userId, username: decoded.username, role: decoded.role });
-    const newRefreshToken = signRefreshToken({ userId: decoded.userId, username: decoded.username, role: decoded.role });
-    deleteRefreshToken(refreshToken);
-    storeRefreshTokenForUser(newRefreshToken, decoded.userId, decoded.username);
+    const newAccessToken = signAccessToken({ userId: user.userId!, username: user.username!, role: user.role, tv: user.tokenVersion ?? 0 });
+    const newRefreshToken = signRefreshToken({ userId: user.userId!, username: user.username!, role: user.role, fid: tokenData.familyId });
+    const rotated = await sessionStore.rotate(tokenData.sessionId, hashRefreshToken(refreshToken), {
+        tokenHash: hashRefreshToken(newRefreshToken),
+        expiresAt: getRefreshTokenExpiresAt(),
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+    });
+    if (!rotated) {
+        // 同一 token 被并发使用，已被其他请求轮换
+        await revokeTokenFamilyOnReuse(tokenData.familyId, meta);
+        return null;
+    }
 
     return {
         accessToken: newAccessToken,
@@ -97,3 +199,66 @@ export function refreshAccessToken(refreshToken: string): { accessToken: string;
     };
 }
 
+/**
+ * 获取用户会话列表
+ * 不返回 tokenHash，并标记当前请求所使用的会话
+ */
+export async function getSessionListService(userId: number, currentRefreshToken?: string): Promise<UserSessionInfo[]> {
+    const currentTokenHash = currentRefreshToken ? hashRefreshToken(currentRefreshToken) : undefined;
+    const sessions = await sessionStore.listByUser(userId);
+    return sessions.map(({ tokenHash, ...session }) => ({
+        ...session,
+        isCurrent: !!currentTokenHash && tokenHash === currentTokenHash,
+    }));
+}
+
+/**
+ * 撤销会话
+ * 只能撤销自己的会话
+ */
+export async function revokeSessionService(userId: number, sessionId: number): Promise<void> {
+    const removed = await sessionStore.remove(sessionId, userId);
+    if (!removed) {
+        throw new Error('Session not found');
+    }
+}
+
+/**
+ * 撤销用户全部会话
+ * 用于用户"退出所有设备"以及管理员强制下线
+ * @returns 撤销的会话数量
+ */
+export async function revokeAllSessionsService(userId: number): Promise<number> {
+    return sessionStore.removeByUser(userId);
+}
+
+/**
+ * 管理员强制下线用户
+ * 删除该用户的全部会话，并使已签发的 access token 立即失效
+ * @returns 撤销的会话数量
+ */
+export async function forceLogoutUserService(userId: number): Promise<number> {
+    const user = await getUser({ userId });
+    if (!user) {
+        throw new Error('User not found');
+    }
+
+    await incrementUserTokenVersion(userId);
+    return sessionStore.removeByUser(userId);
+}
+
+/**
+ * 使用户已签发的 access token 立即失效
+ * 递增用户 token 版本，authMiddleware 会拒绝旧版本的 token
+ * revokeSessions 为 true 时同时撤销全部登录会话（密码修改、账号禁用），否则用户可通过刷新获取新角色的 token
+ */
+export async function revokeUserAccessTokensService(
+    userId: number,
+    options: { revokeSessions?: boolean } = {}
+): Promise<void> {
+    await incrementUserTokenVersion(userId);
+
+    if (options.revokeSessions) {
+        await sessionStore.removeByUser(userId);
+    }
+}
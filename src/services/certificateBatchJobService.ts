@@ -0,0 +1,274 @@
+import { CertificateBatchJobInfo, CertificateBatchJobResultItem } from '../types/certificateBatchJobType';
+import { CourseInfo } from '../types/courseType';
+import { ResourceCertificateConfigInfo } from '../types/resourceCertificateConfigType';
+import {
+  postCertificateBatchJob,
+  getCertificateBatchJob,
+  getCertificateBatchJobList,
+  putCertificateBatchJob,
+  claimCertificateBatchJob,
+} from '../models/certificateBatchJobModel';
+import { checkCertificateExists } from '../models/certificateModel';
+import { getCourse } from '../models/courseModel';
+import { getUser } from '../models/userModel';
+import { getResourceCertificateConfig } from '../models/resourceCertificateConfigModel';
+import { getCertificateTemplate } from '../models/certificateTemplateModel';
+import { getCourseLearnerIdList } from '../models/learningRecordModel';
+import { ROLE_ADMIN, ROLE_STUDENT, ROLE_TEACHER } from '../middlewares/roleMiddleware';
+import { evaluateCertificateEligibility } from './certificateEligibilityService';
+import { issueCertificate, CertificateExistsError } from './certificateService';
+
+/*
+ * 批量颁发证书
+ * - 教师创建任务后立即返回，后台任务逐个处理课程的学习者：已持有证书跳过，满足领取条件则生成证书并上传 IPFS
+ * - 每处理一个学生更新一次进度和结果，查询任务即可看到进度；完成后结果即为颁发/跳过/失败汇总
+ * - 进程中断后，长时间未更新进度的执行中任务会被重新领取，已记录结果的学生不重复处理
+ */
+const CERTIFICATE_BATCH_WORKER_INTERVAL_MS = Number(process.env.CERTIFICATE_BATCH_WORKER_INTERVAL_MS || 10 * 1000);
+const CERTIFICATE_BATCH_STALE_MS = Number(process.env.CERTIFICATE_BATCH_STALE_MS || 10 * 60 * 1000);
+
+// 任务状态
+export const CERTIFICATE_BATCH_JOB_STATUS_QUEUED = 0;
+export const CERTIFICATE_BATCH_JOB_STATUS_RUNNING = 1;
+export const CERTIFICATE_BATCH_JOB_STATUS_COMPLETED = 2;
+export const CERTIFICATE_BATCH_JOB_STATUS_FAILED = 3;
+
+/**
+ * 获取课程并校验权限（管理员或课程教师）
+ */
+async function getManageableCourse(userId: number, role: number | undefined, courseId: number): Promise<CourseInfo> {
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  if (role !== ROLE_ADMIN && course.teacherId !== userId) {
+    throw new Error('No permission to issue certificates for this course');
+  }
+  return course;
+}
+
+/**
+ * 创建批量颁发证书任务服务
+ * 课程需已启用证书，同一课程同时只能有一个排队中或执行中的任务
+ * 管理员和课程教师可创建
+ */
+export async function createCertificateBatchJobService(
+  userId: number,
+  role: number | undefined,
+  courseId: number
+): Promise<CertificateBatchJobInfo> {
+  await getManageableCourse(userId, role, courseId);
+
+  const certConfig = await getResourceCertificateConfig({ courseId });
+  if (!certConfig || !certConfig.isEnabled) {
+    throw new Error('Certificate not available for this course');
+  }
+
+  const job = await postCertificateBatchJob({ courseId, createdBy: userId });
+  if (!job) {
+    throw new Error('A certificate batch job is already in progress for this course');
+  }
+  return job;
+}
+
+/**
+ * 查询批量颁发证书任务服务（进度和结果汇总）
+ * 管理员和课程教师可查询
+ * @returns 任务信息，不存在返回 null
+ */
+export async function getCertificateBatchJobService(
+  userId: number,
+  role: number | undefined,
+  jobId: number
+): Promise<CertificateBatchJobInfo | null> {
+  const job = await getCertificateBatchJob({ jobId });
+  if (!job) {
+    return null;
+  }
+  await getManageableCourse(userId, role, job.courseId!);
+  return job;
+}
+
+/**
+ * 查询课程的批量颁发证书任务列表服务
+ * 管理员和课程教师可查询
+ */
+export async function getCertificateBatchJobListService(
+  userId: number,
+  role: number | undefined,
+  courseId: number,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: CertificateBatchJobInfo[]; total: number }> {
+  await getManageableCourse(userId, role, courseId);
+  return await getCertificateBatchJobList({ courseId }, page, pageSize);
+}
+
+/**
+ * 处理单个学生：已持有证书或不满足条件时跳过，否则颁发证书
+ */
+async function processBatchStudent(
+  studentId: number,
+  course: CourseInfo,
+  certConfig: ResourceCertificateConfigInfo,
+  templateContent: any
+): Promise<CertificateBatchJobResultItem> {
+  const student = await getUser({ userId: studentId });
+  if (!student) {
+    return { studentId, studentName: '', status: 'skipped', reason: 'User not found' };
+  }
+  const studentName = student.realName || student.username || '';
+
+  if (student.role !== ROLE_STUDENT && student.role !== ROLE_TEACHER) {
+    return { studentId, studentName, status: 'skipped', reason: 'Only students and teachers can receive certificates' };
+  }
+
+  if (await checkCertificateExists(studentId, course.courseId!)) {
+    return { studentId, studentName, status: 'skipped', reason: 'Certificate already issued for this course' };
+  }
+
+  const eligibility = await evaluateCertificateEligibility(student, course.courseId!, certConfig);
+  if (!eligibility.eligible || !eligibility.learningRecordId) {
+    return {
+      studentId,
+      studentName,
+      status: 'skipped',
+      reason: 'Certificate requirements not met',
+      ineligibleReasons: eligibility.reasons,
+    };
+  }
+
+  try {
+    const certificate = await issueCertificate({
+      student,
+      course,
+      templateContent,
+      overrideFields: certConfig.overrideFields,
+      learningRecordId: eligibility.learningRecordId,
+    });
+    return { studentId, studentName, status: 'issued', certificateId: certificate.certificateId };
+  } catch (error) {
+    if (error instanceof CertificateExistsError) {
+      // 检查后到写入前学生已自行领取证书
+      return { studentId, studentName, status: 'skipped', reason: 'Certificate already issued for this course' };
+    }
+    console.error(`Batch issue certificate for student ${studentId} error:`, error);
+    return {
+      studentId,
+      studentName,
+      status: 'failed',
+      reason: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+    };
+  }
+}
+
+/**
+ * 执行批量颁发证书任务
+ * 每处理一个学生更新一次进度；已记录结果的学生（任务恢复执行时）不重复处理
+ */
+async function runCertificateBatchJob(job: CertificateBatchJobInfo) {
+  const jobId = job.jobId!;
+
+  const course = await getCourse({ courseId: job.courseId });
+  const certConfig = course ? await getResourceCertificateConfig({ courseId: course.courseId }) : null;
+  const template = certConfig ? await getCertificateTemplate({ templateId: certConfig.templateId }) : null;
+  if (!course || !certConfig || !certConfig.isEnabled || !template || !template.isActive) {
+    await putCertificateBatchJob(
+      jobId,
+      { status: CERTIFICATE_BATCH_JOB_STATUS_FAILED, errorMessage: 'Certificate not available for this course', finishedAt: new Date() },
+      CERTIFICATE_BATCH_JOB_STATUS_RUNNING
+    );
+    return;
+  }
+
+  const studentIds = await getCourseLearnerIdList(course.courseId!);
+  const results: CertificateBatchJobResultItem[] = [...(job.results || [])];
+  const processedIds = new Set(results.map(item => item.studentId));
+
+  const countResults = () => ({
+    totalStudents: studentIds.length,
+    processedCount: results.length,
+    issuedCount: results.filter(item => item.status === 'issued').length,
+    skippedCount: results.filter(item => item.status === 'skipped').length,
+    failedCount: results.filter(item => item.status === 'failed').length,
+  });
+
+  await putCertificateBatchJob(jobId, countResults(), CERTIFICATE_BATCH_JOB_STATUS_RUNNING);
+
+  for (const studentId of studentIds) {
+    if (processedIds.has(studentId)) continue;
+
+    let result: CertificateBatchJobResultItem;
+    try {
+      result = await processBatchStudent(studentId, course, certConfig, template.templateContent);
+    } catch (error) {
+      result = {
+        studentId,
+        studentName: '',
+        status: 'failed',
+        reason: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+      };
+    }
+    results.push(result);
+    processedIds.add(studentId);
+
+    // 任务状态已变更（不再是执行中）时停止处理
+    const updated = await putCertificateBatchJob(jobId, { ...countResults(), results }, CERTIFICATE_BATCH_JOB_STATUS_RUNNING);
+    if (updated === 0) {
+      return;
+    }
+  }
+
+  await putCertificateBatchJob(
+    jobId,
+    { ...countResults(), results, status: CERTIFICATE_BATCH_JOB_STATUS_COMPLETED, finishedAt: new Date() },
+    CERTIFICATE_BATCH_JOB_STATUS_RUNNING
+  );
+}
+
+/**
+ * 执行一轮批量颁发证书处理：依次领取并执行任务，直到没有待执行的任务
+ */
+export async function processCertificateBatchJobs() {
+  for (;;) {
+    const job = await claimCertificateBatchJob(new Date(Date.now() - CERTIFICATE_BATCH_STALE_MS));
+    if (!job) return;
+
+    try {
+      await runCertificateBatchJob(job);
+    } catch (error) {
+      console.error(`Run certificate batch job ${job.jobId} error:`, error);
+      await putCertificateBatchJob(
+        job.jobId!,
+        {
+          status: CERTIFICATE_BATCH_JOB_STATUS_FAILED,
+          errorMessage: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+          finishedAt: new Date(),
+        },
+        CERTIFICATE_BATCH_JOB_STATUS_RUNNING
+      );
+    }
+  }
+}
+
+let certificateBatchWorkerTimer: NodeJS.Timeout | null = null;
+let certificateBatchWorkerRunning = false;
+
+/**
+ * 启动批量颁发证书后台任务
+ * 每轮处理完成前不会开始下一轮
+ */
+export function startCertificateBatchWorker() {
+  if (certificateBatchWorkerTimer) return;
+
+  certificateBatchWorkerTimer = setInterval(() => {
+    if (certificateBatchWorkerRunning) return;
+    certificateBatchWorkerRunning = true;
+    processCertificateBatchJobs()
+      .catch(error => console.error('Certificate batch worker error:', error))
+      .finally(() => {
+        certificateBatchWorkerRunning = false;
+      });
+  }, CERTIFICATE_BATCH_WORKER_INTERVAL_MS);
+  certificateBatchWorkerTimer.unref();
+}
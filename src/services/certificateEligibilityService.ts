@@ -0,0 +1,170 @@
+import { CertificateEligibilityInfo, CertificateEligibilityResourceItem, CertificateIneligibleReason } from '../types/certificateEligibilityType';
+import { ResourceCertificateConfigInfo } from '../types/resourceCertificateConfigType';
+import { UserInfo } from '../types/userType';
+import { LearningRecordInfo } from '../types/learningRecordType';
+import { getUser } from '../models/userModel';
+import { getCourse } from '../models/courseModel';
+import { getResourceCertificateConfig } from '../models/resourceCertificateConfigModel';
+import { getCourseResourceList } from '../models/resourceModel';
+import { getCourseLearningRecordList } from '../models/learningRecordModel';
+import { checkResourceAccessList } from './resourceAccessService';
+import { isLearningRecordFlagged } from './learningRecordService';
+
+// 资源状态：已发布
+const RESOURCE_STATUS_PUBLISHED = 2;
+
+const REASON_MESSAGES: Record<CertificateIneligibleReason, string> = {
+  certificate_not_available: 'Certificate not available for this course',
+  no_published_resources: 'No published resources found for this course',
+  completion_not_met: 'Course completion requirement not met',
+  learning_time_not_met: 'Minimum learning time not met',
+  learning_flagged: 'Learning records are flagged and pending teacher review',
+  no_completed_resource: 'At least one course resource must be completed',
+};
+
+/**
+ * 证书领取资格不满足错误
+ * 携带课程完成情况，controller 捕获后返回 403
+ */
+export class CertificateIneligibleError extends Error {
+  eligibility: CertificateEligibilityInfo;
+
+  constructor(eligibility: CertificateEligibilityInfo) {
+    super(REASON_MESSAGES[eligibility.reasons[0]]);
+    this.name = 'CertificateIneligibleError';
+    this.eligibility = eligibility;
+  }
+}
+
+/**
+ * 计算用户的证书领取资格
+ * 课程完成度为所有已发布资源学习进度的平均值（已完成按 100 计，未学习按 0 计），学习时长为这些资源学习时长之和
+ * 完成度不低于 completionRequirement（未配置按 100）且学习时长不低于 minLearningTime（未配置按 0）时满足条件
+ * 存在被标记异常且未通过教师审核的学习记录时不满足条件
+ * 无权访问的资源（校内/付费）的学习记录不计入完成度和学习时长
+ * 证书关联最近完成的学习记录，没有已完成的资源时不满足条件
+ * @param config 课程证书配置，未配置或未启用时不满足条件
+ */
+export async function evaluateCertificateEligibility(
+  user: UserInfo,
+  courseId: number,
+  config: ResourceCertificateConfigInfo | null
+): Promise<CertificateEligibilityInfo> {
+  const completionRequirement = Number(config?.completionRequirement ?? 100);
+  const minLearningTime = Number(config?.minLearningTime ?? 0);
+
+  const resources = await getCourseResourceList(courseId, RESOURCE_STATUS_PUBLISHED);
+  const recordMap = new Map<number, LearningRecordInfo>();
+  for (const record of await getCourseLearningRecordList(user.userId!, courseId)) {
+    recordMap.set(record.resourceId!, record);
+  }
+  const accessDenials = await checkResourceAccessList(user, resources);
+
+  const items: CertificateEligibilityResourceItem[] = [];
+  let hasFlaggedRecord = false;
+  for (const resource of resources) {
+    const record = recordMap.get(resource.resourceId!) || null;
+    if (isLearningRecordFlagged(record)) {
+      hasFlaggedRecord = true;
+    }
+    const accessDenial = accessDenials.get(resource.resourceId!) || null;
+    // 无权访问（未购买或非本校）时不计入学习记录
+    const countedRecord = accessDenial ? null : record;
+    const isCompleted = countedRecord?.isCompleted === 1 ? 1 : 0;
+    items.push({
+      resourceId: resource.resourceId!,
+      title: resource.title || '',
+      resourceType: resource.resourceType ?? null,
+      recordId: record?.recordId ?? null,
+      progress: isCompleted ? 100 : Math.min(Math.max(Number(countedRecord?.progress || 0), 0), 100),
+      learningTime: Number(countedRecord?.learningTime || 0),
+      isCompleted,
+      completedAt: countedRecord?.completedAt || null,
+      flagStatus: Number(record?.flagStatus || 0),
+      accessDenial,
+    });
+  }
+
+  const totalResources = items.length;
+  const completedItems = items.filter(item => item.isCompleted === 1);
+  const completionPercentage = totalResources > 0
+    ? Math.round(items.reduce((sum, item) => sum + item.progress, 0) / totalResources * 100) / 100
+    : 0;
+  const totalLearningTime = items.reduce((sum, item) => sum + item.learningTime, 0);
+
+  // 证书关联最近完成的学习记录（课程完成时间）
+  const latestCompleted = completedItems
+    .filter(item => item.recordId !== null)
+    .sort((a, b) => new Date(b.completedAt || 0).getTime() - new Date(a.completedAt || 0).getTime())[0];
+
+  const reasons: CertificateIneligibleReason[] = [];
+  if (!config || !config.isEnabled) {
+    reasons.push('certificate_not_available');
+  }
+  if (totalResources === 0) {
+    reasons.push('no_published_resources');
+  } else if (completionPercentage < completionRequirement) {
+    reasons.push('completion_not_met');
+  }
+  if (totalLearningTime < minLearningTime) {
+    reasons.push('learning_time_not_met');
+  }
+  if (totalResources > 0 && !latestCompleted) {
+    reasons.push('no_completed_resource');
+  }
+  if (hasFlaggedRecord) {
+    reasons.push('learning_flagged');
+  }
+
+  return {
+    courseId,
+    eligible: reasons.length === 0,
+    reasons,
+    completionRequirement,
+    minLearningTime,
+    completionPercentage,
+    totalLearningTime,
+    completedResources: completedItems.length,
+    totalResources,
+    learningRecordId: latestCompleted?.recordId ?? null,
+    resources: items,
+  };
+}
+
+/**
+ * 断言用户满足证书领取条件
+ * 不满足时抛出 CertificateIneligibleError
+ */
+export async function assertCertificateEligibility(
+  user: UserInfo,
+  courseId: number,
+  config: ResourceCertificateConfigInfo | null
+): Promise<CertificateEligibilityInfo> {
+  const eligibility = await evaluateCertificateEligibility(user, courseId, config);
+  if (!eligibility.eligible) {
+    throw new CertificateIneligibleError(eligibility);
+  }
+  return eligibility;
+}
+
+/**
+ * 查询证书领取资格服务
+ * 返回课程完成度、学习时长和各资源学习情况，便于用户查看还差哪些内容
+ */
+export async function getCertificateEligibilityService(
+  userId: number,
+  courseId: number
+): Promise<CertificateEligibilityInfo> {
+  const user = await getUser({ userId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+
+  const config = await getResourceCertificateConfig({ courseId });
+  return await evaluateCertificateEligibility(user, courseId, config);
+}
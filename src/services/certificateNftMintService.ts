@@ -0,0 +1,312 @@
+import { CertificateInfo } from '../types/certificateType';
+import {
+  getCertificate,
+  putCertificateNftMint,
+  getCertificateNftMintQueue,
+  getCertificateNftBurnQueue,
+  updateCertificateNftBurnPending,
+  updateCertificateRevokeTransaction,
+} from '../models/certificateModel';
+import { signCertificateNftMint, getCertificateNftMints, burnCertificateNft } from '../utils/certificateNft';
+import { broadcastRawTransaction, getTransactionReceiptStatus, getAdminConfirmedNonce } from '../utils/moocToken';
+import { createCertificateNftMetadataService } from './nftMetadataService';
+import { withSubmitLock } from './mintPipelineService';
+
+/*
+ * 证书 NFT 后端托管铸造
+ * - 由管理员钱包代付 gas，将证书 NFT 铸造到学生绑定的钱包，学生无需持有 gas
+ * - 证书先标记为待提交（pending），生成元数据后签名、记录交易哈希（submitted），最后广播
+ * - 后台任务跟踪回执：确认数足够后从 Transfer 事件读取 TokenId，写入 certificateNftId 和 transactionHash
+ * - 未上链的交易重新广播；nonce 被占用或链上执行失败时重新提交，超过最大尝试次数标记为 failed
+ * - 已撤销的证书不再提交；撤销时铸造尚未确认（或销毁失败）的证书标记为待销毁，NFT 确认后由后台任务销毁
+ */
+const CERTIFICATE_NFT_MINT_WORKER_INTERVAL_MS = Number(process.env.CERTIFICATE_NFT_MINT_WORKER_INTERVAL_MS || 15 * 1000);
+const CERTIFICATE_NFT_MIN_CONFIRMATIONS = Number(process.env.CERTIFICATE_NFT_MIN_CONFIRMATIONS || 1);
+const CERTIFICATE_NFT_MINT_MAX_ATTEMPTS = Number(process.env.CERTIFICATE_NFT_MINT_MAX_ATTEMPTS || 5);
+const CERTIFICATE_NFT_MINT_BATCH_SIZE = Number(process.env.CERTIFICATE_NFT_MINT_BATCH_SIZE || 20);
+
+// 托管铸造状态
+export const CERTIFICATE_NFT_MINT_STATUS_PENDING = 0;
+export const CERTIFICATE_NFT_MINT_STATUS_SUBMITTED = 1;
+export const CERTIFICATE_NFT_MINT_STATUS_CONFIRMED = 2;
+export const CERTIFICATE_NFT_MINT_STATUS_FAILED = 3;
+
+/**
+ * 获取错误信息（截断，避免超出字段长度）
+ */
+function getErrorMessage(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).slice(0, 500);
+}
+
+/**
+ * 托管铸造证书 NFT 服务
+ * 将证书标记为待铸造并立即尝试提交，提交失败由后台任务重试，不抛出错误（不影响证书领取）
+ * @param certificate 新颁发的证书
+ * @param walletAddress 接收 NFT 的钱包地址（学生绑定的钱包）
+ * @returns 最新的证书信息
+ */
+export async function mintCertificateNftService(certificate: CertificateInfo, walletAddress: string): Promise<CertificateInfo> {
+  const certificateId = certificate.certificateId!;
+  try {
+    const queued = await putCertificateNftMint(
+      certificateId,
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING, nftMintWalletAddress: walletAddress, nftMintAttempts: 0, nftMintError: null },
+      { nftMintStatus: null }
+    );
+    if (queued > 0) {
+      await submitCertificateNftMint({ ...certificate, nftMintWalletAddress: walletAddress, nftMintAttempts: 0 });
+    }
+  } catch (error) {
+    console.error(`Mint certificate ${certificateId} nft error:`, error);
+  }
+
+  try {
+    return (await getCertificate({ certificateId })) || certificate;
+  } catch (error) {
+    console.error('Get certificate after minting nft error:', error);
+    return certificate;
+  }
+}
+
+/**
+ * 提交证书 NFT 铸造交易
+ * 先生成（或复用）证书元数据，再签名并将交易哈希、nonce 和已签名交易写入记录（pending -> submitted），最后广播
+ * 广播失败不影响记录状态，后台任务会重新广播
+ * @returns 是否提交成功（记录已被其他进程提交时返回 false）
+ */
+async function submitCertificateNftMint(certificate: CertificateInfo): Promise<boolean> {
+  const { certificateId, studentId, nftMintWalletAddress } = certificate;
+  if (!certificateId || !studentId || !nftMintWalletAddress) {
+    throw new Error('Invalid certificate nft mint');
+  }
+  const attempts = (certificate.nftMintAttempts || 0) + 1;
+
+  // 元数据需要固定到 IPFS，放在提交锁外生成，避免阻塞奖励 mint
+  let tokenURI: string;
+  try {
+    ({ tokenURI } = await createCertificateNftMetadataService(studentId, undefined, certificateId));
+  } catch (error) {
+    console.error('Create certificate nft metadata error:', error);
+    await putCertificateNftMint(
+      certificateId,
+      { nftMintAttempts: attempts, nftMintError: getErrorMessage(error) },
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING }
+    );
+    return false;
+  }
+
+  return withSubmitLock(async () => {
+    let signed;
+    try {
+      signed = await signCertificateNftMint(nftMintWalletAddress, tokenURI);
+    } catch (error) {
+      console.error('Sign certificate nft mint transaction error:', error);
+      await putCertificateNftMint(
+        certificateId,
+        { nftMintAttempts: attempts, nftMintError: getErrorMessage(error) },
+        { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING }
+      );
+      return false;
+    }
+
+    const updated = await putCertificateNftMint(
+      certificateId,
+      {
+        nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_SUBMITTED,
+        nftMintTransactionHash: signed.transactionHash,
+        nftMintTxNonce: signed.nonce,
+        nftMintRawTransaction: signed.rawTransaction,
+        nftMintAttempts: attempts,
+        nftMintError: null,
+        nftMintSubmittedAt: new Date(),
+      },
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING }
+    );
+    if (updated === 0) {
+      return false;
+    }
+
+    try {
+      await broadcastRawTransaction(signed.rawTransaction);
+    } catch (error) {
+      console.error('Broadcast certificate nft mint transaction error:', error);
+    }
+    return true;
+  });
+}
+
+/**
+ * 已提交的交易无法上链时重新提交（超过最大尝试次数标记为失败）
+ */
+async function retryCertificateNftMint(certificate: CertificateInfo, errorMessage: string) {
+  // 已撤销的证书不再重新提交
+  const exhausted = (certificate.nftMintAttempts || 0) >= CERTIFICATE_NFT_MINT_MAX_ATTEMPTS || certificate.isRevoked === 1;
+  await putCertificateNftMint(
+    certificate.certificateId!,
+    {
+      nftMintStatus: exhausted ? CERTIFICATE_NFT_MINT_STATUS_FAILED : CERTIFICATE_NFT_MINT_STATUS_PENDING,
+      nftMintTxNonce: null,
+      nftMintRawTransaction: null,
+      nftMintError: certificate.isRevoked === 1 ? 'Certificate revoked' : errorMessage,
+    },
+    { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_SUBMITTED, nftMintTransactionHash: certificate.nftMintTransactionHash ?? null }
+  );
+}
+
+/**
+ * 处理待提交的证书：已撤销或超过最大尝试次数标记为失败，否则提交
+ */
+async function processPendingCertificateNftMint(certificate: CertificateInfo) {
+  if (certificate.isRevoked === 1) {
+    await putCertificateNftMint(
+      certificate.certificateId!,
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_FAILED, nftMintError: 'Certificate revoked' },
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING }
+    );
+    return;
+  }
+  if ((certificate.nftMintAttempts || 0) >= CERTIFICATE_NFT_MINT_MAX_ATTEMPTS) {
+    await putCertificateNftMint(
+      certificate.certificateId!,
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_FAILED },
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING }
+    );
+    return;
+  }
+  await submitCertificateNftMint(certificate);
+}
+
+/**
+ * 处理已提交的证书
+ * 交易确认后从 Transfer 事件读取铸造给接收地址的 TokenId 并写入证书
+ */
+async function processSubmittedCertificateNftMint(certificate: CertificateInfo) {
+  const certificateId = certificate.certificateId!;
+  const transactionHash = certificate.nftMintTransactionHash!;
+
+  // 先读取已上链 nonce 再查回执，避免查完回执后交易才打包被误判为 nonce 被占用
+  const confirmedNonce = await getAdminConfirmedNonce();
+  const receipt = await getTransactionReceiptStatus(transactionHash);
+
+  if (!receipt) {
+    // 没有回执且 nonce 已被其他交易占用：本交易不可能再上链，重新提交
+    if (certificate.nftMintTxNonce !== null && certificate.nftMintTxNonce !== undefined && certificate.nftMintTxNonce < confirmedNonce) {
+      await retryCertificateNftMint(certificate, 'Certificate nft mint transaction nonce was used by another transaction');
+      return;
+    }
+    // 交易可能被节点丢弃：重新广播原交易
+    if (certificate.nftMintRawTransaction) {
+      try {
+        await broadcastRawTransaction(certificate.nftMintRawTransaction);
+      } catch (error) {
+        console.error('Rebroadcast certificate nft mint transaction error:', error);
+      }
+    }
+    return;
+  }
+
+  if (receipt.status !== 1) {
+    await retryCertificateNftMint(certificate, 'Certificate nft mint transaction reverted on chain');
+    return;
+  }
+  if (receipt.confirmations < CERTIFICATE_NFT_MIN_CONFIRMATIONS) {
+    return;
+  }
+
+  const mints = await getCertificateNftMints(transactionHash, CERTIFICATE_NFT_MIN_CONFIRMATIONS);
+  const mint = mints.find(item => item.to.toLowerCase() === certificate.nftMintWalletAddress!.toLowerCase());
+  if (!mint) {
+    await putCertificateNftMint(
+      certificateId,
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_FAILED, nftMintRawTransaction: null, nftMintError: 'Transaction did not mint certificate NFT to the wallet' },
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_SUBMITTED, nftMintTransactionHash: transactionHash }
+    );
+    return;
+  }
+
+  await putCertificateNftMint(
+    certificateId,
+    {
+      nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_CONFIRMED,
+      nftMintRawTransaction: null,
+      nftMintError: null,
+      certificateNftId: mint.tokenId,
+      transactionHash,
+    },
+    { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_SUBMITTED, nftMintTransactionHash: transactionHash }
+  );
+}
+
+/**
+ * 销毁已撤销证书的 NFT
+ * 先清除待销毁标记认领任务，避免重复销毁；销毁失败时恢复标记，下一轮重试
+ */
+async function processPendingCertificateNftBurn(certificate: CertificateInfo) {
+  const certificateId = certificate.certificateId!;
+  const claimed = await updateCertificateNftBurnPending(certificateId, 0, 1);
+  if (claimed === 0) {
+    return;
+  }
+
+  try {
+    const revokeTransactionHash = await withSubmitLock(() => burnCertificateNft(certificate.certificateNftId!));
+    await updateCertificateRevokeTransaction(certificateId, revokeTransactionHash);
+  } catch (error) {
+    console.error(`Burn certificate ${certificateId} nft error:`, error);
+    await updateCertificateNftBurnPending(certificateId, 1, 0);
+  }
+}
+
+/**
+ * 执行一轮证书 NFT 托管铸造处理
+ * 处理待提交和已提交的铸造后，销毁已确认的待销毁 NFT
+ */
+export async function processCertificateNftMintQueue() {
+  const certificates = await getCertificateNftMintQueue(
+    [CERTIFICATE_NFT_MINT_STATUS_PENDING, CERTIFICATE_NFT_MINT_STATUS_SUBMITTED],
+    CERTIFICATE_NFT_MINT_BATCH_SIZE
+  );
+
+  for (const certificate of certificates) {
+    try {
+      if (certificate.nftMintStatus === CERTIFICATE_NFT_MINT_STATUS_PENDING) {
+        await processPendingCertificateNftMint(certificate);
+      } else {
+        await processSubmittedCertificateNftMint(certificate);
+      }
+    } catch (error) {
+      console.error(`Process certificate ${certificate.certificateId} nft mint error:`, error);
+    }
+  }
+
+  const burns = await getCertificateNftBurnQueue(CERTIFICATE_NFT_MINT_BATCH_SIZE);
+  for (const certificate of burns) {
+    try {
+      await processPendingCertificateNftBurn(certificate);
+    } catch (error) {
+      console.error(`Process certificate ${certificate.certificateId} nft burn error:`, error);
+    }
+  }
+}
+
+let certificateNftMintWorkerTimer: NodeJS.Timeout | null = null;
+let certificateNftMintWorkerRunning = false;
+
+/**
+ * 启动证书 NFT 托管铸造后台任务
+ * 每轮处理完成前不会开始下一轮
+ */
+export function startCertificateNftMintWorker() {
+  if (certificateNftMintWorkerTimer) return;
+
+  certificateNftMintWorkerTimer = setInterval(() => {
+    if (certificateNftMintWorkerRunning) return;
+    certificateNftMintWorkerRunning = true;
+    processCertificateNftMintQueue()
+      .catch(error => console.error('Certificate nft mint worker error:', error))
+      .finally(() => {
+        certificateNftMintWorkerRunning = false;
+      });
+  }, CERTIFICATE_NFT_MINT_WORKER_INTERVAL_MS);
+  certificateNftMintWorkerTimer.unref();
+}
@@ -1,18 +1,76 @@
-import { CertificateInfo, CertificateInfoQueryParams } from '../types/certificateType';
-import { ResourceInfo } from '../types/resourceType';
-import { getCertificate, postCertificate, getCertificateList, updateCertificateNft } from '../models/certificateModel';
+import { CertificateInfo, CertificateInfoQueryParams, CertificateVerificationInfo } from '../types/certificateType';
+import { UserInfo } from '../types/userType';
+import { CourseInfo } from '../types/courseType';
+import {
+  getCertificate,
+  postCertificate,
+  getCertificateList,
+  updateCertificateNft,
+  checkCertificateExists,
+  revokeCertificate,
+  updateCertificateRevokeTransaction,
+  updateCertificateNftBurnPending,
+  putCertificateNftMint,
+} from '../models/certificateModel';
 import { getUser } from '../models/userModel';
 import { getCourse } from '../models/courseModel';
 import { getResourceCertificateConfig } from '../models/resourceCertificateConfigModel';
 import { getCertificateTemplate } from '../models/certificateTemplateModel';
-import { getResourceList } from '../models/resourceModel';
-import { getLearningRecordList } from '../models/learningRecordModel';
-import { uploadFileToIPFS } from '../utils/pinataIpfs';
-import { ROLE_STUDENT, ROLE_TEACHER } from '../middlewares/roleMiddleware';
-import { generateCertificateImage } from '../utils/certificateTemplateDraw';
+import { uploadFileToIPFS, uploadBufferToIPFS, streamFromIPFS } from '../utils/pinataIpfs';
+import { ROLE_ADMIN, ROLE_STUDENT, ROLE_TEACHER } from '../middlewares/roleMiddleware';
+import { generateCertificateFiles } from '../utils/certificateTemplateDraw';
+import { getCertificateNftMints, burnCertificateNft } from '../utils/certificateNft';
+import { buildCertificateVerificationUrl } from '../utils/certificateVerification';
+import { assertCertificateEligibility } from './certificateEligibilityService';
+import {
+  mintCertificateNftService,
+  CERTIFICATE_NFT_MINT_STATUS_PENDING,
+  CERTIFICATE_NFT_MINT_STATUS_SUBMITTED,
+  CERTIFICATE_NFT_MINT_STATUS_FAILED,
+} from './certificateNftMintService';
+import { withSubmitLock } from './mintPipelineService';
 import sharp from 'sharp';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
+
+// 绑定证书 NFT 时铸造交易的最低确认数
+const CERTIFICATE_NFT_MIN_CONFIRMATIONS = Number(process.env.CERTIFICATE_NFT_MIN_CONFIRMATIONS || 1);
+// 颁发证书时是否由后端托管铸造证书 NFT（管理员钱包代付 gas）
+const CERTIFICATE_NFT_AUTO_MINT = process.env.CERTIFICATE_NFT_AUTO_MINT === 'true';
+
+/**
+ * 生成证书验证码（16 位大写十六进制随机字符串）
+ */
+function generateVerificationCode(): string {
+  return crypto.randomBytes(8).toString('hex').toUpperCase();
+}
+
+/**
+ * 证书已存在错误
+ * 同一学生同一课程已有证书，或原证书已被补发时抛出（批量颁发捕获后记为跳过）
+ */
+export class CertificateExistsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateExistsError';
+  }
+}
+
+/**
+ * 证书文件下载被拒绝错误
+ * reason 为 not_found（证书不存在）或 not_owner（非证书所属用户），controller 捕获后分别返回 404 和 403
+ */
+export class CertificateFileAccessError extends Error {
+  reason: 'not_found' | 'not_owner';
+
+  constructor(message: string, reason: 'not_found' | 'not_owner') {
+    super(message);
+    this.name = 'CertificateFileAccessError';
+    this.reason = reason;
+  }
+}
 
 /**
  * 创建证书服务
@@ -37,60 +95,62 @@ export async function createCertificateService(
     throw new Error('Course not found');
   }
 
-  // 3. 查询教师的证书配置
+  // 3. 每门课程只能领取一次（已撤销的证书由教师或管理员补发）
+  if (await checkCertificateExists(studentId, courseId)) {
+    throw new Error('Certificate already claimed for this course');
+  }
+
+  // 4. 查询教师的证书配置，并校验课程完成度和学习时长
   const certConfig = await getResourceCertificateConfig({ courseId });
-  if (!certConfig || !certConfig.isEnabled) {
-    throw new Error('Certificate not available for this course');
+  const eligibility = await assertCertificateEligibility(student, courseId, certConfig);
+  if (!certConfig || !eligibility.learningRecordId) {
+    throw new Error('No completed learning records found for this course');
   }
 
-  // 4. 查询证书模板
+  // 5. 查询证书模板
   const template = await getCertificateTemplate({ templateId: certConfig.templateId });
   if (!template || !template.isActive) {
     throw new Error('Certificate template not found or inactive');
   }
 
-  // 5. 获取课程的所有资源
-  const resources = await getResourceList({
-    courseId
-  }, 1, 1000);
-
-  if (!resources.records || resources.records.length === 0) {
-    throw new Error('No resources found for this course');
-  }
-
-  // 获取学生对这些资源的学习记录，找到第一个已完成的
-  const resourceIds = resources.records.map((r: ResourceInfo) => r.resourceId);
-  let completedRecord = null;
-
-  // 逐个检查资源的学习记录，找到第一个已完成的
-  for (const resourceId of resourceIds) {
-    const learningRecords = await getLearningRecordList({
-      studentId,
-      resourceId
-    }, 1, 1);
-
-    if (learningRecords.records && learningRecords.records.length > 0) {
-      const record = learningRecords.records[0];
-      if (record.isCompleted === 1) {
-        completedRecord = record;
-        break;
-      }
-    }
-  }
+  // 6. 合并数据、生成证书文件并保存（证书关联最近完成的学习记录）
+  return await issueCertificate({
+    student,
+    course,
+    templateContent: template.templateContent,
+    overrideFields: certConfig.overrideFields,
+    learningRecordId: eligibility.learningRecordId,
+  });
+}
 
-  if (!completedRecord) {
-    throw new Error('No completed learning records found for this course');
+/**
+ * 颁发证书（领取、补发和批量颁发共用）
+ * 合并模板数据、生成证书图片和 PDF 并固定到 IPFS、写入数据库，开启托管铸造时铸造证书 NFT
+ */
+export async function issueCertificate(params: {
+  student: UserInfo;
+  course: CourseInfo;
+  templateContent: any;
+  overrideFields: any;
+  learningRecordId: number;
+  predecessorCertificateId?: number;
+}): Promise<CertificateInfo> {
+  const { student, course, templateContent, overrideFields, learningRecordId, predecessorCertificateId } = params;
+  const studentId = student.userId!;
+  const courseId = course.courseId!;
+
+  // 1. 合并数据：模板 + 教师配置 + 学生信息（证书验证码编码到二维码字段中）
+  const teacher = await getUser({ userId: course.teacherId });
+  if (!teacher) {
+    throw new Error('Course teacher not found');
   }
+  const verificationCode = generateVerificationCode();
+  const finalData = mergeCertificateData(templateContent, overrideFields, student, course, teacher, verificationCode);
 
-  const learningRecordId = completedRecord.recordId;
-
-  // 6. 合并数据：模板 + 教师配置 + 学生信息
-  const finalData = await mergeCertificateData(template.templateContent, certConfig.overrideFields, student, course);
-
-  // 7. 使用canvas生成证书图片
-  const imageBuffer = await generateCertificateImage(finalData);
+  // 2. 使用canvas生成证书图片和打印版 PDF
+  const { png: imageBuffer, pdf: pdfBuffer } = await generateCertificateFiles(finalData);
 
-  // 8. 保存图片到临时文件，然后上传到IPFS
+  // 3. 保存图片到临时文件，然后上传到IPFS
   const tempFilePath = path.join(__dirname, '../../temp', `certificate-${studentId}-${courseId}-${Date.now()}.png`);
   await fs.promises.mkdir(path.dirname(tempFilePath), { recursive: true });
   await sharp(imageBuffer).png().toFile(tempFilePath);
@@ -105,15 +165,29 @@ export async function createCertificateService(
     }
   }
 
-  // 9. 插入数据库（暂时不铸造NFT）
+  // PDF 与 PNG 一同固定到 IPFS
+  const pdfIpfsHash = await uploadBufferToIPFS(pdfBuffer, `certificate-${studentId}-${courseId}.pdf`, 'application/pdf');
+
+  // 4. 插入数据库（certificateNftId 和 transactionHash 在 NFT 铸造确认后写入）
   const certificateData = await postCertificate({
     studentId,
     teacherId: course.teacherId,
     courseId,
     learningRecordId,
     ipfsHash,
-    // certificateNftId 和 transactionHash 先不设置
+    pdfIpfsHash,
+    verificationCode,
+    predecessorCertificateId,
   });
+  if (!certificateData) {
+    // 并发领取或补发时另一请求已写入证书
+    throw new CertificateExistsError(predecessorCertificateId ? 'Certificate has already been reissued' : 'Certificate already claimed for this course');
+  }
+
+  // 5. 开启托管铸造且用户已绑定钱包时，铸造证书 NFT 到绑定的钱包（失败由后台任务重试，不影响领取）
+  if (CERTIFICATE_NFT_AUTO_MINT && student.walletBound === 1 && student.walletAddress) {
+    return await mintCertificateNftService(certificateData, student.walletAddress);
+  }
 
   return certificateData;
 }
@@ -142,14 +216,232 @@ export async function getCertificateService(certificateId: number): Promise<Cert
   return certificate;
 }
 
+/**
+ * 下载证书文件服务
+ * 证书所属用户和管理员可下载 PNG 或 PDF（从 IPFS 网关以流的方式获取，由 controller 转发给客户端）
+ */
+export async function getCertificateFileService(
+  userId: number,
+  role: number | undefined,
+  certificateId: number,
+  format: 'png' | 'pdf'
+): Promise<{ stream: Readable; contentLength: number | null; fileName: string; contentType: string }> {
+  const certificate = await getCertificate({ certificateId });
+  if (!certificate) {
+    throw new CertificateFileAccessError('Certificate not found', 'not_found');
+  }
+  if (role !== ROLE_ADMIN && certificate.studentId !== userId) {
+    throw new CertificateFileAccessError('No permission to download this certificate', 'not_owner');
+  }
+
+  const ipfsHash = format === 'pdf' ? certificate.pdfIpfsHash : certificate.ipfsHash;
+  if (!ipfsHash) {
+    throw new Error(`Certificate ${format.toUpperCase()} is not available`);
+  }
+
+  const { stream, contentLength } = await streamFromIPFS(ipfsHash);
+  return {
+    stream,
+    contentLength,
+    fileName: `certificate-${certificateId}.${format}`,
+    contentType: format === 'pdf' ? 'application/pdf' : 'image/png',
+  };
+}
+
+/**
+ * 公开验证证书服务
+ * 无需登录，按证书ID或验证码查询，只返回可公开的证书信息（不包含邮箱等个人信息和撤销原因）
+ * 已撤销的证书返回撤销状态、撤销时间和补发的新证书ID
+ * @returns 证书验证信息，证书不存在返回 null
+ */
+export async function verifyCertificateService(
+  params: { certificateId?: number; verificationCode?: string }
+): Promise<CertificateVerificationInfo | null> {
+  const { certificateId, verificationCode } = params;
+  if (!certificateId && !verificationCode) {
+    throw new Error('certificateId or verificationCode is required');
+  }
+
+  const certificate = await getCertificate({ certificateId, verificationCode });
+  if (!certificate) {
+    return null;
+  }
+
+  // 已撤销的证书返回补发的新证书（如有）
+  const successor = certificate.isRevoked === 1
+    ? await getCertificate({ predecessorCertificateId: certificate.certificateId })
+    : null;
+
+  return {
+    certificateId: certificate.certificateId!,
+    verificationCode: certificate.verificationCode || null,
+    studentName: certificate.student?.realName || certificate.student?.username || '',
+    courseName: certificate.course?.courseName || '',
+    teacherName: certificate.teacher?.realName || certificate.teacher?.username || '',
+    teacherSchool: certificate.teacher?.schoolName || '',
+    issuedAt: certificate.createdAt!,
+    ipfsHash: certificate.ipfsHash || null,
+    certificateNftId: certificate.certificateNftId || null,
+    transactionHash: certificate.transactionHash || null,
+    isRevoked: certificate.isRevoked === 1,
+    revokedAt: certificate.revokedAt || null,
+    replacedByCertificateId: successor?.certificateId ?? null,
+  };
+}
+
+/**
+ * 获取证书并校验撤销/补发权限（管理员或证书所属课程的教师）
+ */
+async function getManageableCertificate(userId: number, role: number | undefined, certificateId: number): Promise<CertificateInfo> {
+  const certificate = await getCertificate({ certificateId });
+  if (!certificate) {
+    throw new Error('Certificate not found');
+  }
+  if (role !== ROLE_ADMIN && certificate.teacherId !== userId) {
+    throw new Error('No permission to manage this certificate');
+  }
+  return certificate;
+}
+
+/**
+ * 撤销证书服务
+ * 记录撤销原因、撤销人和撤销时间，证书记录保留用于历史追溯；取消尚未提交的托管铸造
+ * burnNft 为 true 且证书已绑定 NFT 时，使用管理员钱包销毁 NFT 并记录交易哈希（销毁失败不影响撤销，标记为待销毁由后台任务重试）
+ * burnNft 为 true 且托管铸造已提交未确认时，标记为待销毁，NFT 确认后由后台任务销毁
+ * 管理员和证书所属课程的教师可撤销
+ */
+export async function revokeCertificateService(
+  userId: number,
+  role: number | undefined,
+  certificateId: number,
+  params: { reason: string; burnNft?: boolean }
+): Promise<CertificateInfo> {
+  const certificate = await getManageableCertificate(userId, role, certificateId);
+  if (certificate.isRevoked === 1) {
+    throw new Error('Certificate has already been revoked');
+  }
+
+  const revoked = await revokeCertificate(certificateId, { revokedReason: params.reason, revokedBy: userId });
+  if (revoked === 0) {
+    throw new Error('Certificate has already been revoked');
+  }
+
+  // 托管铸造可能在撤销期间被提交：先标记待销毁，铸造确认后由后台任务销毁
+  if (
+    params.burnNft &&
+    !certificate.certificateNftId &&
+    (certificate.nftMintStatus === CERTIFICATE_NFT_MINT_STATUS_PENDING || certificate.nftMintStatus === CERTIFICATE_NFT_MINT_STATUS_SUBMITTED)
+  ) {
+    await updateCertificateNftBurnPending(certificateId, 1);
+  }
+
+  // 尚未提交的托管铸造不再提交
+  if (certificate.nftMintStatus === CERTIFICATE_NFT_MINT_STATUS_PENDING) {
+    await putCertificateNftMint(
+      certificateId,
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_FAILED, nftMintError: 'Certificate revoked' },
+      { nftMintStatus: CERTIFICATE_NFT_MINT_STATUS_PENDING }
+    );
+  }
+
+  if (params.burnNft && certificate.certificateNftId) {
+    try {
+      const revokeTransactionHash = await withSubmitLock(() => burnCertificateNft(certificate.certificateNftId!));
+      await updateCertificateRevokeTransaction(certificateId, revokeTransactionHash);
+    } catch (error) {
+      console.error(`Burn certificate ${certificateId} nft error:`, error);
+      await updateCertificateNftBurnPending(certificateId, 1);
+    }
+  }
+
+  const updated = await getCertificate({ certificateId });
+  if (!updated) {
+    throw new Error('Certificate not found');
+  }
+  return updated;
+}
+
+/**
+ * 补发证书服务
+ * 使用课程当前的证书模板和用户当前信息（如更名后的姓名）重新生成证书，新证书关联原证书
+ * 新证书颁发成功后，原证书未撤销时自动撤销（原因记录为补发），已被补发过的证书不能再次补发
+ * 管理员和证书所属课程的教师可补发
+ */
+export async function reissueCertificateService(
+  userId: number,
+  role: number | undefined,
+  certificateId: number,
+  params: { reason: string }
+): Promise<CertificateInfo> {
+  const certificate = await getManageableCertificate(userId, role, certificateId);
+
+  const successor = await getCertificate({ predecessorCertificateId: certificateId });
+  if (successor) {
+    // 上次补发已颁发新证书但未能撤销原证书时，补完撤销后返回新证书
+    if (certificate.isRevoked !== 1) {
+      await revokeCertificateService(userId, role, certificateId, { reason: `Reissued: ${params.reason}` });
+      return successor;
+    }
+    throw new Error('Certificate has already been reissued');
+  }
+
+  const student = await getUser({ userId: certificate.studentId });
+  if (!student) {
+    throw new Error('User not found');
+  }
+
+  const course = await getCourse({ courseId: certificate.courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+
+  const certConfig = await getResourceCertificateConfig({ courseId: certificate.courseId });
+  if (!certConfig) {
+    throw new Error('Certificate not available for this course');
+  }
+
+  const template = await getCertificateTemplate({ templateId: certConfig.templateId });
+  if (!template || !template.isActive) {
+    throw new Error('Certificate template not found or inactive');
+  }
+
+  // 先颁发新证书，成功后再撤销原证书（生成、上传或写入失败时原证书保持有效，可直接重试）
+  const reissued = await issueCertificate({
+    student,
+    course,
+    templateContent: template.templateContent,
+    overrideFields: certConfig.overrideFields,
+    learningRecordId: certificate.learningRecordId!,
+    predecessorCertificateId: certificateId,
+  });
+
+  if (certificate.isRevoked !== 1) {
+    await revokeCertificateService(userId, role, certificateId, { reason: `Reissued: ${params.reason}` });
+  }
+
+  return reissued;
+}
+
+/**
+ * 判断 tokenURI 是否指向证书的 IPFS 元数据（ipfs://CID 或网关地址 .../ipfs/CID）
+ */
+function isCertificateTokenURI(tokenURI: string, metadataIpfsHash: string): boolean {
+  const uri = tokenURI.trim();
+  return uri === `ipfs://${metadataIpfsHash}`
+    || uri === `ipfs://ipfs/${metadataIpfsHash}`
+    || uri.endsWith(`/ipfs/${metadataIpfsHash}`);
+}
+
 /**
  * 更新证书的链上信息（NFT TokenId 和交易哈希）
  * 允许证书所属学生或教师更新（studentId 字段存储的是领取证书的用户ID，可能是学生也可能是教师）
+ * 写入前从链上校验铸造交易：交易已确认，且在证书 NFT 合约中铸造了该 TokenId 给用户绑定的钱包，tokenURI 指向证书的 IPFS 元数据
+ * 证书只能绑定一次，重复提交相同的 TokenId 和交易哈希直接返回
  */
 export async function updateCertificateNftService(
   studentId: number,
   certificateId: number,
-  data: { certificateNftId?: string; transactionHash?: string }
+  data: { certificateNftId: string; transactionHash: string }
 ): Promise<CertificateInfo> {
   const certificate = await getCertificate({ certificateId });
   if (!certificate) {
@@ -160,9 +452,62 @@ export async function updateCertificateNftService(
     throw new Error('No permission to update this certificate');
   }
 
-  const updated = await updateCertificateNft(certificateId, data);
+  if (certificate.isRevoked === 1) {
+    throw new Error('Certificate has been revoked');
+  }
+
+  let tokenId: bigint;
+  try {
+    tokenId = BigInt(data.certificateNftId);
+  } catch {
+    throw new Error('Invalid certificateNftId');
+  }
+  if (tokenId < BigInt(0)) {
+    throw new Error('Invalid certificateNftId');
+  }
+  const certificateNftId = tokenId.toString();
+
+  if (certificate.nftMintStatus === 0 || certificate.nftMintStatus === 1) {
+    throw new Error('Certificate NFT is being minted by the platform');
+  }
+
+  if (certificate.certificateNftId) {
+    if (certificate.certificateNftId === certificateNftId
+      && certificate.transactionHash?.toLowerCase() === data.transactionHash.toLowerCase()) {
+      return certificate;
+    }
+    throw new Error('Certificate is already bound to another NFT');
+  }
+
+  const boundCertificate = await getCertificate({ certificateNftId });
+  if (boundCertificate) {
+    throw new Error('NFT is already bound to another certificate');
+  }
+
+  if (!certificate.metadataIpfsHash) {
+    throw new Error('Certificate NFT metadata has not been created');
+  }
+
+  const student = await getUser({ userId: studentId });
+  if (!student || student.walletBound !== 1 || !student.walletAddress) {
+    throw new Error('Please bind a wallet first');
+  }
+
+  const mints = await getCertificateNftMints(data.transactionHash, CERTIFICATE_NFT_MIN_CONFIRMATIONS);
+  const mint = mints.find(item => item.tokenId === certificateNftId);
+  if (!mint) {
+    throw new Error('Transaction did not mint this certificate NFT');
+  }
+  if (mint.to.toLowerCase() !== student.walletAddress.toLowerCase()) {
+    throw new Error('Certificate NFT was not minted to your bound wallet');
+  }
+  if (!isCertificateTokenURI(mint.tokenURI, certificate.metadataIpfsHash)) {
+    throw new Error('Certificate NFT tokenURI does not match certificate metadata');
+  }
+
+  const updated = await updateCertificateNft(certificateId, { certificateNftId, transactionHash: data.transactionHash });
   if (!updated) {
-    throw new Error('Failed to update certificate nft info');
+    throw new Error('Certificate is already bound to another NFT');
   }
 
   return updated;
@@ -170,14 +515,16 @@ export async function updateCertificateNftService(
 
 /**
  * 合并证书数据
- * 将模板、教师配置和学生数据合并
+ * 将模板、教师配置和学生数据合并（纯数据处理，不访问数据库，证书模板预览复用）
  */
-async function mergeCertificateData(
+export function mergeCertificateData(
   templateContent: any,
   overrideFields: any,
   student: any,
-  course: any
-): Promise<any> {
+  course: any,
+  teacher: any,
+  verificationCode: string
+): any {
   // 解析模板内容
   let template;
   try {
@@ -186,10 +533,13 @@ async function mergeCertificateData(
     throw new Error('Invalid certificate template content');
   }
 
-  // 获取教师信息
-  const teacher = await getUser({ userId: course.teacherId });
-  if (!teacher) {
-    throw new Error('Course teacher not found');
+  // 解析教师覆盖字段（数据库中可能以 JSON 字符串存储）
+  if (typeof overrideFields === 'string') {
+    try {
+      overrideFields = JSON.parse(overrideFields);
+    } catch (error) {
+      throw new Error('Invalid certificate override fields');
+    }
   }
 
   // 深拷贝模板
@@ -206,6 +556,12 @@ async function mergeCertificateData(
 
     const key = field.key as string;
 
+    // 二维码字段：编码证书验证链接（不允许覆盖）
+    if (field.type === 'qrcode') {
+      field.value = buildCertificateVerificationUrl(verificationCode);
+      continue;
+    }
+
     // 1. 通用覆盖逻辑：教师覆盖 > 模板默认值
     if (overrideFields && Object.prototype.hasOwnProperty.call(overrideFields, key)) {
       field.value = overrideFields[key];
@@ -264,6 +620,12 @@ async function mergeCertificateData(
           field.value = teacher.realName || teacher.username || '';
       continue;
     }
+
+    // 证书验证码
+    if (key === 'verificationCode') {
+      field.value = verificationCode;
+      continue;
+    }
   }
 
   return mergedData;
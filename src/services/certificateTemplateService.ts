@@ -1,7 +1,22 @@
 import { CertificateTemplateInfo, CertificateTemplateInfoQueryParams } from '../types/certificateTemplateType';
 import { getCertificateTemplate, postCertificateTemplate, putCertificateTemplate, getCertificateTemplateList } from '../models/certificateTemplateModel';
 import { getUser } from '../models/userModel';
+import { getCourse } from '../models/courseModel';
+import { getResourceCertificateConfig } from '../models/resourceCertificateConfigModel';
 import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+import { validateCertificateTemplate } from '../utils/certificateTemplateValidator';
+import { generateCertificateImage } from '../utils/certificateTemplateDraw';
+import { mergeCertificateData } from './certificateService';
+import sharp from 'sharp';
+
+// 预览允许的最大画布像素数（防止超大模板占满内存）
+const CERTIFICATE_PREVIEW_MAX_PIXELS = Number(process.env.CERTIFICATE_PREVIEW_MAX_PIXELS || 4000 * 4000);
+
+// 预览使用的示例数据
+const PREVIEW_SAMPLE_STUDENT = { realName: '张三', username: 'student' };
+const PREVIEW_SAMPLE_TEACHER = { realName: '李老师', username: 'teacher', schoolName: '示例大学' };
+const PREVIEW_SAMPLE_COURSE_NAME = '示例课程';
+const PREVIEW_VERIFICATION_CODE = 'PREVIEW000000000';
 
 /**
  * 创建证书模板服务
@@ -103,3 +118,65 @@ export async function getCertificateTemplateService(templateId: number): Promise
   }
   return template;
 }
+
+/**
+ * 预览证书模板服务
+ * 使用示例学生/课程数据渲染证书图片，不上传 IPFS、不写数据库
+ * - templateContent：直接预览未保存的模板 JSON（管理员和教师，经过模板校验和画布大小限制）
+ * - templateId：预览已保存的模板，可选 courseId 合并该课程的教师覆盖字段（教师只能使用自己的课程）
+ * - thumbnailWidth：返回按宽度等比缩小的缩略图
+ */
+export async function previewCertificateTemplateService(
+  userId: number,
+  role: number | undefined,
+  params: { templateContent?: string; templateId?: number; courseId?: number; overrideFields?: Record<string, unknown>; thumbnailWidth?: number }
+): Promise<Buffer> {
+  const { templateId, courseId, thumbnailWidth } = params;
+
+  let templateContent = params.templateContent;
+  if (templateContent === undefined) {
+    if (!templateId) {
+      throw new Error('templateContent or templateId is required');
+    }
+    const template = await getCertificateTemplate({ templateId });
+    if (!template) {
+      throw new Error('Certificate template not found');
+    }
+    templateContent = typeof template.templateContent === 'string'
+      ? template.templateContent
+      : JSON.stringify(template.templateContent);
+  }
+
+  const schema = validateCertificateTemplate(templateContent);
+  if (schema.canvas.width * schema.canvas.height > CERTIFICATE_PREVIEW_MAX_PIXELS) {
+    throw new Error('Template canvas is too large to preview');
+  }
+
+  // 课程数据：传 courseId 时使用真实课程名称、教师和教师覆盖字段，否则使用示例数据
+  let course: any = { courseName: PREVIEW_SAMPLE_COURSE_NAME };
+  let teacher: any = PREVIEW_SAMPLE_TEACHER;
+  let overrideFields: any = params.overrideFields;
+  if (courseId) {
+    const realCourse = await getCourse({ courseId });
+    if (!realCourse) {
+      throw new Error('Course not found');
+    }
+    if (role !== ROLE_ADMIN && realCourse.teacherId !== userId) {
+      throw new Error('No permission to preview with this course');
+    }
+    course = realCourse;
+    teacher = (realCourse.teacherId && await getUser({ userId: realCourse.teacherId })) || PREVIEW_SAMPLE_TEACHER;
+    if (overrideFields === undefined) {
+      const certConfig = await getResourceCertificateConfig({ courseId });
+      overrideFields = certConfig?.overrideFields;
+    }
+  }
+
+  const finalData = mergeCertificateData(templateContent, overrideFields, PREVIEW_SAMPLE_STUDENT, course, teacher, PREVIEW_VERIFICATION_CODE);
+  const imageBuffer = await generateCertificateImage(finalData);
+
+  if (!thumbnailWidth || thumbnailWidth >= schema.canvas.width) {
+    return imageBuffer;
+  }
+  return await sharp(imageBuffer).resize({ width: thumbnailWidth }).png().toBuffer();
+}
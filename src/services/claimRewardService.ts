@@ -0,0 +1,150 @@
+import { ClaimRewardTypedData } from '../types/eip712SignType';
+import { TokenTransactionInfo } from '../types/tokenTransactionType';
+import { UserInfo } from '../types/userType';
+import { getUser } from '../models/userModel';
+import { getTokenRule } from '../models/tokenRuleModel';
+import { issueClaimRewardSign, getClaimRewardSign, consumeClaimRewardSign } from '../utils/eip712SignStore';
+import { buildClaimRewardTypedData, recoverClaimRewardSigner } from '../utils/eip712Claim';
+import { createTokenRewardTransactionService } from './tokenTransactionService';
+import { assertRewardEligibility } from './rewardEligibilityService';
+import { ROLE_ADMIN, ROLE_TEACHER } from '../middlewares/roleMiddleware';
+
+// 签名挑战有效期（秒）
+const CLAIM_SIGN_TTL_SEC = Number(process.env.CLAIM_SIGN_TTL_SEC || 5 * 60);
+
+/**
+ * 奖励类型配置
+ * primaryType: EIP-712 primaryType（每种奖励类型独立）
+ * roles: 允许领取的角色，不配置则所有角色可领取
+ */
+export interface ClaimRewardTypeConfig {
+  primaryType: string;
+  roles?: number[];
+}
+
+const claimRewardTypes = new Map<number, ClaimRewardTypeConfig>([
+  [0, { primaryType: 'ClaimLearningReward' }],
+  [1, { primaryType: 'ClaimResourceUploadReward', roles: [ROLE_ADMIN, ROLE_TEACHER] }],
+  [2, { primaryType: 'ClaimReviewReward' }],
+]);
+
+/**
+ * 注册奖励类型
+ * 新的奖励类型只需注册 primaryType 和角色限制（并在 rewardEligibilityService 中注册资格规则），即可通过 /claimReward 领取
+ */
+export function registerClaimRewardType(rewardType: number, config: ClaimRewardTypeConfig) {
+  claimRewardTypes.set(rewardType, config);
+}
+
+/**
+ * 获取奖励类型配置，并校验当前用户角色
+ */
+function getClaimRewardTypeConfig(rewardType: number, role?: number): ClaimRewardTypeConfig {
+  const config = claimRewardTypes.get(rewardType);
+  if (!config) {
+    throw new Error('Unsupported rewardType');
+  }
+  if (config.roles && (role === undefined || !config.roles.includes(role))) {
+    throw new Error('Current role cannot claim this reward');
+  }
+  return config;
+}
+
+/**
+ * 创建领取奖励签名挑战服务
+ * 先校验领取资格，再按规则金额签发挑战，返回 EIP-712 typed data 给前端弹 MetaMask 签名
+ */
+export async function createClaimRewardSignService(
+  userId: number,
+  role: number | undefined,
+  params: { rewardType: number; resourceId: number; walletAddress: string; chainId: number }
+): Promise<ClaimRewardTypedData> {
+  const { rewardType, resourceId, walletAddress, chainId } = params;
+  const config = getClaimRewardTypeConfig(rewardType, role);
+
+  // 可选：如果希望只允许固定链，可通过环境变量约束
+  const expectedChainId = process.env.BLOCKCHAIN_CHAIN_ID ? Number(process.env.BLOCKCHAIN_CHAIN_ID) : undefined;
+  if (expectedChainId !== undefined && !isNaN(expectedChainId) && expectedChainId > 0 && expectedChainId !== chainId) {
+    throw new Error('Unsupported chainId');
+  }
+
+  // 不满足领取条件时不签发挑战，避免用户签名后才被拒绝
+  await assertRewardEligibility(userId, rewardType, resourceId);
+
+  // 获取规则金额，让用户在 MetaMask 里看到"将领取多少"
+  const rule = await getTokenRule({ rewardType, isEnabled: 1 });
+  if (!rule) {
+    throw new Error('Token rule not found or disabled');
+  }
+
+  const sign = await issueClaimRewardSign({
+    userId,
+    walletAddress,
+    resourceId,
+    rewardType,
+    chainId,
+    amount: String(rule.rewardAmount || 0),
+    deadline: Math.floor(Date.now() / 1000) + CLAIM_SIGN_TTL_SEC,
+  });
+
+  return buildClaimRewardTypedData(config.primaryType, sign);
+}
+
+/**
+ * 领取奖励服务
+ * 校验签名挑战（存在、未过期、金额与当前规则一致）和 EIP-712 签名后发放代币奖励
+ * 奖励记录写入成功（占住领取名额）后才消费挑战：资格、钱包校验等失败时挑战保留，用户可直接重试
+ * 并发请求由奖励记录的原子写入保证只有一个能发放奖励
+ */
+export async function claimRewardService(
+  userId: number,
+  role: number | undefined,
+  params: { rewardType: number; resourceId: number; walletAddress: string; signature: string }
+): Promise<{ transaction: TokenTransactionInfo; user: UserInfo | null }> {
+  const { rewardType, resourceId, walletAddress, signature } = params;
+  const config = getClaimRewardTypeConfig(rewardType, role);
+
+  // 获取并校验 sign（nonce/amount/deadline/chainId），deadline 已过的 sign 读取时即失效
+  const sign = await getClaimRewardSign(userId, walletAddress, resourceId, rewardType);
+  if (!sign) {
+    throw new Error('claim sign not found or expired, please re-initiate claim');
+  }
+
+  // 规则可能变更：这里做一次对齐校验（保证签名里展示的 amount 与当前规则一致）
+  const rule = await getTokenRule({ rewardType, isEnabled: 1 });
+  if (!rule) {
+    throw new Error('Token rule not found or disabled');
+  }
+  if (String(rule.rewardAmount || 0) !== sign.amount) {
+    throw new Error('Reward amount changed, please re-initiate claim');
+  }
+
+  // 验签：必须是 walletAddress 本人签的
+  const recovered = recoverClaimRewardSigner(config.primaryType, sign, signature);
+  if (!recovered) {
+    throw new Error('Invalid signature');
+  }
+  if (recovered.toLowerCase() !== walletAddress.toLowerCase()) {
+    throw new Error('Signature does not match walletAddress');
+  }
+
+  const transaction = await createTokenRewardTransactionService(userId, rewardType, resourceId, walletAddress);
+
+  // 奖励已占住领取名额，消费 sign（重放的请求会因已领取被拒绝，消费失败不影响奖励发放）
+  try {
+    await consumeClaimRewardSign(userId, walletAddress, resourceId, rewardType, sign.nonce);
+  } catch (error) {
+    console.error('Consume claim sign error:', error);
+  }
+
+  // 奖励发放成功后，查询最新的用户信息（包含最新钱包地址与代币余额）
+  let user: UserInfo | null = null;
+  try {
+    user = await getUser({ userId });
+  } catch (error) {
+    console.error('Get user after claiming reward error:', error);
+    // 如果这里失败，不影响奖励发放结果，只是不返回最新用户信息
+  }
+
+  return { transaction, user };
+}
@@ -0,0 +1,252 @@
+import {
+  CourseChapterInfo,
+  CourseOutlineInfo,
+  CourseOutlineChapterItem,
+  CourseOutlineResourceItem,
+} from '../types/courseChapterType';
+import { CourseInfo } from '../types/courseType';
+import { ResourceInfo } from '../types/resourceType';
+import { LearningRecordInfo } from '../types/learningRecordType';
+import {
+  postCourseChapter,
+  getCourseChapter,
+  getCourseChapterList,
+  putCourseChapter,
+  deleteCourseChapter,
+} from '../models/courseChapterModel';
+import { getCourse } from '../models/courseModel';
+import { getResource, getCourseResourceList, putResource, clearResourceChapter } from '../models/resourceModel';
+import { getResourcePrerequisiteList } from '../models/resourcePrerequisiteModel';
+import { getCourseLearningRecordList } from '../models/learningRecordModel';
+import { getUser } from '../models/userModel';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+
+// 资源状态：已发布
+const RESOURCE_STATUS_PUBLISHED = 2;
+
+/**
+ * 获取课程并校验是否为课程教师
+ */
+async function getOwnedCourse(teacherId: number, courseId: number): Promise<CourseInfo> {
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  if (course.teacherId !== teacherId) {
+    throw new Error('Only the course owner can manage chapters of this course');
+  }
+  return course;
+}
+
+/**
+ * 获取章节并校验是否为课程教师
+ */
+async function getOwnedChapter(teacherId: number, chapterId: number): Promise<CourseChapterInfo> {
+  const chapter = await getCourseChapter({ chapterId });
+  if (!chapter) {
+    throw new Error('Chapter not found');
+  }
+  await getOwnedCourse(teacherId, chapter.courseId!);
+  return chapter;
+}
+
+/**
+ * 创建课程章节服务
+ * 课程教师在课程下创建章节，未指定排序时排在最后
+ */
+export async function createCourseChapterService(
+  teacherId: number,
+  data: Partial<CourseChapterInfo>
+): Promise<CourseChapterInfo> {
+  if (!data.courseId) {
+    throw new Error('courseId is required');
+  }
+  await getOwnedCourse(teacherId, data.courseId);
+
+  let sortOrder = data.sortOrder;
+  if (sortOrder === undefined) {
+    const chapters = await getCourseChapterList(data.courseId);
+    sortOrder = chapters.length > 0 ? Math.max(...chapters.map(item => item.sortOrder || 0)) + 1 : 0;
+  }
+
+  return await postCourseChapter({
+    courseId: data.courseId,
+    title: data.title,
+    description: data.description,
+    sortOrder,
+  });
+}
+
+/**
+ * 更新课程章节服务
+ * 可更新标题、描述和排序
+ */
+export async function updateCourseChapterService(
+  teacherId: number,
+  chapterId: number,
+  data: Partial<CourseChapterInfo>
+): Promise<CourseChapterInfo> {
+  await getOwnedChapter(teacherId, chapterId);
+
+  return await putCourseChapter(chapterId, {
+    title: data.title,
+    description: data.description,
+    sortOrder: data.sortOrder,
+  });
+}
+
+/**
+ * 删除课程章节服务
+ * 章节下的资源移出章节（不删除资源）
+ */
+export async function deleteCourseChapterService(
+  teacherId: number,
+  chapterId: number
+): Promise<void> {
+  await getOwnedChapter(teacherId, chapterId);
+
+  await clearResourceChapter(chapterId);
+  await deleteCourseChapter(chapterId);
+}
+
+/**
+ * 获取课程章节列表服务
+ */
+export async function getCourseChapterListService(courseId: number): Promise<CourseChapterInfo[]> {
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  return await getCourseChapterList(courseId);
+}
+
+/**
+ * 调整资源在课程大纲中的位置服务
+ * 设置资源所属章节（null 表示移出章节）和章节内排序，章节需属于资源所在课程
+ */
+export async function arrangeResourceService(
+  teacherId: number,
+  resourceId: number,
+  data: { chapterId?: number | null; sortOrder?: number }
+): Promise<ResourceInfo> {
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  await getOwnedCourse(teacherId, resource.courseId!);
+
+  if (data.chapterId) {
+    const chapter = await getCourseChapter({ chapterId: data.chapterId });
+    if (!chapter || chapter.courseId !== resource.courseId) {
+      throw new Error('Chapter not found in this course');
+    }
+  }
+
+  return await putResource(resourceId, {
+    chapterId: data.chapterId,
+    sortOrder: data.sortOrder,
+  });
+}
+
+/**
+ * 获取课程大纲服务
+ * 返回章节树（章节按排序，章节内资源按排序，未分章节的资源放在最后）以及当前用户各资源的锁定和完成状态
+ * 管理员和课程教师可看到全部资源且不锁定，其他用户只能看到已发布的资源
+ */
+export async function getCourseOutlineService(
+  userId: number,
+  courseId: number
+): Promise<CourseOutlineInfo> {
+  const user = await getUser({ userId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  const isManager = user.role === ROLE_ADMIN || course.teacherId === userId;
+
+  const chapters = await getCourseChapterList(courseId);
+  const resources = (await getCourseResourceList(courseId))
+    .filter(resource => isManager || resource.status === RESOURCE_STATUS_PUBLISHED);
+  const publishedIds = new Set(
+    resources.filter(resource => resource.status === RESOURCE_STATUS_PUBLISHED).map(resource => resource.resourceId!)
+  );
+
+  const prerequisiteMap = new Map<number, number[]>();
+  for (const item of await getResourcePrerequisiteList({ courseId })) {
+    prerequisiteMap.set(item.resourceId!, [...(prerequisiteMap.get(item.resourceId!) || []), item.requiredResourceId!]);
+  }
+
+  const learningRecords = new Map<number, LearningRecordInfo>();
+  for (const record of await getCourseLearningRecordList(userId, courseId)) {
+    learningRecords.set(record.resourceId!, record);
+  }
+
+  const records = new Map<number, { progress: number; isCompleted: number }>();
+  for (const resource of resources) {
+    const record = learningRecords.get(resource.resourceId!);
+    const isCompleted = record?.isCompleted === 1 ? 1 : 0;
+    records.set(resource.resourceId!, {
+      progress: isCompleted ? 100 : Math.min(Math.max(Number(record?.progress || 0), 0), 100),
+      isCompleted,
+    });
+  }
+
+  // 锁定规则与 checkResourceLock 一致：只计入已发布的前置资源
+  const toOutlineItem = (resource: ResourceInfo): CourseOutlineResourceItem => {
+    const prerequisites = prerequisiteMap.get(resource.resourceId!) || [];
+    const unmetPrerequisites = isManager || resource.ownerId === userId
+      ? []
+      : prerequisites.filter(requiredId => publishedIds.has(requiredId) && records.get(requiredId)?.isCompleted !== 1);
+    const record = records.get(resource.resourceId!)!;
+    return {
+      resourceId: resource.resourceId!,
+      title: resource.title || '',
+      resourceType: resource.resourceType ?? null,
+      duration: resource.duration ?? null,
+      sortOrder: resource.sortOrder || 0,
+      status: resource.status ?? null,
+      prerequisites,
+      isLocked: unmetPrerequisites.length > 0,
+      unmetPrerequisites,
+      progress: record.progress,
+      isCompleted: record.isCompleted,
+    };
+  };
+
+  const toOutlineChapter = (
+    chapter: CourseChapterInfo | null,
+    items: CourseOutlineResourceItem[]
+  ): CourseOutlineChapterItem => ({
+    chapterId: chapter?.chapterId ?? null,
+    title: chapter?.title || '',
+    description: chapter?.description ?? null,
+    sortOrder: chapter?.sortOrder || 0,
+    completedResources: items.filter(item => item.isCompleted === 1).length,
+    totalResources: items.length,
+    resources: items,
+  });
+
+  // 资源列表已按大纲顺序排列，按章节分组即可保持章节内顺序
+  const chapterIds = new Set(chapters.map(chapter => chapter.chapterId!));
+  const outlineChapters = chapters.map(chapter => toOutlineChapter(
+    chapter,
+    resources.filter(resource => resource.chapterId === chapter.chapterId).map(toOutlineItem)
+  ));
+  const ungrouped = resources.filter(resource => !resource.chapterId || !chapterIds.has(resource.chapterId));
+  if (ungrouped.length > 0) {
+    outlineChapters.push(toOutlineChapter(null, ungrouped.map(toOutlineItem)));
+  }
+
+  const allItems = outlineChapters.flatMap(chapter => chapter.resources);
+  return {
+    courseId,
+    courseName: course.courseName || '',
+    completedResources: allItems.filter(item => item.isCompleted === 1).length,
+    totalResources: allItems.length,
+    chapters: outlineChapters,
+  };
+}
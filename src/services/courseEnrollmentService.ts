@@ -0,0 +1,237 @@
+import { ResourceInfo } from '../types/resourceType';
+import { UserInfo } from '../types/userType';
+import {
+  CourseEnrollmentInfo,
+  CourseEnrollmentInfoQueryParams,
+  CourseEnrollmentDenial,
+  CourseEnrollmentDenyReason,
+} from '../types/courseEnrollmentType';
+import {
+  getCourseEnrollment,
+  postCourseEnrollment,
+  reenrollCourseEnrollment,
+  dropCourseEnrollment,
+  getCourseEnrollmentList,
+} from '../models/courseEnrollmentModel';
+import { getCourse } from '../models/courseModel';
+import { getUser } from '../models/userModel';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+
+// 课程状态：已发布
+const COURSE_STATUS_PUBLISHED = 2;
+
+// 选课状态
+export const ENROLLMENT_STATUS_ENROLLED = 1;
+export const ENROLLMENT_STATUS_DROPPED = 2;
+
+const ENROLLMENT_DENY_MESSAGES: Record<CourseEnrollmentDenyReason, string> = {
+  not_enrolled: 'Not enrolled: please enroll in the course before learning its resources',
+  course_not_started: 'Course has not started yet',
+  course_ended: 'Course has ended',
+};
+
+/**
+ * 课程学习受限错误
+ * 携带结构化的受限详情，controller 捕获后返回 403
+ */
+export class CourseEnrollmentError extends Error {
+  denial: CourseEnrollmentDenial;
+
+  constructor(denial: CourseEnrollmentDenial) {
+    super(ENROLLMENT_DENY_MESSAGES[denial.reason]);
+    this.name = 'CourseEnrollmentError';
+    this.denial = denial;
+  }
+}
+
+/**
+ * 检查用户是否可以学习资源所属课程
+ * 规则：
+ * - 管理员、资源所有者、课程教师、不属于课程的资源：始终可学习
+ * - 其他用户需已选课，且当前时间在课程开课时间和结课时间之间
+ * @returns 可学习返回 null，否则返回受限详情
+ */
+export async function checkCourseEnrollment(
+  user: UserInfo,
+  resource: ResourceInfo
+): Promise<CourseEnrollmentDenial | null> {
+  if (user.role === ROLE_ADMIN || (resource.ownerId && resource.ownerId === user.userId) || !resource.courseId) {
+    return null;
+  }
+
+  const course = await getCourse({ courseId: resource.courseId });
+  if (!course || course.teacherId === user.userId) {
+    return null;
+  }
+
+  const enrollment = await getCourseEnrollment({
+    courseId: course.courseId,
+    studentId: user.userId,
+    status: ENROLLMENT_STATUS_ENROLLED,
+  });
+  if (!enrollment) {
+    return { courseId: course.courseId!, reason: 'not_enrolled' };
+  }
+
+  const now = new Date();
+  if (course.courseStartTime && now < new Date(course.courseStartTime)) {
+    return { courseId: course.courseId!, reason: 'course_not_started', courseStartTime: course.courseStartTime };
+  }
+  if (course.courseEndTime && now > new Date(course.courseEndTime)) {
+    return { courseId: course.courseId!, reason: 'course_ended', courseEndTime: course.courseEndTime };
+  }
+
+  return null;
+}
+
+/**
+ * 断言用户可以学习资源所属课程
+ * 不可学习时抛出 CourseEnrollmentError
+ */
+export async function assertCourseEnrollment(
+  user: UserInfo,
+  resource: ResourceInfo
+): Promise<void> {
+  const denial = await checkCourseEnrollment(user, resource);
+  if (denial) {
+    throw new CourseEnrollmentError(denial);
+  }
+}
+
+/**
+ * 选课服务
+ * 课程需已发布且在选课时间内（未设置选课截止时间时以结课时间为准）；设置了课程容量时已满则拒绝
+ * 退课后可重新选课，之前的学习记录保留
+ */
+export async function enrollCourseService(
+  studentId: number,
+  courseId: number
+): Promise<CourseEnrollmentInfo> {
+  const user = await getUser({ userId: studentId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  if (course.status !== COURSE_STATUS_PUBLISHED) {
+    throw new Error('Course is not published');
+  }
+  if (course.teacherId === studentId) {
+    throw new Error('The course owner cannot enroll in the course');
+  }
+
+  const now = new Date();
+  if (course.enrollmentStartTime && now < new Date(course.enrollmentStartTime)) {
+    throw new Error('Enrollment has not opened yet');
+  }
+  const enrollmentEndTime = course.enrollmentEndTime || course.courseEndTime;
+  if (enrollmentEndTime && now > new Date(enrollmentEndTime)) {
+    throw new Error('Enrollment has closed');
+  }
+
+  const existing = await getCourseEnrollment({ courseId, studentId });
+  if (existing?.status === ENROLLMENT_STATUS_ENROLLED) {
+    throw new Error('Already enrolled in this course');
+  }
+
+  if (existing) {
+    const updated = await reenrollCourseEnrollment(existing.enrollmentId!, courseId, course.capacity);
+    if (updated === 0) {
+      throw new Error('Course is full');
+    }
+    return (await getCourseEnrollment({ enrollmentId: existing.enrollmentId }))!;
+  }
+
+  const enrollment = await postCourseEnrollment({ courseId, studentId }, course.capacity);
+  if (!enrollment) {
+    // 重复提交时另一请求已写入选课记录
+    if (await getCourseEnrollment({ courseId, studentId })) {
+      throw new Error('Already enrolled in this course');
+    }
+    throw new Error('Course is full');
+  }
+  return enrollment;
+}
+
+/**
+ * 退课服务
+ * 只能退出已选的、尚未结课的课程；学习记录保留，重新选课后可继续学习
+ */
+export async function unenrollCourseService(
+  studentId: number,
+  courseId: number
+): Promise<CourseEnrollmentInfo> {
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  if (course.courseEndTime && new Date() > new Date(course.courseEndTime)) {
+    throw new Error('Cannot unenroll after the course has ended');
+  }
+
+  const enrollment = await getCourseEnrollment({ courseId, studentId, status: ENROLLMENT_STATUS_ENROLLED });
+  if (!enrollment) {
+    throw new Error('Not enrolled in this course');
+  }
+
+  const updated = await dropCourseEnrollment(enrollment.enrollmentId!);
+  if (updated === 0) {
+    throw new Error('Not enrolled in this course');
+  }
+
+  return (await getCourseEnrollment({ enrollmentId: enrollment.enrollmentId }))!;
+}
+
+/**
+ * 获取课程选课名单服务
+ * 管理员可查看任意课程，教师只能查看自己的课程；默认只返回已选课的学生
+ */
+export async function getCourseRosterService(
+  userId: number,
+  role: number | undefined,
+  courseId: number,
+  params: CourseEnrollmentInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: CourseEnrollmentInfo[]; total: number }> {
+  const course = await getCourse({ courseId });
+  if (!course) {
+    throw new Error('Course not found');
+  }
+  if (role !== ROLE_ADMIN && course.teacherId !== userId) {
+    throw new Error('Only the course owner can view the roster of this course');
+  }
+
+  return await getCourseEnrollmentList(
+    {
+      ...params,
+      courseId,
+      status: params.status !== undefined ? params.status : ENROLLMENT_STATUS_ENROLLED,
+    },
+    page,
+    pageSize
+  );
+}
+
+/**
+ * 获取我的课程列表服务
+ * 返回当前学生的选课记录（含课程信息），默认只返回已选课的课程
+ */
+export async function getMyCourseListService(
+  studentId: number,
+  params: CourseEnrollmentInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: CourseEnrollmentInfo[]; total: number }> {
+  return await getCourseEnrollmentList(
+    {
+      studentId,
+      status: params.status !== undefined ? params.status : ENROLLMENT_STATUS_ENROLLED,
+    },
+    page,
+    pageSize
+  );
+}
@@ -4,6 +4,25 @@ import { getUser } from '../models/userModel';
 import { createCourseAudit } from '../models/auditRecordModel';
 import { ROLE_TEACHER } from '../middlewares/roleMiddleware';
 
+/**
+ * 校验课程选课设置
+ * 课程容量为正整数；选课截止时间需晚于选课开始时间，且不能晚于结课时间
+ */
+function validateEnrollmentSettings(course: Partial<CourseInfo>): void {
+  if (course.capacity !== undefined && course.capacity !== null && (!Number.isInteger(course.capacity) || course.capacity <= 0)) {
+    throw new Error('Capacity must be a positive integer');
+  }
+
+  const enrollmentStartTime = course.enrollmentStartTime ? new Date(course.enrollmentStartTime) : null;
+  const enrollmentEndTime = course.enrollmentEndTime ? new Date(course.enrollmentEndTime) : null;
+  if (enrollmentStartTime && enrollmentEndTime && enrollmentStartTime >= enrollmentEndTime) {
+    throw new Error('Enrollment end time must be later than enrollment start time');
+  }
+  if (enrollmentEndTime && course.courseEndTime && enrollmentEndTime > new Date(course.courseEndTime)) {
+    throw new Error('Enrollment end time must not be later than course end time');
+  }
+}
+
 /**
  * 创建课程服务
  * 教师创建新课程
@@ -33,6 +52,9 @@ export async function createCourseService(
     }
   }
 
+  // 验证选课设置
+  validateEnrollmentSettings(data);
+
   // 创建课程（状态默认为0-待审核）
   const params: Partial<CourseInfo> = {
     ...data,
@@ -85,6 +107,17 @@ export async function updateCourseService(
     }
   }
 
+  // 验证选课设置（未更新的字段沿用原值）
+  validateEnrollmentSettings({
+    capacity: data.capacity !== undefined ? data.capacity : course.capacity,
+    enrollmentStartTime: data.enrollmentStartTime !== undefined ? data.enrollmentStartTime : course.enrollmentStartTime,
+    enrollmentEndTime: data.enrollmentEndTime !== undefined ? data.enrollmentEndTime : course.enrollmentEndTime,
+    courseEndTime: finalEndTime,
+  });
+  if (data.capacity && data.capacity < (course.enrolledCount || 0)) {
+    throw new Error('Capacity cannot be less than the number of enrolled students');
+  }
+
   // 更新课程
   return await putCourse(courseId, data);
 }
@@ -1,8 +1,64 @@
-import { LearningRecordInfo, LearningRecordInfoQueryParams } from '../types/learningRecordType';
-import { getLearningRecord, postLearningRecord, putLearningRecord, getLearningRecordList, getLearningHistoryList } from '../models/learningRecordModel';
+import { LearningRecordInfo, LearningRecordInfoQueryParams, WatchedSegment } from '../types/learningRecordType';
+import { LearningCoverageInfo, ResourceCoverageBucket, ResourceCoverageStatsInfo } from '../types/learningCoverageType';
+import { getLearningRecord, postLearningRecord, putLearningRecord, getLearningRecordList, getLearningHistoryList, getResourceWatchedSegmentList } from '../models/learningRecordModel';
 import { ResourceInfo } from '../types/resourceType';
 import { getResource } from '../models/resourceModel';
 import { getUser } from '../models/userModel';
+import { getCourse } from '../models/courseModel';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+import { assertResourceAccess } from './resourceAccessService';
+import { assertResourceUnlocked } from './resourcePrerequisiteService';
+import { assertCourseEnrollment } from './courseEnrollmentService';
+import { checkWatchHeartbeat, WATCH_VIOLATION_MESSAGES } from './watchSessionService';
+import { mergeWatchedSegments, getCoveredSeconds, getOverlapSeconds } from '../utils/watchedSegments';
+import { computeMediaProgress, WATCHED_SEGMENT_END_TOLERANCE_SECONDS } from '../utils/mediaProgress';
+
+// 客户端上报进度允许超出服务端计算进度的容差（百分点，超出容差时拒绝；保存的进度不超过服务端计算的进度）
+const LEARNING_PROGRESS_TOLERANCE_PERCENT = Number(process.env.LEARNING_PROGRESS_TOLERANCE_PERCENT || 5);
+// 已观看区间：允许的最大倍速播放（单次心跳上报的区间总长度不能超过 学习时间增量 × 倍速）
+const WATCHED_SEGMENT_MAX_PLAYBACK_RATE = Number(process.env.WATCHED_SEGMENT_MAX_PLAYBACK_RATE || 2);
+// 已观看区间：单次心跳最多上报的区间数
+const WATCHED_SEGMENT_MAX_PER_HEARTBEAT = 10;
+// 观看分布统计的默认时间段数
+const COVERAGE_DEFAULT_BUCKET_COUNT = 20;
+
+// 学习记录异常标记状态
+export const LEARNING_FLAG_STATUS_NONE = 0;
+export const LEARNING_FLAG_STATUS_PENDING = 1;
+export const LEARNING_FLAG_STATUS_CLEARED = 2;
+export const LEARNING_FLAG_STATUS_CONFIRMED = 3;
+
+/**
+ * 学习记录是否因异常被阻止领取奖励和证书（待审核或审核确认作弊）
+ */
+export function isLearningRecordFlagged(record: LearningRecordInfo | null): boolean {
+  return record?.flagStatus === LEARNING_FLAG_STATUS_PENDING || record?.flagStatus === LEARNING_FLAG_STATUS_CONFIRMED;
+}
+
+/**
+ * 校验心跳上报的已观看区间
+ * 区间需在资源时长范围内，且总长度不超过本次学习时间增量按最大倍速播放的时长
+ */
+function validateWatchedSegments(resource: ResourceInfo, segments: WatchedSegment[], timeIncrement: number) {
+  if (segments.length > WATCHED_SEGMENT_MAX_PER_HEARTBEAT) {
+    throw new Error(`Too many segments. At most ${WATCHED_SEGMENT_MAX_PER_HEARTBEAT} segments per heartbeat`);
+  }
+
+  const duration = Number(resource.duration || 0);
+  for (const segment of segments) {
+    if (segment.start < 0 || segment.end <= segment.start) {
+      throw new Error('Invalid segment. Expected 0 <= start < end');
+    }
+    if (duration > 0 && segment.end > duration + WATCHED_SEGMENT_END_TOLERANCE_SECONDS) {
+      throw new Error('Invalid segment. Position exceeds resource duration');
+    }
+  }
+
+  const totalLength = segments.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+  if (totalLength > timeIncrement * WATCHED_SEGMENT_MAX_PLAYBACK_RATE) {
+    throw new Error('Invalid segments. Watched range exceeds reported time');
+  }
+}
 
 /**
  * 完成学习服务（文档/图片类型）
@@ -30,6 +86,15 @@ export async function completeLearningRecordService(
     throw new Error('Resource is not published');
   }
 
+  // 检查访问权限（校内/付费资源）
+  await assertResourceAccess(user, resource);
+
+  // 检查是否已选课且在课程时间内
+  await assertCourseEnrollment(user, resource);
+
+  // 检查前置资源是否已完成
+  await assertResourceUnlocked(user, resource);
+
   // 检查资源类型是否为文档或图片（resourceType: 0=其他, 1=文档, 2=音频, 3=视频）
   // 文档和图片（resourceType=1或0）可以直接完成，视频和音频（resourceType=2或3）需要通过上报时间完成
   if (resource.resourceType === 2 || resource.resourceType === 3) {
@@ -72,13 +137,17 @@ export async function completeLearningRecordService(
 /**
  * 上报学习时间增量服务（视频/音频类型）
  * 适用于：resourceType = 2(音频) 或 3(视频) 的资源
- * 前端以10-15秒为周期上报学习时间增量，服务端累计学习时长
- * 注意：此接口只累计学习时长，不更新进度。进度需要前端根据资源总时长计算后调用 updateLearningProgress 更新
+ * 前端先开始观看会话，再以10-15秒为周期通过该会话上报学习时间增量（心跳），服务端累计学习时长
+ * 心跳可携带本周期的播放位置区间，服务端合并为已观看区间覆盖图（用于续播和观看分布统计）
+ * 资源时长已知时，进度按已观看区间覆盖的时长（未上报播放位置时按累计学习时长）/ 资源时长计算，达到 100% 自动标记为完成
+ * 异常心跳不计入学习时长，学习记录被标记为待教师审核，审核通过前不能领取奖励和证书
  */
 export async function reportLearningTimeService(
   studentId: number,
   resourceId: number,
-  timeIncrement: number
+  sessionId: number,
+  timeIncrement: number,
+  segments: WatchedSegment[] = []
 ): Promise<LearningRecordInfo> {
   // 检查用户是否存在
   const user = await getUser({ userId: studentId });
@@ -97,6 +166,15 @@ export async function reportLearningTimeService(
     throw new Error('Resource is not published');
   }
 
+  // 检查访问权限（校内/付费资源）
+  await assertResourceAccess(user, resource);
+
+  // 检查是否已选课且在课程时间内
+  await assertCourseEnrollment(user, resource);
+
+  // 检查前置资源是否已完成
+  await assertResourceUnlocked(user, resource);
+
   // 检查资源类型是否为视频或音频
   if (resource.resourceType !== 2 && resource.resourceType !== 3) {
     throw new Error('Only video and audio resources can report learning time');
@@ -107,47 +185,83 @@ export async function reportLearningTimeService(
     throw new Error('Invalid time increment. Expected range: 5-20 seconds');
   }
 
+  // 验证播放位置区间
+  validateWatchedSegments(resource, segments, timeIncrement);
+
+  // 校验观看会话心跳
+  const violation = await checkWatchHeartbeat(studentId, resourceId, sessionId, timeIncrement);
+
   // 查询是否已存在学习记录
   const existingRecord = await getLearningRecord({ studentId, resourceId });
 
-  let currentLearningTime = 0;
-  let currentProgress = 0;
-  let recordId: number;
+  if (violation) {
+    await flagLearningRecord(existingRecord, studentId, resourceId, violation);
+    throw new Error(`Heartbeat rejected: ${WATCH_VIOLATION_MESSAGES[violation]}`);
+  }
 
-  if (existingRecord) {
-    // 如果已存在，累计学习时长
-    currentLearningTime = (existingRecord.learningTime || 0) + timeIncrement;
-    currentProgress = existingRecord.progress || 0;
-    recordId = existingRecord.recordId!;
+  // 如果不存在，先创建学习记录
+  const record = existingRecord || await postLearningRecord({
+    studentId,
+    resourceId,
+    progress: 0,
+    learningTime: 0,
+    isCompleted: 0,
+    isVisible: 1,
+  });
+
+  // 累计学习时长
+  const currentLearningTime = (record.learningTime || 0) + timeIncrement;
+  const updateData: Partial<LearningRecordInfo> = {
+    learningTime: currentLearningTime,
+  };
 
-    // 更新学习记录
-    const updateData: Partial<LearningRecordInfo> = {
-      learningTime: currentLearningTime,
-    };
+  // 合并已观看区间（只合并重叠或首尾相接的区间，未观看的间隔不计入覆盖时长），记录最近播放位置
+  let watchedSegments = record.watchedSegments || null;
+  if (segments.length > 0) {
+    watchedSegments = mergeWatchedSegments([...(watchedSegments || []), ...segments]);
+    updateData.watchedSegments = watchedSegments;
+    updateData.lastPosition = segments[segments.length - 1].end;
+  }
 
-    // 如果之前已完成，不再更新进度和完成状态
-    if (!existingRecord.isCompleted) {
-      // 假设资源总时长未知，进度按学习时长估算（这里可以根据实际业务调整）
-      // 暂时不自动更新进度，由前端根据实际资源时长计算进度
-      // 如果前端提供了进度，可以在后续接口中更新
+  // 如果之前已完成，不再更新进度和完成状态
+  if (!record.isCompleted) {
+    const progress = computeMediaProgress(resource, currentLearningTime, watchedSegments);
+    if (progress !== null && progress > (record.progress || 0)) {
+      updateData.progress = progress;
+      if (progress >= 100) {
+        updateData.isCompleted = 1;
+        updateData.completedAt = new Date();
+      }
     }
+  }
 
-    return await putLearningRecord(recordId, updateData);
-  } else {
-    // 如果不存在，创建新的学习记录
-    currentLearningTime = timeIncrement;
-    const newRecord: Partial<LearningRecordInfo> = {
-      studentId,
-      resourceId,
-      progress: 0,
-      learningTime: currentLearningTime,
-      isCompleted: 0,
-      isVisible: 1,
-    };
+  return await putLearningRecord(record.recordId!, updateData);
+}
 
-    const createdRecord = await postLearningRecord(newRecord);
-    return createdRecord;
-  }
+/**
+ * 标记学习记录异常（待教师审核）
+ * 学习记录不存在时先创建；已确认作弊的记录保持确认状态
+ */
+async function flagLearningRecord(
+  record: LearningRecordInfo | null,
+  studentId: number,
+  resourceId: number,
+  reason: string
+): Promise<void> {
+  const target = record || await postLearningRecord({
+    studentId,
+    resourceId,
+    progress: 0,
+    learningTime: 0,
+    isCompleted: 0,
+    isVisible: 1,
+  });
+
+  await putLearningRecord(target.recordId!, {
+    flagStatus: target.flagStatus === LEARNING_FLAG_STATUS_CONFIRMED ? LEARNING_FLAG_STATUS_CONFIRMED : LEARNING_FLAG_STATUS_PENDING,
+    flagReason: reason,
+    flaggedAt: new Date(),
+  });
 }
 
 /**
@@ -156,9 +270,10 @@ export async function reportLearningTimeService(
  * 前端根据实际资源时长计算进度后，调用此接口更新进度
  * 
  * 注意：
- * 1. 后端无法获取资源时长，需要前端通过视频/音频元素的duration属性获取总时长
- * 2. 前端计算进度公式：progress = (learningTime / totalDuration) * 100
- * 3. 进度达到100%时，会自动标记为完成（isCompleted=1）
+ * 1. 资源时长在上传时由服务端解析，上报的进度超过按累计学习时长计算的进度（允许少量容差）时拒绝，
+ *    容差内的上报按服务端计算的进度保存
+ * 2. 资源时长未知的历史资源无法校验进度，拒绝前端上报的进度（需先补全资源时长）
+ * 3. 服务端计算的进度达到100%时，才会标记为完成（isCompleted=1）
  */
 export async function updateLearningProgressService(
   studentId: number,
@@ -187,13 +302,41 @@ export async function updateLearningProgressService(
     throw new Error('Only the record owner can update progress');
   }
 
-  // 更新进度
+  // 校验进度与累计学习时长是否一致
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+
+  // 检查资源是否已发布
+  if (resource.status !== 2) {
+    throw new Error('Resource is not published');
+  }
+
+  // 检查访问权限（校内/付费资源）
+  await assertResourceAccess(user, resource);
+
+  // 检查是否已选课且在课程时间内
+  await assertCourseEnrollment(user, resource);
+
+  // 检查前置资源是否已完成
+  await assertResourceUnlocked(user, resource);
+
+  const serverProgress = computeMediaProgress(resource, existingRecord.learningTime || 0, existingRecord.watchedSegments);
+  if (serverProgress === null) {
+    throw new Error('Resource duration is unknown. Progress cannot be verified');
+  }
+  if (progress > serverProgress + LEARNING_PROGRESS_TOLERANCE_PERCENT) {
+    throw new Error('Progress is inconsistent with watched time');
+  }
+
+  // 更新进度（不超过服务端计算的进度）
   const updateData: Partial<LearningRecordInfo> = {
-    progress,
+    progress: Math.min(progress, serverProgress),
   };
 
-  // 如果进度达到100%，标记为完成
-  if (progress >= 100 && !existingRecord.isCompleted) {
+  // 服务端计算的进度达到100%时，标记为完成
+  if (serverProgress >= 100 && progress >= 100 && !existingRecord.isCompleted) {
     updateData.isCompleted = 1;
     updateData.completedAt = new Date();
   }
@@ -248,7 +391,7 @@ export async function submitReviewService(
  * 支持按条件筛选和分页
  */
 export async function getLearningRecordListService(
-  params: Partial<LearningRecordInfo>,
+  params: LearningRecordInfoQueryParams,
   page: number = 1,
   pageSize: number = 10
 ): Promise<{ records: LearningRecordInfo[]; total: number }> {
@@ -268,6 +411,149 @@ export async function getLearningHistoryListService(
   return await getLearningHistoryList(studentId, page, pageSize, params);
 }
 
+/**
+ * 获取观看覆盖情况服务（视频/音频类型）
+ * 返回当前学生对资源的已观看区间和最近播放位置，未学习时返回空覆盖图
+ */
+export async function getLearningCoverageService(
+  studentId: number,
+  resourceId: number
+): Promise<LearningCoverageInfo> {
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  if (resource.resourceType !== 2 && resource.resourceType !== 3) {
+    throw new Error('Only video and audio resources have watch coverage');
+  }
+
+  const record = await getLearningRecord({ studentId, resourceId });
+  const duration = resource.duration ? Number(resource.duration) : null;
+  const segments = record?.watchedSegments || [];
+
+  return {
+    resourceId,
+    recordId: record?.recordId ?? null,
+    duration,
+    progress: Number(record?.progress || 0),
+    learningTime: Number(record?.learningTime || 0),
+    coveredSeconds: getCoveredSeconds(segments, duration ?? Infinity),
+    lastPosition: record?.lastPosition ?? null,
+    segments,
+  };
+}
+
+/**
+ * 获取资源观看分布统计服务
+ * 将资源时长等分为若干时间段，统计覆盖过半的学生数，用于查看观看流失点
+ * 只统计上报过播放位置的学生；管理员和资源所属课程的教师可查询
+ */
+export async function getResourceCoverageStatsService(
+  userId: number,
+  role: number | undefined,
+  resourceId: number,
+  bucketCount: number = COVERAGE_DEFAULT_BUCKET_COUNT
+): Promise<ResourceCoverageStatsInfo> {
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  if (role !== ROLE_ADMIN) {
+    const course = resource.courseId ? await getCourse({ courseId: resource.courseId }) : null;
+    if (!course || course.teacherId !== userId) {
+      throw new Error('No permission to view coverage of this resource');
+    }
+  }
+
+  const duration = Number(resource.duration || 0);
+  if (duration <= 0) {
+    throw new Error('Resource duration is unknown');
+  }
+
+  const learners = await getResourceWatchedSegmentList(resourceId);
+  const totalLearners = learners.length;
+  const bucketLength = duration / bucketCount;
+
+  const buckets: ResourceCoverageBucket[] = [];
+  for (let i = 0; i < bucketCount; i++) {
+    const start = i * bucketLength;
+    const end = i === bucketCount - 1 ? duration : (i + 1) * bucketLength;
+    const viewers = learners.filter(item => getOverlapSeconds(item.watchedSegments, start, end) >= (end - start) / 2).length;
+    buckets.push({
+      start: Math.round(start * 100) / 100,
+      end: Math.round(end * 100) / 100,
+      viewers,
+      retention: totalLearners > 0 ? Math.round(viewers / totalLearners * 10000) / 100 : 0,
+    });
+  }
+
+  const averageCoverage = totalLearners > 0
+    ? Math.round(learners.reduce((sum, item) => sum + getCoveredSeconds(item.watchedSegments, duration) / duration, 0) / totalLearners * 10000) / 100
+    : 0;
+
+  return { resourceId, duration, totalLearners, averageCoverage, buckets };
+}
+
+/**
+ * 获取异常学习记录列表服务
+ * 未指定 flagStatus 时返回待审核的记录；管理员可查询全部，教师只能查询自己资源下的记录
+ */
+export async function getFlaggedLearningRecordListService(
+  userId: number,
+  role: number | undefined,
+  params: LearningRecordInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: LearningRecordInfo[]; total: number }> {
+  const query: LearningRecordInfoQueryParams = {
+    ...params,
+    flagStatus: params.flagStatus ?? LEARNING_FLAG_STATUS_PENDING,
+  };
+  if (role !== ROLE_ADMIN) {
+    query.teacherId = userId;
+  }
+  return await getLearningRecordList(query, page, pageSize);
+}
+
+/**
+ * 审核异常学习记录服务
+ * 审核通过后可正常领取奖励和证书；确认作弊后保持阻止
+ * 管理员和资源所属课程的教师可审核
+ */
+export async function reviewLearningRecordFlagService(
+  userId: number,
+  role: number | undefined,
+  recordId: number,
+  params: { approved: boolean; note?: string }
+): Promise<LearningRecordInfo> {
+  const record = await getLearningRecord({ recordId });
+  if (!record) {
+    throw new Error('Learning record not found');
+  }
+
+  const resource = await getResource({ resourceId: record.resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  if (role !== ROLE_ADMIN) {
+    const course = resource.courseId ? await getCourse({ courseId: resource.courseId }) : null;
+    if (!course || course.teacherId !== userId) {
+      throw new Error('No permission to review this learning record');
+    }
+  }
+
+  if (record.flagStatus !== LEARNING_FLAG_STATUS_PENDING) {
+    throw new Error('Learning record is not pending review');
+  }
+
+  return await putLearningRecord(recordId, {
+    flagStatus: params.approved ? LEARNING_FLAG_STATUS_CLEARED : LEARNING_FLAG_STATUS_CONFIRMED,
+    flagReviewedBy: userId,
+    flagReviewedAt: new Date(),
+    flagReviewNote: params.note || null,
+  });
+}
+
 /**
  * 获取学习记录详情服务
  * 根据 recordId 获取学习记录信息
@@ -0,0 +1,272 @@
+import { TokenTransactionInfo } from '../types/tokenTransactionType';
+import { putTokenTransaction, getMintTransactionQueue } from '../models/tokenTransactionModel';
+import { putUser } from '../models/userModel';
+import {
+  signMOOCTokenMint,
+  broadcastRawTransaction,
+  getTransactionReceiptStatus,
+  getAdminConfirmedNonce,
+  getMOOCTokenBalance,
+} from '../utils/moocToken';
+
+/*
+ * 奖励 mint 流水线
+ * - 交易记录先以待提交（pending）状态写入，再签名、记录交易哈希（submitted），最后广播
+ * - 后台任务跟踪回执：确认数足够后标记为 confirmed，链上执行失败标记为 failed
+ * - 长时间未打包的交易使用同一 nonce、更高手续费替换；nonce 被占用且无回执时重新提交
+ * - 仅在没有仍可能上链的已签名交易时才标记为 failed，避免记录失败但代币已发放
+ */
+const MINT_WORKER_INTERVAL_MS = Number(process.env.MINT_WORKER_INTERVAL_MS || 15 * 1000);
+const MINT_MIN_CONFIRMATIONS = Number(process.env.MINT_MIN_CONFIRMATIONS || 1);
+const MINT_STUCK_TIMEOUT_MS = Number(process.env.MINT_STUCK_TIMEOUT_MS || 3 * 60 * 1000);
+const MINT_MAX_ATTEMPTS = Number(process.env.MINT_MAX_ATTEMPTS || 5);
+const MINT_WORKER_BATCH_SIZE = Number(process.env.MINT_WORKER_BATCH_SIZE || 20);
+
+// 交易状态
+export const TOKEN_TRANSACTION_STATUS_PENDING = 0;
+export const TOKEN_TRANSACTION_STATUS_SUBMITTED = 1;
+export const TOKEN_TRANSACTION_STATUS_CONFIRMED = 2;
+export const TOKEN_TRANSACTION_STATUS_FAILED = 3;
+
+// 进程内提交锁：签名时读取的 pending nonce 需要串行分配（证书 NFT 托管铸造同样使用管理员钱包，共用此锁）
+let submitQueue: Promise<unknown> = Promise.resolve();
+
+export function withSubmitLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = submitQueue.then(task, task);
+  submitQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * 获取错误信息（截断，避免超出字段长度）
+ */
+function getErrorMessage(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).slice(0, 500);
+}
+
+/**
+ * 提交 mint 交易
+ * 签名后先将交易哈希、nonce 和已签名交易写入记录（pending -> submitted），再广播
+ * 广播失败不影响记录状态，后台任务会重新广播
+ * @returns 是否提交成功（记录已被其他进程提交时返回 false）
+ */
+export async function submitMintTransactionService(transaction: TokenTransactionInfo): Promise<boolean> {
+  const { transactionId, walletAddress, amount } = transaction;
+  if (!transactionId || !walletAddress || amount === undefined) {
+    throw new Error('Invalid mint transaction');
+  }
+
+  return withSubmitLock(async () => {
+    let signed;
+    try {
+      signed = await signMOOCTokenMint(walletAddress, String(amount));
+    } catch (error) {
+      console.error('Sign mint transaction error:', error);
+      await putTokenTransaction(
+        transactionId,
+        { attemptCount: (transaction.attemptCount || 0) + 1, errorMessage: getErrorMessage(error) },
+        { status: TOKEN_TRANSACTION_STATUS_PENDING }
+      );
+      return false;
+    }
+
+    const updated = await putTokenTransaction(
+      transactionId,
+      {
+        status: TOKEN_TRANSACTION_STATUS_SUBMITTED,
+        transactionHash: signed.transactionHash,
+        txNonce: signed.nonce,
+        rawTransaction: signed.rawTransaction,
+        attemptCount: (transaction.attemptCount || 0) + 1,
+        errorMessage: null,
+        submittedAt: new Date(),
+      },
+      { status: TOKEN_TRANSACTION_STATUS_PENDING }
+    );
+    if (updated === 0) {
+      return false;
+    }
+
+    try {
+      await broadcastRawTransaction(signed.rawTransaction);
+    } catch (error) {
+      console.error('Broadcast mint transaction error:', error);
+    }
+    return true;
+  });
+}
+
+/**
+ * 标记交易失败
+ */
+async function failMintTransaction(transaction: TokenTransactionInfo, expectedStatus: number, errorMessage: string) {
+  await putTokenTransaction(
+    transaction.transactionId!,
+    { status: TOKEN_TRANSACTION_STATUS_FAILED, rawTransaction: null, errorMessage },
+    { status: expectedStatus, transactionHash: transaction.transactionHash ?? null }
+  );
+}
+
+/**
+ * 处理待提交的交易：超过最大尝试次数标记为失败，否则提交
+ */
+async function processPendingMint(transaction: TokenTransactionInfo) {
+  if ((transaction.attemptCount || 0) >= MINT_MAX_ATTEMPTS) {
+    await failMintTransaction(transaction, TOKEN_TRANSACTION_STATUS_PENDING, 'Mint transaction exceeded max attempts');
+    return;
+  }
+  await submitMintTransactionService(transaction);
+}
+
+/**
+ * 处理已提交的交易
+ * 依次检查当前交易和被替换交易的回执，任一笔上链即按其结果更新记录
+ */
+async function processSubmittedMint(transaction: TokenTransactionInfo) {
+  const transactionId = transaction.transactionId!;
+  const currentHash = transaction.transactionHash!;
+  const hashes = [currentHash, ...(transaction.previousHashes ? transaction.previousHashes.split(',') : [])];
+
+  // 先读取已上链 nonce 再查回执，避免查完回执后交易才打包被误判为 nonce 被占用
+  const confirmedNonce = await getAdminConfirmedNonce();
+
+  for (const hash of hashes) {
+    const receipt = await getTransactionReceiptStatus(hash);
+    if (!receipt) continue;
+
+    if (receipt.status !== 1) {
+      await putTokenTransaction(
+        transactionId,
+        { status: TOKEN_TRANSACTION_STATUS_FAILED, transactionHash: hash, rawTransaction: null, errorMessage: 'Mint transaction reverted on chain' },
+        { status: TOKEN_TRANSACTION_STATUS_SUBMITTED, transactionHash: currentHash }
+      );
+      return;
+    }
+    if (receipt.confirmations < MINT_MIN_CONFIRMATIONS) {
+      return;
+    }
+
+    const updated = await putTokenTransaction(
+      transactionId,
+      { status: TOKEN_TRANSACTION_STATUS_CONFIRMED, transactionHash: hash, rawTransaction: null, errorMessage: null, confirmedAt: new Date() },
+      { status: TOKEN_TRANSACTION_STATUS_SUBMITTED, transactionHash: currentHash }
+    );
+    if (updated > 0) {
+      await syncUserTokenBalance(transaction);
+    }
+    return;
+  }
+
+  // 没有回执且 nonce 已被其他交易占用：本交易不可能再上链，重新提交
+  if (transaction.txNonce !== null && transaction.txNonce !== undefined && transaction.txNonce < confirmedNonce) {
+    const attemptCount = transaction.attemptCount || 0;
+    await putTokenTransaction(
+      transactionId,
+      attemptCount >= MINT_MAX_ATTEMPTS
+        ? { status: TOKEN_TRANSACTION_STATUS_FAILED, rawTransaction: null, errorMessage: 'Mint transaction nonce was used by another transaction' }
+        : { status: TOKEN_TRANSACTION_STATUS_PENDING, txNonce: null, rawTransaction: null, previousHashes: null, errorMessage: 'Mint transaction nonce was used by another transaction' },
+      { status: TOKEN_TRANSACTION_STATUS_SUBMITTED, transactionHash: currentHash }
+    );
+    return;
+  }
+
+  const submittedAt = transaction.submittedAt ? new Date(transaction.submittedAt).getTime() : 0;
+  const stuck = Date.now() - submittedAt >= MINT_STUCK_TIMEOUT_MS;
+
+  // 未超时或已达到最大尝试次数：重新广播原交易（交易可能被节点丢弃）
+  if (!stuck || (transaction.attemptCount || 0) >= MINT_MAX_ATTEMPTS) {
+    if (transaction.rawTransaction) {
+      try {
+        await broadcastRawTransaction(transaction.rawTransaction);
+      } catch (error) {
+        console.error('Rebroadcast mint transaction error:', error);
+      }
+    }
+    return;
+  }
+
+  // 长时间未打包：使用同一 nonce、更高手续费替换
+  await withSubmitLock(async () => {
+    const signed = await signMOOCTokenMint(transaction.walletAddress!, String(transaction.amount), {
+      nonce: transaction.txNonce ?? undefined,
+      replaceRawTransaction: transaction.rawTransaction ?? undefined,
+    });
+
+    const updated = await putTokenTransaction(
+      transactionId,
+      {
+        transactionHash: signed.transactionHash,
+        rawTransaction: signed.rawTransaction,
+        previousHashes: hashes.join(','),
+        attemptCount: (transaction.attemptCount || 0) + 1,
+        submittedAt: new Date(),
+      },
+      { status: TOKEN_TRANSACTION_STATUS_SUBMITTED, transactionHash: currentHash }
+    );
+    if (updated === 0) {
+      return;
+    }
+
+    try {
+      await broadcastRawTransaction(signed.rawTransaction);
+    } catch (error) {
+      console.error('Broadcast replacement mint transaction error:', error);
+    }
+  });
+}
+
+/**
+ * 交易确认后同步用户代币余额（以链上余额为准）
+ */
+async function syncUserTokenBalance(transaction: TokenTransactionInfo) {
+  try {
+    const balance = parseFloat(await getMOOCTokenBalance(transaction.walletAddress!));
+    await putUser(transaction.userId!, { tokenBalance: balance });
+  } catch (error) {
+    console.error('Sync user token balance error:', error);
+  }
+}
+
+/**
+ * 执行一轮 mint 流水线处理
+ */
+export async function processMintQueue() {
+  const transactions = await getMintTransactionQueue(
+    [TOKEN_TRANSACTION_STATUS_PENDING, TOKEN_TRANSACTION_STATUS_SUBMITTED],
+    MINT_WORKER_BATCH_SIZE
+  );
+
+  for (const transaction of transactions) {
+    try {
+      if (transaction.status === TOKEN_TRANSACTION_STATUS_PENDING) {
+        await processPendingMint(transaction);
+      } else {
+        await processSubmittedMint(transaction);
+      }
+    } catch (error) {
+      console.error(`Process mint transaction ${transaction.transactionId} error:`, error);
+    }
+  }
+}
+
+let mintWorkerTimer: NodeJS.Timeout | null = null;
+let mintWorkerRunning = false;
+
+/**
+ * 启动 mint 后台任务
+ * 每轮处理完成前不会开始下一轮
+ */
+export function startMintWorker() {
+  if (mintWorkerTimer) return;
+
+  mintWorkerTimer = setInterval(() => {
+    if (mintWorkerRunning) return;
+    mintWorkerRunning = true;
+    processMintQueue()
+      .catch(error => console.error('Mint worker error:', error))
+      .finally(() => {
+        mintWorkerRunning = false;
+      });
+  }, MINT_WORKER_INTERVAL_MS);
+  mintWorkerTimer.unref();
+}
@@ -0,0 +1,158 @@
+import { NftMetadata, NftMetadataResult } from '../types/nftMetadataType';
+import { getCertificate, updateCertificateMetadata } from '../models/certificateModel';
+import { getLearningRecord } from '../models/learningRecordModel';
+import { getResource, putResource } from '../models/resourceModel';
+import { getUser } from '../models/userModel';
+import { uploadBufferToIPFS, downloadFromIPFS } from '../utils/pinataIpfs';
+import { calculateContentHash } from '../utils/blockchain';
+import { buildCertificateVerificationUrl } from '../utils/certificateVerification';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+
+// 资源类型名称（0:其他，1:文档，2:音频，3:视频）
+const RESOURCE_TYPE_NAMES: Record<number, string> = {
+  0: 'Other',
+  1: 'Document',
+  2: 'Audio',
+  3: 'Video',
+};
+
+/**
+ * 构建 tokenURI（ipfs://CID）
+ */
+export function buildTokenURI(metadataIpfsHash: string): string {
+  return `ipfs://${metadataIpfsHash}`;
+}
+
+/**
+ * 固定元数据 JSON 到 IPFS
+ */
+async function pinNftMetadata(metadata: NftMetadata, fileName: string): Promise<string> {
+  const buffer = Buffer.from(JSON.stringify(metadata, null, 2));
+  return await uploadBufferToIPFS(buffer, fileName, 'application/json');
+}
+
+/**
+ * 读取已固定的元数据 JSON
+ */
+async function loadNftMetadata(metadataIpfsHash: string): Promise<NftMetadataResult> {
+  const buffer = await downloadFromIPFS(metadataIpfsHash);
+  let metadata: NftMetadata;
+  try {
+    metadata = JSON.parse(buffer.toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid NFT metadata on IPFS');
+  }
+  return { metadata, metadataIpfsHash, tokenURI: buildTokenURI(metadataIpfsHash) };
+}
+
+/**
+ * 生成证书 NFT 元数据服务
+ * 构建 ERC-721 元数据（image 为证书图片 CID，属性包含课程、教师、学校和完成日期），固定到 IPFS 并记录到证书
+ * 已生成过的证书直接返回已固定的元数据，保证同一证书的 tokenURI 不变
+ * 证书所属用户和管理员可生成
+ */
+export async function createCertificateNftMetadataService(
+  userId: number,
+  role: number | undefined,
+  certificateId: number
+): Promise<NftMetadataResult> {
+  const certificate = await getCertificate({ certificateId });
+  if (!certificate) {
+    throw new Error('Certificate not found');
+  }
+  if (role !== ROLE_ADMIN && certificate.studentId !== userId) {
+    throw new Error('No permission to create metadata for this certificate');
+  }
+  if (certificate.isRevoked === 1) {
+    throw new Error('Certificate has been revoked');
+  }
+  if (!certificate.ipfsHash) {
+    throw new Error('Certificate image is not available');
+  }
+
+  if (certificate.metadataIpfsHash) {
+    return await loadNftMetadata(certificate.metadataIpfsHash);
+  }
+
+  // 完成日期：优先使用学习记录的完成时间，否则使用证书颁发时间
+  const learningRecord = certificate.learningRecordId
+    ? await getLearningRecord({ recordId: certificate.learningRecordId })
+    : null;
+  const completedAt = new Date(learningRecord?.completedAt || certificate.createdAt || Date.now());
+
+  const studentName = certificate.student?.realName || certificate.student?.username || '';
+  const courseName = certificate.course?.courseName || '';
+  const teacherName = certificate.teacher?.realName || certificate.teacher?.username || '';
+
+  const metadata: NftMetadata = {
+    name: `MOOCChain Certificate #${certificateId}: ${courseName}`,
+    description: `${studentName} has completed the course "${courseName}" taught by ${teacherName} on MOOCChain.`,
+    image: `ipfs://${certificate.ipfsHash}`,
+    attributes: [
+      { trait_type: 'Course', value: courseName },
+      { trait_type: 'Teacher', value: teacherName },
+      { trait_type: 'School', value: certificate.teacher?.schoolName || '' },
+      { trait_type: 'Completion Date', value: Math.floor(completedAt.getTime() / 1000), display_type: 'date' },
+    ],
+  };
+  if (certificate.verificationCode) {
+    metadata.external_url = buildCertificateVerificationUrl(certificate.verificationCode);
+  }
+
+  const metadataIpfsHash = await pinNftMetadata(metadata, `certificate-${certificateId}-metadata.json`);
+  await updateCertificateMetadata(certificateId, metadataIpfsHash);
+
+  return { metadata, metadataIpfsHash, tokenURI: buildTokenURI(metadataIpfsHash) };
+}
+
+/**
+ * 生成资源 NFT 元数据服务
+ * 构建 ERC-721 元数据（属性包含内容指纹、资源类型和所有者钱包地址），固定到 IPFS 并记录到资源
+ * 元数据公开可见，不包含资源文件本身的 IPFS 哈希（付费资源不能通过元数据绕过购买）
+ * 资源所有者和管理员可生成，所有者需已绑定钱包
+ */
+export async function createResourceNftMetadataService(
+  userId: number,
+  role: number | undefined,
+  resourceId: number
+): Promise<NftMetadataResult> {
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  if (role !== ROLE_ADMIN && resource.ownerId !== userId) {
+    throw new Error('No permission to create metadata for this resource');
+  }
+  if (!resource.ipfsHash) {
+    throw new Error('Resource content is not available');
+  }
+
+  if (resource.metadataIpfsHash) {
+    return await loadNftMetadata(resource.metadataIpfsHash);
+  }
+
+  const owner = resource.ownerId ? await getUser({ userId: resource.ownerId }) : null;
+  if (!owner || owner.walletBound !== 1 || !owner.walletAddress) {
+    throw new Error('Resource owner has not bound a wallet');
+  }
+
+  const createdAt = Math.floor(new Date(resource.createdAt || Date.now()).getTime() / 1000);
+  const contentHash = calculateContentHash(resource.ipfsHash, owner.walletAddress, createdAt);
+  const resourceTypeName = RESOURCE_TYPE_NAMES[resource.resourceType ?? 0] || RESOURCE_TYPE_NAMES[0];
+
+  const metadata: NftMetadata = {
+    name: `MOOCChain Resource #${resourceId}: ${resource.title || ''}`,
+    description: resource.description || '',
+    attributes: [
+      { trait_type: 'Content Hash', value: contentHash },
+      { trait_type: 'Resource Type', value: resourceTypeName },
+      { trait_type: 'Owner', value: owner.walletAddress },
+      { trait_type: 'Created At', value: createdAt, display_type: 'date' },
+    ],
+  };
+
+  const metadataIpfsHash = await pinNftMetadata(metadata, `resource-${resourceId}-metadata.json`);
+  await putResource(resourceId, { metadataIpfsHash });
+
+  return { metadata, metadataIpfsHash, tokenURI: buildTokenURI(metadataIpfsHash) };
+}
@@ -0,0 +1,112 @@
+import { ResourceInfo } from '../types/resourceType';
+import { UserInfo } from '../types/userType';
+import { ResourceAccessDenial } from '../types/resourceAccessType';
+import { getUserListByIds } from '../models/userModel';
+import { getPurchasedResourceIdList } from '../models/tokenTransactionModel';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+
+/**
+ * 资源访问被拒绝错误
+ * 携带结构化的拒绝详情，controller 捕获后返回 403
+ */
+export class ResourceAccessError extends Error {
+  denial: ResourceAccessDenial;
+
+  constructor(message: string, denial: ResourceAccessDenial) {
+    super(message);
+    this.name = 'ResourceAccessError';
+    this.denial = denial;
+  }
+}
+
+/**
+ * 检查用户是否可以访问资源
+ * 规则：
+ * - 管理员、资源所有者：始终可访问
+ * - accessScope = 0（公开）：所有登录用户可访问
+ * - accessScope = 1（校内）：用户 schoolName 与资源所有者一致时可访问
+ * - accessScope = 2（付费）：价格为 0 或用户已有购买记录（tokenTransaction 消费类型 0）时可访问
+ * @returns 可访问返回 null，否则返回拒绝详情
+ */
+export async function checkResourceAccess(
+  user: UserInfo,
+  resource: ResourceInfo
+): Promise<ResourceAccessDenial | null> {
+  const denials = await checkResourceAccessList(user, [resource]);
+  return denials.get(resource.resourceId!) || null;
+}
+
+/**
+ * 批量检查用户是否可以访问资源（规则同 checkResourceAccess）
+ * 校内资源的所有者和付费资源的购买记录各用一次查询加载，避免列表中逐条查询
+ * @returns resourceId 到拒绝详情的映射，可访问的资源不在映射中
+ */
+export async function checkResourceAccessList(
+  user: UserInfo,
+  resources: ResourceInfo[]
+): Promise<Map<number, ResourceAccessDenial>> {
+  const denials = new Map<number, ResourceAccessDenial>();
+  if (user.role === ROLE_ADMIN) {
+    return denials;
+  }
+
+  const restricted = resources.filter(resource => !resource.ownerId || resource.ownerId !== user.userId);
+  const campusResources = restricted.filter(resource => Number(resource.accessScope || 0) === 1);
+  const paidResources = restricted.filter(resource => Number(resource.accessScope || 0) === 2 && Number(resource.price || 0) > 0);
+
+  const ownerIds = [...new Set(campusResources.map(resource => resource.ownerId).filter((id): id is number => !!id))];
+  const ownerSchoolNames = new Map<number, string>();
+  for (const owner of await getUserListByIds(ownerIds)) {
+    ownerSchoolNames.set(owner.userId!, owner.schoolName || '');
+  }
+
+  const purchasedIds = new Set(
+    paidResources.length > 0
+      ? await getPurchasedResourceIdList(user.userId!, paidResources.map(resource => resource.resourceId!))
+      : []
+  );
+
+  for (const resource of campusResources) {
+    const ownerSchoolName = (resource.ownerId && ownerSchoolNames.get(resource.ownerId)) || '';
+    if (!ownerSchoolName || user.schoolName !== ownerSchoolName) {
+      denials.set(resource.resourceId!, {
+        resourceId: resource.resourceId!,
+        accessScope: 1,
+        reason: 'campus_only',
+        schoolName: ownerSchoolName || undefined,
+      });
+    }
+  }
+
+  for (const resource of paidResources) {
+    if (!purchasedIds.has(resource.resourceId!)) {
+      denials.set(resource.resourceId!, {
+        resourceId: resource.resourceId!,
+        accessScope: 2,
+        reason: 'purchase_required',
+        price: Number(resource.price),
+      });
+    }
+  }
+
+  return denials;
+}
+
+/**
+ * 断言用户可以访问资源
+ * 不可访问时抛出 ResourceAccessError
+ */
+export async function assertResourceAccess(
+  user: UserInfo,
+  resource: ResourceInfo
+): Promise<void> {
+  const denial = await checkResourceAccess(user, resource);
+  if (!denial) {
+    return;
+  }
+
+  if (denial.reason === 'campus_only') {
+    throw new ResourceAccessError('Campus only: this resource is restricted to users of the same school', denial);
+  }
+  throw new ResourceAccessError('Purchase required: please buy this resource before accessing it', denial);
+}
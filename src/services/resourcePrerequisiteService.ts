@@ -0,0 +1,150 @@
+import { ResourceInfo } from '../types/resourceType';
+import { UserInfo } from '../types/userType';
+import { ResourceLockDenial, ResourcePrerequisiteInfo } from '../types/courseChapterType';
+import { getResource } from '../models/resourceModel';
+import { getCourse } from '../models/courseModel';
+import { getCompletedResourceIdList } from '../models/learningRecordModel';
+import { getResourcePrerequisiteList, replaceResourcePrerequisites } from '../models/resourcePrerequisiteModel';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+
+// 资源状态：已发布
+const RESOURCE_STATUS_PUBLISHED = 2;
+
+/**
+ * 资源被锁定错误
+ * 携带尚未完成的前置资源，controller 捕获后返回 403
+ */
+export class ResourceLockedError extends Error {
+  denial: ResourceLockDenial;
+
+  constructor(denial: ResourceLockDenial) {
+    super('Resource is locked. Please complete the prerequisite resources first');
+    this.name = 'ResourceLockedError';
+    this.denial = denial;
+  }
+}
+
+/**
+ * 检查资源是否对用户锁定
+ * 规则：
+ * - 管理员、资源所有者：始终不锁定
+ * - 所有已发布的前置资源都已完成时解锁（未发布或已下架的前置资源不计入，避免学生无法继续学习）
+ * @returns 未锁定返回 null，否则返回锁定详情
+ */
+export async function checkResourceLock(
+  user: UserInfo,
+  resource: ResourceInfo
+): Promise<ResourceLockDenial | null> {
+  if (user.role === ROLE_ADMIN || (resource.ownerId && resource.ownerId === user.userId)) {
+    return null;
+  }
+
+  const prerequisites = (await getResourcePrerequisiteList({ resourceId: resource.resourceId }))
+    .filter(prerequisite => prerequisite.requiredResource?.status === RESOURCE_STATUS_PUBLISHED);
+
+  // 一次查询所有前置资源的完成情况
+  const completedIds = new Set(
+    await getCompletedResourceIdList(user.userId!, prerequisites.map(prerequisite => prerequisite.requiredResourceId!))
+  );
+
+  const unmetPrerequisites: ResourceLockDenial['unmetPrerequisites'] = [];
+  for (const prerequisite of prerequisites) {
+    if (!completedIds.has(prerequisite.requiredResourceId!)) {
+      unmetPrerequisites.push({
+        resourceId: prerequisite.requiredResourceId!,
+        title: prerequisite.requiredResource?.title || '',
+      });
+    }
+  }
+
+  return unmetPrerequisites.length > 0 ? { resourceId: resource.resourceId!, unmetPrerequisites } : null;
+}
+
+/**
+ * 断言资源对用户未锁定
+ * 锁定时抛出 ResourceLockedError
+ */
+export async function assertResourceUnlocked(
+  user: UserInfo,
+  resource: ResourceInfo
+): Promise<void> {
+  const denial = await checkResourceLock(user, resource);
+  if (denial) {
+    throw new ResourceLockedError(denial);
+  }
+}
+
+/**
+ * 获取资源并校验是否为课程教师
+ */
+async function getManageableResource(teacherId: number, resourceId: number): Promise<ResourceInfo> {
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  const course = resource.courseId ? await getCourse({ courseId: resource.courseId }) : null;
+  if (!course || course.teacherId !== teacherId) {
+    throw new Error('Only the course owner can manage prerequisites of this resource');
+  }
+  return resource;
+}
+
+/**
+ * 设置资源前置条件服务
+ * 用新的前置资源列表替换原有前置条件；前置资源需属于同一课程，且不能形成循环依赖
+ * 传入空列表表示取消全部前置条件
+ */
+export async function setResourcePrerequisitesService(
+  teacherId: number,
+  resourceId: number,
+  requiredResourceIds: number[]
+): Promise<ResourcePrerequisiteInfo[]> {
+  const resource = await getManageableResource(teacherId, resourceId);
+
+  const requiredIds = [...new Set(requiredResourceIds)];
+  if (requiredIds.includes(resourceId)) {
+    throw new Error('A resource cannot be its own prerequisite');
+  }
+
+  for (const requiredId of requiredIds) {
+    const required = await getResource({ resourceId: requiredId });
+    if (!required) {
+      throw new Error(`Prerequisite resource ${requiredId} not found`);
+    }
+    if (required.courseId !== resource.courseId) {
+      throw new Error('Prerequisite resources must belong to the same course');
+    }
+  }
+
+  // 检查循环依赖：从新的前置资源出发，沿已有前置条件无法回到当前资源
+  const graph = new Map<number, number[]>();
+  for (const item of await getResourcePrerequisiteList({ courseId: resource.courseId })) {
+    if (item.resourceId === resourceId) continue;
+    graph.set(item.resourceId!, [...(graph.get(item.resourceId!) || []), item.requiredResourceId!]);
+  }
+  const visited = new Set<number>();
+  const stack = [...requiredIds];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === resourceId) {
+      throw new Error('Prerequisites cannot form a cycle');
+    }
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(graph.get(current) || []));
+  }
+
+  await replaceResourcePrerequisites(resourceId, requiredIds);
+  return await getResourcePrerequisiteList({ resourceId });
+}
+
+/**
+ * 获取资源前置条件列表服务
+ */
+export async function getResourcePrerequisiteListService(resourceId: number): Promise<ResourcePrerequisiteInfo[]> {
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  return await getResourcePrerequisiteList({ resourceId });
+}
@@ -4,6 +4,7 @@ import { getCourse } from '../models/courseModel';
 import { getUser } from '../models/userModel';
 import { createResourceAudit } from '../models/auditRecordModel';
 import { ROLE_TEACHER } from '../middlewares/roleMiddleware';
+import { assertResourceAccess, checkResourceAccessList } from './resourceAccessService';
 
 /**
  * 创建资源服务
@@ -76,10 +77,12 @@ export async function updateResourceService(
     throw new Error('Only the resource owner can update the resource');
   }
 
-  // 更新资源（不允许修改 ownerId 和 courseId）
+  // 更新资源（不允许修改 ownerId 和 courseId；章节和排序通过 arrangeResource 调整）
   const updateData = { ...data };
   delete updateData.ownerId;
   delete updateData.courseId;
+  delete updateData.chapterId;
+  delete updateData.sortOrder;
 
   return await putResource(resourceId, updateData);
 }
@@ -87,23 +90,43 @@ export async function updateResourceService(
 /**
  * 获取资源列表服务
  * 支持按条件筛选和分页
+ * 当前用户无权访问的资源（校内/付费）不返回 ipfsHash
  */
 export async function getResourceListService(
+  userId: number,
   params: Partial<ResourceInfo>,
   page: number = 1,
   pageSize: number = 10
 ): Promise<{ records: ResourceInfo[]; total: number }> {
-  return await getResourceList(params, page, pageSize);
+  const user = await getUser({ userId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const result = await getResourceList(params, page, pageSize);
+
+  const denials = await checkResourceAccessList(user, result.records);
+  const records = result.records.map(resource => denials.has(resource.resourceId!) ? { ...resource, ipfsHash: undefined } : resource);
+
+  return { records, total: result.total };
 }
 
 /**
  * 获取资源详情服务
- * 根据资源ID获取资源信息
+ * 根据资源ID获取资源信息，校验当前用户的访问权限（accessScope）
  */
-export async function getResourceService(resourceId: number): Promise<ResourceInfo> {
+export async function getResourceService(userId: number, resourceId: number): Promise<ResourceInfo> {
+  const user = await getUser({ userId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
   const resource = await getResource({ resourceId });
   if (!resource) {
     throw new Error('Resource not found');
   }
+
+  await assertResourceAccess(user, resource);
+
   return resource;
 }
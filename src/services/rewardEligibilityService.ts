@@ -0,0 +1,92 @@
+import { RewardEligibilityDenial, RewardIneligibleReason } from '../types/rewardEligibilityType';
+import { getLearningRecord } from '../models/learningRecordModel';
+import { getResource } from '../models/resourceModel';
+import { isLearningRecordFlagged } from './learningRecordService';
+
+/**
+ * 奖励资格规则
+ * 满足条件返回 null，否则返回拒绝原因
+ */
+type RewardEligibilityRule = (userId: number, relatedId: number) => Promise<RewardIneligibleReason | null>;
+
+const REASON_MESSAGES: Record<RewardIneligibleReason, string> = {
+  record_not_found: 'Learning record not found',
+  not_completed: 'Learning is not completed yet',
+  learning_flagged: 'Learning record is flagged and pending teacher review',
+  resource_not_found: 'Resource not found',
+  not_resource_owner: 'Only the resource owner can claim this reward',
+  resource_not_approved: 'Resource has not passed audit',
+  review_not_submitted: 'Review has not been submitted',
+  review_hidden: 'Review is hidden and not eligible for reward',
+  unsupported_reward_type: 'Unsupported rewardType',
+};
+
+/**
+ * 奖励资格不满足错误
+ * 携带结构化的拒绝详情，controller 捕获后返回 403
+ */
+export class RewardIneligibleError extends Error {
+  denial: RewardEligibilityDenial;
+
+  constructor(denial: RewardEligibilityDenial) {
+    super(REASON_MESSAGES[denial.reason]);
+    this.name = 'RewardIneligibleError';
+    this.denial = denial;
+  }
+}
+
+const rewardEligibilityRules = new Map<number, RewardEligibilityRule>([
+  // 学习完成奖励：学习记录存在、已完成且未被标记异常
+  [0, async (userId, relatedId) => {
+    const record = await getLearningRecord({ studentId: userId, resourceId: relatedId });
+    if (!record) return 'record_not_found';
+    if (record.isCompleted !== 1) return 'not_completed';
+    if (isLearningRecordFlagged(record)) return 'learning_flagged';
+    return null;
+  }],
+  // 资源上传奖励：资源属于当前用户且已通过审核（已审核/已发布）
+  [1, async (userId, relatedId) => {
+    const resource = await getResource({ resourceId: relatedId });
+    if (!resource) return 'resource_not_found';
+    if (resource.ownerId !== userId) return 'not_resource_owner';
+    if (resource.status !== 1 && resource.status !== 2) return 'resource_not_approved';
+    return null;
+  }],
+  // 评价参与奖励：已对该资源提交评价，且评价未被隐藏
+  [2, async (userId, relatedId) => {
+    const record = await getLearningRecord({ studentId: userId, resourceId: relatedId });
+    if (!record) return 'record_not_found';
+    if (!record.review || !record.review.trim() || !record.rating) return 'review_not_submitted';
+    if (record.isVisible === 0) return 'review_hidden';
+    return null;
+  }],
+]);
+
+/**
+ * 检查用户是否满足奖励领取条件
+ * @returns 满足返回 null，否则返回拒绝详情
+ */
+export async function checkRewardEligibility(
+  userId: number,
+  rewardType: number,
+  relatedId: number
+): Promise<RewardEligibilityDenial | null> {
+  const rule = rewardEligibilityRules.get(rewardType);
+  const reason = rule ? await rule(userId, relatedId) : 'unsupported_reward_type';
+  return reason ? { rewardType, relatedId, reason } : null;
+}
+
+/**
+ * 断言用户满足奖励领取条件
+ * 不满足时抛出 RewardIneligibleError
+ */
+export async function assertRewardEligibility(
+  userId: number,
+  rewardType: number,
+  relatedId: number
+): Promise<void> {
+  const denial = await checkRewardEligibility(userId, rewardType, relatedId);
+  if (denial) {
+    throw new RewardIneligibleError(denial);
+  }
+}
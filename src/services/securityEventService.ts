@@ -0,0 +1,29 @@
+import { SecurityEventInfo, SecurityEventInfoQueryParams } from '../types/securityEventType';
+import { postSecurityEvent, getSecurityEventList } from '../models/securityEventModel';
+
+// 安全事件类型
+export const SECURITY_EVENT_REFRESH_TOKEN_REUSE = 'refresh_token_reuse';
+
+/**
+ * 记录安全事件
+ * 记录失败只打印日志，不影响触发事件的主流程
+ */
+export async function recordSecurityEventService(data: Partial<SecurityEventInfo>): Promise<void> {
+  try {
+    await postSecurityEvent(data);
+  } catch (error) {
+    console.error('Record security event failed:', error);
+  }
+}
+
+/**
+ * 获取安全事件列表服务
+ * 支持按条件筛选和分页
+ */
+export async function getSecurityEventListService(
+  params: SecurityEventInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: SecurityEventInfo[]; total: number }> {
+  return await getSecurityEventList(params, page, pageSize);
+}
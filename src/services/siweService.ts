@@ -0,0 +1,202 @@
+import { ethers } from 'ethers';
+import { UserInfo } from '../types/userType';
+import { SessionClientMeta } from '../types/userSessionType';
+import { SiwePurpose } from '../types/siweType';
+import { getUser, updateUserWallet } from '../models/userModel';
+import { buildSiweMessage, parseSiweMessage, recoverSiweSigner } from '../utils/siwe';
+import { generateSiweNonce, saveSiweNonce, getSiweNonce, consumeSiweNonce } from '../utils/siweNonceStore';
+import { createLoginSessionService } from './userService';
+import { USER_STATUS_DISABLED } from '../middlewares/authMiddleware';
+
+// SIWE 配置（domain/uri 需与前端站点一致，钱包会展示给用户确认）
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN || 'localhost:6600';
+const SIWE_URI = process.env.SIWE_URI || 'http://localhost:6600';
+const SIWE_NONCE_TTL_MS = Number(process.env.SIWE_NONCE_TTL_MS || 5 * 60 * 1000);
+
+const SIWE_STATEMENTS: Record<SiwePurpose, (username?: string) => string> = {
+  login: () => 'Sign in to MOOCChain with your wallet.',
+  bind: (username) => `Bind this wallet to MOOCChain account ${username}.`,
+  unbind: (username) => `Unbind this wallet from MOOCChain account ${username}.`,
+};
+
+/**
+ * 创建 SIWE 签名消息服务
+ * 生成 nonce 并构建 EIP-4361 消息，前端使用钱包对消息进行 personal_sign 签名
+ * bind/unbind 需要传入当前登录用户 userId，消息中会包含该用户的用户名
+ */
+export async function createSiweMessageService(params: {
+  walletAddress: string;
+  chainId: number;
+  purpose: SiwePurpose;
+  userId?: number;
+}): Promise<{ nonce: string; message: string; expiresAt: string }> {
+  const { chainId, purpose, userId } = params;
+
+  if (!ethers.isAddress(params.walletAddress)) {
+    throw new Error('Invalid walletAddress');
+  }
+  const walletAddress = ethers.getAddress(params.walletAddress);
+
+  const expectedChainId = process.env.BLOCKCHAIN_CHAIN_ID ? Number(process.env.BLOCKCHAIN_CHAIN_ID) : undefined;
+  if (expectedChainId !== undefined && !isNaN(expectedChainId) && expectedChainId > 0 && expectedChainId !== chainId) {
+    throw new Error('Unsupported chainId');
+  }
+
+  let user: UserInfo | null = null;
+  if (purpose !== 'login') {
+    if (!userId) {
+      throw new Error('userId is required');
+    }
+    user = await getUser({ userId });
+    if (!user) {
+      throw new Error('User not found');
+    }
+  }
+
+  const nonce = generateSiweNonce();
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + SIWE_NONCE_TTL_MS);
+  const message = buildSiweMessage({
+    domain: SIWE_DOMAIN,
+    address: walletAddress,
+    statement: SIWE_STATEMENTS[purpose](user?.username),
+    uri: SIWE_URI,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: expiresAt.toISOString(),
+  });
+
+  await saveSiweNonce({
+    nonce,
+    purpose,
+    walletAddress,
+    chainId,
+    userId: user?.userId,
+    message,
+    expiresAtMs: expiresAt.getTime(),
+  });
+
+  return { nonce, message, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * 验证 SIWE 签名
+ * 校验消息格式、nonce（存在、未过期、用途和用户匹配）、domain/uri/chainId/地址一致，
+ * 并确认签名者为消息中的钱包地址，验证通过后消费 nonce
+ * @returns 验证通过的钱包地址（EIP-55 校验和格式）
+ */
+async function verifySiweSignature(
+  message: string,
+  signature: string,
+  purpose: SiwePurpose,
+  userId?: number
+): Promise<string> {
+  const fields = parseSiweMessage(message);
+  if (!fields) {
+    throw new Error('Invalid SIWE message');
+  }
+
+  const record = await getSiweNonce(fields.nonce);
+  if (!record) {
+    throw new Error('Nonce not found or expired, please request a new message');
+  }
+  if (record.purpose !== purpose) {
+    throw new Error('SIWE message purpose mismatch');
+  }
+  if (purpose !== 'login' && record.userId !== userId) {
+    throw new Error('SIWE message was issued for another user');
+  }
+
+  if (
+    fields.domain !== SIWE_DOMAIN ||
+    fields.uri !== SIWE_URI ||
+    fields.chainId !== record.chainId ||
+    fields.address.toLowerCase() !== record.walletAddress.toLowerCase()
+  ) {
+    throw new Error('SIWE message does not match the issued message');
+  }
+  if (fields.expirationTime && new Date(fields.expirationTime).getTime() <= Date.now()) {
+    throw new Error('SIWE message expired');
+  }
+
+  const recovered = recoverSiweSigner(message, signature);
+  if (!recovered || recovered.toLowerCase() !== record.walletAddress.toLowerCase()) {
+    throw new Error('Signature does not match walletAddress');
+  }
+
+  // 消费 nonce（并发请求只有一个能成功）
+  if (!(await consumeSiweNonce(fields.nonce))) {
+    throw new Error('Nonce already used');
+  }
+
+  return record.walletAddress;
+}
+
+/**
+ * 钱包登录服务
+ * 验证 SIWE 签名后，使用已绑定该钱包的账号登录
+ */
+export async function siweLoginService(
+  message: string,
+  signature: string,
+  meta: SessionClientMeta = {}
+): Promise<{ user: UserInfo; accessToken: string; refreshToken: string }> {
+  const walletAddress = await verifySiweSignature(message, signature, 'login');
+
+  const user = await getUser({ walletAddress });
+  if (!user || user.walletBound !== 1) {
+    throw new Error('No account is bound to this wallet');
+  }
+  if (user.status === USER_STATUS_DISABLED) {
+    throw new Error('Account is disabled');
+  }
+
+  return createLoginSessionService(user, meta);
+}
+
+/**
+ * 绑定钱包服务
+ * 验证 SIWE 签名后将钱包绑定到当前账号，并设置 walletBound=1
+ * 一个钱包只能绑定一个账号
+ */
+export async function bindWalletService(
+  userId: number,
+  message: string,
+  signature: string
+): Promise<UserInfo> {
+  const walletAddress = await verifySiweSignature(message, signature, 'bind', userId);
+
+  const boundUser = await getUser({ walletAddress });
+  if (boundUser && boundUser.userId !== userId && boundUser.walletBound === 1) {
+    throw new Error('Wallet is already bound to another account');
+  }
+
+  return await updateUserWallet(userId, walletAddress);
+}
+
+/**
+ * 解绑钱包服务
+ * 需要当前绑定的钱包签名确认，解绑后清空钱包地址并设置 walletBound=0
+ */
+export async function unbindWalletService(
+  userId: number,
+  message: string,
+  signature: string
+): Promise<UserInfo> {
+  const user = await getUser({ userId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (user.walletBound !== 1 || !user.walletAddress) {
+    throw new Error('No wallet is bound to this account');
+  }
+
+  const walletAddress = await verifySiweSignature(message, signature, 'unbind', userId);
+  if (walletAddress.toLowerCase() !== user.walletAddress.toLowerCase()) {
+    throw new Error('Signature is not from the bound wallet');
+  }
+
+  return await updateUserWallet(userId, null);
+}
@@ -1,13 +1,40 @@
+import { ethers } from 'ethers';
 import { TokenTransactionInfo, TokenTransactionInfoQueryParams } from '../types/tokenTransactionType';
-import { postTokenTransaction, getTokenTransactionList } from '../models/tokenTransactionModel';
+import { UserInfo } from '../types/userType';
+import { postTokenTransaction, getTokenTransaction, getTokenTransactionList, putTokenTransaction } from '../models/tokenTransactionModel';
 import { getUser, putUser } from '../models/userModel';
 import { getTokenRule } from '../models/tokenRuleModel';
 import { getResource } from '../models/resourceModel';
-import { mintMOOCTokenToAddress, getMOOCTokenBalance } from '../utils/moocToken';
+import { assertRewardEligibility } from './rewardEligibilityService';
+import { getMOOCTokenBalance, getMOOCTokenTransfers } from '../utils/moocToken';
+import {
+  submitMintTransactionService,
+  TOKEN_TRANSACTION_STATUS_PENDING,
+  TOKEN_TRANSACTION_STATUS_SUBMITTED,
+  TOKEN_TRANSACTION_STATUS_CONFIRMED,
+} from './mintPipelineService';
+
+// 购买交易要求的最低区块确认数
+const PURCHASE_MIN_CONFIRMATIONS = Number(process.env.PURCHASE_MIN_CONFIRMATIONS || 1);
+
+/**
+ * 校验钱包地址为用户已绑定的钱包
+ * 钱包只能通过 SIWE 签名验证绑定（walletBound=1），未绑定或地址不一致则拒绝
+ */
+function assertBoundWallet(user: UserInfo, walletAddress: string) {
+  if (user.walletBound !== 1 || !user.walletAddress) {
+    throw new Error('Wallet is not bound, please bind your wallet first');
+  }
+  if (user.walletAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+    throw new Error('Wallet address does not match the bound wallet');
+  }
+}
 
 /**
  * 创建代币奖励交易记录服务
- * 用于记录用户获得代币奖励的交易
+ * 用于记录用户获得代币奖励的交易，mint 前会按奖励类型校验领取资格
+ * 交易记录先以待提交状态原子写入（同一奖励只能有一条未失败的记录），再提交 mint 交易，不等待链上确认
+ * 返回的记录状态为 pending 或 submitted，前端通过交易状态接口轮询确认结果
  */
 export async function createTokenRewardTransactionService(
   userId: number,
@@ -27,13 +54,14 @@ export async function createTokenRewardTransactionService(
     throw new Error('Token rule not found or disabled');
   }
 
-  // 检查该用户是否已经领取过该资源的该类型奖励（防止重复领取）
+  // 检查该用户是否已经领取过该资源的该类型奖励（防止重复领取，失败的记录不计入）
   const existingReward = await getTokenTransactionList(
     {
       userId,
       transactionType: 0, // 奖励
       rewardType,
       relatedId,
+      statuses: [TOKEN_TRANSACTION_STATUS_PENDING, TOKEN_TRANSACTION_STATUS_SUBMITTED, TOKEN_TRANSACTION_STATUS_CONFIRMED],
     },
     1,
     1
@@ -42,61 +70,64 @@ export async function createTokenRewardTransactionService(
     throw new Error('Reward already claimed');
   }
 
-  // 验证钱包地址
-  if (!walletAddress) {
-    throw new Error('Wallet address is required');
+  // 按奖励类型校验领取资格（学习已完成 / 资源归属且已审核 / 已提交评价）
+  if (!relatedId) {
+    throw new Error('relatedId is required');
   }
+  await assertRewardEligibility(userId, rewardType, relatedId);
 
-  // 获取当前余额（从合约获取）
-  let balanceBefore: number;
-  try {
-    const balanceStr = await getMOOCTokenBalance(walletAddress);
-    balanceBefore = parseFloat(balanceStr);
-  } catch (error) {
-    console.error('Get balance error:', error);
-    // 如果获取失败，使用数据库中的余额
-    balanceBefore = Number(user.tokenBalance || 0);
+  // 验证钱包地址：必须是通过 SIWE 签名绑定的钱包
+  if (!walletAddress) {
+    throw new Error('Wallet address is required');
   }
+  assertBoundWallet(user, walletAddress);
 
   const rewardAmount = Number(rule.rewardAmount || 0);
-  const balanceAfter = balanceBefore + rewardAmount;
-
-  // 使用管理员私钥代为 mint 代币到用户地址
-  let transactionHash: string;
-  try {
-    transactionHash = await mintMOOCTokenToAddress(walletAddress, String(rewardAmount));
-  } catch (error) {
-    console.error('Mint token error:', error);
-    throw new Error(error instanceof Error ? error.message : 'Failed to mint token');
-  }
+  const dbBalance = Number(user.tokenBalance || 0);
 
-  // 创建交易记录
+  // 先原子写入待提交的交易记录占住领取名额（并发领取只有一个能写入），再做链上查询等耗时操作
   const transactionData: Partial<TokenTransactionInfo> = {
     userId,
     transactionType: 0, // 奖励
     rewardType,
     amount: rewardAmount,
-    balanceBefore,
-    balanceAfter,
+    balanceBefore: dbBalance,
+    balanceAfter: dbBalance + rewardAmount,
     relatedId,
-    transactionHash,
+    status: TOKEN_TRANSACTION_STATUS_PENDING,
+    walletAddress,
   };
 
   const transaction = await postTokenTransaction(transactionData);
+  if (!transaction) {
+    throw new Error('Reward already claimed');
+  }
 
-  // 更新用户余额和钱包地址
-  const updateData: Partial<{ tokenBalance: number; walletAddress: string }> = { tokenBalance: balanceAfter };
-  if (walletAddress) {
-    updateData.walletAddress = walletAddress;
+  // 获取当前余额（从合约获取），获取失败时保留数据库中的余额
+  try {
+    const balanceBefore = parseFloat(await getMOOCTokenBalance(walletAddress));
+    await putTokenTransaction(transaction.transactionId!, {
+      balanceBefore,
+      balanceAfter: balanceBefore + rewardAmount,
+    });
+  } catch (error) {
+    console.error('Get balance error:', error);
   }
-  await putUser(userId, updateData);
 
-  return transaction;
+  // 立即尝试提交，失败时由后台任务重试；用户余额在链上确认后更新
+  try {
+    await submitMintTransactionService(transaction);
+  } catch (error) {
+    console.error('Submit mint transaction error:', error);
+  }
+
+  return (await getTokenTransaction({ transactionId: transaction.transactionId })) || transaction;
 }
 
 /**
  * 创建代币消费交易记录服务
  * 用于记录用户购买资源等消费行为
+ * 记录前会从链上读取交易回执，校验 MOOCToken Transfer 事件的付款方、收款方（资源所有者）和金额（资源价格）
  */
 export async function createTokenConsumeTransactionService(
   userId: number,
@@ -111,16 +142,23 @@ export async function createTokenConsumeTransactionService(
     throw new Error('User not found');
   }
 
-  // 验证钱包地址
+  // 验证钱包地址：必须是通过 SIWE 签名绑定的钱包
   if (!walletAddress) {
     throw new Error('Wallet address is required');
   }
+  assertBoundWallet(user, walletAddress);
 
   // 验证交易哈希
   if (!transactionHash) {
     throw new Error('Transaction hash is required');
   }
 
+  // 同一笔链上交易只能记录一次（即使关联的资源不同）
+  const existingHash = await getTokenTransactionList({ transactionHash }, 1, 1);
+  if (existingHash.records.length > 0) {
+    throw new Error('Transaction hash already recorded');
+  }
+
   // 检查该用户是否已经对该资源进行过该类型的消费（防止重复消费）
   const existingConsume = await getTokenTransactionList(
     {
@@ -136,27 +174,38 @@ export async function createTokenConsumeTransactionService(
     throw new Error('Consume already recorded');
   }
 
-  // 如果是购买资源，检查资源是否存在
-  if (consumeType === 0 && relatedId) {
-    const resource = await getResource({ resourceId: relatedId });
-    if (!resource) {
-      throw new Error('Resource not found');
-    }
+  // 目前仅支持购买资源（consumeType = 0）的链上校验
+  if (consumeType !== 0 || !relatedId) {
+    throw new Error('Unsupported consume type');
+  }
 
-    // 检查资源是否为付费资源
-    if (!resource.price || Number(resource.price) <= 0) {
-      throw new Error('Resource is not a paid resource');
-    }
+  // 检查资源是否存在且为付费资源
+  const resource = await getResource({ resourceId: relatedId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  if (!resource.price || Number(resource.price) <= 0) {
+    throw new Error('Resource is not a paid resource');
+  }
+  const consumeAmount = Number(resource.price);
+
+  // 收款方为资源所有者的钱包地址
+  const owner = resource.ownerId ? await getUser({ userId: resource.ownerId }) : null;
+  if (!owner || !owner.walletAddress) {
+    throw new Error('Resource owner wallet address not found');
   }
 
-  // 获取消费金额
-  let consumeAmount = 0;
-  if (consumeType === 0 && relatedId) {
-    const resource = await getResource({ resourceId: relatedId });
-    if (!resource || !resource.price) {
-      throw new Error('Resource price not found');
-    }
-    consumeAmount = Number(resource.price);
+  // 链上校验：交易需已确认，且包含 付款钱包 -> 资源所有者 的 MOOCToken 转账，金额等于资源价格
+  const transfers = await getMOOCTokenTransfers(transactionHash, PURCHASE_MIN_CONFIRMATIONS);
+  const expectedValue = ethers.parseUnits(String(resource.price), 18);
+  const ownerWalletAddress = owner.walletAddress.toLowerCase();
+  const matchedTransfer = transfers.find((transfer) =>
+    transfer.from.toLowerCase() === walletAddress.toLowerCase() &&
+    transfer.to.toLowerCase() === ownerWalletAddress &&
+    transfer.value === expectedValue
+  );
+  if (!matchedTransfer) {
+    throw new Error('Transaction does not match resource purchase (sender, recipient or amount mismatch)');
   }
 
   // 获取当前余额（从合约获取，转账后的余额）
@@ -183,16 +232,19 @@ export async function createTokenConsumeTransactionService(
     balanceAfter,
     relatedId, // 关联ID（资源ID、证书ID等）
     transactionHash,
+    status: TOKEN_TRANSACTION_STATUS_CONFIRMED, // 链上转账已确认
+    walletAddress,
   };
 
+  // 唯一性在写入时原子判断（并发提交同一笔链上交易只有一个能记录）
   const transaction = await postTokenTransaction(transactionData);
-
-  // 更新用户余额和钱包地址
-  const updateData: Partial<{ tokenBalance: number; walletAddress: string }> = { tokenBalance: balanceAfter };
-  if (walletAddress) {
-    updateData.walletAddress = walletAddress;
+  if (!transaction) {
+    const recordedHash = await getTokenTransactionList({ transactionHash }, 1, 1);
+    throw new Error(recordedHash.records.length > 0 ? 'Transaction hash already recorded' : 'Consume already recorded');
   }
-  await putUser(userId, updateData);
+
+  // 更新用户余额
+  await putUser(userId, { tokenBalance: balanceAfter });
 
   return transaction;
 }
@@ -208,3 +260,12 @@ export async function getTokenTransactionListService(
 ): Promise<{ records: TokenTransactionInfo[]; total: number }> {
   return await getTokenTransactionList(params, page, pageSize);
 }
+
+
+/**
+ * 获取代币交易记录服务
+ * 用于查询交易状态（pending / submitted / confirmed / failed）
+ */
+export async function getTokenTransactionService(transactionId: number): Promise<TokenTransactionInfo | null> {
+  return await getTokenTransaction({ transactionId });
+}
@@ -1,7 +1,9 @@
 import bcrypt from 'bcrypt';
 import { UserInfo } from '../types/userType';
+import { SessionClientMeta } from '../types/userSessionType';
 import { getUser, postUser, putUser, getUserList, putUserByAdmin } from '../models/userModel';
-import { signAccessToken, signRefreshToken, storeRefreshTokenForUser } from './authService';
+import { signAccessToken, signRefreshToken, storeRefreshTokenForUser, createTokenFamilyId, revokeUserAccessTokensService } from './authService';
+import { USER_STATUS_DISABLED } from '../middlewares/authMiddleware';
 import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
 
 /**
@@ -9,7 +11,8 @@ import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
  * 验证用户名密码，生成双 Token 并存储 refreshToken
  */
 export async function loginService(
-  data: UserInfo
+  data: UserInfo,
+  meta: SessionClientMeta = {}
 ): Promise<{ user: UserInfo; accessToken: string; refreshToken: string }> {
   if (!data.username || !data.password) {
     throw new Error('Username and password are required');
@@ -32,17 +35,33 @@ export async function loginService(
     throw new Error('Invalid username or password');
   }
 
+  if (userWithPassword.status === USER_STATUS_DISABLED) {
+    throw new Error('Account is disabled');
+  }
+
   // 登录成功后，不向后续流程暴露密码字段
   const { password: _password, ...safeUser } = userWithPassword;
 
-  const accessToken = signAccessToken({ userId: safeUser.userId!, username: safeUser.username!, role: safeUser.role });
-  const refreshToken = signRefreshToken({ userId: safeUser.userId!, username: safeUser.username!, role: safeUser.role });
+  return createLoginSessionService(safeUser, meta);
+}
 
-  // 存储 refresh token
-  storeRefreshTokenForUser(refreshToken, safeUser.userId!, safeUser.username!);
+/**
+ * 创建登录会话
+ * 生成双 Token 并存储 refreshToken（用户名密码登录与钱包登录共用）
+ */
+export async function createLoginSessionService(
+  user: UserInfo,
+  meta: SessionClientMeta = {}
+): Promise<{ user: UserInfo; accessToken: string; refreshToken: string }> {
+  const accessToken = signAccessToken({ userId: user.userId!, username: user.username!, role: user.role, tv: user.tokenVersion ?? 0 });
+  const familyId = createTokenFamilyId();
+  const refreshToken = signRefreshToken({ userId: user.userId!, username: user.username!, role: user.role, fid: familyId });
+
+  // 存储 refresh token（创建登录会话，即新的 token 家族）
+  await storeRefreshTokenForUser(refreshToken, user.userId!, user.username!, familyId, meta);
 
   return {
-    user: safeUser,
+    user,
     accessToken,
     refreshToken,
   };
@@ -197,5 +216,14 @@ export async function adminUpdateUserService(
     console.error('Admin update user error:', error);
     throw error;
   }
+
+  // 角色、密码、禁用状态变更后，旧 access token 立即失效
+  const roleChanged = data.role !== undefined && data.role !== existingUser.role;
+  const passwordChanged = data.password !== undefined;
+  const disabled = data.status === USER_STATUS_DISABLED && existingUser.status !== USER_STATUS_DISABLED;
+  if (roleChanged || passwordChanged || disabled) {
+    await revokeUserAccessTokensService(userId, { revokeSessions: passwordChanged || disabled });
+  }
+
   return result;
 }
\ No newline at end of file
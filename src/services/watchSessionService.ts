@@ -0,0 +1,197 @@
+import { WatchSessionInfo, WatchSessionInfoQueryParams, WatchViolationReason } from '../types/watchSessionType';
+import { SessionClientMeta } from '../types/userSessionType';
+import {
+  postWatchSession,
+  getWatchSession,
+  getActiveWatchSessionList,
+  expireWatchSessions,
+  putWatchSession,
+  getWatchSessionList,
+} from '../models/watchSessionModel';
+import { getResource } from '../models/resourceModel';
+import { getUser } from '../models/userModel';
+import { ROLE_ADMIN } from '../middlewares/roleMiddleware';
+import { assertResourceAccess } from './resourceAccessService';
+import { assertResourceUnlocked } from './resourcePrerequisiteService';
+import { assertCourseEnrollment } from './courseEnrollmentService';
+
+/*
+ * 观看会话（音视频学习时间防作弊）
+ * - 学生开始播放时创建会话，之后每次上报学习时间都是该会话的一次心跳
+ * - 心跳上报的时长不能超过距上次心跳的实际时间（允许少量误差），同一学生同时只能有一个进行中的会话
+ * - 超过超时时间没有心跳的会话自动结束，需要重新开始会话
+ * - 异常心跳不计入学习时长，并由学习记录服务标记学习记录，等待教师审核
+ */
+const WATCH_SESSION_TIMEOUT_MS = Number(process.env.WATCH_SESSION_TIMEOUT_MS || 60 * 1000);
+const WATCH_HEARTBEAT_TOLERANCE_SECONDS = Number(process.env.WATCH_HEARTBEAT_TOLERANCE_SECONDS || 2);
+
+// 会话状态
+export const WATCH_SESSION_STATUS_ACTIVE = 0;
+export const WATCH_SESSION_STATUS_ENDED = 1;
+export const WATCH_SESSION_STATUS_EXPIRED = 2;
+
+export const WATCH_VIOLATION_MESSAGES: Record<WatchViolationReason, string> = {
+  heartbeat_too_fast: 'Reported time exceeds the time elapsed since the last heartbeat',
+  concurrent_sessions: 'Another watch session is active at the same time',
+  duplicate_heartbeat: 'Heartbeat was submitted concurrently for the same session',
+};
+
+/**
+ * 开始观看会话服务
+ * 资源需为已发布的音视频资源、有访问权限、已选课且在课程时间内、前置资源已完成；同一学生已有进行中且未超时的会话时拒绝
+ */
+export async function startWatchSessionService(
+  studentId: number,
+  resourceId: number,
+  clientMeta: SessionClientMeta = {}
+): Promise<WatchSessionInfo> {
+  const user = await getUser({ userId: studentId });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const resource = await getResource({ resourceId });
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+  if (resource.status !== 2) {
+    throw new Error('Resource is not published');
+  }
+
+  await assertResourceAccess(user, resource);
+  await assertCourseEnrollment(user, resource);
+
+  if (resource.resourceType !== 2 && resource.resourceType !== 3) {
+    throw new Error('Only video and audio resources can start a watch session');
+  }
+
+  // 前置资源未完成时不能开始学习
+  await assertResourceUnlocked(user, resource);
+
+  const staleBefore = new Date(Date.now() - WATCH_SESSION_TIMEOUT_MS);
+  await expireWatchSessions(studentId, staleBefore);
+
+  const session = await postWatchSession(
+    {
+      studentId,
+      resourceId,
+      ipAddress: clientMeta.ipAddress,
+      userAgent: clientMeta.userAgent,
+    },
+    staleBefore
+  );
+  if (!session) {
+    throw new Error('Another watch session is already active. Please end it first');
+  }
+  return session;
+}
+
+/**
+ * 结束观看会话服务
+ * 只能结束自己进行中的会话
+ */
+export async function endWatchSessionService(
+  studentId: number,
+  sessionId: number
+): Promise<WatchSessionInfo> {
+  const session = await getWatchSession({ sessionId });
+  if (!session || session.studentId !== studentId) {
+    throw new Error('Watch session not found');
+  }
+  if (session.status !== WATCH_SESSION_STATUS_ACTIVE) {
+    throw new Error('Watch session has ended');
+  }
+
+  await putWatchSession(
+    sessionId,
+    { status: WATCH_SESSION_STATUS_ENDED, endedAt: new Date() },
+    { status: WATCH_SESSION_STATUS_ACTIVE, lastHeartbeatAt: session.lastHeartbeatAt! }
+  );
+
+  return (await getWatchSession({ sessionId }))!;
+}
+
+/**
+ * 校验观看会话心跳
+ * 会话不存在、已结束或已超时时抛出错误；
+ * 上报时长超过距上次心跳的实际时间、存在其他进行中的会话或并发重复提交时返回异常原因（不计入学习时长，也不推进心跳时间）
+ * @returns 异常原因，正常心跳返回 null
+ */
+export async function checkWatchHeartbeat(
+  studentId: number,
+  resourceId: number,
+  sessionId: number,
+  timeIncrement: number
+): Promise<WatchViolationReason | null> {
+  const session = await getWatchSession({ sessionId });
+  if (!session || session.studentId !== studentId) {
+    throw new Error('Watch session not found');
+  }
+  if (session.resourceId !== resourceId) {
+    throw new Error('Watch session does not belong to this resource');
+  }
+  if (session.status !== WATCH_SESSION_STATUS_ACTIVE) {
+    throw new Error('Watch session has ended. Please start a new session');
+  }
+
+  const now = new Date();
+  const lastHeartbeatAt = new Date(session.lastHeartbeatAt!);
+  const elapsedMs = now.getTime() - lastHeartbeatAt.getTime();
+  if (elapsedMs > WATCH_SESSION_TIMEOUT_MS) {
+    await putWatchSession(
+      sessionId,
+      { status: WATCH_SESSION_STATUS_EXPIRED, endedAt: now },
+      { status: WATCH_SESSION_STATUS_ACTIVE, lastHeartbeatAt: session.lastHeartbeatAt! }
+    );
+    throw new Error('Watch session expired. Please start a new session');
+  }
+
+  let violation: WatchViolationReason | null = null;
+
+  const staleBefore = new Date(now.getTime() - WATCH_SESSION_TIMEOUT_MS);
+  const otherSessions = (await getActiveWatchSessionList(studentId, staleBefore))
+    .filter(item => item.sessionId !== sessionId);
+  if (otherSessions.length > 0) {
+    violation = 'concurrent_sessions';
+  } else if (timeIncrement > elapsedMs / 1000 + WATCH_HEARTBEAT_TOLERANCE_SECONDS) {
+    violation = 'heartbeat_too_fast';
+  } else {
+    const updated = await putWatchSession(
+      sessionId,
+      {
+        heartbeatCount: (session.heartbeatCount || 0) + 1,
+        reportedTime: (session.reportedTime || 0) + timeIncrement,
+        lastHeartbeatAt: now,
+      },
+      { status: WATCH_SESSION_STATUS_ACTIVE, lastHeartbeatAt: session.lastHeartbeatAt! }
+    );
+    if (updated > 0) {
+      return null;
+    }
+    violation = 'duplicate_heartbeat';
+  }
+
+  await putWatchSession(sessionId, {
+    violationCount: (session.violationCount || 0) + 1,
+    lastViolation: violation,
+  });
+  return violation;
+}
+
+/**
+ * 获取观看会话列表服务
+ * 管理员可查询全部会话，教师只能查询自己资源下的会话
+ */
+export async function getWatchSessionListService(
+  userId: number,
+  role: number | undefined,
+  params: WatchSessionInfoQueryParams,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ records: WatchSessionInfo[]; total: number }> {
+  const query: WatchSessionInfoQueryParams = { ...params };
+  if (role !== ROLE_ADMIN) {
+    query.teacherId = userId;
+  }
+  return await getWatchSessionList(query, page, pageSize);
+}
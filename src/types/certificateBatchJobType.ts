@@ -0,0 +1,31 @@
+import { CertificateIneligibleReason } from './certificateEligibilityType';
+
+// 批量颁发证书中单个学生的处理结果
+// issued:已颁发，skipped:已跳过（已持有证书、角色不符或不满足领取条件），failed:颁发失败
+export interface CertificateBatchJobResultItem {
+  studentId: number;                  // 学生用户ID
+  studentName: string;                // 学生姓名
+  status: 'issued' | 'skipped' | 'failed'; // 处理结果
+  certificateId?: number;             // 颁发的证书ID（issued 时返回）
+  reason?: string;                    // 跳过或失败原因
+  ineligibleReasons?: CertificateIneligibleReason[]; // 不满足领取条件的原因（skipped 时返回）
+}
+
+// 批量颁发证书任务类型
+export interface CertificateBatchJobInfo {
+  jobId?: number;                     // 任务ID，自增
+  courseId?: number;                  // 课程ID
+  createdBy?: number;                 // 创建任务的用户ID（教师或管理员）
+  status?: number;                    // 任务状态（0:排队中，1:执行中，2:已完成，3:失败）
+  totalStudents?: number;             // 待处理学生总数
+  processedCount?: number;            // 已处理学生数
+  issuedCount?: number;               // 已颁发数
+  skippedCount?: number;              // 已跳过数
+  failedCount?: number;               // 失败数
+  results?: CertificateBatchJobResultItem[]; // 各学生处理结果
+  errorMessage?: string | null;       // 任务失败原因
+  startedAt?: Date | null;            // 开始执行时间
+  finishedAt?: Date | null;           // 完成时间
+  createdAt?: Date;                   // 创建时间
+  updatedAt?: Date;                   // 更新时间
+}
@@ -0,0 +1,42 @@
+import { ResourceAccessDenial } from './resourceAccessType';
+
+// 证书领取资格不满足原因
+// certificate_not_available:课程未启用证书，no_published_resources:课程没有已发布的资源，
+// completion_not_met:课程完成度未达到要求，learning_time_not_met:学习时长未达到要求，
+// learning_flagged:存在被标记异常且未通过教师审核的学习记录，no_completed_resource:没有已完成的资源（证书需关联已完成的学习记录）
+export type CertificateIneligibleReason =
+  | 'certificate_not_available'
+  | 'no_published_resources'
+  | 'completion_not_met'
+  | 'learning_time_not_met'
+  | 'learning_flagged'
+  | 'no_completed_resource';
+
+// 证书领取资格中单个资源的学习情况
+export interface CertificateEligibilityResourceItem {
+  resourceId: number;                 // 资源ID
+  title: string;                      // 资源标题
+  resourceType: number | null;        // 资源类型（0:其他，1:文档，2:音频，3:视频）
+  recordId: number | null;            // 学习记录ID（未学习为 null）
+  progress: number;                   // 学习进度（0-100，已完成按 100 计）
+  learningTime: number;               // 学习时长（秒）
+  isCompleted: number;                // 是否完成（0:未完成，1:已完成）
+  completedAt: Date | null;           // 完成时间
+  flagStatus: number;                 // 异常标记状态（0:正常，1:待教师审核，2:审核通过，3:审核确认作弊）
+  accessDenial: ResourceAccessDenial | null; // 无权访问时的拒绝详情（需购买或校内资源，学习记录不计入完成度）
+}
+
+// 证书领取资格（课程维度）
+export interface CertificateEligibilityInfo {
+  courseId: number;                   // 课程ID
+  eligible: boolean;                  // 是否满足领取条件
+  reasons: CertificateIneligibleReason[]; // 不满足的原因（满足时为空）
+  completionRequirement: number;      // 完成要求（课程完成度百分比）
+  minLearningTime: number;            // 最低学习时长（秒）
+  completionPercentage: number;       // 课程完成度（已发布资源学习进度的平均值，保留两位小数）
+  totalLearningTime: number;          // 课程总学习时长（秒）
+  completedResources: number;         // 已完成的资源数
+  totalResources: number;             // 已发布的资源数
+  learningRecordId: number | null;    // 最近完成的学习记录ID（证书关联的学习记录）
+  resources: CertificateEligibilityResourceItem[]; // 各资源学习情况
+}
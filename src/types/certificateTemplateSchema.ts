@@ -23,11 +23,18 @@ export interface BackgroundConfig {
   type: 'image' | 'color' | 'gradient';   // 背景类型（image:图片，color:颜色，gradient:渐变）
   src?: string;                           // 图片URL（type为image时必需）
   color?: string;                         // 颜色值（type为color时必需）
-  gradient?: {                            // 渐变配置（type为gradient时必需）
-    type: 'linear' | 'radial';            // 渐变类型（linear:线性，radial:径向）
-    colors: string[];                     // 颜色数组
-    direction?: string;                   // 渐变方向
-  };
+  gradient?: GradientConfig;              // 渐变配置（type为gradient时必需）
+}
+
+// 渐变配置
+export interface GradientConfig {
+  type: 'linear' | 'radial';              // 渐变类型（linear:线性，radial:径向）
+  colors: string[];                       // 颜色数组（至少 2 个）
+  stops?: number[];                       // 颜色位置（0~1 递增，与 colors 一一对应，不配置则均匀分布）
+  direction?: string;                     // 线性渐变方向（to top / to right / to bottom right 等关键字，或 "45deg"）
+  angle?: number;                         // 线性渐变角度（度，0 为自下而上，90 为自左向右，优先于 direction）
+  center?: FieldPosition;                 // 径向渐变中心（像素，默认画布中心）
+  radius?: number;                        // 径向渐变半径（像素，默认中心到最远角的距离）
 }
 
 // 字段位置
@@ -60,24 +67,34 @@ export interface ShapeStyle {
   coinColor?: string;             // 代币颜色（用于勋章周围的代币）
 }
 
+// 二维码样式
+export interface QrCodeStyle {
+  color?: string;                 // 二维码颜色（默认黑色）
+  backgroundColor?: string;       // 二维码背景颜色（默认白色）
+  margin?: number;                // 静区宽度（模块数，默认 2）
+}
+
 // 字段类型
-export type FieldType = 'text' | 'date' | 'image' | 'shape';
+export type FieldType = 'text' | 'date' | 'image' | 'shape' | 'qrcode';
 
 // 字段配置
 export interface FieldConfig {
   key: string;                     // 字段唯一标识
-  type: FieldType;                 // 字段类型（text:文本，date:日期，image:图片，shape:形状）
+  type: FieldType;                 // 字段类型（text:文本，date:日期，image:图片，shape:形状，qrcode:二维码）
   label?: string;                  // 字段标签（用于显示）
   defaultValue?: string;           // 默认值
   position: FieldPosition;         // 字段位置
-  style: TextStyle | ShapeStyle;   // 文本样式或形状样式
+  style: TextStyle | ShapeStyle | QrCodeStyle; // 文本样式、形状样式或二维码样式
   format?: DateFormat;             // 日期格式（type为date时使用）
   src?: string;                    // 图片URL（type为image时使用）
   width?: number;                  // 图片宽度（type为image时使用）
   height?: number;                 // 图片高度（type为image时使用）
   shape?: 'medal' | 'circle' | 'star' | 'geometric' | 'line' | 'badge'; // 形状类型（type为shape时使用）
-  size?: number;                   // 形状大小（type为shape时使用）
+  size?: number;                   // 形状大小 / 二维码边长（type为shape或qrcode时使用）
   badgeType?: 'certified' | 'graduation' | 'official'; // 徽章类型（shape为badge时使用）
+  points?: number;                 // 星形角数（shape为star时使用，默认 5）
+  innerRadius?: number;            // 星形内外半径比（shape为star时使用，0~1，默认 0.5）
+  rotation?: number;               // 星形旋转角度（度，shape为star时使用，默认 0 即一个角朝上）
 }
 
 // 证书模板JSON结构
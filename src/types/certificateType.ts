@@ -10,7 +10,25 @@ export interface CertificateInfo {
   courseId?: number;              // 关联的课程ID
   learningRecordId?: number;      // 关联的学习记录ID
   ipfsHash?: string;              // 证书IPFS存储哈希值
+  pdfIpfsHash?: string;           // 证书PDF的IPFS存储哈希值（打印版，矢量文字）
+  metadataIpfsHash?: string;      // 证书NFT元数据JSON的IPFS哈希（tokenURI 为 ipfs://{metadataIpfsHash}）
   transactionHash?: string;       // 区块链交易哈希
+  verificationCode?: string;      // 证书验证码（公开验证证书真伪，编码在证书二维码中）
+  nftMintStatus?: number | null;  // 后端托管铸造状态（null:未托管铸造，0:待提交，1:已提交，2:已确认，3:失败）
+  nftMintWalletAddress?: string | null; // 托管铸造的接收钱包地址
+  nftMintTransactionHash?: string | null; // 托管铸造当前交易哈希（确认后同时写入 transactionHash）
+  nftMintTxNonce?: number | null; // 托管铸造交易 nonce
+  nftMintRawTransaction?: string | null; // 托管铸造已签名交易（用于重新广播）
+  nftMintAttempts?: number;       // 托管铸造提交次数
+  nftMintError?: string | null;   // 托管铸造最近一次错误信息
+  nftMintSubmittedAt?: Date | null; // 托管铸造最近一次提交时间
+  isRevoked?: number;             // 是否已撤销（0:有效，1:已撤销）
+  revokedReason?: string | null;  // 撤销原因
+  revokedBy?: number | null;      // 撤销人用户ID
+  revokedAt?: Date | null;        // 撤销时间
+  revokeTransactionHash?: string | null; // 撤销时销毁 NFT 的交易哈希
+  nftBurnPending?: number;        // 是否待销毁 NFT（0:否，1:撤销时 NFT 尚未铸造确认或销毁失败，由托管铸造后台任务销毁）
+  predecessorCertificateId?: number | null; // 被补发替代的原证书ID（补发证书关联其前一张证书）
   createdAt?: Date;               // 创建时间
   // 完整的用户信息对象
   student?: UserInfo | null;      // 学生完整信息
@@ -21,6 +39,24 @@ export interface CertificateInfo {
 // 证书查询参数类型（用于列表查询）
 export interface CertificateInfoQueryParams extends Partial<CertificateInfo> {
   teacherName?: string;           // 教师姓名（用于模糊查询，通过 JOIN teacher 表）
+  isRevoked?: number;             // 是否已撤销（用于筛选）
   startDate?: string;             // 开始日期（用于日期范围筛选，基于 createdAt）
   endDate?: string;               // 结束日期（用于日期范围筛选，基于 createdAt）
-}
\ No newline at end of file
+}
+
+// 证书公开验证信息（无需登录，仅包含可公开的证书信息）
+export interface CertificateVerificationInfo {
+  certificateId: number;          // 证书ID
+  verificationCode: string | null; // 证书验证码
+  studentName: string;            // 学生姓名
+  courseName: string;             // 课程名称
+  teacherName: string;            // 教师姓名
+  teacherSchool: string;          // 教师学校
+  issuedAt: Date;                 // 颁发时间
+  ipfsHash: string | null;        // 证书IPFS存储哈希值
+  certificateNftId: string | null; // 证书NFT ID（区块链tokenId）
+  transactionHash: string | null; // 区块链交易哈希
+  isRevoked: boolean;             // 是否已撤销
+  revokedAt: Date | null;         // 撤销时间
+  replacedByCertificateId: number | null; // 补发的新证书ID（证书被补发替代时返回）
+}
@@ -0,0 +1,63 @@
+import { ResourceInfo } from './resourceType';
+
+// 课程章节类型
+export interface CourseChapterInfo {
+  chapterId?: number;         // 章节ID，自增
+  courseId?: number;          // 所属课程ID，外键
+  title?: string;             // 章节标题
+  description?: string | null; // 章节描述
+  sortOrder?: number;         // 课程内排序（升序）
+  createdAt?: Date;           // 创建时间
+  updatedAt?: Date;           // 更新时间
+}
+
+// 资源前置条件类型（学习 resourceId 前需先完成 requiredResourceId）
+export interface ResourcePrerequisiteInfo {
+  prerequisiteId?: number;    // 前置条件ID，自增
+  resourceId?: number;        // 资源ID，外键
+  requiredResourceId?: number; // 需先完成的资源ID，外键
+  createdAt?: Date;           // 创建时间
+  // 前置资源信息
+  requiredResource?: ResourceInfo | null; // 前置资源基本信息
+}
+
+// 资源锁定详情（随 403 响应返回给前端）
+export interface ResourceLockDenial {
+  resourceId: number;                 // 被锁定的资源ID
+  unmetPrerequisites: { resourceId: number; title: string }[]; // 尚未完成的前置资源
+}
+
+// 课程大纲中的资源
+export interface CourseOutlineResourceItem {
+  resourceId: number;                 // 资源ID
+  title: string;                      // 资源标题
+  resourceType: number | null;        // 资源类型（0:其他，1:文档，2:音频，3:视频）
+  duration: number | null;            // 音视频时长（秒）
+  sortOrder: number;                  // 章节内排序
+  status: number | null;              // 资源状态（0:待审核，1:已审核，2:已发布，3:已下架）
+  prerequisites: number[];            // 前置资源ID列表
+  isLocked: boolean;                  // 是否锁定（存在未完成的前置资源）
+  unmetPrerequisites: number[];       // 尚未完成的前置资源ID列表
+  progress: number;                   // 学习进度（0-100）
+  isCompleted: number;                // 是否完成（0:未完成，1:已完成）
+}
+
+// 课程大纲中的章节
+export interface CourseOutlineChapterItem {
+  chapterId: number | null;           // 章节ID（未分章节的资源为 null）
+  title: string;                      // 章节标题
+  description: string | null;         // 章节描述
+  sortOrder: number;                  // 课程内排序
+  completedResources: number;         // 已完成的资源数
+  totalResources: number;             // 资源数
+  resources: CourseOutlineResourceItem[]; // 章节内资源（按排序）
+}
+
+// 课程大纲（章节树及当前用户的锁定/完成状态）
+export interface CourseOutlineInfo {
+  courseId: number;                   // 课程ID
+  courseName: string;                 // 课程名称
+  completedResources: number;         // 已完成的资源数
+  totalResources: number;             // 资源数
+  chapters: CourseOutlineChapterItem[]; // 章节列表（按排序，未分章节的资源在最后）
+}
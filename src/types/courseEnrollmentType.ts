@@ -0,0 +1,34 @@
+import { UserInfo } from './userType';
+import { CourseInfo } from './courseType';
+
+// 选课记录类型（学生与课程一对一，退课后重新选课复用同一条记录）
+export interface CourseEnrollmentInfo {
+  enrollmentId?: number;          // 选课记录ID，自增
+  courseId?: number;              // 课程ID，外键
+  studentId?: number;             // 学生用户ID，外键
+  status?: number;                // 选课状态（1:已选课，2:已退课）
+  enrolledAt?: Date;              // 最近一次选课时间
+  droppedAt?: Date | null;        // 最近一次退课时间
+  createdAt?: Date;               // 创建时间
+  updatedAt?: Date;               // 更新时间
+  // 学生信息
+  student?: UserInfo | null;      // 学生完整信息
+  // 课程信息
+  course?: CourseInfo | null;     // 课程完整信息
+}
+
+// 选课记录查询参数类型（用于列表查询）
+export interface CourseEnrollmentInfoQueryParams extends Partial<CourseEnrollmentInfo> {
+  studentName?: string;           // 学生姓名（用于模糊查询，通过 JOIN user 表）
+}
+
+// 学习受限原因（not_enrolled:未选课，course_not_started:课程未开始，course_ended:课程已结束）
+export type CourseEnrollmentDenyReason = 'not_enrolled' | 'course_not_started' | 'course_ended';
+
+// 学习受限详情（随 403 响应返回给前端）
+export interface CourseEnrollmentDenial {
+  courseId: number;                       // 课程ID
+  reason: CourseEnrollmentDenyReason;     // 受限原因
+  courseStartTime?: Date;                 // 开课时间
+  courseEndTime?: Date;                   // 结课时间
+}
@@ -9,6 +9,10 @@ export interface CourseInfo {
   coverImage?: string;        // 课程封面图片
   courseStartTime?: Date;     // 开课时间
   courseEndTime?: Date;       // 结课时间
+  capacity?: number | null;   // 课程容量（最多选课人数，null 表示不限）
+  enrollmentStartTime?: Date | null;  // 选课开始时间（null 表示课程发布后即可选课）
+  enrollmentEndTime?: Date | null;    // 选课截止时间（null 表示结课前均可选课）
+  enrolledCount?: number;     // 已选课人数（查询时统计）
   status?: number;            // 课程状态（0:待审核，1:已审核，2:已发布，3:已下架）
   createdAt?: Date;           // 创建时间
   updatedAt?: Date;           // 更新时间
@@ -12,4 +12,18 @@ export type ClaimRewardSign = {
   nonce: string; // uint256 string
   deadline: number; // unix seconds
   createdAtMs: number;
-};
\ No newline at end of file
+};
+/**
+ * EIP-712 领取奖励 typed data（返回给前端签名）
+ */
+export type ClaimRewardTypedData = {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+};
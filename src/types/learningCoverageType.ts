@@ -0,0 +1,30 @@
+import { WatchedSegment } from './learningRecordType';
+
+// 学生对单个音视频资源的观看覆盖情况（用于播放器续播）
+export interface LearningCoverageInfo {
+  resourceId: number;                 // 资源ID
+  recordId: number | null;            // 学习记录ID（未学习为 null）
+  duration: number | null;            // 资源时长（秒，未知为 null）
+  progress: number;                   // 学习进度（0-100）
+  learningTime: number;               // 累计学习时长（秒）
+  coveredSeconds: number;             // 已观看区间覆盖的时长（秒，不含重复观看）
+  lastPosition: number | null;        // 最近一次上报的播放位置（秒）
+  segments: WatchedSegment[];         // 已观看区间（合并后，按起点排序）
+}
+
+// 资源观看分布中的单个时间段
+export interface ResourceCoverageBucket {
+  start: number;                      // 时间段起点（秒）
+  end: number;                        // 时间段终点（秒）
+  viewers: number;                    // 观看过该时间段（覆盖过半）的学生数
+  retention: number;                  // 观看比例（viewers / totalLearners，百分比，保留两位小数）
+}
+
+// 资源观看分布统计（教师查看观看流失点）
+export interface ResourceCoverageStatsInfo {
+  resourceId: number;                 // 资源ID
+  duration: number;                   // 资源时长（秒）
+  totalLearners: number;              // 上报过播放位置的学生数
+  averageCoverage: number;            // 平均覆盖率（百分比，保留两位小数）
+  buckets: ResourceCoverageBucket[];  // 各时间段观看人数
+}
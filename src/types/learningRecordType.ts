@@ -1,6 +1,12 @@
 import { UserInfo } from './userType';
 import { ResourceInfo } from './resourceType';
 
+// 已观看区间（播放位置，单位秒）
+export interface WatchedSegment {
+  start: number;                  // 起始位置（秒）
+  end: number;                    // 结束位置（秒）
+}
+
 // 学习记录类型
 export interface LearningRecordInfo {
   recordId?: number;              // 学习记录ID，自增
@@ -8,11 +14,19 @@ export interface LearningRecordInfo {
   resourceId?: number;            // 教育资源ID，外键
   progress?: number;              // 学习进度（0-100，完成百分比）
   learningTime?: number;          // 学习时长（秒）
+  watchedSegments?: WatchedSegment[] | null; // 已观看区间（合并后的覆盖图，音视频资源心跳上报播放位置时记录）
+  lastPosition?: number | null;   // 最近一次上报的播放位置（秒，用于续播）
   review?: string;                // 学习评价内容
   rating?: number;                // 评价分数（1-5星）
   isCompleted?: number;           // 是否完成（0:未完成，1:已完成）
   isVisible?: number;             // 评价是否可见（0:隐藏，1:显示）
   completedAt?: Date;             // 完成时间
+  flagStatus?: number;            // 异常标记状态（0:正常，1:待教师审核，2:审核通过，3:审核确认作弊）
+  flagReason?: string | null;     // 最近一次异常原因
+  flaggedAt?: Date | null;        // 最近一次标记时间
+  flagReviewedBy?: number | null; // 审核教师用户ID
+  flagReviewedAt?: Date | null;   // 审核时间
+  flagReviewNote?: string | null; // 审核备注
   createdAt?: Date;               // 创建时间
   updatedAt?: Date;               // 更新时间
   // 学生信息
@@ -26,4 +40,6 @@ export interface LearningRecordInfoQueryParams extends Partial<LearningRecordInf
   teacherName?: string;           // 教师姓名（用于模糊查询，通过 JOIN course 和 user 表）
   resourceType?: number;          // 资源类型（用于筛选，通过 JOIN resource 表）
   isCompleted?: number;           // 是否完成（用于筛选）
+  courseId?: number;              // 课程ID（用于筛选，通过 JOIN resource 表）
+  teacherId?: number;             // 资源所有者（教师）ID（用于筛选，通过 JOIN resource 表）
 }
@@ -0,0 +1,22 @@
+// ERC-721 元数据属性
+export interface NftMetadataAttribute {
+  trait_type: string;             // 属性名称
+  value: string | number;         // 属性值
+  display_type?: 'date' | 'number' | 'string'; // 展示类型（date 时 value 为 Unix 时间戳，秒）
+}
+
+// ERC-721 元数据 JSON（OpenSea 等市场通用格式）
+export interface NftMetadata {
+  name: string;                   // NFT 名称
+  description: string;            // NFT 描述
+  image?: string;                 // 图片地址（ipfs://CID）
+  external_url?: string;          // 外部链接（如证书验证页面）
+  attributes: NftMetadataAttribute[]; // 属性列表
+}
+
+// 元数据生成结果
+export interface NftMetadataResult {
+  metadata: NftMetadata;          // 元数据 JSON
+  metadataIpfsHash: string;       // 元数据 JSON 的 IPFS 哈希
+  tokenURI: string;               // 铸造 NFT 时使用的 tokenURI（ipfs://CID）
+}
@@ -0,0 +1,11 @@
+// 资源访问拒绝原因（purchase_required:需购买，campus_only:仅限校内）
+export type ResourceAccessDenyReason = 'purchase_required' | 'campus_only';
+
+// 资源访问拒绝详情（随 403 响应返回给前端）
+export interface ResourceAccessDenial {
+  resourceId: number;                 // 资源ID
+  accessScope: number;                // 访问范围（0:公开，1:校内，2:付费）
+  reason: ResourceAccessDenyReason;   // 拒绝原因
+  price?: number;                     // 资源价格（reason 为 purchase_required 时返回）
+  schoolName?: string;                // 资源所属学校（reason 为 campus_only 时返回）
+}
@@ -10,7 +10,11 @@ export interface ResourceInfo {
   title?: string;             // 资源标题
   description?: string;       // 资源描述
   ipfsHash?: string;          // IPFS存储哈希值，唯一
+  metadataIpfsHash?: string;  // NFT 元数据 JSON 的 IPFS 哈希（tokenURI 为 ipfs://{metadataIpfsHash}）
   resourceType?: number;      // 资源类型（0:其他，1:文档，2:音频，3:视频）
+  duration?: number | null;   // 音视频时长（秒，上传时服务端解析，其他类型为 null）
+  chapterId?: number | null;  // 所属章节ID（未分章节为 null）
+  sortOrder?: number;         // 章节内排序（升序）
   price?: number;             // 资源价格（代币数量，0表示免费）
   accessScope?: number;       // 访问范围（0:公开，1:校内，2:付费）
   status?: number;            // 资源状态（0:待审核，1:已审核，2:已发布，3:已下架）
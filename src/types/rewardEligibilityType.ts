@@ -0,0 +1,21 @@
+// 奖励资格拒绝原因
+// record_not_found:无学习记录，not_completed:学习未完成，learning_flagged:学习记录异常待审核，resource_not_found:资源不存在，
+// not_resource_owner:非资源所有者，resource_not_approved:资源未通过审核，
+// review_not_submitted:未提交评价，review_hidden:评价已被隐藏，unsupported_reward_type:不支持的奖励类型
+export type RewardIneligibleReason =
+  | 'record_not_found'
+  | 'not_completed'
+  | 'learning_flagged'
+  | 'resource_not_found'
+  | 'not_resource_owner'
+  | 'resource_not_approved'
+  | 'review_not_submitted'
+  | 'review_hidden'
+  | 'unsupported_reward_type';
+
+// 奖励资格拒绝详情（随 403 响应返回给前端）
+export interface RewardEligibilityDenial {
+  rewardType: number;                 // 奖励类型（0:学习完成，1:资源上传，2:评价参与）
+  relatedId: number;                  // 关联ID（资源ID）
+  reason: RewardIneligibleReason;     // 拒绝原因
+}
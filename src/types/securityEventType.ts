@@ -0,0 +1,21 @@
+import { UserInfo } from './userType';
+
+// 安全事件信息类型
+export interface SecurityEventInfo {
+  eventId?: number;             // 事件ID，自增
+  userId?: number;              // 用户ID，外键
+  eventType?: string;           // 事件类型（refresh_token_reuse: refresh token 重放）
+  familyId?: string;            // 关联的 token 家族ID
+  userAgent?: string;           // 触发事件请求的 User-Agent
+  ipAddress?: string;           // 触发事件请求的 IP
+  detail?: string;              // 事件详情
+  createdAt?: Date;             // 创建时间
+  // 用户信息
+  user?: UserInfo | null;       // 用户完整信息
+}
+
+// 安全事件查询参数类型
+export interface SecurityEventInfoQueryParams extends Partial<SecurityEventInfo> {
+  startDate?: string;          // 开始日期（用于日期范围筛选）
+  endDate?: string;            // 结束日期（用于日期范围筛选）
+}
@@ -0,0 +1,33 @@
+/**
+ * SIWE（EIP-4361）用途
+ * login=钱包登录, bind=绑定钱包, unbind=解绑钱包
+ */
+export type SiwePurpose = 'login' | 'bind' | 'unbind';
+
+/**
+ * SIWE 消息字段（EIP-4361）
+ */
+export type SiweMessageFields = {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string; // ISO 8601
+};
+
+/**
+ * SIWE nonce 存储数据
+ */
+export type SiweNonce = {
+  nonce: string;
+  purpose: SiwePurpose;
+  walletAddress: string; // EIP-55 校验和地址
+  chainId: number;
+  userId?: number; // bind/unbind 时为发起请求的用户
+  message: string; // 服务端生成的待签名消息
+  expiresAtMs: number;
+};
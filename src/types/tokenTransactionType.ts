@@ -11,14 +11,25 @@ export interface TokenTransactionInfo {
   balanceBefore?: number;       // 交易前余额
   balanceAfter?: number;        // 交易后余额
   relatedId?: number;           // 关联ID（资源ID、证书ID等）
-  transactionHash?: string;     // 区块链交易哈希
+  transactionHash?: string | null; // 区块链交易哈希（奖励交易为当前提交的 mint 交易哈希）
+  status?: number;              // 交易状态（0:待提交，1:已提交，2:已确认，3:失败）
+  walletAddress?: string;       // 链上钱包地址（奖励的接收地址 / 消费的付款地址）
+  txNonce?: number | null;      // mint 交易 nonce（替换交易沿用同一 nonce）
+  rawTransaction?: string | null; // 已签名的 mint 交易（用于重新广播和替换）
+  previousHashes?: string | null; // 被替换的历史交易哈希（逗号分隔）
+  attemptCount?: number;        // 提交/替换次数
+  errorMessage?: string | null; // 最近一次错误信息
+  submittedAt?: Date | null;    // 最近一次提交时间
+  confirmedAt?: Date | null;    // 确认时间
   createdAt?: Date;             // 创建时间
+  updatedAt?: Date;             // 更新时间
   // 用户信息
   user?: UserInfo | null;       // 用户完整信息
 }
 
 // 代币交易记录查询参数类型
 export interface TokenTransactionInfoQueryParams extends Partial<TokenTransactionInfo> {
+  statuses?: number[];         // 交易状态列表（用于按多个状态筛选）
   startDate?: string;          // 开始日期（用于日期范围筛选）
   endDate?: string;            // 结束日期（用于日期范围筛选）
 }
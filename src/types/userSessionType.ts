@@ -0,0 +1,21 @@
+// 用户登录会话类型（每次登录对应一个会话，即一个 refresh token 家族）
+export interface UserSessionInfo {
+  sessionId?: number;         // 会话ID，自增
+  userId?: number;            // 用户ID，外键
+  username?: string;          // 用户名
+  familyId?: string;          // token 家族ID（同一次登录轮换出的 refresh token 属于同一家族）
+  tokenHash?: string;         // 当前 refresh token 的 SHA-256 哈希（不存储明文）
+  userAgent?: string;         // 登录设备 User-Agent
+  ipAddress?: string;         // 登录/最近使用 IP
+  expiresAt?: Date;           // 过期时间
+  lastUsedAt?: Date;          // 最近使用时间（刷新 token 时更新）
+  createdAt?: Date;           // 创建时间（登录时间）
+  // 是否为当前请求所使用的会话（仅列表接口返回）
+  isCurrent?: boolean;
+}
+
+// 会话客户端信息（登录/刷新时从请求中提取）
+export interface SessionClientMeta {
+  userAgent?: string;         // User-Agent
+  ipAddress?: string;         // 客户端 IP
+}
@@ -15,6 +15,8 @@ export interface UserInfo {
   walletBound?: number;       // 钱包绑定状态（0:未绑定，1:已绑定）
   tokenBalance?: number;      // 代币余额
   schoolName?: string;        // 学校名称
+  status?: number;            // 账号状态（0:正常，1:禁用）
+  tokenVersion?: number;      // token 版本（角色/密码/状态变更时递增，旧 access token 立即失效）
   createdAt?: Date;           // 创建时间
   updatedAt?: Date;           // 更新时间
 }
@@ -0,0 +1,40 @@
+import { UserInfo } from './userType';
+import { ResourceInfo } from './resourceType';
+
+// 观看会话类型（学生开始播放音视频资源时创建，心跳上报学习时间）
+export interface WatchSessionInfo {
+  sessionId?: number;             // 会话ID，自增
+  studentId?: number;             // 学生用户ID，外键
+  resourceId?: number;            // 教育资源ID，外键
+  status?: number;                // 会话状态（0:进行中，1:已结束，2:已超时）
+  heartbeatCount?: number;        // 已接受的心跳次数
+  reportedTime?: number;          // 已计入的学习时长（秒）
+  violationCount?: number;        // 被拒绝的异常心跳次数
+  lastViolation?: string | null;  // 最近一次异常原因
+  lastHeartbeatAt?: Date;         // 最近一次心跳时间（开始时为会话开始时间）
+  startedAt?: Date;               // 会话开始时间
+  endedAt?: Date | null;          // 会话结束时间
+  ipAddress?: string | null;      // 开始会话的客户端 IP
+  userAgent?: string | null;      // 开始会话的客户端 User-Agent
+  createdAt?: Date;               // 创建时间
+  updatedAt?: Date;               // 更新时间
+  // 学生信息
+  student?: UserInfo | null;      // 学生完整信息
+  // 资源信息
+  resource?: ResourceInfo | null; // 资源完整信息
+}
+
+// 观看会话查询参数类型（用于列表查询）
+export interface WatchSessionInfoQueryParams extends Partial<WatchSessionInfo> {
+  hasViolation?: boolean;         // 只查询存在异常心跳的会话
+  courseId?: number;              // 课程ID（用于筛选，通过 JOIN resource 表）
+  teacherId?: number;             // 资源所有者（教师）ID（用于筛选，通过 JOIN resource 表）
+}
+
+// 心跳异常原因
+// heartbeat_too_fast:上报时长超过距上次心跳的实际时间，concurrent_sessions:同时存在其他进行中的观看会话，
+// duplicate_heartbeat:同一会话的心跳被并发重复提交
+export type WatchViolationReason =
+  | 'heartbeat_too_fast'
+  | 'concurrent_sessions'
+  | 'duplicate_heartbeat';
@@ -0,0 +1,46 @@
+import { parseLinearGradientAngle } from '../linearGradientAngle';
+
+describe('parseLinearGradientAngle', () => {
+  it('uses a numeric angle as is', () => {
+    expect(parseLinearGradientAngle({ angle: 45 }, 100, 100)).toBe(45);
+    expect(parseLinearGradientAngle({ angle: 45, direction: 'to left' }, 100, 100)).toBe(45);
+  });
+
+  it('rejects a non-finite angle', () => {
+    expect(parseLinearGradientAngle({ angle: NaN }, 100, 100)).toBeNull();
+    expect(parseLinearGradientAngle({ angle: Infinity }, 100, 100)).toBeNull();
+  });
+
+  it('defaults to top to bottom', () => {
+    expect(parseLinearGradientAngle({}, 100, 100)).toBe(180);
+  });
+
+  it('parses deg directions', () => {
+    expect(parseLinearGradientAngle({ direction: '45deg' }, 100, 100)).toBe(45);
+    expect(parseLinearGradientAngle({ direction: '-90.5deg' }, 100, 100)).toBe(-90.5);
+  });
+
+  it('parses side keywords ignoring case and extra spaces', () => {
+    expect(parseLinearGradientAngle({ direction: 'to top' }, 100, 100)).toBe(0);
+    expect(parseLinearGradientAngle({ direction: 'to right' }, 100, 100)).toBe(90);
+    expect(parseLinearGradientAngle({ direction: ' To   Bottom ' }, 100, 100)).toBe(180);
+    expect(parseLinearGradientAngle({ direction: 'to left' }, 100, 100)).toBe(270);
+  });
+
+  it('computes corner keywords from the canvas aspect ratio', () => {
+    expect(parseLinearGradientAngle({ direction: 'to top right' }, 100, 100)).toBeCloseTo(45);
+    expect(parseLinearGradientAngle({ direction: 'to right bottom' }, 100, 100)).toBeCloseTo(135);
+    expect(parseLinearGradientAngle({ direction: 'to bottom left' }, 100, 100)).toBeCloseTo(225);
+    expect(parseLinearGradientAngle({ direction: 'to left top' }, 100, 100)).toBeCloseTo(315);
+
+    const cornerAngle = (Math.atan2(100, 200) * 180) / Math.PI;
+    expect(parseLinearGradientAngle({ direction: 'to top right' }, 200, 100)).toBeCloseTo(cornerAngle);
+    expect(parseLinearGradientAngle({ direction: 'to bottom right' }, 200, 100)).toBeCloseTo(180 - cornerAngle);
+  });
+
+  it('returns null for unknown directions', () => {
+    expect(parseLinearGradientAngle({ direction: 'sideways' }, 100, 100)).toBeNull();
+    expect(parseLinearGradientAngle({ direction: '45' }, 100, 100)).toBeNull();
+    expect(parseLinearGradientAngle({ direction: 'to top bottom' }, 100, 100)).toBeNull();
+  });
+});
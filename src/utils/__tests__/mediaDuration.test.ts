@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { probeMediaDuration } from '../mediaDuration';
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'media-duration-'));
+});
+
+afterAll(async () => {
+  await fs.promises.rm(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * 写入临时文件并探测时长
+ */
+async function probeBuffer(name: string, buffer: Buffer): Promise<number | null> {
+  const filePath = path.join(tempDir, name);
+  await fs.promises.writeFile(filePath, buffer);
+  return probeMediaDuration(filePath);
+}
+
+function uint32BE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+function uint32LE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function mp4Box(type: string, payload: Buffer): Buffer {
+  return Buffer.concat([uint32BE(8 + payload.length), Buffer.from(type, 'latin1'), payload]);
+}
+
+function ebmlElement(id: number[], payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(id), Buffer.from([0x80 | payload.length]), payload]);
+}
+
+function riffChunk(id: string, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(id, 'latin1'), uint32LE(payload.length), payload]);
+}
+
+describe('probeMediaDuration', () => {
+  it('reads the mvhd duration of an MP4 file', async () => {
+    const mvhd = mp4Box('mvhd', Buffer.concat([Buffer.alloc(12), uint32BE(1000), uint32BE(12500), Buffer.alloc(80)]));
+    const file = Buffer.concat([
+      mp4Box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1')),
+      mp4Box('mdat', Buffer.alloc(64)),
+      mp4Box('moov', mvhd),
+    ]);
+    expect(await probeBuffer('video.mp4', file)).toBe(12.5);
+  });
+
+  it('reads a version 1 mvhd box', async () => {
+    const duration = Buffer.alloc(8);
+    duration.writeBigUInt64BE(BigInt(90000 * 3));
+    const mvhd = mp4Box('mvhd', Buffer.concat([Buffer.from([1, 0, 0, 0]), Buffer.alloc(16), uint32BE(90000), duration, Buffer.alloc(80)]));
+    const file = Buffer.concat([mp4Box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1')), mp4Box('moov', mvhd)]);
+    expect(await probeBuffer('video-v1.mov', file)).toBe(3);
+  });
+
+  it('reads the Segment Info duration of a WebM file', async () => {
+    const duration = Buffer.alloc(8);
+    duration.writeDoubleBE(5000);
+    const info = ebmlElement([0x15, 0x49, 0xa9, 0x66], Buffer.concat([
+      ebmlElement([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40])),
+      ebmlElement([0x44, 0x89], duration),
+    ]));
+    const file = Buffer.concat([
+      ebmlElement([0x1a, 0x45, 0xdf, 0xa3], Buffer.from([0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d])),
+      ebmlElement([0x18, 0x53, 0x80, 0x67], info),
+    ]);
+    expect(await probeBuffer('video.webm', file)).toBe(5);
+  });
+
+  it('divides the WAV data size by the byte rate', async () => {
+    const fmt = Buffer.alloc(16);
+    fmt.writeUInt16LE(1, 0);
+    fmt.writeUInt16LE(1, 2);
+    fmt.writeUInt32LE(8000, 4);
+    fmt.writeUInt32LE(8000, 8);
+    fmt.writeUInt16LE(1, 12);
+    fmt.writeUInt16LE(8, 14);
+    const body = Buffer.concat([Buffer.from('WAVE', 'latin1'), riffChunk('fmt ', fmt), riffChunk('data', Buffer.alloc(16000))]);
+    expect(await probeBuffer('audio.wav', riffChunk('RIFF', body))).toBe(2);
+  });
+
+  it('uses the actual data size of a truncated WAV file', async () => {
+    const fmt = Buffer.alloc(16);
+    fmt.writeUInt32LE(8000, 8);
+    const data = Buffer.concat([Buffer.from('data', 'latin1'), uint32LE(32000), Buffer.alloc(8000)]);
+    const body = Buffer.concat([Buffer.from('WAVE', 'latin1'), riffChunk('fmt ', fmt), data]);
+    expect(await probeBuffer('truncated.wav', riffChunk('RIFF', body))).toBe(1);
+  });
+
+  it('multiplies the AVI frame duration by the frame count', async () => {
+    const avih = Buffer.alloc(56);
+    avih.writeUInt32LE(40000, 0);
+    avih.writeUInt32LE(250, 16);
+    const hdrl = riffChunk('LIST', Buffer.concat([Buffer.from('hdrl', 'latin1'), riffChunk('avih', avih)]));
+    const file = riffChunk('RIFF', Buffer.concat([Buffer.from('AVI ', 'latin1'), hdrl]));
+    expect(await probeBuffer('video.avi', file)).toBe(10);
+  });
+
+  it('estimates a CBR MP3 duration from the bitrate', async () => {
+    // MPEG1 Layer III, 128kbps, 44.1kHz
+    const file = Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x00]), Buffer.alloc(15996)]);
+    expect(await probeBuffer('audio.mp3', file)).toBe(1);
+  });
+
+  it('skips the ID3v2 tag of an MP3 file', async () => {
+    const id3 = Buffer.concat([Buffer.from('ID3', 'latin1'), Buffer.from([4, 0, 0, 0, 0, 0, 10]), Buffer.alloc(10)]);
+    const file = Buffer.concat([id3, Buffer.from([0xff, 0xfb, 0x90, 0x00]), Buffer.alloc(15996)]);
+    expect(await probeBuffer('tagged.mp3', file)).toBe(1);
+  });
+
+  it('reads the frame count from the Xing header of a VBR MP3 file', async () => {
+    const frame = Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x00]), Buffer.alloc(32), Buffer.from('Xing', 'latin1'), uint32BE(1), uint32BE(441)]);
+    const file = Buffer.concat([frame, Buffer.alloc(8192)]);
+    expect(await probeBuffer('vbr.mp3', file)).toBeCloseTo(441 * 1152 / 44100);
+  });
+
+  it('reads the last granule position of an Opus file', async () => {
+    const opusHead = Buffer.concat([Buffer.from('OpusHead', 'latin1'), Buffer.from([1, 2]), Buffer.from([0x38, 0x01]), uint32LE(48000), Buffer.alloc(3)]);
+    const firstPage = Buffer.concat([Buffer.from('OggS', 'latin1'), Buffer.from([0, 2]), Buffer.alloc(20), Buffer.from([1, opusHead.length]), opusHead]);
+    const granule = Buffer.alloc(8);
+    granule.writeBigInt64LE(BigInt(48000 * 3 + 312));
+    const lastPage = Buffer.concat([Buffer.from('OggS', 'latin1'), Buffer.from([0, 4]), granule, Buffer.alloc(13)]);
+    expect(await probeBuffer('audio.opus', Buffer.concat([firstPage, Buffer.alloc(1024), lastPage]))).toBe(3);
+  });
+
+  it('estimates an AAC ADTS duration from the average frame length', async () => {
+    // 44.1kHz，每帧 100 字节
+    const frame = Buffer.concat([Buffer.from([0xff, 0xf1, 0x50, 0x80, 0x0c, 0x9f, 0xfc]), Buffer.alloc(93)]);
+    const file = Buffer.concat(Array.from({ length: 20 }, () => frame));
+    expect(await probeBuffer('audio.aac', file)).toBeCloseTo(20 * 1024 / 44100);
+  });
+
+  it('returns null for unknown formats', async () => {
+    expect(await probeBuffer('document.txt', Buffer.from('just some plain text content'))).toBeNull();
+  });
+
+  it('returns null when the file cannot be read', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await probeMediaDuration(path.join(tempDir, 'missing.mp4'))).toBeNull();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,29 @@
+import { computeMediaProgress, WATCHED_SEGMENT_END_TOLERANCE_SECONDS } from '../mediaProgress';
+
+describe('computeMediaProgress', () => {
+  it('returns null when the resource duration is unknown', () => {
+    expect(computeMediaProgress({ duration: null }, 100)).toBeNull();
+    expect(computeMediaProgress({ duration: 0 }, 100)).toBeNull();
+    expect(computeMediaProgress({}, 100, [{ start: 0, end: 10 }])).toBeNull();
+  });
+
+  it('uses learning time when no segments were reported', () => {
+    expect(computeMediaProgress({ duration: 200 }, 99)).toBe(49);
+    expect(computeMediaProgress({ duration: 200 }, 50, [])).toBe(25);
+    expect(computeMediaProgress({ duration: 200 }, 500)).toBe(100);
+  });
+
+  it('uses covered seconds of watched segments instead of learning time', () => {
+    expect(computeMediaProgress({ duration: 100 }, 1000, [{ start: 0, end: 30 }, { start: 50, end: 60 }])).toBe(40);
+  });
+
+  it('does not count coverage beyond the duration', () => {
+    expect(computeMediaProgress({ duration: 100 }, 0, [{ start: 50, end: 150 }])).toBe(50);
+  });
+
+  it('treats coverage within the end tolerance as complete', () => {
+    const end = 100 - WATCHED_SEGMENT_END_TOLERANCE_SECONDS;
+    expect(computeMediaProgress({ duration: 100 }, 0, [{ start: 0, end }])).toBe(100);
+    expect(computeMediaProgress({ duration: 100 }, 0, [{ start: 0, end: end - 0.5 }])).toBe(Math.floor(end - 0.5));
+  });
+});
@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+import { buildSiweMessage, parseSiweMessage, recoverSiweSigner } from '../siwe';
+import type { SiweMessageFields } from '../../types/siweType';
+
+const wallet = new ethers.Wallet('0x' + '11'.repeat(32));
+
+const fields: SiweMessageFields = {
+  domain: 'mooc.example.com',
+  address: wallet.address,
+  statement: 'Sign in to MOOCChain',
+  uri: 'https://mooc.example.com',
+  version: '1',
+  chainId: 31337,
+  nonce: 'abc123',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-01T00:05:00.000Z',
+};
+
+describe('buildSiweMessage', () => {
+  it('builds an EIP-4361 message', () => {
+    expect(buildSiweMessage(fields)).toBe([
+      `mooc.example.com wants you to sign in with your Ethereum account:`,
+      wallet.address,
+      '',
+      'Sign in to MOOCChain',
+      '',
+      'URI: https://mooc.example.com',
+      'Version: 1',
+      'Chain ID: 31337',
+      'Nonce: abc123',
+      'Issued At: 2026-01-01T00:00:00.000Z',
+      'Expiration Time: 2026-01-01T00:05:00.000Z',
+    ].join('\n'));
+  });
+
+  it('omits the optional statement and expiration time', () => {
+    const message = buildSiweMessage({ ...fields, statement: undefined, expirationTime: undefined });
+    expect(message.split('\n')).toEqual([
+      `mooc.example.com wants you to sign in with your Ethereum account:`,
+      wallet.address,
+      '',
+      'URI: https://mooc.example.com',
+      'Version: 1',
+      'Chain ID: 31337',
+      'Nonce: abc123',
+      'Issued At: 2026-01-01T00:00:00.000Z',
+    ]);
+  });
+});
+
+describe('parseSiweMessage', () => {
+  it('parses a built message back into its fields', () => {
+    expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields);
+  });
+
+  it('parses a message without statement and expiration time', () => {
+    const minimal = { ...fields, statement: undefined, expirationTime: undefined };
+    expect(parseSiweMessage(buildSiweMessage(minimal))).toEqual(minimal);
+  });
+
+  it('rejects a message with a wrong header', () => {
+    const message = buildSiweMessage(fields).replace('wants you to sign in', 'wants you to log in');
+    expect(parseSiweMessage(message)).toBeNull();
+  });
+
+  it('rejects an invalid address', () => {
+    expect(parseSiweMessage(buildSiweMessage({ ...fields, address: '0x1234' }))).toBeNull();
+  });
+
+  it('rejects an unsupported version or chain id', () => {
+    expect(parseSiweMessage(buildSiweMessage({ ...fields, version: '2' }))).toBeNull();
+    expect(parseSiweMessage(buildSiweMessage({ ...fields, chainId: 0 }))).toBeNull();
+  });
+
+  it('rejects unknown and duplicate tags', () => {
+    const message = buildSiweMessage(fields);
+    expect(parseSiweMessage(`${message}\nResources: https://example.com`)).toBeNull();
+    expect(parseSiweMessage(`${message}\nNonce: other`)).toBeNull();
+  });
+
+  it('rejects a statement that is not followed by a blank line', () => {
+    const message = buildSiweMessage(fields).replace('Sign in to MOOCChain\n\n', 'Sign in to MOOCChain\n');
+    expect(parseSiweMessage(message)).toBeNull();
+  });
+});
+
+describe('recoverSiweSigner', () => {
+  it('recovers the address that signed the message', async () => {
+    const message = buildSiweMessage(fields);
+    const signature = await wallet.signMessage(message);
+    expect(recoverSiweSigner(message, signature)).toBe(wallet.address);
+  });
+
+  it('returns null for a malformed signature', () => {
+    expect(recoverSiweSigner(buildSiweMessage(fields), '0x1234')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { mergeWatchedSegments, getCoveredSeconds, getOverlapSeconds } from '../watchedSegments';
+
+describe('mergeWatchedSegments', () => {
+  it('sorts segments and merges overlapping ones', () => {
+    expect(mergeWatchedSegments([
+      { start: 30, end: 40 },
+      { start: 0, end: 10 },
+      { start: 5, end: 15 },
+    ])).toEqual([
+      { start: 0, end: 15 },
+      { start: 30, end: 40 },
+    ]);
+  });
+
+  it('merges segments that touch end to start', () => {
+    expect(mergeWatchedSegments([{ start: 0, end: 10 }, { start: 10, end: 20 }])).toEqual([{ start: 0, end: 20 }]);
+  });
+
+  it('keeps segments separated by a gap apart', () => {
+    expect(mergeWatchedSegments([{ start: 0, end: 10 }, { start: 10.5, end: 20 }])).toEqual([
+      { start: 0, end: 10 },
+      { start: 10.5, end: 20 },
+    ]);
+  });
+
+  it('drops empty, reversed and non-finite segments', () => {
+    expect(mergeWatchedSegments([
+      { start: 5, end: 5 },
+      { start: 8, end: 2 },
+      { start: NaN, end: 3 },
+      { start: 0, end: Infinity },
+      { start: 1, end: 2 },
+    ])).toEqual([{ start: 1, end: 2 }]);
+  });
+
+  it('does not modify the input segments', () => {
+    const segments = [{ start: 10, end: 20 }, { start: 0, end: 15 }];
+    mergeWatchedSegments(segments);
+    expect(segments).toEqual([{ start: 10, end: 20 }, { start: 0, end: 15 }]);
+  });
+});
+
+describe('getCoveredSeconds', () => {
+  it('sums the length of merged segments', () => {
+    expect(getCoveredSeconds([{ start: 0, end: 10 }, { start: 20, end: 25 }])).toBe(15);
+  });
+
+  it('ignores coverage beyond the limit', () => {
+    expect(getCoveredSeconds([{ start: 0, end: 10 }, { start: 20, end: 40 }], 30)).toBe(20);
+    expect(getCoveredSeconds([{ start: 50, end: 60 }], 30)).toBe(0);
+  });
+
+  it('returns 0 for no segments', () => {
+    expect(getCoveredSeconds([])).toBe(0);
+  });
+});
+
+describe('getOverlapSeconds', () => {
+  it('returns the overlap with the range', () => {
+    const segments = [{ start: 0, end: 10 }, { start: 20, end: 30 }];
+    expect(getOverlapSeconds(segments, 5, 25)).toBe(10);
+    expect(getOverlapSeconds(segments, 10, 20)).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+import { ethers } from 'ethers';
+import CertificateNFTArtifact from '../contracts/CertificateNFT.json';
+import { CERTIFICATE_NFT_ADDRESS } from '../contracts/contractAddresses';
+
+// 从环境变量获取配置
+const BLOCKCHAIN_RPC_URL = process.env.BLOCKCHAIN_RPC_URL;
+const ADMIN_PRIVATE_KEY = process.env.ADMIN_PRIVATE_KEY;
+
+type CertificateNFTArtifact = { abi: ethers.InterfaceAbi };
+
+/**
+ * 获取证书 NFT 合约 ABI
+ */
+function getCertificateNFTABI(): ethers.InterfaceAbi {
+  return (CertificateNFTArtifact as CertificateNFTArtifact).abi;
+}
+
+/**
+ * 获取区块链 RPC Provider
+ */
+function getProvider(): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(BLOCKCHAIN_RPC_URL);
+}
+
+/**
+ * 获取管理员钱包（使用私钥创建）
+ */
+function getAdminWallet(): ethers.Wallet {
+  if (!ADMIN_PRIVATE_KEY) {
+    throw new Error('ADMIN_PRIVATE_KEY is not configured in environment variables');
+  }
+
+  return new ethers.Wallet(ADMIN_PRIVATE_KEY, getProvider());
+}
+
+/**
+ * 使用管理员私钥签名证书 NFT 铸造交易（只签名不广播）
+ * 调用合约 safeMint(to, tokenURI)，TokenId 由合约分配，交易上链后从 Transfer 事件中读取
+ * @param to 接收 NFT 的地址
+ * @param tokenURI 证书元数据地址（ipfs://CID）
+ * @param options.nonce 指定 nonce，不指定则使用管理员地址的 pending nonce
+ * @returns 已签名交易、交易哈希和 nonce
+ */
+export async function signCertificateNftMint(
+  to: string,
+  tokenURI: string,
+  options: { nonce?: number } = {}
+): Promise<{ rawTransaction: string; transactionHash: string; nonce: number }> {
+  const wallet = getAdminWallet();
+  const contract = new ethers.Contract(CERTIFICATE_NFT_ADDRESS, getCertificateNFTABI(), wallet);
+
+  let tx: ethers.TransactionLike<string>;
+  try {
+    const nonce = options.nonce ?? await wallet.getNonce('pending');
+    const request = await contract.safeMint.populateTransaction(to, tokenURI);
+    tx = await wallet.populateTransaction({ ...request, nonce });
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Populate certificate NFT mint transaction failed');
+  }
+
+  let rawTransaction: string;
+  try {
+    rawTransaction = await wallet.signTransaction(tx as ethers.TransactionRequest);
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Sign certificate NFT mint transaction failed');
+  }
+
+  const signed = ethers.Transaction.from(rawTransaction);
+  return { rawTransaction, transactionHash: signed.hash!, nonce: signed.nonce };
+}
+
+/**
+ * 使用管理员钱包销毁证书 NFT（证书撤销时调用）
+ * 调用合约 burn(tokenId)，合约需允许管理员销毁；只广播不等待上链
+ * @param tokenId 证书 NFT TokenId
+ * @returns 交易哈希
+ */
+export async function burnCertificateNft(tokenId: string): Promise<string> {
+  const wallet = getAdminWallet();
+  const contract = new ethers.Contract(CERTIFICATE_NFT_ADDRESS, getCertificateNFTABI(), wallet);
+
+  try {
+    const tx = await contract.burn(BigInt(tokenId));
+    return tx.hash;
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Burn certificate NFT failed');
+  }
+}
+
+/**
+ * 查询交易中铸造的证书 NFT
+ * 只解析证书 NFT 合约发出的 Transfer 事件中 from 为零地址的日志（mint），并读取每个 token 的 tokenURI
+ * 交易未上链、执行失败或确认数不足时抛出错误
+ * @param transactionHash 交易哈希
+ * @param minConfirmations 最低确认数
+ * @returns 铸造列表（tokenId 为十进制字符串）
+ */
+export async function getCertificateNftMints(
+  transactionHash: string,
+  minConfirmations: number
+): Promise<{ tokenId: string; to: string; tokenURI: string }[]> {
+  const provider = getProvider();
+
+  let receipt;
+  try {
+    receipt = await provider.getTransactionReceipt(transactionHash);
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Query transaction receipt failed');
+  }
+
+  if (!receipt) {
+    throw new Error('Transaction not found on chain');
+  }
+  if (receipt.status !== 1) {
+    throw new Error('Transaction failed on chain');
+  }
+
+  let confirmations: number;
+  try {
+    confirmations = await receipt.confirmations();
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Query transaction confirmations failed');
+  }
+  if (confirmations < minConfirmations) {
+    throw new Error(`Transaction not confirmed yet (${confirmations}/${minConfirmations} confirmations)`);
+  }
+
+  const abi = getCertificateNFTABI();
+  const iface = new ethers.Interface(abi);
+  const contract = new ethers.Contract(CERTIFICATE_NFT_ADDRESS, abi, provider);
+  const mints: { tokenId: string; to: string; tokenURI: string }[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== CERTIFICATE_NFT_ADDRESS.toLowerCase()) continue;
+
+    let parsed;
+    try {
+      parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (!parsed || parsed.name !== 'Transfer' || parsed.args[0] !== ethers.ZeroAddress) continue;
+
+    const tokenId = parsed.args[2] as bigint;
+    let tokenURI: string;
+    try {
+      tokenURI = await contract.tokenURI(tokenId);
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Query tokenURI failed');
+    }
+
+    mints.push({
+      tokenId: tokenId.toString(),
+      to: parsed.args[1] as string,
+      tokenURI,
+    });
+  }
+
+  return mints;
+}
@@ -3,6 +3,8 @@ import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
 import axios from 'axios';
+import QRCode from 'qrcode';
+import { parseLinearGradientAngle } from './linearGradientAngle';
 
 /**
  * 加载图片（支持本地路径和URL）
@@ -55,8 +57,29 @@ export async function loadImageFromSource(src: string): Promise<any> {
 /**
  * 生成证书图片
  * 使用skia-canvas和sharp生成证书图片
+ * format 为 pdf 时输出矢量 PDF（文字为矢量并嵌入字体，适合打印）
  */
-export async function generateCertificateImage(templateData: any): Promise<Buffer> {
+export async function generateCertificateImage(templateData: any, format: 'png' | 'pdf' = 'png'): Promise<Buffer> {
+  const canvas = await renderCertificateCanvas(templateData);
+  return format === 'pdf' ? await exportCertificatePdf(canvas) : await exportCertificatePng(canvas);
+}
+
+/**
+ * 生成证书 PNG 和 PDF
+ * 只渲染一次画布，同时导出两种格式
+ */
+export async function generateCertificateFiles(templateData: any): Promise<{ png: Buffer; pdf: Buffer }> {
+  const canvas = await renderCertificateCanvas(templateData);
+  const png = await exportCertificatePng(canvas);
+  const pdf = await exportCertificatePdf(canvas);
+  return { png, pdf };
+}
+
+/**
+ * 渲染证书画布
+ * 按模板配置绘制背景、边框和各字段
+ */
+async function renderCertificateCanvas(templateData: any): Promise<Canvas> {
   const { canvas: canvasConfig, fields } = templateData;
   const width = canvasConfig?.width || 1600;
   const height = canvasConfig?.height || 1200;
@@ -73,6 +96,9 @@ export async function generateCertificateImage(templateData: any): Promise<Buffe
   } else if (background.type === 'color') {
     ctx.fillStyle = background.color || '#FFFFFF';
     ctx.fillRect(0, 0, width, height);
+  } else if (background.type === 'gradient' && background.gradient) {
+    ctx.fillStyle = createBackgroundGradient(ctx, background.gradient, width, height);
+    ctx.fillRect(0, 0, width, height);
   } else if (background.type === 'image' && background.src) {
     let bgImage: any;
     try {
@@ -341,6 +367,16 @@ export async function generateCertificateImage(templateData: any): Promise<Buffe
       continue;
     }
 
+    // 处理二维码字段（内容为证书验证链接）
+    if (field.type === 'qrcode') {
+      const value = field.value || field.defaultValue;
+      if (!value) continue;
+
+      const position = field.position || {};
+      drawQrCode(ctx, String(value), position.x, position.y, field.size || 160, field.style || {});
+      continue;
+    }
+
     // 处理形状字段 - 勋章
     if (field.type === 'shape' && field.shape === 'medal') {
       const position = field.position || {};
@@ -446,6 +482,45 @@ export async function generateCertificateImage(templateData: any): Promise<Buffe
       continue;
     }
 
+    // 处理形状字段 - 星形
+    if (field.type === 'shape' && field.shape === 'star') {
+      const position = field.position || {};
+      const style = field.style || {};
+      const size = field.size || 100;
+      const outerRadius = size / 2;
+      const points = field.points || 5;
+      const innerRadius = outerRadius * (field.innerRadius || 0.5);
+      const rotation = ((field.rotation || 0) * Math.PI) / 180;
+
+      ctx.save();
+      ctx.beginPath();
+      for (let i = 0; i < points * 2; i++) {
+        const angle = (i * Math.PI) / points - Math.PI / 2 + rotation;
+        const r = i % 2 === 0 ? outerRadius : innerRadius;
+        const px = position.x + Math.cos(angle) * r;
+        const py = position.y + Math.sin(angle) * r;
+        if (i === 0) {
+          ctx.moveTo(px, py);
+        } else {
+          ctx.lineTo(px, py);
+        }
+      }
+      ctx.closePath();
+
+      if (style.fillColor) {
+        ctx.fillStyle = style.fillColor;
+        ctx.fill();
+      }
+      if (style.strokeColor) {
+        ctx.strokeStyle = style.strokeColor;
+        ctx.lineWidth = style.strokeWidth || 2;
+        ctx.lineJoin = 'round';
+        ctx.stroke();
+      }
+      ctx.restore();
+      continue;
+    }
+
     // 处理形状字段 - 几何装饰（四角装饰）
     if (field.type === 'shape' && field.shape === 'geometric') {
       const style = field.style || {};
@@ -800,6 +875,25 @@ export async function generateCertificateImage(templateData: any): Promise<Buffe
     }
   }
 
+  return canvas;
+}
+
+/**
+ * 导出证书 PDF（矢量）
+ */
+async function exportCertificatePdf(canvas: Canvas): Promise<Buffer> {
+  try {
+    return await canvas.toBuffer('pdf');
+  } catch (error) {
+    console.error('Failed to export certificate pdf:', error);
+    throw new Error(`Failed to export certificate pdf: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * 导出证书 PNG（使用 sharp 优化图片质量）
+ */
+async function exportCertificatePng(canvas: Canvas): Promise<Buffer> {
   // 转换为Buffer
   const pngBuffer = await canvas.toBuffer('png');
 
@@ -817,6 +911,69 @@ export async function generateCertificateImage(templateData: any): Promise<Buffe
   return optimizedBuffer;
 }
 
+// 辅助函数：创建背景渐变（线性渐变按角度覆盖整个画布，径向渐变默认从中心到最远角）
+function createBackgroundGradient(ctx: any, gradient: any, width: number, height: number): any {
+  const colors: string[] = gradient.colors || [];
+  let canvasGradient: any;
+
+  if (gradient.type === 'radial') {
+    const centerX = gradient.center?.x ?? width / 2;
+    const centerY = gradient.center?.y ?? height / 2;
+    const radius = gradient.radius || Math.max(
+      Math.hypot(centerX, centerY),
+      Math.hypot(width - centerX, centerY),
+      Math.hypot(centerX, height - centerY),
+      Math.hypot(width - centerX, height - centerY)
+    );
+    canvasGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+  } else {
+    const angle = ((parseLinearGradientAngle(gradient, width, height) ?? 180) * Math.PI) / 180;
+    const dx = Math.sin(angle);
+    const dy = -Math.cos(angle);
+    const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    canvasGradient = ctx.createLinearGradient(
+      width / 2 - dx * halfLength,
+      height / 2 - dy * halfLength,
+      width / 2 + dx * halfLength,
+      height / 2 + dy * halfLength
+    );
+  }
+
+  colors.forEach((color, index) => {
+    const offset = Array.isArray(gradient.stops) ? gradient.stops[index] : index / Math.max(1, colors.length - 1);
+    canvasGradient.addColorStop(offset, color);
+  });
+  return canvasGradient;
+}
+
+// 辅助函数：绘制二维码（以 centerX/centerY 为中心，size 为包含静区的边长）
+function drawQrCode(ctx: any, text: string, centerX: number, centerY: number, size: number, style: any) {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleCount = qr.modules.size;
+  const margin = typeof style.margin === 'number' ? style.margin : 2;
+  const cellSize = size / (moduleCount + margin * 2);
+  const left = centerX - size / 2;
+  const top = centerY - size / 2;
+
+  ctx.save();
+  ctx.fillStyle = style.backgroundColor || '#FFFFFF';
+  ctx.fillRect(left, top, size, size);
+
+  // 按整数像素对齐模块边界，避免相邻模块之间出现缝隙
+  ctx.fillStyle = style.color || '#000000';
+  for (let row = 0; row < moduleCount; row++) {
+    for (let col = 0; col < moduleCount; col++) {
+      if (!qr.modules.get(row, col)) continue;
+      const x0 = Math.round(left + (col + margin) * cellSize);
+      const y0 = Math.round(top + (row + margin) * cellSize);
+      const x1 = Math.round(left + (col + margin + 1) * cellSize);
+      const y1 = Math.round(top + (row + margin + 1) * cellSize);
+      ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+    }
+  }
+  ctx.restore();
+}
+
 // 辅助函数：加深颜色
 function darkenColor(color: string, amount: number): string {
   const hex = color.replace('#', '');
@@ -1,4 +1,59 @@
-import { CertificateTemplateSchema, CanvasConfig, FieldConfig, BackgroundConfig } from '../types/certificateTemplateSchema';
+import { CertificateTemplateSchema, CanvasConfig, FieldConfig, BackgroundConfig, GradientConfig } from '../types/certificateTemplateSchema';
+import { parseLinearGradientAngle } from './linearGradientAngle';
+
+/**
+ * 验证渐变配置
+ * 渲染器需要至少 2 个颜色；stops 需与 colors 一一对应且在 0~1 间递增；线性渐变方向需可解析
+ */
+function validateGradient(gradient: GradientConfig, canvas: CanvasConfig) {
+  if (typeof gradient !== 'object') {
+    throw new Error('canvas.background.gradient must be an object');
+  }
+  if (!['linear', 'radial'].includes(gradient.type)) {
+    throw new Error('canvas.background.gradient.type must be one of: linear, radial');
+  }
+  if (!Array.isArray(gradient.colors) || gradient.colors.length < 2) {
+    throw new Error('canvas.background.gradient.colors must contain at least 2 colors');
+  }
+  if (gradient.colors.some(color => !color || typeof color !== 'string')) {
+    throw new Error('canvas.background.gradient.colors must be non-empty strings');
+  }
+
+  if (gradient.stops !== undefined) {
+    if (!Array.isArray(gradient.stops) || gradient.stops.length !== gradient.colors.length) {
+      throw new Error('canvas.background.gradient.stops must have the same length as colors');
+    }
+    gradient.stops.forEach((stop, index) => {
+      if (typeof stop !== 'number' || stop < 0 || stop > 1) {
+        throw new Error('canvas.background.gradient.stops must be numbers between 0 and 1');
+      }
+      if (index > 0 && stop < gradient.stops![index - 1]) {
+        throw new Error('canvas.background.gradient.stops must be in ascending order');
+      }
+    });
+  }
+
+  if (gradient.type === 'linear') {
+    if (gradient.angle !== undefined && (typeof gradient.angle !== 'number' || !Number.isFinite(gradient.angle))) {
+      throw new Error('canvas.background.gradient.angle must be a number');
+    }
+    if (gradient.direction !== undefined && typeof gradient.direction !== 'string') {
+      throw new Error('canvas.background.gradient.direction must be a string');
+    }
+    if (parseLinearGradientAngle(gradient, canvas.width, canvas.height) === null) {
+      throw new Error('canvas.background.gradient.direction must be an angle like "45deg" or one of: to top, to right, to bottom, to left, to top right, to bottom right, to bottom left, to top left');
+    }
+  } else {
+    if (gradient.center !== undefined && (
+      !gradient.center || typeof gradient.center.x !== 'number' || typeof gradient.center.y !== 'number'
+    )) {
+      throw new Error('canvas.background.gradient.center.x and center.y must be numbers');
+    }
+    if (gradient.radius !== undefined && (typeof gradient.radius !== 'number' || gradient.radius <= 0)) {
+      throw new Error('canvas.background.gradient.radius must be a positive number');
+    }
+  }
+}
 
 /**
  * 验证证书模板JSON结构
@@ -52,6 +107,9 @@ export function validateCertificateTemplate(templateContent: string): Certificat
   if (background.type === 'gradient' && !background.gradient) {
     throw new Error('canvas.background.gradient is required when type is gradient');
   }
+  if (background.type === 'gradient') {
+    validateGradient(background.gradient!, canvas);
+  }
 
   // 验证border配置（可选）
   if (canvas.border) {
@@ -97,8 +155,8 @@ export function validateCertificateTemplate(templateContent: string): Certificat
     fieldKeys.add(field.key);
 
     // 验证type
-    if (!['text', 'date', 'image', 'shape'].includes(field.type)) {
-      throw new Error(`fields[${index}].type must be one of: text, date, image, shape`);
+    if (!['text', 'date', 'image', 'shape', 'qrcode'].includes(field.type)) {
+      throw new Error(`fields[${index}].type must be one of: text, date, image, shape, qrcode`);
     }
 
     // 验证position
@@ -109,8 +167,8 @@ export function validateCertificateTemplate(templateContent: string): Certificat
       throw new Error(`fields[${index}].position.x and position.y must be numbers`);
     }
 
-    // 验证style（image类型不需要style，其他类型需要）
-    if (field.type !== 'image') {
+    // 验证style（image、qrcode类型不需要style，其他类型需要）
+    if (field.type !== 'image' && field.type !== 'qrcode') {
       if (!field.style || typeof field.style !== 'object') {
         throw new Error(`fields[${index}].style is required and must be an object`);
       }
@@ -162,11 +220,30 @@ export function validateCertificateTemplate(templateContent: string): Certificat
       throw new Error(`fields[${index}].src is required when type is image`);
     }
 
+    // 验证qrcode类型的size和style（内容为证书验证链接，由系统填充）
+    if (field.type === 'qrcode') {
+      if (field.size !== undefined && (typeof field.size !== 'number' || field.size <= 0)) {
+        throw new Error(`fields[${index}].size must be a positive number`);
+      }
+      if (field.style !== undefined && (!field.style || typeof field.style !== 'object')) {
+        throw new Error(`fields[${index}].style must be an object`);
+      }
+      if (field.style && field.style.color && typeof field.style.color !== 'string') {
+        throw new Error(`fields[${index}].style.color must be a string`);
+      }
+      if (field.style && field.style.backgroundColor && typeof field.style.backgroundColor !== 'string') {
+        throw new Error(`fields[${index}].style.backgroundColor must be a string`);
+      }
+      if (field.style && field.style.margin !== undefined && (typeof field.style.margin !== 'number' || field.style.margin < 0)) {
+        throw new Error(`fields[${index}].style.margin must be a non-negative number`);
+      }
+    }
+
     // 验证shape类型的shape和size
     if (field.type === 'shape') {
       const validShapes = ['medal', 'circle', 'star', 'geometric', 'line', 'badge'];
-      if (field.shape && !validShapes.includes(field.shape)) {
-        throw new Error(`fields[${index}].shape must be one of: ${validShapes.join(', ')}`);
+      if (!field.shape || !validShapes.includes(field.shape)) {
+        throw new Error(`fields[${index}].shape is required and must be one of: ${validShapes.join(', ')}`);
       }
       if (field.size && (typeof field.size !== 'number' || field.size <= 0)) {
         throw new Error(`fields[${index}].size must be a positive number`);
@@ -178,6 +255,26 @@ export function validateCertificateTemplate(templateContent: string): Certificat
           throw new Error(`fields[${index}].badgeType must be one of: ${validBadgeTypes.join(', ')}`);
         }
       }
+      // 圆形和星形需要填充色或描边色，否则渲染结果不可见
+      if ((field.shape === 'circle' || field.shape === 'star') && !field.style.fillColor && !field.style.strokeColor) {
+        throw new Error(`fields[${index}].style.fillColor or style.strokeColor is required when shape is ${field.shape}`);
+      }
+      // 验证star类型的角数、内外半径比和旋转角度
+      if (field.shape === 'star') {
+        if (field.points !== undefined && (!Number.isInteger(field.points) || field.points < 3 || field.points > 100)) {
+          throw new Error(`fields[${index}].points must be an integer between 3 and 100`);
+        }
+        if (field.innerRadius !== undefined && (typeof field.innerRadius !== 'number' || field.innerRadius <= 0 || field.innerRadius >= 1)) {
+          throw new Error(`fields[${index}].innerRadius must be a number between 0 and 1`);
+        }
+        if (field.rotation !== undefined && (typeof field.rotation !== 'number' || !Number.isFinite(field.rotation))) {
+          throw new Error(`fields[${index}].rotation must be a number`);
+        }
+      }
+      // badge 会基于 style.color 计算明暗渐变，只支持 #RRGGBB 格式
+      if (field.shape === 'badge' && field.style.color && !/^#[0-9a-fA-F]{6}$/.test(field.style.color)) {
+        throw new Error(`fields[${index}].style.color must be a #RRGGBB color when shape is badge`);
+      }
       // 验证line类型的width（在style中）
       if (field.shape === 'line' && field.style && field.style.width) {
         if (typeof field.style.width !== 'number' || field.style.width <= 0) {
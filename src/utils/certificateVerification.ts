@@ -0,0 +1,9 @@
+// 证书验证页面地址（证书二维码编码的链接为 {CERTIFICATE_VERIFY_URL}?code={verificationCode}）
+const CERTIFICATE_VERIFY_URL = process.env.CERTIFICATE_VERIFY_URL || 'http://localhost:6600/certificate/verify';
+
+/**
+ * 构建证书验证链接
+ */
+export function buildCertificateVerificationUrl(verificationCode: string): string {
+  return `${CERTIFICATE_VERIFY_URL}?code=${encodeURIComponent(verificationCode)}`;
+}
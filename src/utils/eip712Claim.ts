@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+import type { ClaimRewardSign, ClaimRewardTypedData } from '../types/eip712SignType';
+import { MOOC_TOKEN_ADDRESS } from '../contracts/contractAddresses';
+
+/*
+ * EIP-712 领取奖励 typed data 定义
+ * - 所有奖励类型共用同一 domain 和字段结构
+ * - 每种奖励类型使用独立的 primaryType（如 ClaimLearningReward），防止不同奖励类型之间的签名被混用
+ */
+const CLAIM_REWARD_DOMAIN_NAME = 'MOOCChain';
+const CLAIM_REWARD_DOMAIN_VERSION = '1';
+
+const CLAIM_REWARD_FIELDS = [
+  { name: 'userId', type: 'uint256' },
+  { name: 'walletAddress', type: 'address' },
+  { name: 'resourceId', type: 'uint256' },
+  { name: 'rewardType', type: 'uint256' },
+  { name: 'amount', type: 'string' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'deadline', type: 'uint256' },
+];
+
+/**
+ * 构建领取奖励 typed data（给前端 eth_signTypedData_v4 使用）
+ * @param primaryType 奖励类型对应的 primaryType
+ * @param sign 签名挑战数据
+ * @returns domain / types / primaryType / message
+ */
+export function buildClaimRewardTypedData(primaryType: string, sign: ClaimRewardSign): ClaimRewardTypedData {
+  return {
+    domain: {
+      name: CLAIM_REWARD_DOMAIN_NAME,
+      version: CLAIM_REWARD_DOMAIN_VERSION,
+      chainId: sign.chainId,
+      verifyingContract: MOOC_TOKEN_ADDRESS,
+    },
+    types: {
+      [primaryType]: CLAIM_REWARD_FIELDS,
+    },
+    primaryType,
+    message: {
+      userId: sign.userId,
+      walletAddress: sign.walletAddress,
+      resourceId: sign.resourceId,
+      rewardType: sign.rewardType,
+      amount: sign.amount,
+      nonce: sign.nonce,
+      deadline: sign.deadline,
+    },
+  };
+}
+
+/**
+ * 恢复领取奖励签名的签名者地址
+ * @param primaryType 奖励类型对应的 primaryType
+ * @param sign 签名挑战数据
+ * @param signature 前端返回的签名
+ * @returns 签名者地址，签名无效则返回 null
+ */
+export function recoverClaimRewardSigner(primaryType: string, sign: ClaimRewardSign, signature: string): string | null {
+  const { domain, types, message } = buildClaimRewardTypedData(primaryType, sign);
+  try {
+    return ethers.verifyTypedData(domain, types, message, signature);
+  } catch (error) {
+    console.error('Verify typed data error:', error);
+    return null;
+  }
+}
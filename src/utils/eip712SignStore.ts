@@ -1,12 +1,95 @@
 import crypto from 'crypto';
 import type { ClaimRewardSign } from '../types/eip712SignType';
+import { postClaimSign, getClaimSign, deleteClaimSign, deleteExpiredClaimSigns } from '../models/claimSignModel';
 
-/* 
- * - 进程内的临时存储（重启会丢失，多实例不共享）
- * - 生产建议用 Redis/数据库存储 nonce，并做过期清理
+/*
+ * EIP-712 领取奖励签名挑战存储
+ * - 通过 CLAIM_SIGN_STORE 选择实现：mysql（默认，持久化、多实例共享）/ memory（进程内，重启丢失）
+ * - 读取时校验 deadline，过期即删除；并定时清理过期挑战
+ * - 消费是原子的：按 key + nonce 删除，只有一个请求能消费成功
  * - 统一存储所有奖励类型的签名数据（通过 rewardType 区分）
  */
-const store = new Map<string, ClaimRewardSign>();
+const CLAIM_SIGN_STORE = process.env.CLAIM_SIGN_STORE || 'mysql';
+const CLAIM_SIGN_CLEANUP_INTERVAL_MS = Number(process.env.CLAIM_SIGN_CLEANUP_INTERVAL_MS || 60 * 1000);
+
+export interface ClaimSignStore {
+  // 保存挑战（同一 key 覆盖旧挑战）
+  save(key: string, sign: ClaimRewardSign): Promise<void>;
+  // 获取挑战（不存在返回 null，不校验 deadline）
+  get(key: string): Promise<ClaimRewardSign | null>;
+  // 删除挑战（传入 nonce 时仅删除 nonce 匹配的挑战），返回是否删除成功
+  remove(key: string, nonce?: string): Promise<boolean>;
+  // 清理 deadline 已过的挑战，返回删除数量
+  removeExpired(nowSec: number): Promise<number>;
+}
+
+/**
+ * 创建进程内挑战存储
+ * 仅适用于单实例开发环境
+ */
+function createMemoryClaimSignStore(): ClaimSignStore {
+  const signs = new Map<string, ClaimRewardSign>();
+
+  return {
+    async save(key, sign) {
+      signs.set(key, sign);
+    },
+
+    async get(key) {
+      return signs.get(key) ?? null;
+    },
+
+    async remove(key, nonce) {
+      const existing = signs.get(key);
+      if (!existing || (nonce && existing.nonce !== nonce)) return false;
+      return signs.delete(key);
+    },
+
+    async removeExpired(nowSec) {
+      let count = 0;
+      for (const [key, sign] of signs) {
+        if (sign.deadline <= nowSec) {
+          signs.delete(key);
+          count++;
+        }
+      }
+      return count;
+    },
+  };
+}
+
+/**
+ * 创建 MySQL 挑战存储
+ * 挑战持久化到 claimRewardSign 表，多实例共享
+ */
+function createMySQLClaimSignStore(): ClaimSignStore {
+  return {
+    async save(key, sign) {
+      await postClaimSign(key, sign);
+    },
+
+    async get(key) {
+      return getClaimSign(key);
+    },
+
+    async remove(key, nonce) {
+      return (await deleteClaimSign(key, nonce)) > 0;
+    },
+
+    async removeExpired(nowSec) {
+      return deleteExpiredClaimSigns(nowSec);
+    },
+  };
+}
+
+const store: ClaimSignStore = CLAIM_SIGN_STORE === 'memory'
+  ? createMemoryClaimSignStore()
+  : createMySQLClaimSignStore();
+
+const cleanupTimer = setInterval(() => {
+  store.removeExpired(Math.floor(Date.now() / 1000)).catch(error => console.error('Claim sign cleanup failed:', error));
+}, CLAIM_SIGN_CLEANUP_INTERVAL_MS);
+cleanupTimer.unref();
 
 /**
  * 构建存储键
@@ -25,41 +108,47 @@ function buildKey(userId: number, walletAddress: string, resourceId: number, rew
  * @param input 签名数据（不包含 nonce 和 createdAtMs）
  * @returns 包含 nonce 和 createdAtMs 的完整签名数据
  */
-export function issueClaimRewardSign(input: Omit<ClaimRewardSign, 'nonce' | 'createdAtMs'>) {
+export async function issueClaimRewardSign(input: Omit<ClaimRewardSign, 'nonce' | 'createdAtMs'>) {
   const nonce = BigInt('0x' + crypto.randomBytes(16).toString('hex')).toString(10);
   const sign: ClaimRewardSign = {
     ...input,
     nonce,
     createdAtMs: Date.now(),
   };
-  store.set(buildKey(input.userId, input.walletAddress, input.resourceId, input.rewardType), sign);
+  await store.save(buildKey(input.userId, input.walletAddress, input.resourceId, input.rewardType), sign);
   return sign;
 }
 
 /**
  * 获取 EIP-712 签名挑战（不删除）（通用函数，适用于所有奖励类型）
+ * deadline 已过的挑战视为不存在，并在读取时删除
  * @param userId 用户ID
  * @param walletAddress 钱包地址
  * @param resourceId 资源ID
  * @param rewardType 奖励类型（0=学习完成奖励, 1=上传资源奖励）
- * @returns 签名数据，如果不存在则返回 undefined
+ * @returns 签名数据，如果不存在或已过期则返回 undefined
  */
-export function getClaimRewardSign(userId: number, walletAddress: string, resourceId: number, rewardType: number) {
-  return store.get(buildKey(userId, walletAddress, resourceId, rewardType));
+export async function getClaimRewardSign(userId: number, walletAddress: string, resourceId: number, rewardType: number) {
+  const key = buildKey(userId, walletAddress, resourceId, rewardType);
+  const sign = await store.get(key);
+  if (!sign) return undefined;
+  if (sign.deadline <= Math.floor(Date.now() / 1000)) {
+    await store.remove(key, sign.nonce);
+    return undefined;
+  }
+  return sign;
 }
 
 /**
- * 消费 EIP-712 签名挑战（获取后删除，防止重复使用）（通用函数，适用于所有奖励类型）
+ * 消费 EIP-712 签名挑战（原子删除，防止重复使用）（通用函数，适用于所有奖励类型）
+ * 并发请求消费同一挑战时只有一个返回 true
  * @param userId 用户ID
  * @param walletAddress 钱包地址
  * @param resourceId 资源ID
  * @param rewardType 奖励类型（0=学习完成奖励, 1=上传资源奖励）
- * @returns 签名数据，如果不存在则返回 null
+ * @param nonce 已验签的挑战 nonce（传入时仅消费该 nonce 对应的挑战）
+ * @returns 是否消费成功
  */
-export function consumeClaimRewardSign(userId: number, walletAddress: string, resourceId: number, rewardType: number) {
-  const key = buildKey(userId, walletAddress, resourceId, rewardType);
-  const existing = store.get(key);
-  if (!existing) return null;
-  store.delete(key);
-  return existing;
+export async function consumeClaimRewardSign(userId: number, walletAddress: string, resourceId: number, rewardType: number, nonce?: string) {
+  return store.remove(buildKey(userId, walletAddress, resourceId, rewardType), nonce);
 }
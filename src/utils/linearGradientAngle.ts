@@ -0,0 +1,43 @@
+// 线性渐变方向关键字对应的角度（角关键字的角度与画布宽高比有关，单独计算）
+const LINEAR_GRADIENT_SIDE_ANGLES: Record<string, number> = {
+  'to top': 0,
+  'to right': 90,
+  'to bottom': 180,
+  'to left': 270,
+};
+
+/**
+ * 解析线性渐变角度（度，0 为自下而上，顺时针增加，与 CSS linear-gradient 一致）
+ * 支持 angle 数值、"45deg" 和 to top / to bottom right 等方向关键字，默认自上而下
+ */
+export function parseLinearGradientAngle(gradient: { angle?: number; direction?: string }, width: number, height: number): number | null {
+  if (typeof gradient.angle === 'number') {
+    return Number.isFinite(gradient.angle) ? gradient.angle : null;
+  }
+  if (!gradient.direction) {
+    return 180;
+  }
+
+  const direction = gradient.direction.trim().toLowerCase().replace(/\s+/g, ' ');
+  const degMatch = direction.match(/^(-?\d+(?:\.\d+)?)deg$/);
+  if (degMatch) {
+    return Number(degMatch[1]);
+  }
+  if (direction in LINEAR_GRADIENT_SIDE_ANGLES) {
+    return LINEAR_GRADIENT_SIDE_ANGLES[direction];
+  }
+
+  // 角关键字：渐变线垂直于另外两个角的连线
+  const cornerAngle = (Math.atan2(height, width) * 180) / Math.PI;
+  const corners: Record<string, number> = {
+    'to top right': cornerAngle,
+    'to right top': cornerAngle,
+    'to bottom right': 180 - cornerAngle,
+    'to right bottom': 180 - cornerAngle,
+    'to bottom left': 180 + cornerAngle,
+    'to left bottom': 180 + cornerAngle,
+    'to top left': 360 - cornerAngle,
+    'to left top': 360 - cornerAngle,
+  };
+  return direction in corners ? corners[direction] : null;
+}
@@ -0,0 +1,381 @@
+import fs from 'fs';
+
+/*
+ * 媒体时长探测（纯 JS 解析容器头，不依赖 ffmpeg）
+ * 支持 MP4/MOV/M4A（mvhd）、WebM/MKV（EBML Segment Info）、WAV 和 AVI（RIFF）、
+ * MP3（Xing/Info/VBRI 帧数，缺失时按 CBR 估算）、OGG Vorbis/Opus（末页 granule position）、AAC ADTS（按平均帧长估算）
+ * 只按需读取文件头部和尾部，不将整个文件读入内存
+ */
+
+// 头部读取上限（EBML、RIFF、MP3 帧头等都位于文件开头）
+const HEAD_READ_BYTES = 4 * 1024 * 1024;
+// OGG 末页读取范围（单页最大约 64KB）
+const OGG_TAIL_READ_BYTES = 128 * 1024;
+// MP4 moov 读取上限
+const MP4_MOOV_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * 从文件指定位置读取数据（超出文件末尾时返回实际读取的部分）
+ */
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * 解析 MP4/MOV 时长：遍历顶层 box 找到 moov，读取其中 mvhd 的 timescale 和 duration
+ */
+async function probeMp4Duration(handle: fs.promises.FileHandle, fileSize: number): Promise<number | null> {
+  let offset = 0;
+  while (offset + 8 <= fileSize) {
+    const header = await readAt(handle, offset, 16);
+    if (header.length < 8) return null;
+
+    let boxSize = header.readUInt32BE(0);
+    const boxType = header.toString('latin1', 4, 8);
+    let headerSize = 8;
+    if (boxSize === 1) {
+      if (header.length < 16) return null;
+      boxSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = fileSize - offset;
+    }
+    if (boxSize < headerSize) return null;
+
+    if (boxType === 'moov') {
+      const moov = await readAt(handle, offset + headerSize, Math.min(boxSize - headerSize, MP4_MOOV_MAX_BYTES));
+      return parseMvhd(moov);
+    }
+    offset += boxSize;
+  }
+  return null;
+}
+
+/**
+ * 在 moov 内容中查找 mvhd box 并计算时长
+ */
+function parseMvhd(moov: Buffer): number | null {
+  let offset = 0;
+  while (offset + 8 <= moov.length) {
+    const boxSize = moov.readUInt32BE(offset);
+    const boxType = moov.toString('latin1', offset + 4, offset + 8);
+    if (boxType === 'mvhd') {
+      const version = moov[offset + 8];
+      if (version === 1) {
+        if (offset + 40 > moov.length) return null;
+        const timescale = moov.readUInt32BE(offset + 28);
+        const duration = Number(moov.readBigUInt64BE(offset + 32));
+        return timescale > 0 ? duration / timescale : null;
+      }
+      if (offset + 28 > moov.length) return null;
+      const timescale = moov.readUInt32BE(offset + 20);
+      const duration = moov.readUInt32BE(offset + 24);
+      return timescale > 0 && duration !== 0xffffffff ? duration / timescale : null;
+    }
+    if (boxSize < 8) return null;
+    offset += boxSize;
+  }
+  return null;
+}
+
+/**
+ * 读取 EBML 变长整数
+ * @param keepMarker 元素 ID 保留长度标记位，元素大小去掉标记位
+ * @returns 值、字节数和是否为未知大小；数据不足时返回 null
+ */
+function readEbmlVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    length++;
+    mask >>= 1;
+  }
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+/**
+ * 解析 WebM/MKV 时长：读取 Segment > Info 中的 TimecodeScale 和 Duration
+ */
+function parseMatroskaDuration(buffer: Buffer): number | null {
+  const EBML_ID = 0x1a45dfa3;
+  const SEGMENT_ID = 0x18538067;
+  const INFO_ID = 0x1549a966;
+  const CLUSTER_ID = 0x1f43b675;
+  const TIMECODE_SCALE_ID = 0x2ad7b1;
+  const DURATION_ID = 0x4489;
+
+  let offset = 0;
+  let segmentEnd = buffer.length;
+  let inSegment = false;
+
+  while (offset < segmentEnd) {
+    const id = readEbmlVint(buffer, offset, true);
+    if (!id) return null;
+    const size = readEbmlVint(buffer, offset + id.length, false);
+    if (!size) return null;
+    const dataStart = offset + id.length + size.length;
+
+    if (!inSegment && id.value === EBML_ID) {
+      offset = dataStart + size.value;
+      continue;
+    }
+    if (!inSegment && id.value === SEGMENT_ID) {
+      inSegment = true;
+      if (!size.unknown) segmentEnd = Math.min(buffer.length, dataStart + size.value);
+      offset = dataStart;
+      continue;
+    }
+    if (!inSegment) return null;
+
+    if (id.value === CLUSTER_ID) return null;
+    if (id.value === INFO_ID) {
+      const infoEnd = Math.min(buffer.length, dataStart + size.value);
+      let timecodeScale = 1000000;
+      let duration: number | null = null;
+      let child = dataStart;
+      while (child < infoEnd) {
+        const childId = readEbmlVint(buffer, child, true);
+        if (!childId) break;
+        const childSize = readEbmlVint(buffer, child + childId.length, false);
+        if (!childSize) break;
+        const childData = child + childId.length + childSize.length;
+        if (childData + childSize.value > buffer.length) break;
+
+        if (childId.value === TIMECODE_SCALE_ID) {
+          timecodeScale = buffer.readUIntBE(childData, Math.min(childSize.value, 6));
+        } else if (childId.value === DURATION_ID) {
+          duration = childSize.value === 4 ? buffer.readFloatBE(childData) : childSize.value === 8 ? buffer.readDoubleBE(childData) : null;
+        }
+        child = childData + childSize.value;
+      }
+      return duration !== null && duration > 0 ? duration * timecodeScale / 1e9 : null;
+    }
+
+    if (size.unknown) return null;
+    offset = dataStart + size.value;
+  }
+  return null;
+}
+
+/**
+ * 解析 WAV 时长：data 块大小 / fmt 块中的每秒字节数
+ */
+async function probeWavDuration(handle: fs.promises.FileHandle, fileSize: number): Promise<number | null> {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= fileSize) {
+    const header = await readAt(handle, offset, 8);
+    if (header.length < 8) return null;
+    const chunkId = header.toString('latin1', 0, 4);
+    const chunkSize = header.readUInt32LE(4);
+
+    if (chunkId === 'fmt ') {
+      const fmt = await readAt(handle, offset + 8, 16);
+      if (fmt.length < 12) return null;
+      byteRate = fmt.readUInt32LE(8);
+    } else if (chunkId === 'data') {
+      if (!byteRate) return null;
+      // 录音中断的文件 data 块大小可能大于实际数据
+      const dataSize = Math.min(chunkSize, fileSize - offset - 8);
+      return dataSize / byteRate;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+/**
+ * 解析 AVI 时长：hdrl 列表中 avih 的每帧微秒数 × 总帧数
+ */
+function parseAviDuration(buffer: Buffer): number | null {
+  const avihIndex = buffer.indexOf('avih', 12, 'latin1');
+  if (avihIndex < 0 || avihIndex + 8 + 20 > buffer.length) return null;
+  const dataStart = avihIndex + 8;
+  const microSecPerFrame = buffer.readUInt32LE(dataStart);
+  const totalFrames = buffer.readUInt32LE(dataStart + 16);
+  return microSecPerFrame > 0 && totalFrames > 0 ? microSecPerFrame * totalFrames / 1e6 : null;
+}
+
+// MP3 比特率表（kbps），按 [MPEG1/MPEG2][Layer1/2/3] 索引
+const MP3_BITRATES: number[][][] = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG1
+  2: [22050, 24000, 16000], // MPEG2
+  0: [11025, 12000, 8000],  // MPEG2.5
+};
+
+/**
+ * 解析 MP3 时长：优先读取首帧中的 Xing/Info/VBRI 帧数，否则按首帧比特率（CBR）估算
+ */
+async function probeMp3Duration(handle: fs.promises.FileHandle, fileSize: number, head: Buffer): Promise<number | null> {
+  // 跳过 ID3v2 标签（大小为 syncsafe 整数）
+  let offset = 0;
+  if (head.toString('latin1', 0, 3) === 'ID3' && head.length >= 10) {
+    const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+    offset = 10 + tagSize + (head[5] & 0x10 ? 10 : 0);
+  }
+
+  const buffer = offset + 4096 <= head.length ? head.subarray(offset) : await readAt(handle, offset, 64 * 1024);
+  // 查找帧同步
+  let frame = -1;
+  for (let i = 0; i + 4 <= buffer.length; i++) {
+    if (buffer[i] === 0xff && (buffer[i + 1] & 0xe0) === 0xe0) {
+      const versionBits = (buffer[i + 1] >> 3) & 0x03;
+      const layerBits = (buffer[i + 1] >> 1) & 0x03;
+      const bitrateIndex = buffer[i + 2] >> 4;
+      const sampleRateIndex = (buffer[i + 2] >> 2) & 0x03;
+      if (versionBits !== 1 && layerBits !== 0 && bitrateIndex !== 0 && bitrateIndex !== 15 && sampleRateIndex !== 3) {
+        frame = i;
+        break;
+      }
+    }
+  }
+  if (frame < 0) return null;
+
+  const versionBits = (buffer[frame + 1] >> 3) & 0x03;
+  const layer = 4 - ((buffer[frame + 1] >> 1) & 0x03); // 1/2/3
+  const isMpeg1 = versionBits === 3;
+  const bitrate = MP3_BITRATES[isMpeg1 ? 0 : 1][layer - 1][buffer[frame + 2] >> 4] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits][(buffer[frame + 2] >> 2) & 0x03];
+  const isMono = (buffer[frame + 3] >> 6) === 3;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 2 || isMpeg1 ? 1152 : 576;
+
+  // Xing/Info 头位于 side information 之后
+  const sideInfoSize = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  const xing = frame + 4 + sideInfoSize;
+  if (xing + 12 <= buffer.length) {
+    const tag = buffer.toString('latin1', xing, xing + 4);
+    if ((tag === 'Xing' || tag === 'Info') && (buffer.readUInt32BE(xing + 4) & 0x01)) {
+      const frames = buffer.readUInt32BE(xing + 8);
+      if (frames > 0) return frames * samplesPerFrame / sampleRate;
+    }
+  }
+  // VBRI 头固定位于帧头后 32 字节
+  const vbri = frame + 4 + 32;
+  if (vbri + 18 <= buffer.length && buffer.toString('latin1', vbri, vbri + 4) === 'VBRI') {
+    const frames = buffer.readUInt32BE(vbri + 14);
+    if (frames > 0) return frames * samplesPerFrame / sampleRate;
+  }
+
+  // CBR：音频数据大小 / 比特率（去掉末尾 ID3v1 标签）
+  const tail = fileSize >= 128 ? await readAt(handle, fileSize - 128, 3) : Buffer.alloc(0);
+  const audioSize = fileSize - (offset + frame) - (tail.toString('latin1') === 'TAG' ? 128 : 0);
+  return bitrate > 0 && audioSize > 0 ? audioSize * 8 / bitrate : null;
+}
+
+/**
+ * 解析 OGG 时长：末页 granule position / 采样率（Opus 固定 48kHz 并减去 pre-skip）
+ */
+async function probeOggDuration(handle: fs.promises.FileHandle, fileSize: number, head: Buffer): Promise<number | null> {
+  if (head.length < 28) return null;
+  const packetStart = 27 + head[26];
+  if (packetStart + 19 > head.length) return null;
+
+  let sampleRate: number;
+  let preSkip = 0;
+  if (head[packetStart] === 0x01 && head.toString('latin1', packetStart + 1, packetStart + 7) === 'vorbis') {
+    sampleRate = head.readUInt32LE(packetStart + 12);
+  } else if (head.toString('latin1', packetStart, packetStart + 8) === 'OpusHead') {
+    sampleRate = 48000;
+    preSkip = head.readUInt16LE(packetStart + 10);
+  } else {
+    return null;
+  }
+  if (!sampleRate) return null;
+
+  const tailStart = Math.max(0, fileSize - OGG_TAIL_READ_BYTES);
+  const tail = await readAt(handle, tailStart, fileSize - tailStart);
+  const lastPage = tail.lastIndexOf('OggS', tail.length, 'latin1');
+  if (lastPage < 0 || lastPage + 14 > tail.length) return null;
+
+  const granule = Number(tail.readBigInt64LE(lastPage + 6));
+  return granule > 0 ? (granule - preSkip) / sampleRate : null;
+}
+
+// AAC ADTS 采样率表
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * 解析 AAC ADTS 时长：按文件头部帧的平均长度估算总帧数（每帧 1024 个采样）
+ */
+function parseAdtsDuration(buffer: Buffer, fileSize: number): number | null {
+  const sampleRate = ADTS_SAMPLE_RATES[(buffer[2] >> 2) & 0x0f];
+  if (!sampleRate) return null;
+
+  let offset = 0;
+  let frames = 0;
+  while (offset + 7 <= buffer.length && buffer[offset] === 0xff && (buffer[offset + 1] & 0xf6) === 0xf0) {
+    const frameLength = ((buffer[offset + 3] & 0x03) << 11) | (buffer[offset + 4] << 3) | (buffer[offset + 5] >> 5);
+    if (frameLength < 7) break;
+    frames++;
+    offset += frameLength;
+  }
+  if (frames === 0 || offset === 0) return null;
+
+  const totalFrames = fileSize / (offset / frames);
+  return totalFrames * 1024 / sampleRate;
+}
+
+/**
+ * 探测音视频文件时长
+ * 按文件头魔数识别容器格式，无法识别或解析失败时返回 null
+ * @param filePath 本地文件路径
+ * @returns 时长（秒）
+ */
+export async function probeMediaDuration(filePath: string): Promise<number | null> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+    const { size: fileSize } = await handle.stat();
+    const head = await readAt(handle, 0, Math.min(fileSize, HEAD_READ_BYTES));
+    if (head.length < 12) return null;
+
+    let duration: number | null = null;
+    const magic = head.toString('latin1', 0, 4);
+    if (head.toString('latin1', 4, 8) === 'ftyp' || ['moov', 'mdat', 'free', 'wide', 'skip'].includes(head.toString('latin1', 4, 8))) {
+      duration = await probeMp4Duration(handle, fileSize);
+    } else if (head.readUInt32BE(0) === 0x1a45dfa3) {
+      duration = parseMatroskaDuration(head);
+    } else if (magic === 'RIFF' && head.toString('latin1', 8, 12) === 'WAVE') {
+      duration = await probeWavDuration(handle, fileSize);
+    } else if (magic === 'RIFF' && head.toString('latin1', 8, 12) === 'AVI ') {
+      duration = parseAviDuration(head);
+    } else if (magic === 'OggS') {
+      duration = await probeOggDuration(handle, fileSize, head);
+    } else if (head[0] === 0xff && (head[1] & 0xf6) === 0xf0) {
+      duration = parseAdtsDuration(head, fileSize);
+    } else if (head.toString('latin1', 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) {
+      duration = await probeMp3Duration(handle, fileSize, head);
+    }
+
+    return duration !== null && Number.isFinite(duration) && duration > 0 ? duration : null;
+  } catch (error) {
+    console.error('Probe media duration failed:', error);
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
@@ -0,0 +1,31 @@
+import { ResourceInfo } from '../types/resourceType';
+import { WatchedSegment } from '../types/learningRecordType';
+import { getCoveredSeconds } from './watchedSegments';
+
+// 已观看区间：资源结尾的容差（秒，时长按整秒存储），覆盖到结尾容差内视为看完
+export const WATCHED_SEGMENT_END_TOLERANCE_SECONDS = Number(process.env.WATCHED_SEGMENT_END_TOLERANCE_SECONDS || 1);
+
+/**
+ * 计算音视频学习进度（0-100，向下取整）
+ * 上报过播放位置时按已观看区间覆盖的时长（不含重复观看）计算，否则按累计学习时长计算
+ * 资源时长未知（历史资源）时返回 null
+ */
+export function computeMediaProgress(
+  resource: ResourceInfo,
+  learningTime: number,
+  watchedSegments?: WatchedSegment[] | null
+): number | null {
+  const duration = Number(resource.duration || 0);
+  if (duration <= 0) {
+    return null;
+  }
+  if (watchedSegments && watchedSegments.length > 0) {
+    const coveredSeconds = getCoveredSeconds(watchedSegments, duration);
+    // 时长按整秒存储，覆盖到结尾容差内视为看完
+    if (coveredSeconds >= duration - WATCHED_SEGMENT_END_TOLERANCE_SECONDS) {
+      return 100;
+    }
+    return Math.min(100, Math.floor(coveredSeconds / duration * 100));
+  }
+  return Math.min(100, Math.floor(learningTime / duration * 100));
+}
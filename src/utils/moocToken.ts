@@ -15,6 +15,13 @@ function getMOOCTokenABI(): ethers.InterfaceAbi {
   return (MOOCTokenArtifact as MOOCTokenArtifact).abi;
 }
 
+/**
+ * 获取区块链 RPC Provider
+ */
+function getProvider(): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(BLOCKCHAIN_RPC_URL);
+}
+
 /**
  * 获取管理员钱包（使用私钥创建）
  */
@@ -23,23 +30,39 @@ function getAdminWallet(): ethers.Wallet {
     throw new Error('ADMIN_PRIVATE_KEY is not configured in environment variables');
   }
 
-  const provider = new ethers.JsonRpcProvider(BLOCKCHAIN_RPC_URL);
+  const provider = getProvider();
   const wallet = new ethers.Wallet(ADMIN_PRIVATE_KEY, provider);
 
   return wallet;
 }
 
+// 替换交易的最低手续费涨幅（节点通常要求至少 10%，这里取 25% 留出余量）
+const REPLACEMENT_FEE_BUMP_PERCENT = 125n;
+
+/**
+ * 计算替换交易手续费：取当前建议值与上一笔交易手续费上浮后的较大值
+ */
+function bumpFee(current: bigint | null | undefined, previous: bigint | null | undefined): bigint | undefined {
+  const bumped = previous ? (previous * REPLACEMENT_FEE_BUMP_PERCENT + 99n) / 100n : 0n;
+  const suggested = current ?? 0n;
+  const fee = suggested > bumped ? suggested : bumped;
+  return fee > 0n ? fee : undefined;
+}
+
 /**
- * 使用管理员私钥铸造代币到指定地址
+ * 使用管理员私钥签名 mint 交易（只签名不广播）
+ * 先签名再广播，便于在广播前持久化交易哈希和已签名交易
  * @param to 接收代币的地址
  * @param amount 铸造数量（字符串形式，例如 "10.5"）
- * @returns 交易哈希
+ * @param options.nonce 指定 nonce（替换交易沿用原 nonce），不指定则使用管理员地址的 pending nonce
+ * @param options.replaceRawTransaction 被替换的已签名交易，新交易手续费至少上浮 25%
+ * @returns 已签名交易、交易哈希和 nonce
  */
-export async function mintMOOCTokenToAddress(to: string, amount: string): Promise<string> {
-  if (!ADMIN_PRIVATE_KEY) {
-    throw new Error('ADMIN_PRIVATE_KEY is not configured');
-  }
-
+export async function signMOOCTokenMint(
+  to: string,
+  amount: string,
+  options: { nonce?: number; replaceRawTransaction?: string } = {}
+): Promise<{ rawTransaction: string; transactionHash: string; nonce: number }> {
   const wallet = getAdminWallet();
   const abi = getMOOCTokenABI();
   const contract = new ethers.Contract(MOOC_TOKEN_ADDRESS, abi, wallet);
@@ -47,21 +70,98 @@ export async function mintMOOCTokenToAddress(to: string, amount: string): Promis
   // 将代币数量转换为 wei（ERC20 通常使用 18 位小数）
   const amountInWei = ethers.parseUnits(amount, 18);
 
-  let tx;
+  let tx: ethers.TransactionLike<string>;
+  try {
+    const nonce = options.nonce ?? await wallet.getNonce('pending');
+    const request = await contract.mint.populateTransaction(to, amountInWei);
+    tx = await wallet.populateTransaction({ ...request, nonce });
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Populate mint transaction failed');
+  }
+
+  if (options.replaceRawTransaction) {
+    const previous = ethers.Transaction.from(options.replaceRawTransaction);
+    if (tx.maxFeePerGas !== undefined && tx.maxFeePerGas !== null) {
+      tx.maxFeePerGas = bumpFee(BigInt(tx.maxFeePerGas), previous.maxFeePerGas ?? previous.gasPrice);
+      tx.maxPriorityFeePerGas = bumpFee(
+        tx.maxPriorityFeePerGas !== undefined && tx.maxPriorityFeePerGas !== null ? BigInt(tx.maxPriorityFeePerGas) : null,
+        previous.maxPriorityFeePerGas ?? previous.gasPrice
+      );
+    } else {
+      tx.gasPrice = bumpFee(tx.gasPrice !== undefined && tx.gasPrice !== null ? BigInt(tx.gasPrice) : null, previous.gasPrice ?? previous.maxFeePerGas);
+    }
+  }
+
+  let rawTransaction: string;
+  try {
+    rawTransaction = await wallet.signTransaction(tx as ethers.TransactionRequest);
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Sign mint transaction failed');
+  }
+
+  const signed = ethers.Transaction.from(rawTransaction);
+  return { rawTransaction, transactionHash: signed.hash!, nonce: signed.nonce };
+}
+
+/**
+ * 广播已签名交易
+ * 节点已存在相同交易时视为广播成功（重新广播场景）
+ * @param rawTransaction 已签名交易
+ */
+export async function broadcastRawTransaction(rawTransaction: string): Promise<void> {
+  const provider = getProvider();
   try {
-    tx = await contract.mint(to, amountInWei);
+    await provider.broadcastTransaction(rawTransaction);
   } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Mint transaction failed');
+    const message = error instanceof Error ? error.message : '';
+    if (/already known|known transaction|already imported/i.test(message)) {
+      return;
+    }
+    throw new Error(message || 'Broadcast transaction failed');
   }
+}
+
+/**
+ * 查询交易回执状态
+ * @param transactionHash 交易哈希
+ * @returns 交易未上链返回 null；否则返回执行结果（1 成功，0 失败）和确认数
+ */
+export async function getTransactionReceiptStatus(
+  transactionHash: string
+): Promise<{ status: number | null; confirmations: number } | null> {
+  const provider = getProvider();
 
   let receipt;
   try {
-    receipt = await tx.wait();
+    receipt = await provider.getTransactionReceipt(transactionHash);
   } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Wait mint transaction failed');
+    throw new Error(error instanceof Error ? error.message : 'Query transaction receipt failed');
+  }
+  if (!receipt) {
+    return null;
   }
 
-  return receipt.hash;
+  let confirmations: number;
+  try {
+    confirmations = await receipt.confirmations();
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Query transaction confirmations failed');
+  }
+
+  return { status: receipt.status, confirmations };
+}
+
+/**
+ * 查询管理员地址已上链的交易数（latest nonce）
+ * 某个 nonce 小于该值说明该 nonce 已被某笔已打包的交易使用
+ */
+export async function getAdminConfirmedNonce(): Promise<number> {
+  const wallet = getAdminWallet();
+  try {
+    return await wallet.getNonce('latest');
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Query admin nonce failed');
+  }
 }
 
 /**
@@ -70,7 +170,7 @@ export async function mintMOOCTokenToAddress(to: string, amount: string): Promis
  * @returns 格式化的代币余额字符串（例如 "10.50"）
  */
 export async function getMOOCTokenBalance(walletAddress: string): Promise<string> {
-  const provider = new ethers.JsonRpcProvider(BLOCKCHAIN_RPC_URL);
+  const provider = getProvider();
   const abi = getMOOCTokenABI();
   const contract = new ethers.Contract(MOOC_TOKEN_ADDRESS, abi, provider);
 
@@ -89,3 +189,63 @@ export async function getMOOCTokenBalance(walletAddress: string): Promise<string
 
   return formattedBalance;
 }
+
+/**
+ * 查询交易中的 MOOCToken Transfer 事件
+ * 只解析 MOOCToken 合约发出的日志，交易未上链、执行失败或确认数不足时抛出错误
+ * @param transactionHash 交易哈希
+ * @param minConfirmations 最低确认数
+ * @returns Transfer 事件列表（value 为 wei）
+ */
+export async function getMOOCTokenTransfers(
+  transactionHash: string,
+  minConfirmations: number
+): Promise<{ from: string; to: string; value: bigint }[]> {
+  const provider = getProvider();
+
+  let receipt;
+  try {
+    receipt = await provider.getTransactionReceipt(transactionHash);
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Query transaction receipt failed');
+  }
+
+  if (!receipt) {
+    throw new Error('Transaction not found on chain');
+  }
+  if (receipt.status !== 1) {
+    throw new Error('Transaction failed on chain');
+  }
+
+  let confirmations: number;
+  try {
+    confirmations = await receipt.confirmations();
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : 'Query transaction confirmations failed');
+  }
+  if (confirmations < minConfirmations) {
+    throw new Error(`Transaction not confirmed yet (${confirmations}/${minConfirmations} confirmations)`);
+  }
+
+  const iface = new ethers.Interface(getMOOCTokenABI());
+  const transfers: { from: string; to: string; value: bigint }[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== MOOC_TOKEN_ADDRESS.toLowerCase()) continue;
+
+    let parsed;
+    try {
+      parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (!parsed || parsed.name !== 'Transfer') continue;
+
+    transfers.push({
+      from: parsed.args[0] as string,
+      to: parsed.args[1] as string,
+      value: parsed.args[2] as bigint,
+    });
+  }
+
+  return transfers;
+}
@@ -1,12 +1,17 @@
 import axios from 'axios';
 import FormData from 'form-data';
 import fs from 'fs';
+import { Readable } from 'stream';
 
 // Pinata API 配置
 const PINATA_API_KEY = process.env.PINATA_API_KEY;
 const PINATA_SECRET_API_KEY = process.env.PINATA_SECRET_API_KEY;
 const PINATA_GATEWAY_URL = process.env.PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud/ipfs/';
 
+// 网关下载限制：超时时间和最大文件大小（避免网关无响应或超大文件占满内存）
+const IPFS_DOWNLOAD_TIMEOUT_MS = Number(process.env.IPFS_DOWNLOAD_TIMEOUT_MS || 30 * 1000);
+const IPFS_DOWNLOAD_MAX_BYTES = Number(process.env.IPFS_DOWNLOAD_MAX_BYTES || 20 * 1024 * 1024);
+
 /**
  * 上传文件到 Pinata IPFS
  * @param filePath 文件路径（本地文件系统路径）
@@ -124,3 +129,52 @@ export async function uploadBufferToIPFS(buffer: Buffer, fileName: string, mimeT
 export function getIPFSUrl(ipfsHash: string): string {
   return `${PINATA_GATEWAY_URL}${ipfsHash}`;
 }
+
+/**
+ * 通过网关下载 IPFS 文件
+ * 适用于需要完整读取内容的小文件（如 NFT 元数据 JSON），超时或超过大小限制时抛出错误
+ * @param ipfsHash IPFS Hash (CID)
+ * @returns 文件 Buffer
+ */
+export async function downloadFromIPFS(ipfsHash: string): Promise<Buffer> {
+  let response;
+  try {
+    response = await axios.get(getIPFSUrl(ipfsHash), {
+      responseType: 'arraybuffer',
+      timeout: IPFS_DOWNLOAD_TIMEOUT_MS,
+      maxContentLength: IPFS_DOWNLOAD_MAX_BYTES,
+      maxBodyLength: IPFS_DOWNLOAD_MAX_BYTES,
+    });
+  } catch (error) {
+    throw new Error(`Failed to download file from IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return Buffer.from(response.data);
+}
+
+/**
+ * 通过网关以流的方式下载 IPFS 文件
+ * 用于直接转发给客户端的文件（如证书 PNG/PDF），不在内存中缓存完整文件
+ * 网关响应超时或文件超过大小限制时抛出错误（传输中超过限制时流以错误结束）
+ * @param ipfsHash IPFS Hash (CID)
+ * @returns 文件流和文件大小（网关未返回时为 null）
+ */
+export async function streamFromIPFS(ipfsHash: string): Promise<{ stream: Readable; contentLength: number | null }> {
+  let response;
+  try {
+    response = await axios.get<Readable>(getIPFSUrl(ipfsHash), {
+      responseType: 'stream',
+      timeout: IPFS_DOWNLOAD_TIMEOUT_MS,
+      maxContentLength: IPFS_DOWNLOAD_MAX_BYTES,
+      maxBodyLength: IPFS_DOWNLOAD_MAX_BYTES,
+    });
+  } catch (error) {
+    throw new Error(`Failed to download file from IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const contentLength = Number(response.headers['content-length']);
+  return {
+    stream: response.data,
+    contentLength: Number.isFinite(contentLength) ? contentLength : null,
+  };
+}
@@ -0,0 +1,178 @@
+import type { UserSessionInfo } from '../types/userSessionType';
+import {
+  postUserSession,
+  getUserSession,
+  getUserSessionList,
+  putUserSession,
+  deleteUserSession,
+  deleteUserSessionsByUser,
+  deleteExpiredUserSessions,
+} from '../models/userSessionModel';
+
+/*
+ * 登录会话存储（refresh token 存储）
+ * - 通过 SESSION_STORE 选择实现：mysql（默认，持久化、多实例共享）/ memory（进程内，重启丢失）
+ * - 只存储 refresh token 的哈希，不存储明文
+ * - 每个会话即一个 token 家族：刷新 token 时在同一会话上轮换 tokenHash，sessionId / familyId 保持不变
+ */
+const SESSION_STORE = process.env.SESSION_STORE || 'mysql';
+
+export interface SessionStore {
+  // 创建会话
+  create(data: Omit<UserSessionInfo, 'sessionId' | 'lastUsedAt' | 'createdAt' | 'isCurrent'>): Promise<UserSessionInfo>;
+  // 按 tokenHash 查询会话（不存在或已过期返回 null）
+  findByTokenHash(tokenHash: string): Promise<UserSessionInfo | null>;
+  // 按 familyId 查询会话（不存在或已过期返回 null）
+  findByFamilyId(familyId: string): Promise<UserSessionInfo | null>;
+  // 轮换会话的 tokenHash，并更新最近使用信息
+  // 仅当当前 tokenHash 等于 currentTokenHash 时轮换，返回是否轮换成功（并发刷新时只有一个成功）
+  rotate(sessionId: number, currentTokenHash: string, data: Pick<UserSessionInfo, 'tokenHash' | 'expiresAt' | 'userAgent' | 'ipAddress'>): Promise<boolean>;
+  // 获取用户的有效会话列表（按最近使用时间倒序）
+  listByUser(userId: number): Promise<UserSessionInfo[]>;
+  // 删除会话（传入 userId 时仅删除该用户的会话），返回是否删除成功
+  remove(sessionId: number, userId?: number): Promise<boolean>;
+  // 删除用户的全部会话，返回删除数量
+  removeByUser(userId: number): Promise<number>;
+  // 清理过期会话，返回删除数量
+  removeExpired(): Promise<number>;
+}
+
+/**
+ * 创建进程内会话存储
+ * 仅适用于单实例开发环境
+ */
+function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<number, UserSessionInfo>();
+  let nextSessionId = 1;
+
+  const isExpired = (session: UserSessionInfo) => new Date(session.expiresAt!).getTime() <= Date.now();
+
+  return {
+    async create(data) {
+      const now = new Date();
+      const session: UserSessionInfo = { ...data, sessionId: nextSessionId++, lastUsedAt: now, createdAt: now };
+      sessions.set(session.sessionId!, session);
+      return { ...session };
+    },
+
+    async findByTokenHash(tokenHash) {
+      for (const session of sessions.values()) {
+        if (session.tokenHash !== tokenHash) continue;
+        if (isExpired(session)) {
+          sessions.delete(session.sessionId!);
+          return null;
+        }
+        return { ...session };
+      }
+      return null;
+    },
+
+    async findByFamilyId(familyId) {
+      for (const session of sessions.values()) {
+        if (session.familyId !== familyId) continue;
+        if (isExpired(session)) {
+          sessions.delete(session.sessionId!);
+          return null;
+        }
+        return { ...session };
+      }
+      return null;
+    },
+
+    async rotate(sessionId, currentTokenHash, data) {
+      const session = sessions.get(sessionId);
+      if (!session || session.tokenHash !== currentTokenHash) return false;
+      sessions.set(sessionId, { ...session, ...data, lastUsedAt: new Date() });
+      return true;
+    },
+
+    async listByUser(userId) {
+      return Array.from(sessions.values())
+        .filter(session => session.userId === userId && !isExpired(session))
+        .sort((a, b) => new Date(b.lastUsedAt!).getTime() - new Date(a.lastUsedAt!).getTime())
+        .map(session => ({ ...session }));
+    },
+
+    async remove(sessionId, userId) {
+      const session = sessions.get(sessionId);
+      if (!session || (userId && session.userId !== userId)) return false;
+      return sessions.delete(sessionId);
+    },
+
+    async removeByUser(userId) {
+      let count = 0;
+      for (const [sessionId, session] of sessions) {
+        if (session.userId === userId) {
+          sessions.delete(sessionId);
+          count++;
+        }
+      }
+      return count;
+    },
+
+    async removeExpired() {
+      let count = 0;
+      for (const [sessionId, session] of sessions) {
+        if (isExpired(session)) {
+          sessions.delete(sessionId);
+          count++;
+        }
+      }
+      return count;
+    },
+  };
+}
+
+/**
+ * 创建 MySQL 会话存储
+ * 会话持久化到 userSession 表，多实例共享
+ */
+function createMySQLSessionStore(): SessionStore {
+  const findValidSession = async (conditions: Partial<UserSessionInfo>) => {
+    const session = await getUserSession(conditions);
+    if (!session) return null;
+    if (new Date(session.expiresAt!).getTime() <= Date.now()) {
+      await deleteUserSession(session.sessionId!);
+      return null;
+    }
+    return session;
+  };
+
+  return {
+    async create(data) {
+      return postUserSession(data);
+    },
+
+    async findByTokenHash(tokenHash) {
+      return findValidSession({ tokenHash });
+    },
+
+    async findByFamilyId(familyId) {
+      return findValidSession({ familyId });
+    },
+
+    async rotate(sessionId, currentTokenHash, data) {
+      return (await putUserSession(sessionId, { ...data, lastUsedAt: new Date() }, currentTokenHash)) > 0;
+    },
+
+    async listByUser(userId) {
+      return getUserSessionList(userId);
+    },
+
+    async remove(sessionId, userId) {
+      return (await deleteUserSession(sessionId, userId)) > 0;
+    },
+
+    async removeByUser(userId) {
+      return deleteUserSessionsByUser(userId);
+    },
+
+    async removeExpired() {
+      return deleteExpiredUserSessions();
+    },
+  };
+}
+
+export const sessionStore: SessionStore = SESSION_STORE === 'memory'
+  ? createMemorySessionStore()
+  : createMySQLSessionStore();
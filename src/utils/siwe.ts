@@ -0,0 +1,117 @@
+import { ethers } from 'ethers';
+import type { SiweMessageFields } from '../types/siweType';
+
+/*
+ * Sign-In with Ethereum（EIP-4361）消息构建与解析
+ * 消息格式：
+ *   ${domain} wants you to sign in with your Ethereum account:
+ *   ${address}
+ *
+ *   ${statement}
+ *
+ *   URI: ${uri}
+ *   Version: 1
+ *   Chain ID: ${chainId}
+ *   Nonce: ${nonce}
+ *   Issued At: ${issuedAt}
+ *   Expiration Time: ${expirationTime}
+ */
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/**
+ * 构建 SIWE 消息
+ * @param fields 消息字段
+ * @returns 待签名的消息文本
+ */
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address, ''];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 解析 SIWE 消息
+ * @param message 消息文本
+ * @returns 消息字段，格式不正确则返回 null
+ */
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split('\n');
+  if (lines.length < 8 || !lines[0].endsWith(HEADER_SUFFIX) || lines[2] !== '') {
+    return null;
+  }
+
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+  const address = lines[1];
+  if (!domain || !ethers.isAddress(address)) {
+    return null;
+  }
+
+  // statement 可选：第 4 行不是 "URI: " 开头时视为 statement，后面必须跟一个空行
+  let index = 3;
+  let statement: string | undefined;
+  if (!lines[index].startsWith('URI: ')) {
+    statement = lines[index];
+    if (lines[index + 1] !== '') return null;
+    index += 2;
+  }
+
+  const fields: Record<string, string> = {};
+  const tagMap: Record<string, string> = {
+    'URI': 'uri',
+    'Version': 'version',
+    'Chain ID': 'chainId',
+    'Nonce': 'nonce',
+    'Issued At': 'issuedAt',
+    'Expiration Time': 'expirationTime',
+  };
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(': ');
+    if (separator < 0) return null;
+    const key = tagMap[line.slice(0, separator)];
+    if (!key || fields[key] !== undefined) return null;
+    fields[key] = line.slice(separator + 2);
+  }
+
+  const chainId = Number(fields.chainId);
+  if (!fields.uri || fields.version !== '1' || !Number.isInteger(chainId) || chainId <= 0 || !fields.nonce || !fields.issuedAt) {
+    return null;
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields.uri,
+    version: fields.version,
+    chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+  };
+}
+
+/**
+ * 恢复 SIWE 消息签名者地址（EIP-191 personal_sign）
+ * @param message 消息文本
+ * @param signature 签名
+ * @returns 签名者地址，签名无效则返回 null
+ */
+export function recoverSiweSigner(message: string, signature: string): string | null {
+  try {
+    return ethers.verifyMessage(message, signature);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import type { SiweNonce } from '../types/siweType';
+import {
+  postSiweNonce,
+  getSiweNonce as getStoredSiweNonce,
+  deleteSiweNonce,
+  deleteExpiredSiweNonces,
+} from '../models/siweNonceModel';
+
+/*
+ * SIWE nonce 存储
+ * - 通过 SIWE_NONCE_STORE 选择实现：mysql（默认，持久化、多实例共享）/ memory（进程内，重启丢失）
+ * - nonce 有效期短，过期后读取即删除，并定时清理
+ * - 消费是原子的：按 nonce 删除，只有一个请求能消费成功（其他实例上的重放同样会被拒绝）
+ */
+const SIWE_NONCE_STORE = process.env.SIWE_NONCE_STORE || 'mysql';
+const SIWE_NONCE_CLEANUP_INTERVAL_MS = Number(process.env.SIWE_NONCE_CLEANUP_INTERVAL_MS || 60 * 1000);
+
+export interface SiweNonceStore {
+  // 保存 nonce
+  save(record: SiweNonce): Promise<void>;
+  // 获取 nonce（不存在返回 null，不校验有效期）
+  get(nonce: string): Promise<SiweNonce | null>;
+  // 删除 nonce，返回是否删除成功
+  remove(nonce: string): Promise<boolean>;
+  // 清理已过期的 nonce，返回删除数量
+  removeExpired(nowMs: number): Promise<number>;
+}
+
+/**
+ * 创建进程内 nonce 存储
+ * 仅适用于单实例开发环境
+ */
+function createMemorySiweNonceStore(): SiweNonceStore {
+  const nonces = new Map<string, SiweNonce>();
+
+  return {
+    async save(record) {
+      nonces.set(record.nonce, record);
+    },
+
+    async get(nonce) {
+      return nonces.get(nonce) ?? null;
+    },
+
+    async remove(nonce) {
+      return nonces.delete(nonce);
+    },
+
+    async removeExpired(nowMs) {
+      let count = 0;
+      for (const [nonce, record] of nonces) {
+        if (record.expiresAtMs <= nowMs) {
+          nonces.delete(nonce);
+          count++;
+        }
+      }
+      return count;
+    },
+  };
+}
+
+/**
+ * 创建 MySQL nonce 存储
+ * nonce 持久化到 siweNonce 表，多实例共享
+ */
+function createMySQLSiweNonceStore(): SiweNonceStore {
+  return {
+    async save(record) {
+      await postSiweNonce(record);
+    },
+
+    async get(nonce) {
+      return getStoredSiweNonce(nonce);
+    },
+
+    async remove(nonce) {
+      return (await deleteSiweNonce(nonce)) > 0;
+    },
+
+    async removeExpired(nowMs) {
+      return deleteExpiredSiweNonces(nowMs);
+    },
+  };
+}
+
+const store: SiweNonceStore = SIWE_NONCE_STORE === 'memory'
+  ? createMemorySiweNonceStore()
+  : createMySQLSiweNonceStore();
+
+const cleanupTimer = setInterval(() => {
+  store.removeExpired(Date.now()).catch(error => console.error('Siwe nonce cleanup failed:', error));
+}, SIWE_NONCE_CLEANUP_INTERVAL_MS);
+cleanupTimer.unref();
+
+/**
+ * 生成 SIWE nonce（EIP-4361 要求至少 8 位字母数字）
+ */
+export function generateSiweNonce(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * 存储 SIWE nonce
+ * @param record nonce 数据
+ */
+export async function saveSiweNonce(record: SiweNonce) {
+  await store.save(record);
+}
+
+/**
+ * 获取 SIWE nonce（不删除，已过期返回 undefined）
+ * @param nonce nonce
+ */
+export async function getSiweNonce(nonce: string) {
+  const record = await store.get(nonce);
+  if (!record) return undefined;
+  if (record.expiresAtMs <= Date.now()) {
+    await store.remove(nonce);
+    return undefined;
+  }
+  return record;
+}
+
+/**
+ * 消费 SIWE nonce（原子删除，防止重复使用）
+ * 并发请求消费同一 nonce 时只有一个返回 true
+ * @param nonce nonce
+ * @returns 是否消费成功
+ */
+export async function consumeSiweNonce(nonce: string) {
+  return store.remove(nonce);
+}
@@ -0,0 +1,52 @@
+import { WatchedSegment } from '../types/learningRecordType';
+
+/*
+ * 已观看区间（播放位置，单位秒）合并与覆盖率计算
+ * 区间按起点排序后合并重叠或首尾相接的区间，区间之间的空隙不计入覆盖时长
+ */
+
+/**
+ * 合并已观看区间
+ * @param segments 区间列表（可无序、可重叠）
+ * @returns 排序且互不重叠的区间列表
+ */
+export function mergeWatchedSegments(segments: WatchedSegment[]): WatchedSegment[] {
+  const sorted = segments
+    .filter(segment => Number.isFinite(segment.start) && Number.isFinite(segment.end) && segment.end > segment.start)
+    .map(segment => ({ start: segment.start, end: segment.end }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: WatchedSegment[] = [];
+  for (const segment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && segment.start <= last.end) {
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      merged.push(segment);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 计算区间覆盖的总时长（秒）
+ * @param segments 已合并的区间列表
+ * @param limit 覆盖范围上限（资源时长），超出部分不计
+ */
+export function getCoveredSeconds(segments: WatchedSegment[], limit: number = Infinity): number {
+  return segments.reduce((sum, segment) => {
+    const end = Math.min(segment.end, limit);
+    return end > segment.start ? sum + (end - segment.start) : sum;
+  }, 0);
+}
+
+/**
+ * 计算区间与 [start, end) 的重叠时长（秒）
+ * @param segments 已合并的区间列表
+ */
+export function getOverlapSeconds(segments: WatchedSegment[], start: number, end: number): number {
+  return segments.reduce((sum, segment) => {
+    const overlap = Math.min(segment.end, end) - Math.max(segment.start, start);
+    return overlap > 0 ? sum + overlap : sum;
+  }, 0);
+}